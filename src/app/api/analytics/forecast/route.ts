@@ -0,0 +1,77 @@
+export const dynamic = 'force-dynamic';
+import { NextRequest, NextResponse } from 'next/server';
+import { revenueForecaster } from '../../../../services/RevenueForecaster';
+import { authorize } from '../../../../middleware/authorize';
+import Restaurant from '../../../../models/Restaurant';
+import { toLocalDate, addDays } from '../../../../utils/timezone';
+
+// Stored forecasts older than this are regenerated on read
+const MAX_FORECAST_AGE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * GET /api/analytics/forecast
+ * Hourly revenue and order forecasts with 80%/95% prediction intervals
+ *
+ * Query params:
+ * - days: number of days starting today (default: 14, max: 14)
+ */
+export async function GET(request: NextRequest) {
+  // Check authorization
+  const authCheck = await authorize('analytics:team', 'read')(request);
+  if (authCheck instanceof NextResponse) return authCheck;
+
+  const { user } = authCheck;
+
+  try {
+    const restaurantId = user.restaurantId;
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(14, Math.max(1, parseInt(searchParams.get('days') || '14') || 14));
+
+    const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings.timezone');
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const today = toLocalDate(new Date(), timezone);
+    const endDate = addDays(today, days - 1);
+
+    let forecasts = await revenueForecaster.getStoredForecasts(restaurantId, today, endDate);
+    const stale = forecasts.length < days ||
+      forecasts.some(f => Date.now() - f.generatedAt.getTime() > MAX_FORECAST_AGE_MS);
+
+    if (stale) {
+      await revenueForecaster.forecastRestaurant(restaurantId);
+      forecasts = await revenueForecaster.getStoredForecasts(restaurantId, today, endDate);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        startDate: today,
+        endDate,
+        forecasts
+      }
+    });
+
+  } catch (error: any) {
+    // Too little history is expected for new restaurants, not a server error
+    if (error.message?.startsWith('Need at least')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 422 }
+      );
+    }
+
+    console.error('Error generating forecast:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to generate forecast' },
+      { status: 500 }
+    );
+  }
+}
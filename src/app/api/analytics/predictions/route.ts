@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { correlationEngine } from '../../../../services/CorrelationEngine';
 import { locationService } from '../../../../services/LocationService';
 import { weatherService, eventsService, holidayService } from '../../../../services/ExternalDataService';
+import { forecastAccuracyService } from '../../../../services/ForecastAccuracyService';
 import { authorize } from '../../../../middleware/authorize';
 import Restaurant from '../../../../models/Restaurant';
 
@@ -12,6 +13,7 @@ import Restaurant from '../../../../models/Restaurant';
  *
  * Query params:
  * - date: ISO date string (default: tomorrow)
+ * - accuracyDays: days of scored prediction history to include (default: 30)
  */
 export async function GET(request: NextRequest) {
   // Check authorization
@@ -26,6 +28,7 @@ export async function GET(request: NextRequest) {
     // Get query params
     const { searchParams } = new URL(request.url);
     const dateParam = searchParams.get('date');
+    const accuracyDays = Math.min(365, Math.max(1, parseInt(searchParams.get('accuracyDays') || '30') || 30));
 
     // Default to tomorrow
     const predictionDate = dateParam ? new Date(dateParam) : new Date(Date.now() + 24 * 60 * 60 * 1000);
@@ -73,11 +76,19 @@ export async function GET(request: NextRequest) {
       holiday: holiday || undefined
     });
 
+    // How past predictions held up against actual sales
+    const accuracy = await forecastAccuracyService.getAccuracyHistory(
+      restaurantId,
+      new Date(Date.now() - accuracyDays * 24 * 60 * 60 * 1000),
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    );
+
     return NextResponse.json({
       success: true,
       data: {
         predictionDate,
         predictions,
+        accuracy,
         externalFactors: {
           weather,
           events: events.slice(0, 5), // Top 5 events
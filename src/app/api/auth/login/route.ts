@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import { AuthService } from '@/services/AuthService';
-import { decryptToastCredentials } from '@/utils/toastEncryption';
-import { enqueueSyncJob } from '@/lib/mongoQueue';
+import { autoSyncScheduler } from '@/services/AutoSyncScheduler';
 import { POSSystemType } from '@/models/Restaurant';
 
+// POS types with a sync adapter the worker can run
+const AUTO_SYNC_POS_TYPES: string[] = [POSSystemType.TOAST, POSSystemType.SQUARE, POSSystemType.CLOVER];
+
 /**
  * POST /api/auth/login
  * Authenticate user and return tokens
@@ -83,71 +85,42 @@ export async function POST(req: NextRequest) {
 }
 
 /**
- * Handle automatic Toast POS sync on login
- * If user has Toast credentials stored with syncInterval='on_login',
- * automatically trigger a sync job to pull new data since last login
+ * Handle automatic POS sync on login
+ * If the restaurant's syncInterval is 'on_login', enqueue an incremental
+ * sync job to pull new data since the last sync (unless one is already running)
  */
 async function handleAutoSync(user: any): Promise<void> {
-  // Check if user has Toast POS configured
   const posConfig = user.posConfig;
 
-  if (!posConfig || posConfig.type !== POSSystemType.TOAST) {
-    return; // No Toast POS configured
+  if (!posConfig || !AUTO_SYNC_POS_TYPES.includes(posConfig.type)) {
+    return; // No supported POS configured
   }
 
   if (posConfig.syncInterval !== 'on_login') {
     return; // Auto-sync not enabled
   }
 
-  if (!posConfig.isActive || !posConfig.clientId || !posConfig.encryptedClientSecret || !posConfig.locationId) {
-    console.log('⚠️ Auto-sync skipped: Missing credentials', {
-      hasClientId: !!posConfig.clientId,
-      hasEncryptedClientSecret: !!posConfig.encryptedClientSecret,
-      hasLocationId: !!posConfig.locationId,
+  if (!posConfig.isConnected || posConfig.isActive === false) {
+    console.log('⚠️ Auto-sync skipped: POS not connected', {
+      isConnected: posConfig.isConnected,
       isActive: posConfig.isActive
     });
-    return; // Missing credentials
+    return;
   }
 
   console.log(`🔄 Auto-sync triggered for restaurant ${user._id}`);
 
   try {
-    // Decrypt stored credentials
-    const credentials = decryptToastCredentials({
-      clientId: posConfig.clientId,
-      encryptedClientSecret: posConfig.encryptedClientSecret,
-      locationId: posConfig.locationId
-    });
+    const jobId = await autoSyncScheduler.enqueueIfIdle(
+      String(user._id),
+      posConfig.type,
+      'on_login',
+      user.owner?.email
+    );
 
-    // Determine sync date range
-    const lastSyncDate = posConfig.lastSyncAt;
-    const now = new Date();
-
-    let startDate: Date;
-    let fullSync: boolean;
-
-    if (lastSyncDate) {
-      // Incremental sync: only get data since last sync
-      startDate = new Date(lastSyncDate);
-      fullSync = false;
-      console.log(`   Incremental sync from ${startDate.toISOString()}`);
-    } else {
-      // First-time sync: get last 30 days
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      fullSync = true;
-      console.log('   First-time sync: last 30 days');
+    if (jobId) {
+      console.log(`✅ Auto-sync job enqueued: ${jobId}`);
     }
-
-    // Enqueue background sync job (MongoDB-based queue)
-    const jobId = await enqueueSyncJob({
-      restaurantId: String(user._id),
-      posType: 'toast',
-      notificationEmail: user.owner.email
-    });
-
-    console.log(`✅ Auto-sync job enqueued: ${jobId}`);
-    console.log(`   Date range: ${startDate.toISOString()} to ${now.toISOString()}`);
-
   } catch (error) {
     console.error('Failed to trigger auto-sync:', error);
     throw error;
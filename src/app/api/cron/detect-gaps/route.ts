@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Restaurant from '../../../../models/Restaurant';
+import { gapDetectionService } from '../../../../services/GapDetectionService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron Job: Nightly Data Gap Detection
+ * Runs daily at 5 AM (configured in vercel.json)
+ *
+ * Finds business dates with missing transaction data and enqueues
+ * targeted re-sync jobs for the Mongo worker
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is from Vercel Cron (optional but recommended)
+    const authHeader = request.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('=== Starting Nightly Gap Detection ===');
+    const startTime = Date.now();
+
+    // Ensure MongoDB connection
+    if (mongoose.connection.readyState !== 1) {
+      await mongoose.connect(process.env.DATABASE_URL!);
+    }
+
+    const restaurants = await Restaurant.find({
+      'posConfig.isConnected': true,
+      'posConfig.initialSyncComplete': true
+    }).select('name');
+
+    console.log(`Found ${restaurants.length} synced restaurants`);
+
+    const results = {
+      processed: 0,
+      gapsFound: 0,
+      jobsEnqueued: 0,
+      errors: 0
+    };
+
+    for (const restaurant of restaurants) {
+      try {
+        const { gaps, jobIds } = await gapDetectionService.detectAndResync(String(restaurant._id));
+
+        results.processed++;
+        results.gapsFound += gaps.length;
+        results.jobsEnqueued += jobIds.length;
+
+      } catch (error: any) {
+        console.error(`Error checking ${restaurant.name}:`, error.message);
+        results.errors++;
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`Job complete in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Gap detection completed',
+      results,
+      duration: `${duration}ms`
+    });
+
+  } catch (error: any) {
+    console.error('Cron job error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import Restaurant from '../../../../models/Restaurant';
 import { correlationEngine } from '../../../../services/CorrelationEngine';
+import { weatherHistoryService } from '../../../../services/WeatherHistoryService';
 
 export const dynamic = 'force-dynamic';
 
@@ -56,6 +57,13 @@ export async function GET(request: NextRequest) {
         const restaurantId = String(restaurant._id);
         console.log(`Processing ${restaurant.name}...`);
 
+        // Keep a year of weather history stored (only new days are fetched)
+        try {
+          await weatherHistoryService.backfillRestaurant(restaurantId);
+        } catch (error: any) {
+          console.error(`Weather backfill failed for ${restaurant.name}:`, error.message);
+        }
+
         const result = await correlationEngine.discoverCorrelations(
           restaurantId,
           startDate,
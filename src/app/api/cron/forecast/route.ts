@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Restaurant from '../../../../models/Restaurant';
+import { revenueForecaster } from '../../../../services/RevenueForecaster';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron Job: Nightly Revenue Forecast
+ * Runs daily at 3 AM (configured in vercel.json)
+ *
+ * Refreshes the 14-day hourly revenue/order forecast for every synced
+ * restaurant. Each run adds a forecast per date at a new lead time, so a date
+ * collects forecasts made 13 days out down to the day itself
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is from Vercel Cron (optional but recommended)
+    const authHeader = request.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('=== Starting Nightly Forecast ===');
+    const startTime = Date.now();
+
+    // Ensure MongoDB connection
+    if (mongoose.connection.readyState !== 1) {
+      await mongoose.connect(process.env.DATABASE_URL!);
+    }
+
+    const restaurants = await Restaurant.find({
+      'posConfig.isConnected': true,
+      'posConfig.initialSyncComplete': true
+    }).select('name');
+
+    console.log(`Found ${restaurants.length} synced restaurants`);
+
+    const results = {
+      processed: 0,
+      daysForecast: 0,
+      skipped: 0,
+      errors: 0
+    };
+
+    for (const restaurant of restaurants) {
+      try {
+        const forecasts = await revenueForecaster.forecastRestaurant(String(restaurant._id));
+
+        results.processed++;
+        results.daysForecast += forecasts.length;
+
+      } catch (error: any) {
+        // Too little history is expected for new restaurants
+        if (error.message?.startsWith('Need at least')) {
+          results.skipped++;
+        } else {
+          console.error(`Error forecasting ${restaurant.name}:`, error.message);
+          results.errors++;
+        }
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`Job complete in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Forecast completed',
+      results,
+      duration: `${duration}ms`
+    });
+
+  } catch (error: any) {
+    console.error('Cron job error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
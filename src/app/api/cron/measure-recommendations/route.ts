@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { recommendationImpactService } from '../../../../services/RecommendationImpactService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron Job: Nightly Recommendation Impact Measurement
+ * Runs daily at 6:30 AM (configured in vercel.json), after the previous
+ * day's sales have been reconciled
+ *
+ * Measures implemented recommendations against matched pre/post windows
+ * and writes the realized impact back onto their insights
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is from Vercel Cron (optional but recommended)
+    const authHeader = request.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('=== Starting Recommendation Impact Measurement ===');
+    const startTime = Date.now();
+
+    // Ensure MongoDB connection
+    if (mongoose.connection.readyState !== 1) {
+      await mongoose.connect(process.env.DATABASE_URL!);
+    }
+
+    const results = await recommendationImpactService.measurePending();
+
+    const duration = Date.now() - startTime;
+    console.log(`Job complete in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Recommendation impact measurement completed',
+      results,
+      duration: `${duration}ms`
+    });
+
+  } catch (error: any) {
+    console.error('Cron job error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
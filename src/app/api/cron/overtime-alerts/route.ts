@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { overtimeAlertService } from '../../../../services/OvertimeAlertService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron Job: Overtime Risk Alerts
+ * Runs every 2 hours (configured in vercel.json) so projections follow
+ * clock-ins and schedule changes through the day
+ *
+ * Projects each employee's pay-week hours from time entries and upcoming
+ * shifts, and emails managers about newly raised overtime risks
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is from Vercel Cron (optional but recommended)
+    const authHeader = request.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('=== Starting Overtime Risk Check ===');
+    const startTime = Date.now();
+
+    // Ensure MongoDB connection
+    if (mongoose.connection.readyState !== 1) {
+      await mongoose.connect(process.env.DATABASE_URL!);
+    }
+
+    const results = await overtimeAlertService.checkAll();
+
+    const duration = Date.now() - startTime;
+    console.log(`Job complete in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Overtime risk check completed',
+      results,
+      duration: `${duration}ms`
+    });
+
+  } catch (error: any) {
+    console.error('Cron job error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
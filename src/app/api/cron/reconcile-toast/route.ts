@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Restaurant, { POSSystemType } from '../../../../models/Restaurant';
+import { reconciliationService } from '../../../../services/ReconciliationService';
+
+export const dynamic = 'force-dynamic';
+
+// Re-check a few days back so late edits (refunds, tip adjustments) are caught
+const LOOKBACK_DAYS = 3;
+
+/**
+ * Cron Job: Nightly Toast Reconciliation
+ * Runs daily at 4 AM (configured in vercel.json)
+ *
+ * Compares Toast totals for recent business dates against stored transactions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is from Vercel Cron (optional but recommended)
+    const authHeader = request.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('=== Starting Nightly Toast Reconciliation ===');
+    const startTime = Date.now();
+
+    // Ensure MongoDB connection
+    if (mongoose.connection.readyState !== 1) {
+      await mongoose.connect(process.env.DATABASE_URL!);
+    }
+
+    const restaurants = await Restaurant.find({
+      'posConfig.type': POSSystemType.TOAST,
+      'posConfig.isConnected': true
+    }).select('name');
+
+    console.log(`Found ${restaurants.length} connected Toast restaurants`);
+
+    const results = {
+      processed: 0,
+      datesChecked: 0,
+      discrepancies: 0,
+      errors: 0
+    };
+
+    for (const restaurant of restaurants) {
+      try {
+        const reconciliations = await reconciliationService.reconcileRecentDays(String(restaurant._id), LOOKBACK_DAYS);
+
+        results.processed++;
+        results.datesChecked += reconciliations.length;
+        results.discrepancies += reconciliations.filter(r => r.status === 'discrepancy').length;
+        results.errors += reconciliations.filter(r => r.status === 'error').length;
+
+      } catch (error: any) {
+        console.error(`Error reconciling ${restaurant.name}:`, error.message);
+        results.errors++;
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`Job complete in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Toast reconciliation completed',
+      results,
+      duration: `${duration}ms`
+    });
+
+  } catch (error: any) {
+    console.error('Cron job error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
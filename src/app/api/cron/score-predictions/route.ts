@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import PredictionRecord from '../../../../models/PredictionRecord';
+import { forecastAccuracyService } from '../../../../services/ForecastAccuracyService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron Job: Nightly Prediction Scoring
+ * Runs daily at 6 AM (configured in vercel.json), after Toast reconciliation
+ * and gap detection have filled in the previous day's sales
+ *
+ * Scores stored predictions against actual transaction totals
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is from Vercel Cron (optional but recommended)
+    const authHeader = request.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('=== Starting Nightly Prediction Scoring ===');
+    const startTime = Date.now();
+
+    // Ensure MongoDB connection
+    if (mongoose.connection.readyState !== 1) {
+      await mongoose.connect(process.env.DATABASE_URL!);
+    }
+
+    const restaurantIds = await PredictionRecord.distinct('restaurantId', { scoredAt: { $exists: false } });
+
+    console.log(`Found ${restaurantIds.length} restaurants with unscored predictions`);
+
+    const results = {
+      processed: 0,
+      scored: 0,
+      pending: 0,
+      errors: 0
+    };
+
+    for (const restaurantId of restaurantIds) {
+      try {
+        const { scored, pending } = await forecastAccuracyService.scoreRestaurant(String(restaurantId));
+
+        results.processed++;
+        results.scored += scored;
+        results.pending += pending;
+
+      } catch (error: any) {
+        console.error(`Error scoring predictions for ${restaurantId}:`, error.message);
+        results.errors++;
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`Job complete in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Prediction scoring completed',
+      results,
+      duration: `${duration}ms`
+    });
+
+  } catch (error: any) {
+    console.error('Cron job error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
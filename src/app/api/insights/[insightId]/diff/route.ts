@@ -0,0 +1,89 @@
+export const dynamic = 'force-dynamic';
+
+/**
+ * Insight Version Diff API
+ *
+ * GET /api/insights/[id]/diff?compareTo=<insightId>
+ * Compares an insight with the version it follows (or `compareTo`):
+ * findings that are new, resolved, worsened, improved or unchanged, plus the
+ * version history of the chain
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import Insight from '@/models/Insight';
+import connectDB from '@/lib/mongodb';
+import { insightVersioningService } from '@/services/InsightVersioningService';
+import { Types } from 'mongoose';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { insightId: string } }
+) {
+  const authResult = await authorize('insights', 'read')(request);
+  if (authResult instanceof NextResponse) {
+    return authResult;
+  }
+  const { user } = authResult;
+
+  try {
+    await connectDB();
+
+    const insightId = params.insightId;
+    const compareTo = request.nextUrl.searchParams.get('compareTo');
+
+    if (!Types.ObjectId.isValid(insightId) || (compareTo && !Types.ObjectId.isValid(compareTo))) {
+      return NextResponse.json(
+        { error: 'Invalid insight ID' },
+        { status: 400 }
+      );
+    }
+
+    const [insight, previous] = await Promise.all([
+      Insight.findById(insightId),
+      compareTo ? Insight.findById(compareTo) : Promise.resolve(null)
+    ]);
+
+    if (!insight || (compareTo && !previous)) {
+      return NextResponse.json(
+        { error: 'Insight not found' },
+        { status: 404 }
+      );
+    }
+
+    if (
+      insight.restaurantId.toString() !== user.restaurantId ||
+      (previous && previous.restaurantId.toString() !== user.restaurantId)
+    ) {
+      return NextResponse.json(
+        { error: 'Access denied to this insight' },
+        { status: 403 }
+      );
+    }
+
+    const [diff, history] = await Promise.all([
+      insightVersioningService.diff(insight, previous),
+      insightVersioningService.getHistory(insight)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        diff, // null for the first version of a chain
+        history
+      }
+    });
+
+  } catch (error) {
+    console.error('Insight diff error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compare insight versions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { authorize } from '@/middleware/authorize';
 import Insight, { InsightStatus } from '@/models/Insight';
 import connectDB from '@/lib/mongodb';
+import { recommendationImpactService } from '@/services/RecommendationImpactService';
 import { Types } from 'mongoose';
 
 export const runtime = 'nodejs';
@@ -82,6 +83,8 @@ export async function GET(
 /**
  * PATCH /api/insights/[id]
  * Update insight (mark recommendation as implemented, etc.)
+ *
+ * Actions: implement_recommendation, measure_impact, track_viewing_time, dismiss
  */
 export async function PATCH(
   request: NextRequest,
@@ -132,6 +135,19 @@ export async function PATCH(
       });
     }
 
+    // Re-measure realized impact of implemented recommendations now
+    // (normally done nightly once enough post-implementation data exists)
+    if (body.action === 'measure_impact') {
+      const measured = await recommendationImpactService.measureInsight(insight, true);
+      return NextResponse.json({
+        success: true,
+        message: measured > 0
+          ? `Measured impact of ${measured} recommendation${measured === 1 ? '' : 's'}`
+          : 'Not enough data since implementation to measure impact yet',
+        data: insight
+      });
+    }
+
     // Handle viewing time tracking
     if (body.action === 'track_viewing_time') {
       await insight.markAsViewed(body.viewingTime);
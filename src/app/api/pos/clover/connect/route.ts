@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import Restaurant, { POSSystemType } from '@/models/Restaurant';
+import SyncJob from '@/models/SyncJob';
+import { enqueueSyncJob } from '@/lib/mongoQueue';
+import { encryptCloverCredentials } from '@/utils/cloverEncryption';
+import { cloverIntegration } from '@/services/CloverIntegration';
+import connectDB from '@/lib/mongodb';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/pos/clover/connect
+ * Connect Clover POS with an API access token and merchant ID (JWT authenticated)
+ *
+ * Verifies the token against the Clover Merchants API before storing it,
+ * then enqueues a background sync job for the Mongo worker.
+ */
+export async function POST(request: NextRequest) {
+  const authCheck = await authorize('pos:manage', 'create')(request);
+  if (authCheck instanceof NextResponse) return authCheck;
+
+  const { user } = authCheck;
+
+  try {
+    await connectDB();
+
+    const body = await request.json();
+    const { accessToken, merchantId } = body;
+
+    if (!accessToken || !merchantId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: accessToken, merchantId' },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await Restaurant.findById(user.restaurantId);
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify credentials before saving them
+    let merchant;
+    try {
+      merchant = await cloverIntegration.authenticateRestaurant({ accessToken, merchantId });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Invalid Clover credentials', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const encryptedCredentials = encryptCloverCredentials({ accessToken, merchantId });
+
+    restaurant.posConfig = {
+      type: POSSystemType.CLOVER,
+      isConnected: false, // Will be set to true after first successful sync
+      encryptedAccessToken: encryptedCredentials.accessToken,
+      locationId: encryptedCredentials.merchantId, // Clover merchant ID
+      syncInterval: 'on_login',
+      isActive: true
+    };
+
+    await restaurant.save();
+
+    const jobId = await enqueueSyncJob({
+      restaurantId: user.restaurantId,
+      posType: 'clover',
+      options: { fullSync: true },
+      notificationEmail: user.email
+    });
+
+    const syncJob = await SyncJob.findOne({ jobId });
+
+    console.log(`✅ Clover connection initiated for restaurant ${user.restaurantId} (merchant ${merchant.name})`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        message: 'Initial sync started. Pulling the last 6 months of data...',
+        merchant: {
+          id: merchant.id,
+          name: merchant.name
+        },
+        syncJob: {
+          id: String(syncJob._id),
+          jobId,
+          status: 'pending'
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Clover connection error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to connect Clover POS' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/pos/clover/connect
+ * Disconnect Clover POS
+ */
+export async function DELETE(request: NextRequest) {
+  const authCheck = await authorize('pos:manage', 'delete')(request);
+  if (authCheck instanceof NextResponse) return authCheck;
+
+  const { user } = authCheck;
+
+  try {
+    await connectDB();
+
+    const restaurant = await Restaurant.findById(user.restaurantId);
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    restaurant.posConfig = {
+      type: POSSystemType.OTHER,
+      isConnected: false,
+      isActive: false
+    };
+
+    await restaurant.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Clover POS disconnected successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error disconnecting Clover:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to disconnect Clover POS' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/pos/clover/connect
+ * Check if user's Clover is connected
+ */
+export async function GET(request: NextRequest) {
+  const authCheck = await authorize('pos:manage', 'read')(request);
+  if (authCheck instanceof NextResponse) return authCheck;
+
+  const { user } = authCheck;
+
+  try {
+    await connectDB();
+
+    const restaurant = await Restaurant.findById(user.restaurantId);
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        isConnected: restaurant.posConfig?.isConnected && restaurant.posConfig?.type === POSSystemType.CLOVER,
+        posType: restaurant.posConfig?.type,
+        lastSyncAt: restaurant.posConfig?.lastSyncAt?.toISOString(),
+        merchantId: restaurant.posConfig?.locationId,
+        syncInterval: restaurant.posConfig?.syncInterval || 'manual',
+        hasRequiredCredentials: !!(
+          restaurant.posConfig?.encryptedAccessToken &&
+          restaurant.posConfig?.locationId
+        )
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error checking Clover connection:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to check connection status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import connectDB from '@/lib/mongodb';
+import Restaurant from '@/models/Restaurant';
+import { gapDetectionService } from '@/services/GapDetectionService';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_LOOKBACK_DAYS = 365;
+
+function parseLookback(value: unknown): number {
+  return Math.min(Math.max(parseInt(String(value)) || 60, 1), MAX_LOOKBACK_DAYS);
+}
+
+/**
+ * GET /api/pos/gaps
+ * Preview business dates with missing or anomalously low transaction data
+ *
+ * Query: days (lookback, default 60)
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await authorize('pos:manage', 'read')(request);
+  if (authResult instanceof NextResponse) return authResult;
+  const { user } = authResult;
+
+  try {
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const lookbackDays = parseLookback(searchParams.get('days'));
+
+    const restaurant = await Restaurant.findById(user.restaurantId).select('analyticsSettings.timezone');
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    const gaps = await gapDetectionService.detectGaps(user.restaurantId, lookbackDays);
+    const ranges = gapDetectionService.toRanges(gaps, restaurant.analyticsSettings?.timezone || 'America/New_York');
+
+    return NextResponse.json({
+      success: true,
+      data: { lookbackDays, gaps, ranges }
+    });
+
+  } catch (error: any) {
+    console.error('Error detecting data gaps:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to detect data gaps' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/pos/gaps
+ * Detect gaps and enqueue targeted re-sync jobs for them
+ *
+ * Body: { days?: number } (lookback, default 60)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authorize('pos:manage', 'update')(request);
+  if (authResult instanceof NextResponse) return authResult;
+  const { user } = authResult;
+
+  try {
+    await connectDB();
+
+    const body = await request.json().catch(() => ({}));
+    const result = await gapDetectionService.detectAndResync(user.restaurantId, parseLookback(body.days));
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error: any) {
+    console.error('Error enqueuing gap re-syncs:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to enqueue gap re-syncs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import Restaurant, { POSSystemType } from '@/models/Restaurant';
+import SyncJob from '@/models/SyncJob';
+import { enqueueSyncJob } from '@/lib/mongoQueue';
+import { encryptSquareCredentials } from '@/utils/squareEncryption';
+import { squareIntegration } from '@/services/SquareIntegration';
+import connectDB from '@/lib/mongodb';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/pos/square/connect
+ * Connect Square POS with an access token and location ID (JWT authenticated)
+ *
+ * Verifies the token against the Square Locations API before storing it,
+ * then enqueues a background sync job for the Mongo worker.
+ */
+export async function POST(request: NextRequest) {
+  const authCheck = await authorize('pos:manage', 'create')(request);
+  if (authCheck instanceof NextResponse) return authCheck;
+
+  const { user } = authCheck;
+
+  try {
+    await connectDB();
+
+    const body = await request.json();
+    const { accessToken, refreshToken, locationId } = body;
+
+    if (!accessToken || !locationId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: accessToken, locationId' },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await Restaurant.findById(user.restaurantId);
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify credentials before saving them
+    let location;
+    try {
+      location = await squareIntegration.authenticateRestaurant({ accessToken, locationId });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Invalid Square credentials', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const encryptedCredentials = encryptSquareCredentials({ accessToken, refreshToken, locationId });
+
+    restaurant.posConfig = {
+      type: POSSystemType.SQUARE,
+      isConnected: false, // Will be set to true after first successful sync
+      encryptedAccessToken: encryptedCredentials.accessToken,
+      encryptedRefreshToken: encryptedCredentials.refreshToken,
+      locationId: encryptedCredentials.locationId,
+      syncInterval: 'on_login',
+      isActive: true
+    };
+
+    await restaurant.save();
+
+    const jobId = await enqueueSyncJob({
+      restaurantId: user.restaurantId,
+      posType: 'square',
+      options: { fullSync: true },
+      notificationEmail: user.email
+    });
+
+    const syncJob = await SyncJob.findOne({ jobId });
+
+    console.log(`✅ Square connection initiated for restaurant ${user.restaurantId} (location ${location.name})`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        message: 'Initial sync started. Pulling the last 6 months of data...',
+        location: {
+          id: location.id,
+          name: location.name,
+          timezone: location.timezone
+        },
+        syncJob: {
+          id: String(syncJob._id),
+          jobId,
+          status: 'pending'
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Square connection error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to connect Square POS' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/pos/square/connect
+ * Disconnect Square POS
+ */
+export async function DELETE(request: NextRequest) {
+  const authCheck = await authorize('pos:manage', 'delete')(request);
+  if (authCheck instanceof NextResponse) return authCheck;
+
+  const { user } = authCheck;
+
+  try {
+    await connectDB();
+
+    const restaurant = await Restaurant.findById(user.restaurantId);
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    restaurant.posConfig = {
+      type: POSSystemType.OTHER,
+      isConnected: false,
+      isActive: false
+    };
+
+    await restaurant.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Square POS disconnected successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Error disconnecting Square:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to disconnect Square POS' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/pos/square/connect
+ * Check if user's Square is connected
+ */
+export async function GET(request: NextRequest) {
+  const authCheck = await authorize('pos:manage', 'read')(request);
+  if (authCheck instanceof NextResponse) return authCheck;
+
+  const { user } = authCheck;
+
+  try {
+    await connectDB();
+
+    const restaurant = await Restaurant.findById(user.restaurantId);
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: 'Restaurant not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        isConnected: restaurant.posConfig?.isConnected && restaurant.posConfig?.type === POSSystemType.SQUARE,
+        posType: restaurant.posConfig?.type,
+        lastSyncAt: restaurant.posConfig?.lastSyncAt?.toISOString(),
+        locationId: restaurant.posConfig?.locationId,
+        syncInterval: restaurant.posConfig?.syncInterval || 'manual',
+        hasRequiredCredentials: !!(
+          restaurant.posConfig?.encryptedAccessToken &&
+          restaurant.posConfig?.locationId
+        )
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error checking Square connection:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to check connection status' },
+      { status: 500 }
+    );
+  }
+}
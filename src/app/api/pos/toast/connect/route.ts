@@ -5,6 +5,7 @@ import SyncJob from '../../../../../models/SyncJob';
 import { enqueueSyncJob } from '../../../../../lib/mongoQueue';
 import { encryptToastCredentials } from '../../../../../utils/toastEncryption';
 import connectDB from '../../../../../lib/mongodb';
+import { toastTokenManager } from '../../../../../services/ToastTokenManager';
 
 /**
  * POST /api/pos/toast/connect
@@ -154,6 +155,9 @@ export async function POST(request: NextRequest) {
 
     await restaurant.save();
 
+    // Tokens cached for the previous credentials are no longer valid
+    await toastTokenManager.invalidate(user.restaurantId);
+
     // Re-fetch to verify
     const savedRestaurant = await Restaurant.findById(restaurant._id);
     console.log('After save verification:', {
@@ -233,6 +237,9 @@ export async function DELETE(request: NextRequest) {
 
     await restaurant.save();
 
+    // Tokens cached for the previous credentials are no longer valid
+    await toastTokenManager.invalidate(user.restaurantId);
+
     console.log(`❌ Toast POS disconnected for restaurant ${user.restaurantId}`);
 
     return NextResponse.json({
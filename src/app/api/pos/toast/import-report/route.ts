@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import connectDB from '@/lib/mongodb';
+import SalesReport from '@/models/SalesReport';
+import { toastReportImport } from '@/services/ToastReportImport';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Toast sales summary exports are a few KB; anything this large isn't one
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+/**
+ * POST /api/pos/toast/import-report
+ * Import a Toast Sales Summary export (multipart form, field "files").
+ * Accepts the SalesSummary_<start>_<end>.zip or the individual CSVs from it.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authorize('pos:manage', 'create')(request);
+  if (authResult instanceof NextResponse) return authResult;
+  const { user } = authResult;
+
+  try {
+    await connectDB();
+
+    const formData = await request.formData();
+    const uploads = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { error: 'No files uploaded', details: 'Attach the Toast export as form field "files"' },
+        { status: 400 }
+      );
+    }
+
+    const totalSize = uploads.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: 'Upload too large', details: `Maximum upload size is ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB` },
+        { status: 413 }
+      );
+    }
+
+    const files = await Promise.all(uploads.map(async file => ({
+      name: file.name,
+      data: Buffer.from(await file.arrayBuffer())
+    })));
+
+    let result;
+    try {
+      result = await toastReportImport.importReport(user.restaurantId, files, {
+        fileName: files.length === 1 ? files[0].name : undefined,
+        importedBy: user.userId
+      });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Could not import Toast report', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reportId: String(result.report._id),
+        periodStart: result.report.periodStart.toISOString(),
+        periodEnd: result.report.periodEnd.toISOString(),
+        daysImported: result.daysImported,
+        summary: result.report.summary,
+        filesParsed: result.report.filesParsed,
+        filesSkipped: result.report.filesSkipped
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Toast report import error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to import Toast report' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/pos/toast/import-report
+ * List imported report periods for the user's restaurant
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await authorize('pos:manage', 'read')(request);
+  if (authResult instanceof NextResponse) return authResult;
+  const { user } = authResult;
+
+  try {
+    await connectDB();
+
+    const reports = await SalesReport.find({ restaurantId: user.restaurantId })
+      .select('fileName periodStart periodEnd summary filesParsed createdAt')
+      .sort({ periodEnd: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: reports.map(report => ({
+        id: String(report._id),
+        fileName: report.fileName,
+        periodStart: report.periodStart,
+        periodEnd: report.periodEnd,
+        summary: report.summary,
+        filesParsed: report.filesParsed,
+        importedAt: report.createdAt
+      }))
+    });
+
+  } catch (error: any) {
+    console.error('Error listing Toast report imports:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list report imports' },
+      { status: 500 }
+    );
+  }
+}
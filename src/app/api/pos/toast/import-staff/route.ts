@@ -4,6 +4,8 @@ import connectDB from '@/lib/mongodb';
 import Restaurant from '@/models/Restaurant';
 import { decryptToastCredentials } from '@/utils/toastEncryption';
 import { UserRole } from '@/models/Restaurant';
+import { toastTokenManager } from '@/services/ToastTokenManager';
+import { toastApiClient } from '@/services/ToastApiClient';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -53,50 +55,36 @@ export async function POST(request: NextRequest) {
     });
 
     // Get Toast access token
-    const tokenResponse = await fetch('https://ws-api.toasttab.com/authentication/v1/authentication/login', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        clientId: credentials.clientId,
-        clientSecret: credentials.clientSecret,
-        userAccessType: 'TOAST_MACHINE_CLIENT'
-      })
-    });
-
-    if (!tokenResponse.ok) {
-      console.error('Toast authentication failed:', await tokenResponse.text());
+    let access_token: string;
+    try {
+      access_token = await toastTokenManager.getAccessToken(user.restaurantId);
+    } catch (error: any) {
+      console.error('Toast authentication failed:', error.message);
       return NextResponse.json(
         { error: 'Failed to authenticate with Toast' },
         { status: 500 }
       );
     }
 
-    const tokenData = await tokenResponse.json();
-    const access_token = tokenData.token?.accessToken || tokenData.access_token;
-
-    // Fetch employees from Toast
-    const employeesResponse = await fetch(
-      `https://ws-api.toasttab.com/labor/v1/employees?restaurantGuid=${credentials.locationGuid}`,
-      {
+    // Fetch employees from Toast (shared client: rate limited + retried)
+    let toastEmployees: any[];
+    try {
+      const employeesResponse = await toastApiClient.http.get('/labor/v1/employees', {
         headers: {
           'Authorization': `Bearer ${access_token}`,
           'Toast-Restaurant-External-ID': credentials.locationGuid
-        }
-      }
-    );
-
-    if (!employeesResponse.ok) {
-      console.error('Toast employees fetch failed:', await employeesResponse.text());
+        },
+        params: { restaurantGuid: credentials.locationGuid }
+      });
+      toastEmployees = employeesResponse.data || [];
+    } catch (error: any) {
+      console.error('Toast employees fetch failed:', error.response?.data || error.message);
       return NextResponse.json(
         { error: 'Failed to fetch employees from Toast' },
         { status: 500 }
       );
     }
 
-    const toastEmployees = await employeesResponse.json();
-
     // Import employees into our system
     const importedStaff = [];
     const skippedStaff = [];
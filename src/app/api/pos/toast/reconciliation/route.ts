@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import connectDB from '@/lib/mongodb';
+import { reconciliationService } from '@/services/ReconciliationService';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_DAYS = 31;
+
+/**
+ * GET /api/pos/toast/reconciliation
+ * Stored Toast-vs-database reconciliation results, newest business date first
+ *
+ * Query: limit (default 30), status (matched | discrepancy | error)
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await authorize('pos:manage', 'read')(request);
+  if (authResult instanceof NextResponse) return authResult;
+  const { user } = authResult;
+
+  try {
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '30') || 30, 365);
+    const status = searchParams.get('status') as 'matched' | 'discrepancy' | 'error' | null;
+
+    const results = await reconciliationService.getResults(user.restaurantId, {
+      limit,
+      status: status || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        summary: {
+          checked: results.length,
+          matched: results.filter(r => r.status === 'matched').length,
+          discrepancies: results.filter(r => r.status === 'discrepancy').length,
+          errors: results.filter(r => r.status === 'error').length,
+          lastCheckedAt: results.reduce<Date | null>(
+            (latest, r) => (!latest || r.checkedAt > latest ? r.checkedAt : latest),
+            null
+          )
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching reconciliation results:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch reconciliation results' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/pos/toast/reconciliation
+ * Run reconciliation now
+ *
+ * Body: { businessDate?: 'yyyyMMdd' } for one date, or { days?: number } (default 7, max 31)
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authorize('pos:manage', 'update')(request);
+  if (authResult instanceof NextResponse) return authResult;
+  const { user } = authResult;
+
+  try {
+    await connectDB();
+
+    const body = await request.json().catch(() => ({}));
+
+    if (body.businessDate) {
+      if (!/^\d{8}$/.test(String(body.businessDate))) {
+        return NextResponse.json(
+          { error: 'Invalid businessDate', details: 'Expected yyyyMMdd, e.g. 20250903' },
+          { status: 400 }
+        );
+      }
+
+      const result = await reconciliationService.reconcileBusinessDate(user.restaurantId, String(body.businessDate));
+      return NextResponse.json({ success: true, data: { results: [result] } });
+    }
+
+    const days = Math.min(Math.max(parseInt(body.days) || 7, 1), MAX_DAYS);
+    const results = await reconciliationService.reconcileRecentDays(user.restaurantId, days);
+
+    return NextResponse.json({ success: true, data: { results } });
+
+  } catch (error: any) {
+    console.error('Error running reconciliation:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to run reconciliation' },
+      { status: 500 }
+    );
+  }
+}
@@ -174,13 +174,19 @@ export async function POST(
       }
       case 'square':
         return NextResponse.json(
-          { error: 'Square integration coming soon' },
-          { status: 501 }
+          {
+            error: 'Square requires an access token and location ID',
+            hint: 'POST them to /api/pos/square/connect'
+          },
+          { status: 400 }
         );
       case 'clover':
         return NextResponse.json(
-          { error: 'Clover integration coming soon' },
-          { status: 501 }
+          {
+            error: 'Clover requires an API access token and merchant ID',
+            hint: 'POST them to /api/pos/clover/connect'
+          },
+          { status: 400 }
         );
       default:
         return NextResponse.json(
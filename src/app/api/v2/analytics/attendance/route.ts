@@ -0,0 +1,86 @@
+export const dynamic = 'force-dynamic';
+
+/**
+ * Attendance Analytics API
+ *
+ * GET /api/v2/analytics/attendance
+ * Returns schedule adherence per employee and for the team: late clock-ins,
+ * early clock-outs, no-shows, unscheduled shifts, break violations and
+ * weekly trends (shifts compared with time entries)
+ *
+ * Query params:
+ * - startDate: ISO date string (default: 30 days ago)
+ * - endDate: ISO date string (default: now)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import { calculateAttendanceAnalytics } from '@/lib/analytics/attendanceAnalytics';
+import connectDB from '@/lib/mongodb';
+
+// Force Node.js runtime for Casbin compatibility
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  // Authorize: attendance is team data, managers and above
+  const authResult = await authorize('analytics:team', 'read')(request);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response
+  }
+  const { user } = authResult;
+
+  // Only managers, admins, and owners can access this endpoint
+  if (!['manager', 'admin', 'owner', 'restaurant_owner', 'restaurant_manager'].includes(user.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden: Manager role or above required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await connectDB();
+
+    // Parse date range from query params
+    const { searchParams } = new URL(request.url);
+    const endDate = searchParams.get('endDate')
+      ? new Date(searchParams.get('endDate')!)
+      : new Date();
+
+    const startDate = searchParams.get('startDate')
+      ? new Date(searchParams.get('startDate')!)
+      : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
+
+    // Validate dates
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use ISO 8601 format.' },
+        { status: 400 }
+      );
+    }
+
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: 'startDate must be before endDate' },
+        { status: 400 }
+      );
+    }
+
+    const analytics = await calculateAttendanceAnalytics(
+      user.restaurantId,
+      startDate,
+      endDate
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: analytics
+    });
+
+  } catch (error) {
+    console.error('Attendance analytics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate attendance analytics', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+export const dynamic = 'force-dynamic';
+
+/**
+ * Overtime Risk API
+ *
+ * GET /api/v2/analytics/overtime
+ * Returns this pay week's open overtime alerts: employees projected past
+ * 40 hours (or a state daily limit) from time entries plus upcoming shifts,
+ * with suggested shift swaps
+ *
+ * Query params:
+ * - refresh: 'true' to re-project now instead of waiting for the next check
+ *
+ * PATCH /api/v2/analytics/overtime
+ * Body: { alertId, action: 'acknowledge' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { authorize } from '@/middleware/authorize';
+import { overtimeAlertService } from '@/services/OvertimeAlertService';
+import connectDB from '@/lib/mongodb';
+
+// Force Node.js runtime for Casbin compatibility
+export const runtime = 'nodejs';
+
+const MANAGER_ROLES = ['manager', 'admin', 'owner', 'restaurant_owner', 'restaurant_manager'];
+
+export async function GET(request: NextRequest) {
+  // Authorize: overtime is team data, managers and above
+  const authResult = await authorize('analytics:team', 'read')(request);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response
+  }
+  const { user } = authResult;
+
+  // Only managers, admins, and owners can access this endpoint
+  if (!MANAGER_ROLES.includes(user.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden: Manager role or above required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('refresh') === 'true') {
+      // Emails stay with the scheduled check
+      await overtimeAlertService.checkRestaurant(user.restaurantId, { notify: false });
+    }
+
+    const data = await overtimeAlertService.getCurrentAlerts(user.restaurantId);
+
+    return NextResponse.json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    console.error('Overtime alerts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load overtime alerts', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const authResult = await authorize('analytics:team', 'read')(request);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response
+  }
+  const { user } = authResult;
+
+  if (!MANAGER_ROLES.includes(user.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden: Manager role or above required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await connectDB();
+
+    const { alertId, action } = await request.json();
+    if (!alertId || action !== 'acknowledge') {
+      return NextResponse.json(
+        { error: "alertId and action: 'acknowledge' are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(alertId)) {
+      return NextResponse.json(
+        { error: 'Invalid alert ID' },
+        { status: 400 }
+      );
+    }
+
+    const alert = await overtimeAlertService.acknowledge(user.restaurantId, alertId, user.userId);
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: alert
+    });
+
+  } catch (error) {
+    console.error('Overtime alert update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update overtime alert', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
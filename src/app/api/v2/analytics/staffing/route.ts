@@ -0,0 +1,79 @@
+export const dynamic = 'force-dynamic';
+
+/**
+ * Staffing Plan API
+ *
+ * GET /api/v2/analytics/staffing
+ * Recommended people per job and hour for the next 7 days (from the
+ * forecast and recent time entries), compared with scheduled shifts
+ *
+ * Query params:
+ * - date: YYYY-MM-DD to return a single day of the plan (default: all 7)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import { staffingPlanService } from '@/services/StaffingPlanService';
+import connectDB from '@/lib/mongodb';
+
+// Force Node.js runtime for Casbin compatibility
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  // Authorize: scheduling is a manager task
+  const authResult = await authorize('analytics:team', 'read')(request);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response
+  }
+  const { user } = authResult;
+
+  // Only managers, admins, and owners can access this endpoint
+  if (!['manager', 'admin', 'owner', 'restaurant_owner', 'restaurant_manager'].includes(user.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden: Manager role or above required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date');
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use YYYY-MM-DD.' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await staffingPlanService.generatePlan(user.restaurantId);
+
+    if (date) {
+      const day = plan.days.find(d => d.date === date);
+      if (!day) {
+        return NextResponse.json(
+          { error: `No staffing plan for ${date}; plans cover the next 7 days` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({
+        success: true,
+        data: { ...plan, days: [day] }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: plan
+    });
+
+  } catch (error) {
+    console.error('Staffing plan error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate staffing plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+export const dynamic = 'force-dynamic';
+
+/**
+ * Tip Distribution API
+ *
+ * GET /api/v2/analytics/tips
+ * Returns the pay period's tip pool report: tips collected, tip-outs and
+ * pool shares per employee, plus each pool's breakdown
+ *
+ * Query params:
+ * - startDate: YYYY-MM-DD, restaurant local (default: 14 days before endDate)
+ * - endDate: YYYY-MM-DD, restaurant local, inclusive (default: yesterday)
+ * - format: 'csv' to download the per-employee distribution
+ *
+ * PUT /api/v2/analytics/tips
+ * Body: tip pool settings { poolBy, shiftChangeHour, weightBy, jobPoints, tipOuts }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/middleware/authorize';
+import { calculateTipDistribution, tipDistributionToCsv, resolveSettings } from '@/lib/analytics/tipDistribution';
+import Restaurant from '@/models/Restaurant';
+import { toLocalDate, addDays } from '@/utils/timezone';
+import connectDB from '@/lib/mongodb';
+
+// Force Node.js runtime for Casbin compatibility
+export const runtime = 'nodejs';
+
+const MANAGER_ROLES = ['manager', 'admin', 'owner', 'restaurant_owner', 'restaurant_manager'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  // Authorize: tips are team data, managers and above
+  const authResult = await authorize('analytics:team', 'read')(request);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response
+  }
+  const { user } = authResult;
+
+  // Only managers, admins, and owners can access this endpoint
+  if (!MANAGER_ROLES.includes(user.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden: Manager role or above required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await connectDB();
+
+    const restaurant = await Restaurant.findById(user.restaurantId).select('analyticsSettings.timezone');
+    const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+
+    // Parse local pay period from query params
+    const { searchParams } = new URL(request.url);
+    const endDate = searchParams.get('endDate') || addDays(toLocalDate(new Date(), timezone), -1);
+    const startDate = searchParams.get('startDate') || addDays(endDate, -13);
+
+    // Validate dates
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use YYYY-MM-DD.' },
+        { status: 400 }
+      );
+    }
+
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: 'startDate must be before endDate' },
+        { status: 400 }
+      );
+    }
+
+    const report = await calculateTipDistribution(user.restaurantId, startDate, endDate);
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(tipDistributionToCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="tips-${startDate}-to-${endDate}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Tip distribution error:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate tip distribution', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const authResult = await authorize('analytics:team', 'read')(request);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response
+  }
+  const { user } = authResult;
+
+  if (!MANAGER_ROLES.includes(user.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden: Manager role or above required' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await connectDB();
+
+    const body = await request.json();
+    const settings = resolveSettings(body);
+
+    if (!['shift', 'day'].includes(settings.poolBy) || !['hours', 'points'].includes(settings.weightBy)) {
+      return NextResponse.json(
+        { error: "poolBy must be 'shift' or 'day' and weightBy 'hours' or 'points'" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(settings.shiftChangeHour) || settings.shiftChangeHour < 0 || settings.shiftChangeHour > 23) {
+      return NextResponse.json(
+        { error: 'shiftChangeHour must be an hour from 0 to 23' },
+        { status: 400 }
+      );
+    }
+
+    if (settings.jobPoints.some(rule => !rule.jobId || typeof rule.points !== 'number' || rule.points < 0)) {
+      return NextResponse.json(
+        { error: 'Each job point rule needs a jobId and non-negative points' },
+        { status: 400 }
+      );
+    }
+
+    const totalTipOut = settings.tipOuts.reduce((sum, rule) => sum + (rule.percentage || 0), 0);
+    if (settings.tipOuts.some(rule => !rule.jobId || typeof rule.percentage !== 'number' || rule.percentage < 0) || totalTipOut > 100) {
+      return NextResponse.json(
+        { error: 'Each tip-out needs a jobId and a percentage, totalling at most 100%' },
+        { status: 400 }
+      );
+    }
+
+    await Restaurant.updateOne(
+      { _id: user.restaurantId },
+      { $set: { tipPoolSettings: settings } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: settings
+    });
+
+  } catch (error) {
+    console.error('Tip pool settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save tip pool settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
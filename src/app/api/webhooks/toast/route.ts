@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Restaurant from '@/models/Restaurant';
+import { toastWebhookService } from '@/services/ToastWebhookService';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/webhooks/toast
+ * Receive Toast order, menu and employee webhooks
+ *
+ * The restaurant is identified by ?restaurantId=<our id> on the subscription
+ * URL, or by the Toast restaurant GUID in the payload / Toast-Restaurant-External-ID
+ * header. The signature is checked against that restaurant's posConfig.webhookSecret.
+ * Redeliveries of an already processed event return 200 without re-processing.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.text();
+    const signature = req.headers.get('toast-signature') || req.headers.get('x-toast-signature');
+
+    if (!signature) {
+      return NextResponse.json(
+        { error: 'No signature provided' },
+        { status: 401 }
+      );
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON payload' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const restaurantIdParam = req.nextUrl.searchParams.get('restaurantId');
+    const restaurantGuid = toastWebhookService.getRestaurantGuid(payload) ||
+      req.headers.get('toast-restaurant-external-id');
+
+    let restaurant = null;
+    if (restaurantIdParam && mongoose.Types.ObjectId.isValid(restaurantIdParam)) {
+      restaurant = await Restaurant.findById(restaurantIdParam).select('posConfig.webhookSecret posConfig.isConnected');
+    } else if (restaurantGuid) {
+      restaurant = await toastWebhookService.findRestaurantByGuid(restaurantGuid);
+    }
+
+    if (!restaurant?.posConfig?.webhookSecret) {
+      return NextResponse.json(
+        { error: 'Restaurant not found or webhook not configured' },
+        { status: 404 }
+      );
+    }
+
+    if (!toastWebhookService.verifySignature(body, signature, restaurant.posConfig.webhookSecret)) {
+      console.error(`Toast webhook signature verification failed for restaurant ${restaurant._id}`);
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    const result = await toastWebhookService.processEvent(String(restaurant._id), payload);
+
+    return NextResponse.json({ received: true, ...result });
+  } catch (error: any) {
+    // Non-2xx makes Toast redeliver; the event is stored as failed so the retry is processed
+    console.error('Toast webhook error:', error);
+    return NextResponse.json(
+      { error: 'Webhook handler failed', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * Staffing Plan Page
+ * Forecast-driven staffing recommendations vs. the schedule, for managers
+ */
+
+import React, { Suspense, useState, useEffect } from 'react';
+import MainLayout from '../../../components/layout/MainLayout';
+import StaffingPlanGrid from '../../../components/analytics/StaffingPlanGrid';
+
+function StaffingPlanContent() {
+  const [token, setToken] = useState<string>('');
+
+  useEffect(() => {
+    // Get JWT token from localStorage
+    const storedToken = localStorage.getItem('authToken') || localStorage.getItem('token') || '';
+    setToken(storedToken);
+  }, []);
+
+  if (!token) {
+    return (
+      <MainLayout>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800 font-semibold">Authentication Required</p>
+          <p className="text-yellow-600 text-sm mt-1">Please log in to view the staffing plan.</p>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <StaffingPlanGrid token={token} />
+    </MainLayout>
+  );
+}
+
+export default function StaffingPlanPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    }>
+      <StaffingPlanContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+/**
+ * Tip Pool Page
+ * Pay period tip distribution and tip pool settings, for managers
+ */
+
+import React, { Suspense, useState, useEffect } from 'react';
+import MainLayout from '../../../components/layout/MainLayout';
+import TipDistributionReport from '../../../components/analytics/TipDistributionReport';
+
+function TipPoolContent() {
+  const [token, setToken] = useState<string>('');
+
+  useEffect(() => {
+    // Get JWT token from localStorage
+    const storedToken = localStorage.getItem('authToken') || localStorage.getItem('token') || '';
+    setToken(storedToken);
+  }, []);
+
+  if (!token) {
+    return (
+      <MainLayout>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800 font-semibold">Authentication Required</p>
+          <p className="text-yellow-600 text-sm mt-1">Please log in to view the tip pool.</p>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <TipDistributionReport token={token} />
+    </MainLayout>
+  );
+}
+
+export default function TipPoolPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    }>
+      <TipPoolContent />
+    </Suspense>
+  );
+}
@@ -36,6 +36,22 @@ interface Recommendation {
     expectedImprovement: string;
   };
   status: string;
+  implementedAt?: string;
+  impact?: RecommendationImpact;
+}
+
+interface RecommendationImpact {
+  status: 'measured' | 'insufficient_data';
+  preliminary: boolean;
+  metric: string;
+  postWindow: { start: string; end: string; days: number };
+  before: number;
+  after: number;
+  adjustedChangePercent: number;
+  seasonalControl: 'prior_year' | 'none';
+  significant: boolean;
+  estimatedMonthlyImpact: number;
+  summary: string;
 }
 
 interface KeyFinding {
@@ -52,6 +68,39 @@ interface KeyFinding {
   priority: string;
 }
 
+interface InsightVersion {
+  id: string;
+  version: number;
+  generatedAt: string;
+  analysisStartDate: string;
+  analysisEndDate: string;
+}
+
+type FindingChange = 'new' | 'resolved' | 'worsened' | 'improved' | 'unchanged';
+
+interface FindingDiff {
+  change: FindingChange;
+  category: string;
+  title: string;
+  current?: KeyFinding;
+  previous?: KeyFinding;
+  impactChange?: number;
+  impactChangePercent?: number;
+}
+
+interface InsightDiff {
+  current: InsightVersion;
+  previous: InsightVersion;
+  findings: FindingDiff[];
+  counts: Record<FindingChange, number>;
+  lostRevenue: { current: number; previous: number; change: number };
+  recommendations: {
+    new: string[];
+    carriedOver: string[];
+    dropped: string[];
+  };
+}
+
 interface Insight {
   _id: string;
   type: string;
@@ -74,6 +123,8 @@ interface Insight {
   };
   keyFindings: KeyFinding[];
   recommendations: Recommendation[];
+  version: number;
+  previousVersionId?: string;
   dataSource: {
     transactions: {
       totalCount: number;
@@ -89,10 +140,13 @@ export default function InsightDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [implementingRec, setImplementingRec] = useState<string | null>(null);
+  const [diff, setDiff] = useState<InsightDiff | null>(null);
+  const [history, setHistory] = useState<InsightVersion[]>([]);
 
   useEffect(() => {
     if (params.insightId) {
       fetchInsight(params.insightId as string);
+      fetchDiff(params.insightId as string);
     }
   }, [params.insightId]);
 
@@ -125,6 +179,28 @@ export default function InsightDetailPage() {
     }
   };
 
+  const fetchDiff = async (id: string) => {
+    try {
+      const token = localStorage.getItem('authToken') || localStorage.getItem('token');
+      if (!token) return;
+
+      const response = await fetch(`/api/insights/${id}/diff`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch version changes');
+      }
+
+      const data = await response.json();
+      setDiff(data.data.diff);
+      setHistory(data.data.history);
+    } catch (err) {
+      // Version changes are supplementary; the report itself still renders
+      console.error('Error fetching insight diff:', err);
+    }
+  };
+
   const markRecommendationImplemented = async (recommendationId: string) => {
     try {
       setImplementingRec(recommendationId);
@@ -166,6 +242,16 @@ export default function InsightDetailPage() {
     }
   };
 
+  const getChangeStyle = (change: FindingChange) => {
+    switch (change) {
+      case 'new': return { label: '🆕 New', color: 'bg-blue-100 text-blue-800' };
+      case 'resolved': return { label: '✅ Resolved', color: 'bg-green-100 text-green-800' };
+      case 'worsened': return { label: '📈 Worsened', color: 'bg-red-100 text-red-800' };
+      case 'improved': return { label: '📉 Improved', color: 'bg-green-100 text-green-800' };
+      default: return { label: 'Unchanged', color: 'bg-gray-100 text-gray-800' };
+    }
+  };
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'easy': return 'text-green-600';
@@ -225,6 +311,11 @@ export default function InsightDetailPage() {
                 <span className={`px-3 py-1 rounded-full text-xs font-medium border border-white/30 bg-white/20`}>
                   {insight.priority.toUpperCase()}
                 </span>
+                {insight.version > 1 && (
+                  <span className="px-3 py-1 rounded-full text-xs font-medium border border-white/30 bg-white/20">
+                    v{insight.version}
+                  </span>
+                )}
               </div>
               <p className="text-purple-100 text-lg">{insight.summary}</p>
               <div className="mt-4 flex flex-wrap gap-4 text-sm">
@@ -260,6 +351,73 @@ export default function InsightDetailPage() {
           </div>
         </div>
 
+        {/* Changes Since Previous Version */}
+        {diff && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-1">🔄 Changes Since Last Report</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Compared with version {diff.previous.version} ({new Date(diff.previous.analysisStartDate).toLocaleDateString()} - {new Date(diff.previous.analysisEndDate).toLocaleDateString()})
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+              {(['new', 'worsened', 'improved', 'resolved', 'unchanged'] as FindingChange[]).map((change) => (
+                <div key={change} className={`rounded-lg p-3 text-center ${getChangeStyle(change).color}`}>
+                  <div className="text-2xl font-bold">{diff.counts[change]}</div>
+                  <div className="text-sm">{getChangeStyle(change).label}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="mb-4 text-sm text-gray-700">
+              Revenue opportunity: ${diff.lostRevenue.previous.toLocaleString()} → ${diff.lostRevenue.current.toLocaleString()}
+              <span className={`ml-2 font-semibold ${diff.lostRevenue.change > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                ({diff.lostRevenue.change > 0 ? '+' : '-'}${Math.abs(diff.lostRevenue.change).toLocaleString()})
+              </span>
+            </div>
+
+            <div className="space-y-2">
+              {diff.findings.filter(f => f.change !== 'unchanged').map((finding, idx) => (
+                <div key={idx} className="border border-gray-200 rounded-lg p-3 flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="font-semibold text-gray-900">{finding.title}</div>
+                    <div className="text-sm text-gray-600">{finding.category.replace(/_/g, ' ')}</div>
+                    {finding.previous && finding.current && (
+                      <div className="text-sm text-gray-600 mt-1">
+                        Impact: {finding.previous.impact.value}{finding.previous.impact.unit} → {finding.current.impact.value}{finding.current.impact.unit}
+                        {finding.impactChangePercent !== undefined && ` (${finding.impactChangePercent > 0 ? '+' : ''}${finding.impactChangePercent.toFixed(0)}%)`}
+                      </div>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${getChangeStyle(finding.change).color}`}>
+                    {getChangeStyle(finding.change).label}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {diff.recommendations.carriedOver.length > 0 && (
+              <p className="mt-4 text-sm text-gray-600">
+                {diff.recommendations.carriedOver.length} recommendation{diff.recommendations.carriedOver.length === 1 ? '' : 's'} carried over from the last report with {diff.recommendations.carriedOver.length === 1 ? 'its' : 'their'} status.
+              </p>
+            )}
+
+            {history.length > 1 && (
+              <div className="mt-4 flex flex-wrap gap-2 text-sm">
+                <span className="text-gray-600">Version history:</span>
+                {history.map((version) => (
+                  <button
+                    key={version.id}
+                    onClick={() => router.push(`/insights/${version.id}`)}
+                    className={`px-2 py-1 rounded ${version.id === insight._id ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+                  >
+                    v{version.version} · {new Date(version.generatedAt).toLocaleDateString()}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Key Findings */}
         <div className="bg-white rounded-lg shadow p-6">
           <h2 className="text-2xl font-bold text-gray-900 mb-4">🔍 Key Findings ({insight.keyFindings.length})</h2>
@@ -309,6 +467,11 @@ export default function InsightDetailPage() {
                           ✅ Implemented
                         </span>
                       )}
+                      {rec.status === 'dismissed' && (
+                        <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                          Dismissed
+                        </span>
+                      )}
                     </div>
                     <p className="text-gray-700">{rec.description}</p>
                   </div>
@@ -393,8 +556,42 @@ export default function InsightDetailPage() {
                   </div>
                 </div>
 
+                {/* Realized Impact */}
+                {rec.status === 'completed' && (
+                  rec.impact ? (
+                    <div className={`rounded-lg p-4 mb-4 border ${
+                      rec.impact.status === 'measured' && rec.impact.significant
+                        ? rec.impact.estimatedMonthlyImpact >= 0 ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+                        : 'bg-gray-50 border-gray-200'
+                    }`}>
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="text-sm font-medium text-gray-700">
+                          📏 Measured Impact{rec.impact.preliminary ? ' (preliminary)' : ''}
+                        </div>
+                        {rec.impact.status === 'measured' && (
+                          <div className={`text-lg font-bold ${rec.impact.estimatedMonthlyImpact >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {rec.impact.estimatedMonthlyImpact >= 0 ? '+' : '-'}${Math.abs(rec.impact.estimatedMonthlyImpact).toFixed(0)}/month
+                          </div>
+                        )}
+                      </div>
+                      <p className="text-gray-700 text-sm">{rec.impact.summary}</p>
+                      {rec.impact.status === 'measured' && (
+                        <div className="mt-2 text-xs text-gray-500">
+                          {rec.impact.metric.replace(/_/g, ' ')}: {rec.impact.before.toFixed(2)} → {rec.impact.after.toFixed(2)}
+                          {' · '}
+                          {rec.impact.seasonalControl === 'prior_year' ? 'compared with the same weeks last year' : 'no prior-year data for seasonal comparison'}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 text-sm text-gray-600">
+                      📏 Measuring impact - results appear two weeks after implementation.
+                    </div>
+                  )
+                )}
+
                 {/* Action Button */}
-                {rec.status !== 'completed' && (
+                {rec.status !== 'completed' && rec.status !== 'dismissed' && (
                   <button
                     onClick={() => markRecommendationImplemented(rec.id)}
                     disabled={implementingRec === rec.id}
@@ -0,0 +1,206 @@
+'use client';
+
+/**
+ * Labor Cost Card
+ *
+ * Labor cost vs. sales for the manager dashboard:
+ * - Labor cost % against the restaurant's goal
+ * - Sales per labor hour vs. the target
+ * - Cost by job
+ * - Hours that are consistently over- or understaffed
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ILaborAnalytics, IStaffingSlot } from '@/lib/analytics/laborAnalytics';
+
+interface LaborCostCardProps {
+  token: string;
+  dateRange?: {
+    startDate: Date;
+    endDate: Date;
+  };
+}
+
+export default function LaborCostCard({ token, dateRange }: LaborCostCardProps) {
+  const [labor, setLabor] = useState<ILaborAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLabor();
+  }, [dateRange]);
+
+  const fetchLabor = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (dateRange?.startDate) {
+        params.set('startDate', dateRange.startDate.toISOString());
+      }
+      if (dateRange?.endDate) {
+        params.set('endDate', dateRange.endDate.toISOString());
+      }
+
+      const response = await fetch(`/api/v2/analytics/labor?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch labor analytics');
+      }
+
+      const data = await response.json();
+      setLabor(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching labor analytics:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Labor Cost</h2>
+        <div className="flex items-center justify-center p-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !labor) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Labor Cost</h2>
+        <p className="text-red-600 text-sm">{error || 'No labor data'}</p>
+      </div>
+    );
+  }
+
+  const { summary, staffing } = labor;
+
+  if (summary.laborHours === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Labor Cost</h2>
+        <p className="text-gray-600 text-sm">No time entries for this period yet. Labor cost appears once clock-ins sync from your POS.</p>
+      </div>
+    );
+  }
+
+  const overGoal = summary.laborCostPercent > summary.laborCostGoal;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold mb-4">Labor Cost</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className={`rounded-lg p-4 ${overGoal ? 'bg-red-50' : 'bg-green-50'}`}>
+          <div className={`text-sm mb-1 ${overGoal ? 'text-red-600' : 'text-green-700'}`}>Labor Cost %</div>
+          <div className={`text-2xl font-bold ${overGoal ? 'text-red-900' : 'text-green-900'}`}>
+            {summary.laborCostPercent.toFixed(1)}%
+          </div>
+          <div className="text-xs text-gray-600 mt-1">Goal: {summary.laborCostGoal}%</div>
+        </div>
+        <div className="rounded-lg p-4 bg-gray-50">
+          <div className="text-sm text-gray-600 mb-1">Labor Cost</div>
+          <div className="text-2xl font-bold text-gray-900">${summary.laborCost.toFixed(0)}</div>
+          <div className="text-xs text-gray-600 mt-1">of ${summary.sales.toFixed(0)} net sales</div>
+        </div>
+        <div className="rounded-lg p-4 bg-gray-50">
+          <div className="text-sm text-gray-600 mb-1">Sales per Labor Hour</div>
+          <div className="text-2xl font-bold text-gray-900">${summary.salesPerLaborHour.toFixed(2)}</div>
+          <div className="text-xs text-gray-600 mt-1">Target: ${summary.targetSalesPerLaborHour.toFixed(2)}</div>
+        </div>
+        <div className={`rounded-lg p-4 ${summary.overtimeHours > 0 ? 'bg-yellow-50' : 'bg-gray-50'}`}>
+          <div className="text-sm text-gray-600 mb-1">Overtime</div>
+          <div className="text-2xl font-bold text-gray-900">{summary.overtimeHours.toFixed(1)}h</div>
+          <div className="text-xs text-gray-600 mt-1">${summary.overtimePremium.toFixed(0)} premium</div>
+        </div>
+      </div>
+
+      {/* By Job */}
+      {labor.byJob.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">By Job</h3>
+          <div className="space-y-2">
+            {labor.byJob.map((job) => (
+              <div key={job.jobId || job.title} className="flex items-center justify-between text-sm">
+                <div className="text-gray-900">
+                  {job.title}
+                  <span className="text-gray-500 ml-2">{job.employees} staff · {job.laborHours.toFixed(1)}h</span>
+                </div>
+                <div className="text-gray-900 font-medium">
+                  ${job.laborCost.toFixed(0)}
+                  <span className="text-gray-500 ml-2">{job.laborCostPercent.toFixed(1)}%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Staffing */}
+      {(staffing.overstaffed.length > 0 || staffing.understaffed.length > 0) && (
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <StaffingList
+            title="Overstaffed Hours"
+            subtitle={staffing.excessLaborCost > 0 ? `~$${staffing.excessLaborCost.toFixed(0)} above target this period` : undefined}
+            slots={staffing.overstaffed}
+            color="text-red-600"
+          />
+          <StaffingList
+            title="Understaffed Hours"
+            slots={staffing.understaffed}
+            color="text-blue-600"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StaffingList({
+  title,
+  subtitle,
+  slots,
+  color,
+}: {
+  title: string;
+  subtitle?: string;
+  slots: IStaffingSlot[];
+  color: string;
+}) {
+  return (
+    <div className="rounded-lg p-4 bg-gray-50">
+      <h3 className="text-sm font-semibold text-gray-700">{title}</h3>
+      {subtitle && <div className="text-xs text-gray-500">{subtitle}</div>}
+      {slots.length === 0 ? (
+        <p className="text-sm text-gray-500 mt-2">None</p>
+      ) : (
+        <ul className="mt-2 space-y-1 text-sm">
+          {slots.slice(0, 5).map((slot) => (
+            <li key={`${slot.dayOfWeek}-${slot.hour}`} className="flex justify-between">
+              <span className="text-gray-900">{slot.dayName} {formatHour(slot.hour)}</span>
+              <span className={color}>
+                {slot.laborHoursDelta > 0 ? '+' : ''}{slot.laborHoursDelta.toFixed(1)} labor hrs
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
@@ -8,10 +8,14 @@
  * - Individual team member stats
  * - Team revenue contribution
  * - Task completion rates
+ * - Labor cost vs. sales
+ * - Schedule adherence
  */
 
 import React, { useEffect, useState } from 'react';
 import { IManagerAnalytics, ITeamMemberStats } from '@/lib/analytics/managerAnalytics';
+import LaborCostCard from './LaborCostCard';
+import OvertimeRiskCard from './OvertimeRiskCard';
 
 interface ManagerDashboardProps {
   token: string;
@@ -163,6 +167,48 @@ export default function ManagerDashboard({ token, dateRange }: ManagerDashboardP
         </div>
       </div>
 
+      {/* Attendance */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Attendance</h2>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <StatCard
+            label="Schedule Adherence"
+            value={`${analytics.attendance.adherenceRate.toFixed(1)}%`}
+            isWarning={analytics.attendance.trend === 'declining'}
+          />
+          <StatCard
+            label="Late Clock-Ins"
+            value={analytics.attendance.lateClockIns}
+            isWarning={analytics.attendance.lateClockIns > 0}
+          />
+          <StatCard
+            label="No-Shows"
+            value={analytics.attendance.noShows}
+            isWarning={analytics.attendance.noShows > 0}
+          />
+          <StatCard
+            label="Unscheduled Shifts"
+            value={analytics.attendance.unscheduledShifts}
+          />
+          <StatCard
+            label="Break Violations"
+            value={analytics.attendance.breakViolations}
+            isWarning={analytics.attendance.breakViolations > 0}
+          />
+        </div>
+        {analytics.attendance.trend !== 'insufficient_data' && (
+          <p className="text-sm text-gray-600 mt-3">
+            Adherence is {analytics.attendance.trend} over the period ({analytics.attendance.scheduledShifts} scheduled shifts).
+          </p>
+        )}
+      </div>
+
+      {/* Labor Cost */}
+      <LaborCostCard token={token} dateRange={dateRange} />
+
+      {/* Overtime Risk */}
+      <OvertimeRiskCard token={token} />
+
       {/* Team Members Table */}
       {analytics.teamMembers.length > 0 && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -186,6 +232,9 @@ export default function ManagerDashboard({ token, dateRange }: ManagerDashboardP
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Revenue
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Attendance
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Points
                   </th>
@@ -209,6 +258,20 @@ export default function ManagerDashboard({ token, dateRange }: ManagerDashboardP
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       ${member.revenue.totalSales.toFixed(2)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {member.attendance.scheduledShifts > 0 ? (
+                        <>
+                          <span className={member.attendance.adherenceRate < 80 ? 'text-red-600 font-medium' : ''}>
+                            {member.attendance.adherenceRate.toFixed(0)}%
+                          </span>
+                          {(member.attendance.lateClockIns + member.attendance.noShows + member.attendance.breakViolations) > 0 && (
+                            <span className="text-xs text-gray-400 ml-2">
+                              {member.attendance.lateClockIns} late · {member.attendance.noShows} no-show · {member.attendance.breakViolations} break
+                            </span>
+                          )}
+                        </>
+                      ) : '—'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {member.gamification.points}
                     </td>
@@ -0,0 +1,170 @@
+'use client';
+
+/**
+ * Overtime Risk Card
+ *
+ * This pay week's overtime alerts for the manager dashboard:
+ * - Employees projected past 40 hours or a state daily limit
+ * - Shifts to move and the coworkers who could take them
+ * - Acknowledge to mark an alert as handled
+ */
+
+import React, { useEffect, useState } from 'react';
+import { IOvertimeAlert } from '@/models/OvertimeAlert';
+
+interface OvertimeRiskCardProps {
+  token: string;
+}
+
+export default function OvertimeRiskCard({ token }: OvertimeRiskCardProps) {
+  const [alerts, setAlerts] = useState<IOvertimeAlert[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAlerts(false);
+  }, [token]);
+
+  const fetchAlerts = async (refresh: boolean) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/v2/analytics/overtime${refresh ? '?refresh=true' : ''}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch overtime alerts');
+      }
+
+      const data = await response.json();
+      setAlerts(data.data.alerts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching overtime alerts:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const acknowledge = async (alertId: string) => {
+    try {
+      const response = await fetch('/api/v2/analytics/overtime', {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ alertId, action: 'acknowledge' }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to acknowledge alert');
+      }
+
+      const data = await response.json();
+      setAlerts(current => (current || []).map(alert => String(alert._id) === alertId ? data.data : alert));
+    } catch (err) {
+      console.error('Error acknowledging overtime alert:', err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Overtime Risk</h2>
+        <div className="flex items-center justify-center p-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !alerts) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Overtime Risk</h2>
+        <p className="text-red-600 text-sm">{error || 'No overtime data'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Overtime Risk</h2>
+        <button
+          onClick={() => fetchAlerts(true)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Re-check
+        </button>
+      </div>
+
+      {alerts.length === 0 ? (
+        <p className="text-gray-600 text-sm">No one is on track for overtime this pay week.</p>
+      ) : (
+        <div className="space-y-4">
+          {alerts.map((alert) => (
+            <div
+              key={String(alert._id)}
+              className={`rounded-lg p-4 ${alert.status === 'acknowledged' ? 'bg-gray-50' : 'bg-yellow-50'}`}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">{alert.employeeName}</div>
+                  <div className="text-sm text-gray-600">
+                    {alert.type === 'weekly'
+                      ? `Projected ${alert.projectedHours.toFixed(1)}h this week`
+                      : `Projected ${alert.projectedHours.toFixed(1)}h on ${alert.date} (daily limit)`}
+                    {' · '}{alert.workedHours.toFixed(1)}h worked, {alert.scheduledHours.toFixed(1)}h scheduled
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm font-semibold text-yellow-800">
+                    +{alert.projectedOvertimeHours.toFixed(1)}h over {alert.thresholdHours}h
+                  </div>
+                  {alert.status === 'acknowledged' ? (
+                    <span className="text-xs text-gray-500">Acknowledged</span>
+                  ) : (
+                    <button
+                      onClick={() => acknowledge(String(alert._id))}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {alert.swaps.length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm">
+                  {alert.swaps.map((swap) => (
+                    <li key={String(swap.shiftId)} className="flex justify-between">
+                      <span className="text-gray-900">
+                        {swap.jobTitle} {swap.date} {formatTime(swap.scheduledStart)}–{formatTime(swap.scheduledEnd)}
+                      </span>
+                      <span className="text-gray-600">
+                        {swap.candidates.length > 0
+                          ? `Swap to ${swap.candidates.map(c => `${c.name} (${c.projectedWeekHours.toFixed(1)}h)`).join(', ')}`
+                          : 'No one available without overtime'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatTime(date: Date | string): string {
+  return new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
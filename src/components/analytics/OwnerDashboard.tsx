@@ -10,6 +10,7 @@
  * - Operations stats
  * - AI insights summary
  * - Trends and forecasting
+ * - Forecast accuracy history
  */
 
 import React, { useEffect, useState } from 'react';
@@ -129,6 +130,73 @@ export default function OwnerDashboard({ token, dateRange }: OwnerDashboardProps
         </div>
       </div>
 
+      {/* Forecast Accuracy */}
+      <div className={`bg-white rounded-lg shadow p-6 ${analytics.forecastAccuracy.degraded ? 'border border-red-200' : ''}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Forecast Accuracy</h2>
+          {analytics.forecastAccuracy.degraded && (
+            <span className="text-xs px-2 py-1 rounded bg-red-100 text-red-700">
+              Accuracy dropped vs previous period
+            </span>
+          )}
+        </div>
+        {analytics.forecastAccuracy.summary.scoredDays === 0 ? (
+          <p className="text-sm text-gray-600">
+            No scored forecasts in this period yet. Forecasts are checked against actual sales each night.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+              <StatCard
+                label="Avg Error (MAPE)"
+                value={formatPercent(analytics.forecastAccuracy.summary.mape)}
+                isWarning={analytics.forecastAccuracy.degraded}
+              />
+              <StatCard
+                label="Bias"
+                value={formatPercent(analytics.forecastAccuracy.summary.bias, true)}
+              />
+              <StatCard
+                label="Within Predicted Range"
+                value={formatPercent(analytics.forecastAccuracy.summary.coverage)}
+              />
+              <StatCard
+                label="Days Scored"
+                value={analytics.forecastAccuracy.summary.scoredDays}
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Date</th>
+                    <th className="py-2 pr-4 text-right">Predicted</th>
+                    <th className="py-2 pr-4 text-right">Range</th>
+                    <th className="py-2 pr-4 text-right">Actual</th>
+                    <th className="py-2 text-right">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.forecastAccuracy.daily.slice(-14).reverse().map((day) => (
+                    <tr key={day.date} className="border-b last:border-0">
+                      <td className="py-2 pr-4 text-gray-900">{day.date}</td>
+                      <td className="py-2 pr-4 text-right">${day.predicted.toFixed(0)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-500">
+                        ${day.low.toFixed(0)} - ${day.high.toFixed(0)}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-medium">${day.actual.toFixed(0)}</td>
+                      <td className={`py-2 text-right ${day.withinRange ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatPercent(day.percentError, true)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
       {/* AI Insights Summary */}
       {analytics.insights.count > 0 && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
@@ -292,6 +360,11 @@ export default function OwnerDashboard({ token, dateRange }: OwnerDashboardProps
   );
 }
 
+function formatPercent(value: number | null, signed = false): string {
+  if (value === null) return '—';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
 // Helper component for stat cards
 function StatCard({
   label,
@@ -0,0 +1,215 @@
+'use client';
+
+/**
+ * Staffing Plan Grid
+ *
+ * Next 7 days of recommended vs. scheduled people per job and hour:
+ * - Day tabs with forecast revenue and flag counts
+ * - Job × hour grid (scheduled / recommended), colored by over/understaffing
+ * - Flagged time ranges to fix before publishing the schedule
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { StaffingPlan, StaffingHour } from '@/services/StaffingPlanService';
+
+interface StaffingPlanGridProps {
+  token: string;
+}
+
+export default function StaffingPlanGrid({ token }: StaffingPlanGridProps) {
+  const [plan, setPlan] = useState<StaffingPlan | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [token]);
+
+  const fetchPlan = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/v2/analytics/staffing', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to fetch staffing plan');
+      }
+
+      const data = await response.json();
+      setPlan(data.data);
+      setSelectedDate(data.data.days[0]?.date || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching staffing plan:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800 font-semibold">Error loading staffing plan</p>
+        <p className="text-red-600 text-sm mt-1">{error}</p>
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return null;
+  }
+
+  const day = plan.days.find(d => d.date === selectedDate) || plan.days[0];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-600 to-teal-600 text-white rounded-lg p-6">
+        <h1 className="text-2xl font-bold">Staffing Plan</h1>
+        <p className="text-green-100 mt-1">
+          Recommended people per job and hour from the forecast and the last {plan.historyDays} trading days, compared with the schedule
+        </p>
+      </div>
+
+      {/* Day Tabs */}
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
+        {plan.days.map((d) => (
+          <button
+            key={d.date}
+            onClick={() => setSelectedDate(d.date)}
+            className={`rounded-lg p-3 text-left border ${d.date === day?.date ? 'border-green-600 bg-green-50' : 'border-gray-200 bg-white hover:bg-gray-50'}`}
+          >
+            <div className="text-sm font-semibold text-gray-900">{d.dayOfWeek}</div>
+            <div className="text-xs text-gray-500">{d.date}</div>
+            <div className="text-sm text-gray-700 mt-1">${d.forecastRevenue.toFixed(0)}</div>
+            {d.flags.length > 0 && (
+              <div className="text-xs text-red-600 mt-1">{d.flags.length} flag{d.flags.length === 1 ? '' : 's'}</div>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {day && (
+        <>
+          {/* Day Totals */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold mb-4">{day.dayOfWeek} {day.date}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Stat label="Forecast Revenue" value={`$${day.forecastRevenue.toFixed(0)}`} note={`${day.confidence}% confidence`} />
+              <Stat label="Recommended Labor" value={`${day.totals.recommendedLaborHours}h`} />
+              <Stat label="Scheduled Labor" value={`${day.totals.scheduledLaborHours.toFixed(1)}h`} />
+              <Stat
+                label="Projected Labor Cost"
+                value={`$${day.totals.projectedLaborCost.toFixed(0)}`}
+                note={`${day.totals.projectedLaborCostPercent.toFixed(1)}% of forecast`}
+              />
+            </div>
+          </div>
+
+          {/* Grid */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold mb-1">Scheduled / Recommended</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              <span className="inline-block w-3 h-3 rounded bg-red-100 border border-red-300 mr-1"></span>overstaffed
+              <span className="inline-block w-3 h-3 rounded bg-yellow-100 border border-yellow-300 ml-4 mr-1"></span>understaffed
+            </p>
+            {day.jobs.length === 0 ? (
+              <p className="text-gray-600 text-sm">No staffing needed or scheduled this day.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                      {day.hours.map((hour) => (
+                        <th key={hour} className="px-2 py-2 text-center text-xs font-medium text-gray-500 whitespace-nowrap">
+                          {formatHour(hour)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {day.jobs.map((job) => (
+                      <tr key={job.jobId}>
+                        <td className="px-3 py-2 font-medium text-gray-900 whitespace-nowrap">{job.title}</td>
+                        {job.hours.map((h) => (
+                          <td key={h.hour} className="px-1 py-1 text-center">
+                            <div className={`rounded px-1 py-1 ${getCellColor(h)}`} title={`Forecast $${h.forecastRevenue.toFixed(0)}`}>
+                              {formatPeople(h.scheduled)}/{h.recommended}
+                            </div>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Flags */}
+          {day.flags.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold mb-4">Schedule Flags</h2>
+              <ul className="space-y-2 text-sm">
+                {day.flags.map((flag, idx) => (
+                  <li key={idx} className="flex justify-between">
+                    <span className="text-gray-900">
+                      {flag.title}, {formatHour(flag.startHour)}–{formatHour(flag.endHour)}
+                    </span>
+                    <span className={flag.status === 'overstaffed' ? 'text-red-600' : 'text-yellow-700'}>
+                      {flag.status === 'overstaffed' ? 'Over' : 'Under'} by up to {formatPeople(flag.peakVariance)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value, note }: { label: string; value: string; note?: string }) {
+  return (
+    <div className="rounded-lg p-4 bg-gray-50">
+      <div className="text-sm text-gray-600 mb-1">{label}</div>
+      <div className="text-2xl font-bold text-gray-900">{value}</div>
+      {note && <div className="text-xs text-gray-600 mt-1">{note}</div>}
+    </div>
+  );
+}
+
+function getCellColor(hour: StaffingHour): string {
+  switch (hour.status) {
+    case 'overstaffed': return 'bg-red-100 text-red-800';
+    case 'understaffed': return 'bg-yellow-100 text-yellow-800';
+    default: return hour.scheduled > 0 || hour.recommended > 0 ? 'bg-green-50 text-gray-900' : 'text-gray-400';
+  }
+}
+
+function formatHour(hour: number): string {
+  const h = hour % 24;
+  const suffix = h < 12 ? 'am' : 'pm';
+  return `${h % 12 === 0 ? 12 : h % 12}${suffix}`;
+}
+
+function formatPeople(people: number): string {
+  return Number.isInteger(people) ? String(people) : people.toFixed(1);
+}
@@ -0,0 +1,383 @@
+'use client';
+
+/**
+ * Tip Distribution Report
+ *
+ * Pay period tip pool for managers:
+ * - Period picker and CSV export for payroll
+ * - Per-employee tips collected, tip-outs, pool share and net change
+ * - Pool-by-pool breakdown
+ * - Tip pool settings: pooling, weighting, job points and tip-outs
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ITipDistribution } from '@/lib/analytics/tipDistribution';
+import { ITipPoolSettings } from '@/models/Restaurant';
+
+interface TipDistributionReportProps {
+  token: string;
+}
+
+export default function TipDistributionReport({ token }: TipDistributionReportProps) {
+  const [report, setReport] = useState<ITipDistribution | null>(null);
+  const [period, setPeriod] = useState<{ startDate: string; endDate: string } | null>(null);
+  const [settings, setSettings] = useState<ITipPoolSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReport(null);
+  }, [token]);
+
+  const fetchReport = async (range: { startDate: string; endDate: string } | null) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams(range || {});
+      const response = await fetch(`/api/v2/analytics/tips?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to fetch tip distribution');
+      }
+
+      const data = await response.json();
+      setReport(data.data);
+      setPeriod(data.data.period);
+      setSettings(data.data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching tip distribution:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCsv = async () => {
+    if (!period) return;
+
+    try {
+      const params = new URLSearchParams({ ...period, format: 'csv' });
+      const response = await fetch(`/api/v2/analytics/tips?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to export tip distribution');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tips-${period.startDate}-to-${period.endDate}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting tip distribution:', err);
+    }
+  };
+
+  const saveSettings = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setSaveError(null);
+      const response = await fetch('/api/v2/analytics/tips', {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save tip pool settings');
+      }
+
+      await fetchReport(period);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error saving tip pool settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !report || !period || !settings) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800 font-semibold">Error loading tip pool</p>
+        <p className="text-red-600 text-sm mt-1">{error || 'No tip data'}</p>
+      </div>
+    );
+  }
+
+  const points = (jobId: string) => settings.jobPoints.find(rule => rule.jobId === jobId)?.points ?? 1;
+  const tipOut = (jobId: string) => settings.tipOuts.find(rule => rule.jobId === jobId)?.percentage ?? 0;
+
+  const setPoints = (jobId: string, value: number) => {
+    setSettings({
+      ...settings,
+      jobPoints: [...settings.jobPoints.filter(rule => rule.jobId !== jobId), { jobId, points: value }]
+    });
+  };
+
+  const setTipOut = (jobId: string, value: number) => {
+    const others = settings.tipOuts.filter(rule => rule.jobId !== jobId);
+    setSettings({
+      ...settings,
+      tipOuts: value > 0 ? [...others, { jobId, percentage: value }] : others
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-600 to-teal-600 text-white rounded-lg p-6">
+        <h1 className="text-2xl font-bold">Tip Pool</h1>
+        <p className="text-green-100 mt-1">
+          Tips from checks and declared tips, pooled by {settings.poolBy === 'shift' ? 'shift' : 'day'} and shared by {settings.weightBy === 'points' ? 'hours × job points' : 'hours worked'}
+        </p>
+      </div>
+
+      {/* Period */}
+      <div className="bg-white rounded-lg shadow p-6 flex flex-wrap items-end gap-4">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">From</span>
+          <input
+            type="date"
+            value={period.startDate}
+            onChange={(e) => setPeriod({ ...period, startDate: e.target.value })}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">To</span>
+          <input
+            type="date"
+            value={period.endDate}
+            onChange={(e) => setPeriod({ ...period, endDate: e.target.value })}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+        </label>
+        <button
+          onClick={() => fetchReport(period)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+        >
+          Calculate
+        </button>
+        <button
+          onClick={exportCsv}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Stat label="Total Tips" value={`$${report.summary.totalTips.toFixed(2)}`} note={`${report.summary.pools} pools`} />
+        <Stat label="Tip-Outs" value={`$${report.summary.tipOuts.toFixed(2)}`} />
+        <Stat label="Pooled" value={`$${report.summary.pooled.toFixed(2)}`} note={`${report.summary.employees} employees`} />
+        <Stat
+          label="Unallocated"
+          value={`$${report.summary.unallocated.toFixed(2)}`}
+          note={report.summary.unallocated > 0 ? 'No tip-eligible staff clocked in' : undefined}
+        />
+      </div>
+
+      {/* Employees */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Distribution</h2>
+        {report.employees.length === 0 ? (
+          <p className="text-gray-600 text-sm">No tips or tip-eligible hours in this period.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Employee', 'Jobs', 'Hours', 'Collected', 'Tip-Outs', 'Pool Share', 'Total', 'Net', 'Per Hour'].map((heading) => (
+                    <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.employees.map((employee) => (
+                  <tr key={employee.employeeId}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{employee.name}</td>
+                    <td className="px-4 py-2 text-gray-600">{employee.jobs.join(', ')}</td>
+                    <td className="px-4 py-2 text-gray-900">{employee.hours.toFixed(1)}</td>
+                    <td className="px-4 py-2 text-gray-900">${employee.tipsCollected.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-gray-900">${employee.tipOutsReceived.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-gray-900">${employee.poolShare.toFixed(2)}</td>
+                    <td className="px-4 py-2 font-semibold text-gray-900">${employee.totalTips.toFixed(2)}</td>
+                    <td className={`px-4 py-2 ${employee.netChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {employee.netChange >= 0 ? '+' : ''}{employee.netChange.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 text-gray-900">${employee.tipsPerHour.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pools */}
+      {report.pools.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Pools</h2>
+          <ul className="space-y-2 text-sm">
+            {report.pools.map((pool) => (
+              <li key={pool.key} className="flex justify-between">
+                <span className="text-gray-900">
+                  {pool.date}{pool.shift !== 'DAY' && ` ${pool.shift}`}
+                  <span className="text-gray-500 ml-2">{pool.participants} staff</span>
+                </span>
+                <span className="text-gray-700">
+                  ${pool.grossTips.toFixed(2)}
+                  {pool.tipOuts.filter(t => t.amount > 0).map((t) => (
+                    <span key={t.jobId} className="text-gray-500 ml-2">{t.title} ${t.amount.toFixed(2)}</span>
+                  ))}
+                  {pool.unallocated > 0 && <span className="text-red-600 ml-2">${pool.unallocated.toFixed(2)} unallocated</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Settings */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-4">Tip Pool Settings</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <label className="text-gray-700">
+            <span className="block mb-1">Pool tips by</span>
+            <select
+              value={settings.poolBy}
+              onChange={(e) => setSettings({ ...settings, poolBy: e.target.value as ITipPoolSettings['poolBy'] })}
+              className="border border-gray-300 rounded px-2 py-1 w-full"
+            >
+              <option value="day">Business day</option>
+              <option value="shift">Shift (AM / PM)</option>
+            </select>
+          </label>
+          <label className="text-gray-700">
+            <span className="block mb-1">PM shift starts at</span>
+            <select
+              value={settings.shiftChangeHour}
+              disabled={settings.poolBy !== 'shift'}
+              onChange={(e) => setSettings({ ...settings, shiftChangeHour: Number(e.target.value) })}
+              className="border border-gray-300 rounded px-2 py-1 w-full"
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>{formatHour(hour)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-gray-700">
+            <span className="block mb-1">Share by</span>
+            <select
+              value={settings.weightBy}
+              onChange={(e) => setSettings({ ...settings, weightBy: e.target.value as ITipPoolSettings['weightBy'] })}
+              className="border border-gray-300 rounded px-2 py-1 w-full"
+            >
+              <option value="hours">Hours worked</option>
+              <option value="points">Hours × job points</option>
+            </select>
+          </label>
+        </div>
+
+        <table className="min-w-full mt-6 text-sm">
+          <thead>
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tip Eligible</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tip-Out %</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {report.jobs.map((job) => (
+              <tr key={job.jobId}>
+                <td className="px-3 py-2 text-gray-900">{job.title}</td>
+                <td className="px-3 py-2 text-gray-600">{job.tipEligible ? 'Yes' : 'No'}</td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={points(job.jobId)}
+                    disabled={settings.weightBy !== 'points'}
+                    onChange={(e) => setPoints(job.jobId, Number(e.target.value))}
+                    className="border border-gray-300 rounded px-2 py-1 w-20"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={tipOut(job.jobId)}
+                    onChange={(e) => setTipOut(job.jobId, Number(e.target.value))}
+                    className="border border-gray-300 rounded px-2 py-1 w-20"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">
+          Tip-outs are paid from each pool&apos;s tips to whoever worked that job; the rest is shared by tip-eligible jobs.
+        </p>
+
+        <button
+          onClick={saveSettings}
+          disabled={saving}
+          className="mt-4 px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save and Recalculate'}
+        </button>
+        {saveError && <p className="text-red-600 text-sm mt-2">{saveError}</p>}
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, note }: { label: string; value: string; note?: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="text-sm text-gray-600 mb-1">{label}</div>
+      <div className="text-2xl font-bold text-gray-900">{value}</div>
+      {note && <div className="text-xs text-gray-600 mt-1">{note}</div>}
+    </div>
+  );
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
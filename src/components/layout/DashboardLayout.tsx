@@ -18,6 +18,7 @@ import {
   Lightbulb
 } from 'lucide-react';
 import ToastSyncProgress from '@/components/pos/ToastSyncProgress';
+import ToastReconciliationPanel from '@/components/pos/ToastReconciliationPanel';
 
 // Navigation items
 interface INavItem {
@@ -171,6 +172,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
 
         {/* Toast sync progress */}
         <ToastSyncProgress restaurantId={user.restaurantId} />
+        <ToastReconciliationPanel restaurantId={user.restaurantId} />
       </div>
 
       {/* Main content */}
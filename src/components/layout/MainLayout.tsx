@@ -26,10 +26,13 @@ import {
   Briefcase,
   Link as LinkIcon,
   RefreshCw,
-  Lightbulb
+  Lightbulb,
+  CalendarDays,
+  Coins
 } from 'lucide-react';
 import { UserRole } from '@/models/Restaurant';
 import ToastSyncProgress from '@/components/pos/ToastSyncProgress';
+import ToastReconciliationPanel from '@/components/pos/ToastReconciliationPanel';
 
 interface NavItem {
   name: string;
@@ -142,6 +145,18 @@ export default function MainLayout({ children }: { children: React.ReactNode })
         icon: BarChart3,
         roles: ['manager', 'admin', 'owner']
       });
+      baseNav.push({
+        name: 'Staffing Plan',
+        href: '/dashboard/staffing',
+        icon: CalendarDays,
+        roles: ['manager', 'admin', 'owner']
+      });
+      baseNav.push({
+        name: 'Tip Pool',
+        href: '/dashboard/tips',
+        icon: Coins,
+        roles: ['manager', 'admin', 'owner']
+      });
     }
 
     if (role === 'employee' || role === 'manager' || role === 'admin' || role === 'owner' || role === 'restaurant_owner') {
@@ -357,6 +372,7 @@ export default function MainLayout({ children }: { children: React.ReactNode })
         {/* Toast Sync Progress & Help section */}
         <div className="absolute bottom-0 left-0 right-0 bg-white border-t border-gray-200">
           <ToastSyncProgress restaurantId={user.restaurantId} />
+          <ToastReconciliationPanel restaurantId={user.restaurantId} />
           <div className="px-4 py-2 border-t border-gray-200">
             <button className="w-full flex items-center px-3 py-2 text-sm font-medium text-gray-600 rounded-md hover:bg-gray-50 hover:text-gray-900 transition-colors">
               <HelpCircle className="mr-3 h-5 w-5" />
@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+
+interface Discrepancy {
+  metric: 'netSales' | 'tax' | 'tips' | 'discounts' | 'orderCount';
+  posValue: number;
+  storedValue: number;
+  difference: number;
+  percentDifference: number;
+}
+
+interface ReconciliationResult {
+  _id: string;
+  businessDate: string;
+  status: 'matched' | 'discrepancy' | 'error';
+  discrepancies: Discrepancy[];
+  error?: string;
+  checkedAt: string;
+}
+
+interface Props {
+  restaurantId: string;
+}
+
+const METRIC_LABELS: Record<Discrepancy['metric'], string> = {
+  netSales: 'Net sales',
+  tax: 'Tax',
+  tips: 'Tips',
+  discounts: 'Discounts',
+  orderCount: 'Orders'
+};
+
+/**
+ * Toast Reconciliation Panel
+ *
+ * Sits under ToastSyncProgress in the sidebar and shows whether our stored
+ * totals match Toast for recent business dates.
+ * - Loads stored results from /api/pos/toast/reconciliation
+ * - "Check now" re-runs the last 7 days
+ */
+export default function ToastReconciliationPanel({ restaurantId }: Props) {
+  const [results, setResults] = useState<ReconciliationResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const fetchResults = async () => {
+    try {
+      const token = localStorage.getItem('authToken');
+      if (!token) return;
+
+      const response = await fetch('/api/pos/toast/reconciliation?limit=7', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setResults(data.data?.results || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch reconciliation results:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runCheck = async () => {
+    try {
+      setIsChecking(true);
+      const token = localStorage.getItem('authToken');
+      if (!token) return;
+
+      await fetch('/api/pos/toast/reconciliation', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ days: 7 })
+      });
+      await fetchResults();
+    } catch (error) {
+      console.error('Failed to run reconciliation:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchResults();
+  }, [restaurantId]);
+
+  // "20250903" → "Sep 3"
+  const formatBusinessDate = (businessDate: string): string => {
+    const date = new Date(`${businessDate.slice(0, 4)}-${businessDate.slice(4, 6)}-${businessDate.slice(6, 8)}T12:00:00Z`);
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
+
+  const formatDifference = (discrepancy: Discrepancy): string => {
+    const sign = discrepancy.difference > 0 ? '+' : '-';
+    if (discrepancy.metric === 'orderCount') {
+      return `${sign}${Math.abs(discrepancy.difference)}`;
+    }
+    return `${sign}$${Math.abs(discrepancy.difference).toFixed(2)}`;
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center text-xs text-gray-500">
+          <Loader2 className="animate-spin h-4 w-4 mr-2" />
+          Loading...
+        </div>
+      );
+    }
+
+    if (results.length === 0) {
+      return (
+        <div className="text-xs text-gray-500">
+          Not checked yet
+        </div>
+      );
+    }
+
+    const flagged = results.filter(r => r.status !== 'matched');
+    const matched = results.length - flagged.length;
+
+    if (flagged.length === 0) {
+      return (
+        <div className="flex items-center justify-center px-3 py-2 text-sm font-medium text-green-700 bg-green-50 rounded-md">
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          {matched}/{results.length} days match Toast
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-center px-3 py-2 text-sm font-medium text-amber-700 bg-amber-50 rounded-md">
+          <AlertTriangle className="mr-2 h-4 w-4" />
+          {flagged.length} of {results.length} days differ
+        </div>
+        <div className="text-xs text-gray-600 space-y-1">
+          {flagged.slice(0, 3).map(result => (
+            <div key={result._id} className="flex justify-between" title={result.error}>
+              <span>{formatBusinessDate(result.businessDate)}</span>
+              <span className="font-medium">
+                {result.status === 'error'
+                  ? 'Check failed'
+                  : result.discrepancies.slice(0, 2)
+                      .map(d => `${METRIC_LABELS[d.metric]} ${formatDifference(d)}`)
+                      .join(', ')}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="px-4 py-4 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+          Data Accuracy
+        </div>
+        <button
+          onClick={runCheck}
+          disabled={isChecking}
+          className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center disabled:opacity-50"
+        >
+          <RefreshCw className={`mr-1 h-3 w-3 ${isChecking ? 'animate-spin' : ''}`} />
+          Check now
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
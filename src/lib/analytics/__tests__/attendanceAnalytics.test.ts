@@ -0,0 +1,58 @@
+import { Shift, TimeEntry, Restaurant } from '@/models';
+import { calculateAttendanceAnalytics } from '../attendanceAnalytics';
+
+jest.mock('@/models', () => ({
+  Shift: { find: jest.fn() },
+  TimeEntry: { find: jest.fn() },
+  Restaurant: { findById: jest.fn() }
+}));
+
+const RESTAURANT_ID = '64b000000000000000000001';
+const ENTRY_ID = '64b0000000000000000000e1';
+
+function found<T>(rows: T[]) {
+  return { sort: () => ({ lean: () => Promise.resolve(rows) }) };
+}
+
+describe('calculateAttendanceAnalytics', () => {
+  it('keeps a linked clock-in for its shift even when an earlier shift is closer', async () => {
+    (Restaurant.findById as jest.Mock).mockReturnValue({
+      select: () => Promise.resolve({ analyticsSettings: { timezone: 'UTC' }, team: { employees: [] } })
+    });
+    (Shift.find as jest.Mock).mockReturnValue(found([
+      {
+        _id: '64b0000000000000000000s1',
+        employeeToastGuid: 'e1',
+        scheduledStart: new Date('2026-07-01T10:00:00Z'),
+        scheduledEnd: new Date('2026-07-01T12:00:00Z')
+      },
+      {
+        _id: '64b0000000000000000000s2',
+        employeeToastGuid: 'e1',
+        scheduledStart: new Date('2026-07-01T11:00:00Z'),
+        scheduledEnd: new Date('2026-07-01T15:00:00Z'),
+        actualTimeEntryId: ENTRY_ID
+      }
+    ]));
+    (TimeEntry.find as jest.Mock).mockReturnValue(found([
+      {
+        _id: ENTRY_ID,
+        employeeToastGuid: 'e1',
+        clockInTime: new Date('2026-07-01T11:02:00Z'),
+        clockOutTime: new Date('2026-07-01T15:00:00Z'),
+        breakDuration: 0
+      }
+    ]));
+
+    const report = await calculateAttendanceAnalytics(
+      RESTAURANT_ID,
+      new Date('2026-07-01T00:00:00Z'),
+      new Date('2026-07-01T23:59:59Z')
+    );
+
+    expect(report.recentEvents.map(event => [event.type, event.shiftId])).toEqual([
+      ['no_show', '64b0000000000000000000s1']
+    ]);
+    expect(report.team).toMatchObject({ scheduledShifts: 2, workedShifts: 1, lateClockIns: 0 });
+  });
+});
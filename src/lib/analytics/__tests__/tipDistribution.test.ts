@@ -0,0 +1,153 @@
+import { Transaction, TimeEntry, Job, Restaurant } from '@/models';
+import {
+  calculateTipDistribution,
+  csvField,
+  resolveSettings,
+  tipDistributionToCsv,
+  DEFAULT_TIP_POOL_SETTINGS
+} from '../tipDistribution';
+
+jest.mock('@/models', () => ({
+  Transaction: { aggregate: jest.fn() },
+  TimeEntry: { find: jest.fn() },
+  Job: { find: jest.fn() },
+  Restaurant: { findById: jest.fn() }
+}));
+
+const RESTAURANT_ID = '64b000000000000000000001';
+const SERVER_JOB = '64b0000000000000000000a1';
+const BUSSER_JOB = '64b0000000000000000000a2';
+const HOST_JOB = '64b0000000000000000000a3';
+
+const jobs = [
+  { _id: SERVER_JOB, toastJobGuid: 'job-server', title: 'Server', tipEligible: true },
+  { _id: BUSSER_JOB, toastJobGuid: 'job-busser', title: 'Busser', tipEligible: false },
+  { _id: HOST_JOB, toastJobGuid: 'job-host', title: 'Host', tipEligible: false }
+];
+
+function timeEntry(employeeToastGuid: string, jobToastGuid: string, from: string, to: string, tipsEarned = 0) {
+  const clockInTime = new Date(`2026-07-01T${from}:00Z`);
+  const clockOutTime = new Date(`2026-07-01T${to}:00Z`);
+  const hours = (clockOutTime.getTime() - clockInTime.getTime()) / 3600000;
+  return {
+    employeeToastGuid,
+    jobId: null, // POS imports only carry the job GUID
+    jobToastGuid,
+    clockInTime,
+    clockOutTime,
+    breakDuration: 0,
+    hourlyWage: 15,
+    regularHours: hours,
+    overtimeHours: 0,
+    doubleOvertimeHours: 0,
+    totalPay: hours * 15,
+    tipsEarned
+  };
+}
+
+function mockPeriod(tipPoolSettings: object) {
+  (Restaurant.findById as jest.Mock).mockReturnValue({
+    select: () => Promise.resolve({
+      analyticsSettings: { timezone: 'UTC' },
+      tipPoolSettings,
+      team: { employees: [{ toastEmployeeId: 's1', firstName: 'Ana', lastName: 'Diaz' }] }
+    })
+  });
+  (Transaction.aggregate as jest.Mock).mockResolvedValue([
+    { _id: { date: '2026-07-01', hour: 11, employeeId: 's1' }, tips: 120 },
+    { _id: { date: '2026-07-01', hour: 18, employeeId: 's1' }, tips: 60 }
+  ]);
+  (TimeEntry.find as jest.Mock).mockReturnValue({
+    lean: () => Promise.resolve([
+      // Declared tips only count without check tips in the pool
+      timeEntry('s1', 'job-server', '10:00', '14:00', 50),
+      timeEntry('s2', 'job-server', '10:00', '12:00', 30),
+      timeEntry('b1', 'job-busser', '10:00', '14:00'),
+      timeEntry('h1', 'job-host', '10:00', '14:00')
+    ])
+  });
+  (Job.find as jest.Mock).mockReturnValue({ lean: () => Promise.resolve(jobs) });
+}
+
+describe('calculateTipDistribution', () => {
+  it('pays tip-outs first and shares the rest by hours within each shift pool', async () => {
+    mockPeriod({ poolBy: 'shift', shiftChangeHour: 16, tipOuts: [{ jobId: BUSSER_JOB, percentage: 10 }] });
+
+    const report = await calculateTipDistribution(RESTAURANT_ID, '2026-07-01', '2026-07-01');
+
+    expect(report.pools.map(pool => [pool.key, pool.grossTips, pool.pooledAmount, pool.unallocated])).toEqual([
+      ['2026-07-01 AM', 150, 135, 0],
+      ['2026-07-01 PM', 60, 0, 60]
+    ]);
+    expect(report.pools[0].tipOuts[0]).toMatchObject({ title: 'Busser', amount: 15, recipients: 1 });
+    expect(report.summary).toMatchObject({ totalTips: 210, tipOuts: 15, pooled: 135, unallocated: 60, employees: 3 });
+
+    const byId = new Map(report.employees.map(employee => [employee.employeeId, employee]));
+    expect(byId.get('s1')).toMatchObject({ name: 'Ana Diaz', hours: 4, tipsCollected: 180, poolShare: 90, netChange: -90 });
+    expect(byId.get('s2')).toMatchObject({ hours: 2, tipsCollected: 30, poolShare: 45, tipsPerHour: 22.5 });
+    expect(byId.get('b1')).toMatchObject({ jobs: ['Busser'], tipOutsReceived: 15, totalTips: 15 });
+    expect(byId.has('h1')).toBe(false);
+  });
+
+  it('pools the whole business day together', async () => {
+    mockPeriod({ poolBy: 'day', tipOuts: [{ jobId: BUSSER_JOB, percentage: 10 }] });
+
+    const report = await calculateTipDistribution(RESTAURANT_ID, '2026-07-01', '2026-07-01');
+
+    expect(report.pools).toHaveLength(1);
+    expect(report.summary).toMatchObject({ totalTips: 210, tipOuts: 21, pooled: 189, unallocated: 0 });
+    expect(report.employees.map(employee => [employee.employeeId, employee.totalTips])).toEqual([
+      ['s1', 126],
+      ['s2', 63],
+      ['b1', 21]
+    ]);
+  });
+});
+
+describe('tipDistributionToCsv', () => {
+  it('writes one row per employee plus unallocated tips, with fields escaped', async () => {
+    mockPeriod({ poolBy: 'shift', shiftChangeHour: 16, tipOuts: [{ jobId: BUSSER_JOB, percentage: 10 }] });
+    const report = await calculateTipDistribution(RESTAURANT_ID, '2026-07-01', '2026-07-01');
+    report.employees[0].name = '=HYPERLINK("x"), Ana';
+
+    const lines = tipDistributionToCsv(report).split('\n');
+
+    expect(lines[0]).toBe('Employee,Toast Employee ID,Jobs,Hours,Tips Collected,Tip-Outs Received,Pool Share,Total Tips,Net Change,Tips per Hour');
+    expect(lines[1]).toBe('"\'=HYPERLINK(""x""), Ana",s1,Server,4.00,180.00,0.00,90.00,90.00,-90.00,22.50');
+    expect(lines[lines.length - 1]).toBe('Unallocated,,,,,,,60.00,,');
+  });
+});
+
+describe('csvField', () => {
+  it('neutralizes values a spreadsheet would run as formulas', () => {
+    expect(csvField('=1+1')).toBe("'=1+1");
+    expect(csvField('+15551234')).toBe("'+15551234");
+    expect(csvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvField('-cmd')).toBe("'-cmd");
+  });
+
+  it('leaves plain numbers, including negatives, as numbers', () => {
+    expect(csvField('-12.50')).toBe('-12.50');
+    expect(csvField('0.00')).toBe('0.00');
+  });
+
+  it('quotes commas, quotes and newlines', () => {
+    expect(csvField('Server; Busser')).toBe('Server; Busser');
+    expect(csvField('Diaz, Ana')).toBe('"Diaz, Ana"');
+    expect(csvField('say "hi"\nthere')).toBe('"say ""hi""\nthere"');
+  });
+});
+
+describe('resolveSettings', () => {
+  it('uses the defaults when nothing is saved', () => {
+    expect(resolveSettings(null)).toEqual(DEFAULT_TIP_POOL_SETTINGS);
+  });
+
+  it('keeps saved values, including a midnight shift change', () => {
+    expect(resolveSettings({ poolBy: 'shift', shiftChangeHour: 0 })).toMatchObject({
+      poolBy: 'shift',
+      shiftChangeHour: 0,
+      weightBy: 'hours'
+    });
+  });
+});
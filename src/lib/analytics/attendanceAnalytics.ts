@@ -0,0 +1,335 @@
+/**
+ * Attendance Analytics - Schedule Adherence
+ *
+ * Compares scheduled shifts (Shift) with clock-ins (TimeEntry):
+ * - Late clock-ins and early clock-outs (beyond a grace period)
+ * - No-shows: ended shifts with no clock-in
+ * - Unscheduled shifts: clock-ins with no matching shift
+ * - Break violations: long shifts without the minimum meal break
+ * - Weekly adherence trends per employee and for the team
+ *
+ * Shifts are matched to clock-ins by Shift.actualTimeEntryId, or failing
+ * that, by the same employee clocking in near the scheduled start.
+ */
+
+import { Shift, TimeEntry, Restaurant } from '@/models';
+import { Types } from 'mongoose';
+import { toLocalDate, addDays } from '@/utils/timezone';
+
+const LATE_GRACE_MINUTES = 5;
+const EARLY_GRACE_MINUTES = 5;
+// A clock-in this close to a scheduled start is that shift's clock-in
+const MATCH_WINDOW_MINUTES = 120;
+// Meal break rule (common state default): shifts over 6h need a 30 minute break
+const MEAL_BREAK_AFTER_HOURS = 6;
+const MIN_MEAL_BREAK_MINUTES = 30;
+// Adherence change (percentage points) between halves of the period that counts as a trend
+const TREND_THRESHOLD = 10;
+const MINUTE_MS = 60 * 1000;
+const RECENT_EVENTS = 50;
+
+export type AttendanceEventType =
+  | 'late_clock_in'
+  | 'early_clock_out'
+  | 'no_show'
+  | 'unscheduled_shift'
+  | 'break_violation';
+
+export type AttendanceTrend = 'improving' | 'declining' | 'stable' | 'insufficient_data';
+
+export interface IAttendanceEvent {
+  type: AttendanceEventType;
+  employeeId: string; // Toast employee GUID
+  date: string; // YYYY-MM-DD, restaurant local
+  minutes?: number; // Late/early by, or break taken
+  shiftId?: string;
+  timeEntryId?: string;
+}
+
+export interface IAttendanceWeek {
+  weekStart: string; // Monday, YYYY-MM-DD
+  scheduledShifts: number;
+  issues: number;
+  adherenceRate: number;
+}
+
+export interface IAttendanceCounts {
+  scheduledShifts: number; // Ended shifts in the period
+  workedShifts: number;
+  lateClockIns: number;
+  averageMinutesLate: number;
+  earlyClockOuts: number;
+  noShows: number;
+  unscheduledShifts: number;
+  breakViolations: number;
+  adherenceRate: number; // % of scheduled shifts worked on time and in full
+}
+
+export interface IEmployeeAttendance extends IAttendanceCounts {
+  employeeId: string; // Toast employee GUID
+  name: string;
+  trend: AttendanceTrend;
+  weekly: IAttendanceWeek[];
+}
+
+export interface IAttendanceAnalytics {
+  restaurantId: string;
+  period: {
+    start: Date;
+    end: Date;
+  };
+  timezone: string;
+  team: IAttendanceCounts & { trend: AttendanceTrend };
+  employees: IEmployeeAttendance[];
+  weekly: IAttendanceWeek[];
+  recentEvents: IAttendanceEvent[];
+}
+
+interface ShiftOutcome {
+  employeeId: string;
+  date: string;
+  ended: boolean;
+  onTime: boolean;
+}
+
+/**
+ * Calculate attendance analytics for a restaurant
+ */
+export async function calculateAttendanceAnalytics(
+  restaurantId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<IAttendanceAnalytics> {
+  const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings team.employees');
+  const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+  const restaurantObjectId = new Types.ObjectId(restaurantId);
+  const matchWindow = MATCH_WINDOW_MINUTES * MINUTE_MS;
+
+  const [shifts, timeEntries] = await Promise.all([
+    Shift.find({
+      restaurantId: restaurantObjectId,
+      scheduledStart: { $gte: startDate, $lte: endDate }
+    }).sort({ scheduledStart: 1 }).lean(),
+    // Widened so shifts near the edges still find their clock-ins
+    TimeEntry.find({
+      restaurantId: restaurantObjectId,
+      clockInTime: {
+        $gte: new Date(startDate.getTime() - matchWindow),
+        $lte: new Date(endDate.getTime() + matchWindow)
+      }
+    }).sort({ clockInTime: 1 }).lean()
+  ]);
+
+  const entriesById = new Map(timeEntries.map(entry => [entry._id.toString(), entry]));
+  const unmatched = new Set(timeEntries.map(entry => entry._id.toString()));
+  const events: IAttendanceEvent[] = [];
+  const outcomes: ShiftOutcome[] = [];
+  const now = Date.now();
+
+  // Linked clock-ins first, so an earlier unlinked shift can't take one by proximity
+  const linked = new Map<string, (typeof timeEntries)[number]>();
+  shifts.forEach(shift => {
+    const entry = shift.actualTimeEntryId ? entriesById.get(shift.actualTimeEntryId.toString()) : undefined;
+    if (entry && unmatched.has(entry._id.toString())) {
+      linked.set(shift._id.toString(), entry);
+      unmatched.delete(entry._id.toString());
+    }
+  });
+
+  for (const shift of shifts) {
+    const employeeId = shift.employeeToastGuid;
+    const scheduledStart = new Date(shift.scheduledStart).getTime();
+    const scheduledEnd = new Date(shift.scheduledEnd).getTime();
+    const date = toLocalDate(new Date(shift.scheduledStart), timezone);
+    const shiftId = shift._id.toString();
+
+    // Linked clock-in, else the employee's closest unclaimed clock-in to the scheduled start
+    let entry = linked.get(shiftId);
+    if (!entry) {
+      let closest = matchWindow;
+      timeEntries.forEach(candidate => {
+        if (candidate.employeeToastGuid !== employeeId || !unmatched.has(candidate._id.toString())) return;
+        const distance = Math.abs(new Date(candidate.clockInTime).getTime() - scheduledStart);
+        if (distance <= closest) {
+          closest = distance;
+          entry = candidate;
+        }
+      });
+    }
+
+    const ended = scheduledEnd <= now;
+
+    if (!entry) {
+      if (ended) {
+        events.push({ type: 'no_show', employeeId, date, shiftId });
+      }
+      outcomes.push({ employeeId, date, ended, onTime: false });
+      continue;
+    }
+
+    unmatched.delete(entry._id.toString());
+    const timeEntryId = entry._id.toString();
+    let onTime = true;
+
+    const minutesLate = (new Date(entry.clockInTime).getTime() - scheduledStart) / MINUTE_MS;
+    if (minutesLate > LATE_GRACE_MINUTES) {
+      events.push({ type: 'late_clock_in', employeeId, date, minutes: Math.round(minutesLate), shiftId, timeEntryId });
+      onTime = false;
+    }
+
+    if (entry.clockOutTime) {
+      const minutesEarly = (scheduledEnd - new Date(entry.clockOutTime).getTime()) / MINUTE_MS;
+      if (minutesEarly > EARLY_GRACE_MINUTES) {
+        events.push({ type: 'early_clock_out', employeeId, date, minutes: Math.round(minutesEarly), shiftId, timeEntryId });
+        onTime = false;
+      }
+    }
+
+    outcomes.push({ employeeId, date, ended, onTime });
+  }
+
+  // Clock-ins in the period that no shift accounts for
+  timeEntries.forEach(entry => {
+    const clockIn = new Date(entry.clockInTime);
+    if (!unmatched.has(entry._id.toString()) || clockIn < startDate || clockIn > endDate) return;
+    events.push({
+      type: 'unscheduled_shift',
+      employeeId: entry.employeeToastGuid,
+      date: toLocalDate(clockIn, timezone),
+      timeEntryId: entry._id.toString()
+    });
+  });
+
+  // Breaks apply to every completed clock-in in the period, scheduled or not
+  timeEntries.forEach(entry => {
+    const clockIn = new Date(entry.clockInTime);
+    if (!entry.clockOutTime || clockIn < startDate || clockIn > endDate) return;
+
+    const spanHours = (new Date(entry.clockOutTime).getTime() - clockIn.getTime()) / (60 * MINUTE_MS);
+    if (spanHours > MEAL_BREAK_AFTER_HOURS && (entry.breakDuration || 0) < MIN_MEAL_BREAK_MINUTES) {
+      events.push({
+        type: 'break_violation',
+        employeeId: entry.employeeToastGuid,
+        date: toLocalDate(clockIn, timezone),
+        minutes: entry.breakDuration || 0,
+        timeEntryId: entry._id.toString()
+      });
+    }
+  });
+
+  const names = new Map<string, string>();
+  (restaurant?.team?.employees || []).forEach((emp: any) => {
+    if (emp.toastEmployeeId) {
+      names.set(emp.toastEmployeeId, `${emp.firstName} ${emp.lastName}`.trim());
+    }
+  });
+
+  const employeeIds = new Set([
+    ...outcomes.map(o => o.employeeId),
+    ...events.map(e => e.employeeId)
+  ]);
+
+  const employees: IEmployeeAttendance[] = Array.from(employeeIds).map(employeeId => {
+    const employeeOutcomes = outcomes.filter(o => o.employeeId === employeeId);
+    const employeeEvents = events.filter(e => e.employeeId === employeeId);
+    const weekly = summarizeWeeks(employeeOutcomes, employeeEvents);
+
+    return {
+      employeeId,
+      name: names.get(employeeId) || 'Unknown employee',
+      ...countAttendance(employeeOutcomes, employeeEvents),
+      trend: detectTrend(weekly),
+      weekly
+    };
+  }).sort((a, b) => a.adherenceRate - b.adherenceRate);
+
+  const weekly = summarizeWeeks(outcomes, events);
+
+  return {
+    restaurantId,
+    period: {
+      start: startDate,
+      end: endDate
+    },
+    timezone,
+    team: {
+      ...countAttendance(outcomes, events),
+      trend: detectTrend(weekly)
+    },
+    employees,
+    weekly,
+    recentEvents: events
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, RECENT_EVENTS)
+  };
+}
+
+function countAttendance(outcomes: ShiftOutcome[], events: IAttendanceEvent[]): IAttendanceCounts {
+  const ended = outcomes.filter(o => o.ended);
+  const late = events.filter(e => e.type === 'late_clock_in');
+  const noShows = events.filter(e => e.type === 'no_show').length;
+
+  return {
+    scheduledShifts: ended.length,
+    workedShifts: ended.length - noShows,
+    lateClockIns: late.length,
+    averageMinutesLate: late.length > 0 ? late.reduce((sum, e) => sum + (e.minutes || 0), 0) / late.length : 0,
+    earlyClockOuts: events.filter(e => e.type === 'early_clock_out').length,
+    noShows,
+    unscheduledShifts: events.filter(e => e.type === 'unscheduled_shift').length,
+    breakViolations: events.filter(e => e.type === 'break_violation').length,
+    adherenceRate: ended.length > 0 ? (ended.filter(o => o.onTime).length / ended.length) * 100 : 100
+  };
+}
+
+function weekStartOf(date: string): string {
+  const dayOfWeek = new Date(`${date}T12:00:00.000Z`).getUTCDay();
+  return addDays(date, -((dayOfWeek + 6) % 7));
+}
+
+function summarizeWeeks(outcomes: ShiftOutcome[], events: IAttendanceEvent[]): IAttendanceWeek[] {
+  const weeks = new Map<string, { scheduled: number; onTime: number; issues: number }>();
+  const weekFor = (date: string) => {
+    const key = weekStartOf(date);
+    const week = weeks.get(key) || { scheduled: 0, onTime: 0, issues: 0 };
+    weeks.set(key, week);
+    return week;
+  };
+
+  outcomes.filter(o => o.ended).forEach(o => {
+    const week = weekFor(o.date);
+    week.scheduled++;
+    if (o.onTime) week.onTime++;
+  });
+  events.forEach(e => {
+    weekFor(e.date).issues++;
+  });
+
+  return Array.from(weeks.entries())
+    .map(([weekStart, week]) => ({
+      weekStart,
+      scheduledShifts: week.scheduled,
+      issues: week.issues,
+      adherenceRate: week.scheduled > 0 ? (week.onTime / week.scheduled) * 100 : 100
+    }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+}
+
+/**
+ * Adherence in the later half of the weeks vs. the earlier half
+ */
+function detectTrend(weekly: IAttendanceWeek[]): AttendanceTrend {
+  const weeks = weekly.filter(w => w.scheduledShifts > 0);
+  if (weeks.length < 2) return 'insufficient_data';
+
+  const half = Math.floor(weeks.length / 2);
+  const rate = (list: IAttendanceWeek[]) => {
+    const scheduled = list.reduce((sum, w) => sum + w.scheduledShifts, 0);
+    return list.reduce((sum, w) => sum + (w.adherenceRate / 100) * w.scheduledShifts, 0) / scheduled * 100;
+  };
+
+  const change = rate(weeks.slice(weeks.length - half)) - rate(weeks.slice(0, half));
+  if (change >= TREND_THRESHOLD) return 'improving';
+  if (change <= -TREND_THRESHOLD) return 'declining';
+  return 'stable';
+}
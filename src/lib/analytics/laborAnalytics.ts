@@ -0,0 +1,394 @@
+/**
+ * Labor Analytics - Labor Cost vs. Sales
+ *
+ * Joins clocked time (TimeEntry) with hourly sales (Transaction):
+ * - Labor cost % against the restaurant's laborCostPercentageGoal
+ * - Sales per labor hour (SPLH), overall and by day
+ * - Labor by job (server, cook, ...)
+ * - Weekday/hour slots that are consistently over- or understaffed
+ *
+ * Sales are net sales (subtotal, before tax and tips), the usual basis for
+ * labor cost %. Each time entry's hours and pay are spread across the local
+ * clock hours it covers, with unpaid breaks spread evenly.
+ */
+
+import { Transaction, TimeEntry, Job, Restaurant, ITimeEntry } from '@/models';
+import { TransactionStatus } from '@/models/Transaction';
+import { calculateTimeEntryPay } from '@/models/TimeEntry';
+import { Types } from 'mongoose';
+import { toLocalDateHour } from '@/utils/timezone';
+
+const DEFAULT_LABOR_COST_GOAL = 30; // % of net sales
+// SPLH this far from target (either way) flags a slot
+const STAFFING_TOLERANCE = 0.25;
+// A weekday/hour slot must recur before it is flagged
+const MIN_SLOT_OCCURRENCES = 2;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface ILaborByJob {
+  jobId: string | null;
+  title: string;
+  employees: number;
+  laborHours: number;
+  overtimeHours: number;
+  laborCost: number;
+  laborCostPercent: number; // Of total net sales
+  averageWage: number;
+}
+
+export interface ILaborDay {
+  date: string; // YYYY-MM-DD, restaurant local
+  sales: number;
+  laborHours: number;
+  laborCost: number;
+  laborCostPercent: number;
+  salesPerLaborHour: number;
+}
+
+export interface IStaffingSlot {
+  dayOfWeek: number; // 0 = Sunday
+  dayName: string;
+  hour: number;
+  occurrences: number;
+  averageSales: number;
+  averageLaborHours: number;
+  salesPerLaborHour: number;
+  recommendedLaborHours: number; // Labor hours that would hit the target SPLH
+  laborHoursDelta: number; // Recommended - actual (negative = cut)
+  status: 'overstaffed' | 'understaffed';
+}
+
+export interface ILaborAnalytics {
+  restaurantId: string;
+  period: {
+    start: Date;
+    end: Date;
+  };
+  timezone: string;
+
+  summary: {
+    sales: number;
+    laborCost: number;
+    laborHours: number;
+    overtimeHours: number;
+    overtimePremium: number; // Cost above straight time for overtime hours
+    laborCostPercent: number;
+    laborCostGoal: number;
+    salesPerLaborHour: number;
+    targetSalesPerLaborHour: number; // SPLH that meets the goal at the average wage
+    averageWage: number;
+  };
+
+  byJob: ILaborByJob[];
+  daily: ILaborDay[];
+
+  staffing: {
+    overstaffed: IStaffingSlot[];
+    understaffed: IStaffingSlot[];
+    excessLaborCost: number; // Cost of overstaffed hours beyond the target
+    // Labor in hours with no sales (opening prep, closing)
+    nonSelling: { laborHours: number; laborCost: number };
+  };
+}
+
+export interface ISpreadTimeEntry {
+  workedHours: number; // Paid hours of the whole shift
+  cost: number; // Pay for the whole shift
+  inWindow: number; // Share of the shift inside the window (0-1)
+}
+
+interface HourBucket {
+  date: string;
+  hour: number;
+  sales: number;
+  laborHours: number;
+  laborCost: number;
+}
+
+/**
+ * Calculate labor analytics for a restaurant
+ */
+export async function calculateLaborAnalytics(
+  restaurantId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<ILaborAnalytics> {
+  const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings');
+  const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+  const laborCostGoal = restaurant?.analyticsSettings?.laborCostPercentageGoal || DEFAULT_LABOR_COST_GOAL;
+  const restaurantObjectId = new Types.ObjectId(restaurantId);
+
+  const [timeEntries, jobs, salesByHour] = await Promise.all([
+    // Shifts overlapping the period, including anyone still clocked in
+    TimeEntry.find({
+      restaurantId: restaurantObjectId,
+      clockInTime: { $lt: endDate },
+      $or: [{ clockOutTime: { $gte: startDate } }, { clockOutTime: null }]
+    }).lean(),
+    Job.find({ restaurantId: restaurantObjectId }).lean(),
+    Transaction.aggregate([
+      {
+        $match: {
+          restaurantId: restaurantObjectId,
+          transactionDate: { $gte: startDate, $lte: endDate },
+          status: { $nin: [TransactionStatus.VOIDED, TransactionStatus.FAILED] }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            date: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate', timezone } },
+            hour: { $hour: { date: '$transactionDate', timezone } }
+          },
+          sales: { $sum: '$subtotal' }
+        }
+      }
+    ]) as Promise<Array<{ _id: { date: string; hour: number }; sales: number }>>
+  ]);
+
+  const buckets = new Map<string, HourBucket>();
+  const bucketFor = (date: string, hour: number): HourBucket => {
+    const key = `${date} ${hour}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { date, hour, sales: 0, laborHours: 0, laborCost: 0 };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  salesByHour.forEach(row => {
+    bucketFor(row._id.date, row._id.hour).sales += row.sales;
+  });
+
+  // Job titles by id and Toast GUID (entries may only carry the GUID)
+  const jobTitles = new Map<string, string>();
+  jobs.forEach(job => {
+    jobTitles.set(job._id.toString(), job.title);
+    jobTitles.set(job.toastJobGuid, job.title);
+  });
+
+  const byJob = new Map<string, ILaborByJob & { employeeIds: Set<string> }>();
+  const now = new Date();
+  let overtimeHours = 0;
+  let overtimePremium = 0;
+
+  for (const entry of timeEntries) {
+    const spread = spreadTimeEntry(entry, startDate, endDate, timezone, (date, hour, hours, cost) => {
+      const bucket = bucketFor(date, hour);
+      bucket.laborHours += hours;
+      bucket.laborCost += cost;
+    }, now);
+    if (!spread) continue;
+    const { workedHours, cost, inWindow } = spread;
+
+    const entryOvertime = ((entry.overtimeHours || 0) + (entry.doubleOvertimeHours || 0)) * inWindow;
+    overtimeHours += entryOvertime;
+    overtimePremium += ((entry.overtimeHours || 0) * 0.5 + (entry.doubleOvertimeHours || 0)) * entry.hourlyWage * inWindow;
+
+    const jobKey = entry.jobId?.toString() || entry.jobToastGuid || 'unassigned';
+    let job = byJob.get(jobKey);
+    if (!job) {
+      job = {
+        jobId: entry.jobId?.toString() || null,
+        title: jobTitles.get(jobKey) || (entry.jobToastGuid && jobTitles.get(entry.jobToastGuid)) || 'Unassigned',
+        employees: 0,
+        employeeIds: new Set<string>(),
+        laborHours: 0,
+        overtimeHours: 0,
+        laborCost: 0,
+        laborCostPercent: 0,
+        averageWage: 0
+      };
+      byJob.set(jobKey, job);
+    }
+    job.employeeIds.add(entry.employeeToastGuid);
+    job.laborHours += workedHours * inWindow;
+    job.overtimeHours += entryOvertime;
+    job.laborCost += cost * inWindow;
+  }
+
+  const hours = Array.from(buckets.values());
+  const sales = hours.reduce((sum, b) => sum + b.sales, 0);
+  const laborHours = hours.reduce((sum, b) => sum + b.laborHours, 0);
+  const laborCost = hours.reduce((sum, b) => sum + b.laborCost, 0);
+  const averageWage = laborHours > 0 ? laborCost / laborHours : 0;
+  const targetSalesPerLaborHour = averageWage / (laborCostGoal / 100);
+
+  const laborByJob = Array.from(byJob.values())
+    .map(({ employeeIds, ...job }) => ({
+      ...job,
+      employees: employeeIds.size,
+      laborCostPercent: sales > 0 ? (job.laborCost / sales) * 100 : 0,
+      averageWage: job.laborHours > 0 ? job.laborCost / job.laborHours : 0
+    }))
+    .sort((a, b) => b.laborCost - a.laborCost);
+
+  return {
+    restaurantId,
+    period: {
+      start: startDate,
+      end: endDate
+    },
+    timezone,
+    summary: {
+      sales,
+      laborCost,
+      laborHours,
+      overtimeHours,
+      overtimePremium,
+      laborCostPercent: sales > 0 ? (laborCost / sales) * 100 : 0,
+      laborCostGoal,
+      salesPerLaborHour: laborHours > 0 ? sales / laborHours : 0,
+      targetSalesPerLaborHour,
+      averageWage
+    },
+    byJob: laborByJob,
+    daily: summarizeDays(hours),
+    staffing: analyzeStaffing(hours, targetSalesPerLaborHour, averageWage)
+  };
+}
+
+/**
+ * Spread a time entry's worked hours and pay over the local clock hours it
+ * covers inside [windowStart, windowEnd]. Null if nothing falls inside.
+ */
+export function spreadTimeEntry(
+  entry: Pick<ITimeEntry, 'clockInTime' | 'clockOutTime' | 'breakDuration' | 'hourlyWage' | 'totalPay' | 'regularHours' | 'overtimeHours' | 'doubleOvertimeHours'>,
+  windowStart: Date,
+  windowEnd: Date,
+  timezone: string,
+  onHour: (date: string, hour: number, hours: number, cost: number) => void,
+  now: Date = new Date()
+): ISpreadTimeEntry | null {
+  const shiftStart = new Date(entry.clockInTime).getTime();
+  const shiftEnd = entry.clockOutTime ? new Date(entry.clockOutTime).getTime() : now.getTime();
+  const start = Math.max(shiftStart, windowStart.getTime());
+  const end = Math.min(shiftEnd, windowEnd.getTime());
+  if (end <= start || shiftEnd <= shiftStart) return null;
+
+  const spanHours = (shiftEnd - shiftStart) / HOUR_MS;
+  const workedHours = Math.max(0, spanHours - (entry.breakDuration || 0) / 60);
+  if (workedHours === 0) return null;
+
+  // Open shifts haven't been paid out yet; cost them at straight time so far
+  const cost = entry.clockOutTime ? entryPay(entry) : workedHours * entry.hourlyWage;
+  const costPerHour = cost / workedHours;
+  const workedRatio = workedHours / spanHours;
+
+  for (let t = start; t < end;) {
+    const segmentEnd = Math.min(end, Math.floor(t / HOUR_MS) * HOUR_MS + HOUR_MS);
+    const hours = ((segmentEnd - t) / HOUR_MS) * workedRatio;
+    const local = toLocalDateHour(new Date(t), timezone);
+    onHour(local.date, local.hour, hours, hours * costPerHour);
+    t = segmentEnd;
+  }
+
+  return { workedHours, cost, inWindow: (end - start) / (shiftEnd - shiftStart) };
+}
+
+/**
+ * Pay for a closed time entry. Bulk imports skip the TimeEntry pre-save hook
+ * and store totalPay as 0, so price the hours the same way the hook would.
+ */
+export function entryPay(
+  entry: Pick<ITimeEntry, 'hourlyWage' | 'totalPay' | 'regularHours' | 'overtimeHours' | 'doubleOvertimeHours'>
+): number {
+  return entry.totalPay > 0 ? entry.totalPay : calculateTimeEntryPay(entry);
+}
+
+function summarizeDays(hours: HourBucket[]): ILaborDay[] {
+  const days = new Map<string, ILaborDay>();
+
+  hours.forEach(bucket => {
+    let day = days.get(bucket.date);
+    if (!day) {
+      day = { date: bucket.date, sales: 0, laborHours: 0, laborCost: 0, laborCostPercent: 0, salesPerLaborHour: 0 };
+      days.set(bucket.date, day);
+    }
+    day.sales += bucket.sales;
+    day.laborHours += bucket.laborHours;
+    day.laborCost += bucket.laborCost;
+  });
+
+  return Array.from(days.values())
+    .map(day => ({
+      ...day,
+      laborCostPercent: day.sales > 0 ? (day.laborCost / day.sales) * 100 : 0,
+      salesPerLaborHour: day.laborHours > 0 ? day.sales / day.laborHours : 0
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Compare each recurring weekday/hour slot's SPLH to the target. Slots with
+ * no sales are opening/closing work and are reported separately.
+ */
+function analyzeStaffing(
+  hours: HourBucket[],
+  targetSalesPerLaborHour: number,
+  averageWage: number
+): ILaborAnalytics['staffing'] {
+  const nonSelling = { laborHours: 0, laborCost: 0 };
+  const slots = new Map<string, { dayOfWeek: number; hour: number; occurrences: number; sales: number; laborHours: number }>();
+
+  hours.forEach(bucket => {
+    if (bucket.laborHours === 0) return;
+    if (bucket.sales <= 0) {
+      nonSelling.laborHours += bucket.laborHours;
+      nonSelling.laborCost += bucket.laborCost;
+      return;
+    }
+
+    const dayOfWeek = new Date(`${bucket.date}T12:00:00.000Z`).getUTCDay();
+    const key = `${dayOfWeek}-${bucket.hour}`;
+    const slot = slots.get(key) || { dayOfWeek, hour: bucket.hour, occurrences: 0, sales: 0, laborHours: 0 };
+    slot.occurrences++;
+    slot.sales += bucket.sales;
+    slot.laborHours += bucket.laborHours;
+    slots.set(key, slot);
+  });
+
+  const overstaffed: IStaffingSlot[] = [];
+  const understaffed: IStaffingSlot[] = [];
+  let excessLaborCost = 0;
+
+  if (targetSalesPerLaborHour > 0) {
+    slots.forEach(slot => {
+      if (slot.occurrences < MIN_SLOT_OCCURRENCES) return;
+
+      const salesPerLaborHour = slot.sales / slot.laborHours;
+      const ratio = salesPerLaborHour / targetSalesPerLaborHour;
+      if (Math.abs(ratio - 1) <= STAFFING_TOLERANCE) return;
+
+      const averageSales = slot.sales / slot.occurrences;
+      const averageLaborHours = slot.laborHours / slot.occurrences;
+      const recommendedLaborHours = averageSales / targetSalesPerLaborHour;
+      const staffingSlot: IStaffingSlot = {
+        dayOfWeek: slot.dayOfWeek,
+        dayName: DAY_NAMES[slot.dayOfWeek],
+        hour: slot.hour,
+        occurrences: slot.occurrences,
+        averageSales,
+        averageLaborHours,
+        salesPerLaborHour,
+        recommendedLaborHours,
+        laborHoursDelta: recommendedLaborHours - averageLaborHours,
+        status: ratio < 1 ? 'overstaffed' : 'understaffed'
+      };
+
+      if (staffingSlot.status === 'overstaffed') {
+        overstaffed.push(staffingSlot);
+        excessLaborCost += -staffingSlot.laborHoursDelta * slot.occurrences * averageWage;
+      } else {
+        understaffed.push(staffingSlot);
+      }
+    });
+  }
+
+  overstaffed.sort((a, b) => a.laborHoursDelta - b.laborHoursDelta);
+  understaffed.sort((a, b) => b.laborHoursDelta - a.laborHoursDelta);
+
+  return { overstaffed, understaffed, excessLaborCost, nonSelling };
+}
@@ -7,10 +7,17 @@
  * - Task assignment and completion
  * - Team revenue contribution
  * - Team gamification rankings
+ * - Schedule adherence (late clock-ins, no-shows, break violations)
  */
 
 import { Transaction } from '@/models';
 import { Types } from 'mongoose';
+import {
+  calculateAttendanceAnalytics,
+  IAttendanceCounts,
+  IEmployeeAttendance,
+  AttendanceTrend
+} from './attendanceAnalytics';
 
 export interface ITeamMemberStats {
   userId: string;
@@ -35,6 +42,8 @@ export interface ITeamMemberStats {
     level: number;
     rank: number;
   };
+
+  attendance: IAttendanceCounts & { trend: AttendanceTrend };
 }
 
 export interface IManagerAnalytics {
@@ -70,6 +79,9 @@ export interface IManagerAnalytics {
     topPerformer: string | null;
   };
 
+  // Schedule Adherence
+  attendance: IAttendanceCounts & { trend: AttendanceTrend };
+
   // Individual Team Members
   teamMembers: ITeamMemberStats[];
 
@@ -101,6 +113,10 @@ export async function calculateManagerAnalytics(
     transactionDate: { $gte: startDate, $lte: endDate }
   }).lean();
 
+  // Shift vs. clock-in adherence, keyed by Toast employee GUID
+  const attendance = await calculateAttendanceAnalytics(restaurantId, startDate, endDate);
+  const attendanceByEmployee = new Map(attendance.employees.map(a => [a.employeeId, a]));
+
   // Build team member stats
   const teamMembers: ITeamMemberStats[] = employees.map((emp: any) => {
     const toastEmployeeId = emp.toastEmployeeId;
@@ -132,7 +148,8 @@ export async function calculateManagerAnalytics(
         points: emp.points || 0,
         level: emp.level || 1,
         rank: 0 // TODO: Calculate rank based on points
-      }
+      },
+      attendance: toMemberAttendance(attendanceByEmployee.get(toastEmployeeId))
     };
   });
 
@@ -193,6 +210,7 @@ export async function calculateManagerAnalytics(
       averageTicket,
       topPerformer
     },
+    attendance: attendance.team,
     teamMembers,
     trends: {
       performanceChange,
@@ -218,6 +236,8 @@ export async function getTeamMemberStats(
     transactionDate: { $gte: startDate, $lte: endDate }
   }).lean();
 
+  const attendance = await calculateAttendanceAnalytics(restaurantId, startDate, endDate);
+
   const totalSales = transactions.reduce((sum, t) => sum + (t.totalAmount || 0), 0);
   const transactionCount = transactions.length;
   const averageTicket = transactionCount > 0 ? totalSales / transactionCount : 0;
@@ -241,6 +261,41 @@ export async function getTeamMemberStats(
       points: 0,
       level: 1,
       rank: 0
-    }
+    },
+    attendance: toMemberAttendance(attendance.employees.find(a => a.employeeId === userId))
+  };
+}
+
+/**
+ * Attendance counts for a team member (zeros if they had no shifts or
+ * clock-ins in the period)
+ */
+function toMemberAttendance(attendance?: IEmployeeAttendance): IAttendanceCounts & { trend: AttendanceTrend } {
+  if (attendance) {
+    return {
+      scheduledShifts: attendance.scheduledShifts,
+      workedShifts: attendance.workedShifts,
+      lateClockIns: attendance.lateClockIns,
+      averageMinutesLate: attendance.averageMinutesLate,
+      earlyClockOuts: attendance.earlyClockOuts,
+      noShows: attendance.noShows,
+      unscheduledShifts: attendance.unscheduledShifts,
+      breakViolations: attendance.breakViolations,
+      adherenceRate: attendance.adherenceRate,
+      trend: attendance.trend
+    };
+  }
+
+  return {
+    scheduledShifts: 0,
+    workedShifts: 0,
+    lateClockIns: 0,
+    averageMinutesLate: 0,
+    earlyClockOuts: 0,
+    noShows: 0,
+    unscheduledShifts: 0,
+    breakViolations: 0,
+    adherenceRate: 100,
+    trend: 'insufficient_data'
   };
 }
@@ -8,10 +8,12 @@
  * - Complete task/workflow stats
  * - System-wide gamification
  * - Trend analysis and forecasting
+ * - Forecast accuracy (predicted vs. actual revenue)
  */
 
 import { Transaction, Insight, Restaurant, Task } from '@/models';
 import { Types } from 'mongoose';
+import { forecastAccuracyService, AccuracyHistory } from '@/services/ForecastAccuracyService';
 
 export interface IOwnerAnalytics {
   restaurantId: string;
@@ -80,6 +82,9 @@ export interface IOwnerAnalytics {
     customerGrowth: number;
     forecast30Day: number;
   };
+
+  // Forecast Accuracy (scored predictions in the period)
+  forecastAccuracy: AccuracyHistory;
 }
 
 /**
@@ -193,6 +198,8 @@ export async function calculateOwnerAnalytics(
   // Active workflows - count unique workflowIds from active tasks
   const activeWorkflows = new Set(tasks.filter(t => t.status === 'pending').map(t => t.workflowId.toString())).size;
 
+  const forecastAccuracy = await forecastAccuracyService.getAccuracyHistory(restaurantId, startDate, endDate);
+
   return {
     restaurantId,
     period: {
@@ -251,6 +258,7 @@ export async function calculateOwnerAnalytics(
       performanceGrowth: 0,
       customerGrowth: 0,
       forecast30Day: totalRevenue * 1.1 // Simple 10% growth projection
-    }
+    },
+    forecastAccuracy
   };
 }
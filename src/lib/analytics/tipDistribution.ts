@@ -0,0 +1,424 @@
+/**
+ * Tip Distribution - Tip Pooling and Tip-Outs
+ *
+ * Splits a pay period's tips across the staff who earned them:
+ * - Tips come from checks (Transaction.tip, else payments[].tip), credited to
+ *   the server; declared tips (TimeEntry.tipsEarned) count for anyone with no
+ *   check tips in a pool, e.g. bartenders' cash
+ * - Tips are pooled by shift (AM/PM around a configurable hour) or by
+ *   business day
+ * - Tip-outs pay a fixed % of each pool's tips to a job (bussers, bar,
+ *   expo), shared by whoever worked that job in the pool
+ * - The rest is shared by everyone clocked in on a tip-eligible job (Job.tipEligible),
+ *   by hours worked in the pool or by hours × job points
+ *
+ * Settings come from Restaurant.tipPoolSettings.
+ */
+
+import { Transaction, TimeEntry, Job, Restaurant } from '@/models';
+import { TransactionStatus } from '@/models/Transaction';
+import { ITipPoolSettings } from '@/models/Restaurant';
+import { Types } from 'mongoose';
+import { spreadTimeEntry } from '@/lib/analytics/laborAnalytics';
+import { toLocalDateHour, localMidnightUtc, addDays } from '@/utils/timezone';
+
+// Hours before this (local) still belong to the previous business day
+const BUSINESS_DAY_START_HOUR = 4;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_TIP_POOL_SETTINGS: ITipPoolSettings = {
+  poolBy: 'day',
+  shiftChangeHour: 16,
+  weightBy: 'hours',
+  jobPoints: [],
+  tipOuts: []
+};
+
+export type TipPoolShift = 'AM' | 'PM' | 'DAY';
+
+export interface ITipOut {
+  jobId: string;
+  title: string;
+  percentage: number;
+  amount: number; // Zero when no one worked the job in the pool (stays in the pool)
+  recipients: number;
+}
+
+export interface ITipPool {
+  key: string;
+  date: string; // Business date, YYYY-MM-DD
+  shift: TipPoolShift;
+  grossTips: number;
+  tipOuts: ITipOut[];
+  pooledAmount: number; // Shared by tip-eligible staff after tip-outs
+  unallocated: number; // Tips with no one eligible on to receive them
+  participants: number;
+}
+
+export interface ITipEmployee {
+  employeeId: string; // Toast employee GUID
+  name: string;
+  jobs: string[];
+  hours: number; // Hours worked in pools
+  tipsCollected: number;
+  tipOutsReceived: number;
+  poolShare: number;
+  totalTips: number; // tipOutsReceived + poolShare
+  netChange: number; // totalTips - tipsCollected
+  tipsPerHour: number;
+}
+
+export interface ITipJob {
+  jobId: string;
+  title: string;
+  tipEligible: boolean;
+}
+
+export interface ITipDistribution {
+  restaurantId: string;
+  period: {
+    startDate: string; // YYYY-MM-DD, restaurant local, inclusive
+    endDate: string;
+  };
+  timezone: string;
+  settings: ITipPoolSettings;
+  summary: {
+    totalTips: number;
+    tipOuts: number;
+    pooled: number;
+    unallocated: number;
+    employees: number;
+    pools: number;
+  };
+  employees: ITipEmployee[];
+  pools: ITipPool[];
+  jobs: ITipJob[];
+}
+
+interface PoolBucket {
+  date: string;
+  shift: TipPoolShift;
+  collected: Map<string, number>;
+  // Hours per employee and job
+  hours: Map<string, { employeeId: string; jobId: string; hours: number }>;
+}
+
+/**
+ * Calculate the tip distribution for a pay period of local dates
+ */
+export async function calculateTipDistribution(
+  restaurantId: string,
+  startDate: string,
+  endDate: string
+): Promise<ITipDistribution> {
+  const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings tipPoolSettings team.employees');
+  const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+  const settings = resolveSettings(restaurant?.tipPoolSettings);
+  const restaurantObjectId = new Types.ObjectId(restaurantId);
+
+  const windowStart = new Date(localMidnightUtc(startDate, timezone).getTime() + BUSINESS_DAY_START_HOUR * HOUR_MS);
+  const windowEnd = new Date(localMidnightUtc(addDays(endDate, 1), timezone).getTime() + BUSINESS_DAY_START_HOUR * HOUR_MS);
+
+  const [tipsByHour, timeEntries, jobs] = await Promise.all([
+    Transaction.aggregate([
+      {
+        $match: {
+          restaurantId: restaurantObjectId,
+          transactionDate: { $gte: windowStart, $lt: windowEnd },
+          status: { $nin: [TransactionStatus.VOIDED, TransactionStatus.FAILED, TransactionStatus.REFUNDED] }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            date: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate', timezone } },
+            hour: { $hour: { date: '$transactionDate', timezone } },
+            employeeId: '$employee.id'
+          },
+          tips: {
+            $sum: {
+              $cond: [{ $gt: ['$tip', 0] }, '$tip', { $sum: '$payments.tip.amount' }]
+            }
+          }
+        }
+      }
+    ]) as Promise<Array<{ _id: { date: string; hour: number; employeeId: string }; tips: number }>>,
+    TimeEntry.find({
+      restaurantId: restaurantObjectId,
+      clockInTime: { $lt: windowEnd },
+      $or: [{ clockOutTime: { $gte: windowStart } }, { clockOutTime: null }]
+    }).lean(),
+    Job.find({ restaurantId: restaurantObjectId }).lean()
+  ]);
+
+  const jobsById = new Map(jobs.map(job => [job._id.toString(), job]));
+  const jobIdByGuid = new Map(jobs.map(job => [job.toastJobGuid, job._id.toString()]));
+  const tipOutJobs = new Set(settings.tipOuts.map(rule => rule.jobId));
+  const points = new Map(settings.jobPoints.map(rule => [rule.jobId, rule.points]));
+
+  const pools = new Map<string, PoolBucket>();
+  const poolFor = (date: string, hour: number): PoolBucket => {
+    const businessDate = hour < BUSINESS_DAY_START_HOUR ? addDays(date, -1) : date;
+    const shift: TipPoolShift = settings.poolBy === 'day'
+      ? 'DAY'
+      : hour >= BUSINESS_DAY_START_HOUR && hour < settings.shiftChangeHour ? 'AM' : 'PM';
+    const key = `${businessDate} ${shift}`;
+    let pool = pools.get(key);
+    if (!pool) {
+      pool = { date: businessDate, shift, collected: new Map(), hours: new Map() };
+      pools.set(key, pool);
+    }
+    return pool;
+  };
+
+  tipsByHour.forEach(row => {
+    if (row.tips <= 0) return;
+    const pool = poolFor(row._id.date, row._id.hour);
+    const employeeId = row._id.employeeId || 'unassigned';
+    pool.collected.set(employeeId, (pool.collected.get(employeeId) || 0) + row.tips);
+  });
+
+  const declared: Array<{ pool: PoolBucket; employeeId: string; tips: number }> = [];
+  const now = new Date();
+
+  for (const entry of timeEntries) {
+    const jobId = entry.jobId?.toString() || (entry.jobToastGuid && jobIdByGuid.get(entry.jobToastGuid)) || undefined;
+    const job = jobId ? jobsById.get(jobId) : undefined;
+
+    if (entry.tipsEarned && entry.tipsEarned > 0) {
+      const clockIn = new Date(entry.clockInTime);
+      if (clockIn >= windowStart && clockIn < windowEnd) {
+        const local = toLocalDateHour(clockIn, timezone);
+        declared.push({ pool: poolFor(local.date, local.hour), employeeId: entry.employeeToastGuid, tips: entry.tipsEarned });
+      }
+    }
+
+    // Only tip-eligible jobs and tip-out recipients take part
+    if (!jobId || !job || (!job.tipEligible && !tipOutJobs.has(jobId))) continue;
+
+    spreadTimeEntry(entry, windowStart, windowEnd, timezone, (date, hour, hours) => {
+      const pool = poolFor(date, hour);
+      const key = `${entry.employeeToastGuid}|${jobId}`;
+      const participant = pool.hours.get(key) || { employeeId: entry.employeeToastGuid, jobId, hours: 0 };
+      participant.hours += hours;
+      pool.hours.set(key, participant);
+    }, now);
+  }
+
+  // Declared tips only where the employee had no check tips in the pool
+  const checkTips = declared.filter(({ pool, employeeId }) => pool.collected.has(employeeId));
+  declared
+    .filter(item => !checkTips.includes(item))
+    .forEach(({ pool, employeeId, tips }) => {
+      pool.collected.set(employeeId, (pool.collected.get(employeeId) || 0) + tips);
+    });
+
+  const names = new Map<string, string>();
+  (restaurant?.team?.employees || []).forEach((emp: any) => {
+    if (emp.toastEmployeeId) {
+      names.set(emp.toastEmployeeId, `${emp.firstName} ${emp.lastName}`.trim());
+    }
+  });
+
+  const employees = new Map<string, ITipEmployee>();
+  const employeeFor = (employeeId: string): ITipEmployee => {
+    let employee = employees.get(employeeId);
+    if (!employee) {
+      employee = {
+        employeeId,
+        name: names.get(employeeId) || (employeeId === 'unassigned' ? 'Unassigned' : 'Unknown employee'),
+        jobs: [],
+        hours: 0,
+        tipsCollected: 0,
+        tipOutsReceived: 0,
+        poolShare: 0,
+        totalTips: 0,
+        netChange: 0,
+        tipsPerHour: 0
+      };
+      employees.set(employeeId, employee);
+    }
+    return employee;
+  };
+  const weightOf = (participant: { jobId: string; hours: number }) =>
+    settings.weightBy === 'points' ? participant.hours * (points.get(participant.jobId) ?? 1) : participant.hours;
+
+  const poolResults: ITipPool[] = [];
+
+  pools.forEach((pool, key) => {
+    const participants = Array.from(pool.hours.values()).filter(p => p.hours > 0);
+    participants.forEach(p => {
+      const employee = employeeFor(p.employeeId);
+      employee.hours += p.hours;
+      const title = jobsById.get(p.jobId)?.title || 'Unknown job';
+      if (!employee.jobs.includes(title)) employee.jobs.push(title);
+    });
+
+    let grossTips = 0;
+    pool.collected.forEach((tips, employeeId) => {
+      employeeFor(employeeId).tipsCollected += tips;
+      grossTips += tips;
+    });
+
+    // Tip-outs first, to whoever worked each job in this pool
+    const tipOuts: ITipOut[] = settings.tipOuts.map(rule => {
+      const recipients = participants.filter(p => p.jobId === rule.jobId);
+      const due = grossTips * (rule.percentage / 100);
+      const paid = share(recipients, due, weightOf, (employeeId, value) => {
+        employeeFor(employeeId).tipOutsReceived += value;
+      });
+      const amount = paid ? due : 0;
+      return {
+        jobId: rule.jobId,
+        title: jobsById.get(rule.jobId)?.title || 'Unknown job',
+        percentage: rule.percentage,
+        amount,
+        recipients: new Set(recipients.map(p => p.employeeId)).size
+      };
+    });
+
+    const tipOutTotal = tipOuts.reduce((sum, tipOut) => sum + tipOut.amount, 0);
+    const remaining = Math.max(0, grossTips - tipOutTotal);
+    const pooled = participants.filter(p => !tipOutJobs.has(p.jobId) && jobsById.get(p.jobId)?.tipEligible);
+    const shared = share(pooled, remaining, weightOf, (employeeId, value) => {
+      employeeFor(employeeId).poolShare += value;
+    });
+
+    if (grossTips === 0 && participants.length === 0) return;
+
+    poolResults.push({
+      key,
+      date: pool.date,
+      shift: pool.shift,
+      grossTips: round(grossTips, 2),
+      tipOuts: tipOuts.map(tipOut => ({ ...tipOut, amount: round(tipOut.amount, 2) })),
+      pooledAmount: round(shared ? remaining : 0, 2),
+      unallocated: round(shared ? 0 : remaining, 2),
+      participants: new Set(participants.map(p => p.employeeId)).size
+    });
+  });
+
+  const employeeResults = Array.from(employees.values())
+    .map(employee => {
+      const totalTips = employee.tipOutsReceived + employee.poolShare;
+      return {
+        ...employee,
+        hours: round(employee.hours, 2),
+        tipsCollected: round(employee.tipsCollected, 2),
+        tipOutsReceived: round(employee.tipOutsReceived, 2),
+        poolShare: round(employee.poolShare, 2),
+        totalTips: round(totalTips, 2),
+        netChange: round(totalTips - employee.tipsCollected, 2),
+        tipsPerHour: employee.hours > 0 ? round(totalTips / employee.hours, 2) : 0
+      };
+    })
+    .sort((a, b) => b.totalTips - a.totalTips);
+
+  poolResults.sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    restaurantId,
+    period: { startDate, endDate },
+    timezone,
+    settings,
+    summary: {
+      totalTips: round(poolResults.reduce((sum, pool) => sum + pool.grossTips, 0), 2),
+      tipOuts: round(poolResults.reduce((sum, pool) => sum + pool.tipOuts.reduce((s, t) => s + t.amount, 0), 0), 2),
+      pooled: round(poolResults.reduce((sum, pool) => sum + pool.pooledAmount, 0), 2),
+      unallocated: round(poolResults.reduce((sum, pool) => sum + pool.unallocated, 0), 2),
+      employees: employeeResults.filter(e => e.hours > 0 || e.totalTips > 0).length,
+      pools: poolResults.length
+    },
+    employees: employeeResults,
+    pools: poolResults,
+    jobs: jobs
+      .map(job => ({ jobId: job._id.toString(), title: job.title, tipEligible: job.tipEligible }))
+      .sort((a, b) => a.title.localeCompare(b.title))
+  };
+}
+
+/**
+ * Per-employee distribution as CSV for payroll
+ */
+export function tipDistributionToCsv(report: ITipDistribution): string {
+  const header = [
+    'Employee',
+    'Toast Employee ID',
+    'Jobs',
+    'Hours',
+    'Tips Collected',
+    'Tip-Outs Received',
+    'Pool Share',
+    'Total Tips',
+    'Net Change',
+    'Tips per Hour'
+  ];
+
+  const rows = report.employees.map(employee => [
+    employee.name,
+    employee.employeeId,
+    employee.jobs.join('; '),
+    employee.hours.toFixed(2),
+    employee.tipsCollected.toFixed(2),
+    employee.tipOutsReceived.toFixed(2),
+    employee.poolShare.toFixed(2),
+    employee.totalTips.toFixed(2),
+    employee.netChange.toFixed(2),
+    employee.tipsPerHour.toFixed(2)
+  ]);
+
+  if (report.summary.unallocated > 0) {
+    rows.push(['Unallocated', '', '', '', '', '', '', report.summary.unallocated.toFixed(2), '', '']);
+  }
+
+  return [header, ...rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\n');
+}
+
+/**
+ * Saved settings over the defaults
+ */
+export function resolveSettings(saved?: Partial<ITipPoolSettings> | null): ITipPoolSettings {
+  return {
+    poolBy: saved?.poolBy || DEFAULT_TIP_POOL_SETTINGS.poolBy,
+    shiftChangeHour: saved?.shiftChangeHour ?? DEFAULT_TIP_POOL_SETTINGS.shiftChangeHour,
+    weightBy: saved?.weightBy || DEFAULT_TIP_POOL_SETTINGS.weightBy,
+    jobPoints: (saved?.jobPoints || []).map(rule => ({ jobId: rule.jobId, points: rule.points })),
+    tipOuts: (saved?.tipOuts || []).map(rule => ({ jobId: rule.jobId, percentage: rule.percentage }))
+  };
+}
+
+/**
+ * Split an amount across participants by weight; false if no one has weight
+ */
+function share(
+  participants: Array<{ employeeId: string; jobId: string; hours: number }>,
+  amount: number,
+  weightOf: (participant: { jobId: string; hours: number }) => number,
+  credit: (employeeId: string, value: number) => void
+): boolean {
+  const totalWeight = participants.reduce((sum, p) => sum + weightOf(p), 0);
+  if (totalWeight <= 0) return false;
+
+  participants.forEach(p => {
+    credit(p.employeeId, amount * (weightOf(p) / totalWeight));
+  });
+  return true;
+}
+
+/**
+ * Quote for CSV; values a spreadsheet would run as a formula (POS-entered
+ * names starting with = + - @) are prefixed with ' so they stay text;
+ * negative amounts are left as numbers
+ */
+export function csvField(value: string): string {
+  const formula = /^[=+\-@]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value);
+  const text = formula ? `'${value}` : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
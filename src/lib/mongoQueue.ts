@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import SyncJob, { ISyncJob } from '@/models/SyncJob';
+import type { POSSyncCheckpoint } from '@/services/POSAdapter';
 
 /**
  * MongoDB-based Queue Service
@@ -11,9 +12,15 @@ import SyncJob, { ISyncJob } from '@/models/SyncJob';
  * - Job queuing and processing
  * - Progress tracking
  * - Automatic retries
+ * - Resumable jobs (checkpoints + stale job recovery)
  * - Job cleanup
  */
 
+// A processing job with no progress/checkpoint write for this long lost its worker
+const STALE_JOB_MINUTES = 15;
+// Cap on crash recoveries so a job that kills the worker can't loop forever
+const MAX_RECOVERIES = 10;
+
 export interface SyncJobData {
   restaurantId: string;
   posType: 'toast' | 'square' | 'clover';
@@ -21,6 +28,7 @@ export interface SyncJobData {
     startDate?: Date;
     endDate?: Date;
     fullSync?: boolean;
+    reason?: 'gap_fill' | 'scheduled' | 'on_login';
   };
   notificationEmail?: string;
 }
@@ -45,6 +53,7 @@ export async function enqueueSyncJob(data: SyncJobData): Promise<string> {
     posType: data.posType,
     status: 'pending',
     jobId,
+    options: data.options,
     progress: {
       ordersProcessed: 0
     },
@@ -107,6 +116,77 @@ export async function updateJobProgress(
   );
 }
 
+/**
+ * Persist a resume checkpoint (also serves as the job's heartbeat)
+ */
+export async function saveJobCheckpoint(
+  jobId: string,
+  checkpoint: POSSyncCheckpoint
+): Promise<void> {
+  await SyncJob.findOneAndUpdate(
+    { jobId },
+    {
+      $set: {
+        checkpoint: { ...checkpoint, updatedAt: new Date() },
+        'progress.ordersProcessed': checkpoint.ordersImported,
+        updatedAt: new Date()
+      }
+    }
+  );
+}
+
+/**
+ * Put a job back in the queue without using up an attempt
+ * (worker shutting down mid-job - the checkpoint lets the next worker resume)
+ */
+export async function releaseJob(jobId: string): Promise<void> {
+  await SyncJob.findOneAndUpdate(
+    { jobId, status: 'processing' },
+    {
+      $set: { status: 'pending' },
+      $inc: { attempts: -1, recoveries: 1 }
+    }
+  );
+
+  console.log(`↩️  Released job ${jobId} back to the queue`);
+}
+
+/**
+ * Requeue processing jobs whose worker died (no heartbeat for STALE_JOB_MINUTES).
+ * They resume from their last checkpoint; a crash doesn't count as an attempt.
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MINUTES * 60 * 1000);
+
+  const abandoned = await SyncJob.updateMany(
+    { status: 'processing', updatedAt: { $lt: staleBefore }, recoveries: { $gte: MAX_RECOVERIES } },
+    {
+      $set: {
+        status: 'failed',
+        completedAt: new Date(),
+        error: {
+          message: `Worker lost ${MAX_RECOVERIES} times, giving up`,
+          timestamp: new Date()
+        }
+      }
+    }
+  );
+
+  const recovered = await SyncJob.updateMany(
+    { status: 'processing', updatedAt: { $lt: staleBefore }, recoveries: { $lt: MAX_RECOVERIES } },
+    {
+      $set: { status: 'pending' },
+      $inc: { attempts: -1, recoveries: 1 }
+    }
+  );
+
+  if (recovered.modifiedCount > 0 || abandoned.modifiedCount > 0) {
+    console.warn(`♻️  Recovered ${recovered.modifiedCount} stale sync jobs (${abandoned.modifiedCount} abandoned)`);
+  }
+
+  return recovered.modifiedCount;
+}
+
 /**
  * Mark job as completed
  */
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * ApiRateLimit Model
+ *
+ * Token bucket state for an external API, shared by every process
+ * (Next.js routes, Mongo worker, BullMQ worker). One document per bucket key,
+ * e.g. "toast:<restaurant GUID>", updated atomically on each request.
+ * Also accumulates throttling metrics for that key.
+ */
+
+export interface IApiRateLimitMetrics {
+  requests: number;
+  throttled: number;        // Requests that had to wait for a token
+  throttleWaitMs: number;   // Total time spent waiting for tokens
+  rateLimited: number;      // 429 responses from the API
+  retries: number;          // Requests re-sent after a 429/5xx/network error
+  lastRateLimitedAt?: Date;
+}
+
+export interface IApiRateLimit extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  tokens: number;
+  refilledAt: Date;
+  metrics: IApiRateLimitMetrics;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiRateLimitSchema = new Schema<IApiRateLimit>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    tokens: {
+      type: Number,
+      required: true
+    },
+    refilledAt: {
+      type: Date,
+      required: true
+    },
+    metrics: {
+      requests: { type: Number, default: 0 },
+      throttled: { type: Number, default: 0 },
+      throttleWaitMs: { type: Number, default: 0 },
+      rateLimited: { type: Number, default: 0 },
+      retries: { type: Number, default: 0 },
+      lastRateLimitedAt: Date
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'api_rate_limits'
+  }
+);
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.ApiRateLimit as mongoose.Model<IApiRateLimit>) ||
+  mongoose.model<IApiRateLimit>('ApiRateLimit', apiRateLimitSchema);
@@ -32,6 +32,16 @@ export enum CorrelationStrength {
   NONE = 'none'               // < 0
 }
 
+export function classifyStrength(correlation: number): CorrelationStrength {
+  const abs = Math.abs(correlation);
+  if (abs >= 0.8) return CorrelationStrength.VERY_STRONG;
+  if (abs >= 0.6) return CorrelationStrength.STRONG;
+  if (abs >= 0.4) return CorrelationStrength.MODERATE;
+  if (abs >= 0.2) return CorrelationStrength.WEAK;
+  if (abs > 0) return CorrelationStrength.VERY_WEAK;
+  return CorrelationStrength.NONE;
+}
+
 // External factor that influences behavior
 export interface IExternalFactor {
   type: 'weather' | 'event' | 'holiday' | 'day_of_week' | 'time_of_day' | 'sports' | 'multi_factor';
@@ -82,11 +92,27 @@ export interface IBusinessOutcome {
 
 // Statistical significance
 export interface IStatistics {
-  correlation: number; // -1 to 1
-  pValue: number; // Statistical significance
+  correlation: number; // -1 to 1 (Pearson r, point-biserial r for group comparisons, phi for proportions)
+  pValue: number; // Two-tailed, unadjusted
+  pValueAdjusted?: number; // Benjamini–Hochberg q-value across the discovery run
+  hypothesesTested?: number; // Size of the family that adjustment was made over
   sampleSize: number; // Number of data points
   confidence: number; // 0-100%
   r_squared: number; // Coefficient of determination
+  effectSize?: number; // % change in the outcome vs baseline
+  confidenceInterval?: { lower: number; upper: number; level: number }; // On effectSize
+  testMethod?: 'pearson' | 'welch_t' | 'proportion_z';
+}
+
+// Out-of-sample backtest results, accumulated across runs
+export interface IBacktestStats {
+  runs: number;
+  daysEvaluated: number; // Held-out days where the pattern's condition applied
+  hits: number; // Days where the outcome moved in the predicted direction
+  hitRate: number; // 0-1
+  meanAbsError: number; // Mean |actual - predicted| change, percentage points
+  evaluatedThrough?: string; // Last business date (YYYY-MM-DD) scored - never scored twice
+  lastRunAt?: Date;
 }
 
 // Pattern that was discovered
@@ -99,6 +125,47 @@ export interface IPattern {
   recommendation?: string;
 }
 
+// Retire a pattern whose out-of-sample hit rate is below this (%)...
+export const MIN_BACKTEST_ACCURACY = 55;
+// ...once it has been scored on at least this many held-out days
+export const MIN_BACKTEST_DAYS = 8;
+
+// Factor fields that measure a restaurant's own conditions (its average
+// temperature, nearby venue size) rather than identify the pattern
+const FACTOR_MAGNITUDES: Array<keyof IExternalFactor> = [
+  'temperature',
+  'precipitation',
+  'eventDistance',
+  'eventAttendance',
+  'expectedAttendance'
+];
+
+/**
+ * Identity of a pattern across restaurants: the same type, metric and
+ * external factor, ignoring restaurant-specific magnitudes. Temperature
+ * patterns also split by direction ("above" vs "below" the threshold).
+ */
+export function getPatternKey(
+  correlation: Pick<ICorrelation, 'type' | 'externalFactor' | 'businessOutcome' | 'statistics'>
+): string {
+  const factor: Record<string, unknown> = {};
+  Object.keys(correlation.externalFactor)
+    .filter(field => !FACTOR_MAGNITUDES.includes(field as keyof IExternalFactor))
+    .sort()
+    .forEach(field => {
+      const value = (correlation.externalFactor as any)[field];
+      if (value !== undefined && value !== null) {
+        factor[field] = value;
+      }
+    });
+
+  const direction = correlation.externalFactor.temperature !== undefined
+    ? (correlation.statistics.correlation >= 0 ? 'above' : 'below')
+    : '';
+
+  return [correlation.type, correlation.businessOutcome.metric, JSON.stringify(factor), direction].join('|');
+}
+
 // Main Correlation interface
 export interface ICorrelation extends Document {
   // Scope
@@ -106,6 +173,7 @@ export interface ICorrelation extends Document {
   restaurantId?: Types.ObjectId; // Null for global patterns
   region?: string; // 'northeast', 'southwest', etc.
   cuisineType?: string; // Restaurant type for targeted correlations
+  patternKey?: string; // Cohort patterns: getPatternKey of the restaurant patterns behind them
 
   // Correlation details
   type: CorrelationType;
@@ -127,6 +195,8 @@ export interface ICorrelation extends Document {
     timesValidated: number; // How many times pattern held true
     timesInvalidated: number; // How many times it didn't
     accuracy: number; // Percentage accuracy
+    trainedThrough?: Date; // End of the data the pattern was discovered on; only later days are out-of-sample
+    backtest?: IBacktestStats;
   };
 
   // Application
@@ -176,6 +246,7 @@ const CorrelationSchema = new Schema<ICorrelation>({
   },
   region: { type: String, index: true },
   cuisineType: { type: String, index: true },
+  patternKey: { type: String, index: true },
 
   // Correlation type
   type: {
@@ -189,20 +260,30 @@ const CorrelationSchema = new Schema<ICorrelation>({
   externalFactor: {
     type: {
       type: String,
-      enum: ['weather', 'event', 'holiday', 'day_of_week', 'time_of_day'],
+      enum: ['weather', 'event', 'holiday', 'day_of_week', 'time_of_day', 'sports', 'multi_factor'],
       required: true
     },
     temperature: { type: Number },
     weatherCondition: { type: String },
     precipitation: { type: Number },
+    weatherCategory: { type: String },
     eventType: { type: String },
     eventDistance: { type: Number },
     eventAttendance: { type: Number },
+    venueName: { type: String },
+    expectedAttendance: { type: Number },
     holidayName: { type: String },
     holidayType: { type: String },
     dayOfWeek: { type: String },
     hour: { type: Number },
-    isWeekend: { type: Boolean }
+    isWeekend: { type: Boolean },
+    league: { type: String },
+    teamName: { type: String },
+    isGameDay: { type: Boolean },
+    menuItem: { type: String },
+    menuCategory: { type: String },
+    factors: [{ type: String }],
+    description: { type: String }
   },
 
   // Business outcome
@@ -217,9 +298,18 @@ const CorrelationSchema = new Schema<ICorrelation>({
   statistics: {
     correlation: { type: Number, required: true, min: -1, max: 1 },
     pValue: { type: Number, required: true },
+    pValueAdjusted: { type: Number },
+    hypothesesTested: { type: Number },
     sampleSize: { type: Number, required: true, min: 0 },
     confidence: { type: Number, required: true, min: 0, max: 100 },
-    r_squared: { type: Number, required: true, min: 0, max: 1 }
+    r_squared: { type: Number, required: true, min: 0, max: 1 },
+    effectSize: { type: Number },
+    confidenceInterval: {
+      lower: { type: Number },
+      upper: { type: Number },
+      level: { type: Number }
+    },
+    testMethod: { type: String, enum: ['pearson', 'welch_t', 'proportion_z'] }
   },
 
   // Pattern
@@ -244,7 +334,17 @@ const CorrelationSchema = new Schema<ICorrelation>({
     restaurantsContributing: { type: Number, required: true, min: 0 },
     timesValidated: { type: Number, default: 0, min: 0 },
     timesInvalidated: { type: Number, default: 0, min: 0 },
-    accuracy: { type: Number, default: 0, min: 0, max: 100 }
+    accuracy: { type: Number, default: 0, min: 0, max: 100 },
+    trainedThrough: { type: Date },
+    backtest: {
+      runs: { type: Number, default: 0 },
+      daysEvaluated: { type: Number, default: 0 },
+      hits: { type: Number, default: 0 },
+      hitRate: { type: Number, default: 0 },
+      meanAbsError: { type: Number, default: 0 },
+      evaluatedThrough: { type: String },
+      lastRunAt: { type: Date }
+    }
   },
 
   // Application
@@ -312,6 +412,52 @@ CorrelationSchema.methods.updateValidation = function(this: ICorrelation, wasCor
   return this.save();
 };
 
+/**
+ * Fold one backtest run into the pattern's record.
+ * Accuracy is the out-of-sample hit rate; patterns no better than a coin flip
+ * are retired once they've been scored on enough days.
+ */
+CorrelationSchema.methods.recordBacktest = function(
+  this: ICorrelation,
+  run: { daysEvaluated: number; hits: number; absErrorSum: number; evaluatedThrough?: string }
+) {
+  const previous = this.learning.backtest;
+  const daysEvaluated = (previous?.daysEvaluated || 0) + run.daysEvaluated;
+  const hits = (previous?.hits || 0) + run.hits;
+  const absErrorSum = (previous?.meanAbsError || 0) * (previous?.daysEvaluated || 0) + run.absErrorSum;
+
+  this.learning.backtest = {
+    runs: (previous?.runs || 0) + 1,
+    daysEvaluated,
+    hits,
+    hitRate: daysEvaluated > 0 ? hits / daysEvaluated : 0,
+    meanAbsError: daysEvaluated > 0 ? absErrorSum / daysEvaluated : 0,
+    evaluatedThrough: run.evaluatedThrough || previous?.evaluatedThrough,
+    lastRunAt: new Date()
+  };
+
+  this.learning.timesValidated += run.hits;
+  this.learning.timesInvalidated += run.daysEvaluated - run.hits;
+
+  if (daysEvaluated > 0) {
+    this.learning.accuracy = (hits / daysEvaluated) * 100;
+
+    // Same blend as updateValidation, weighted by days actually scored
+    this.confidence = Math.min(
+      this.learning.accuracy * 0.7 +
+      Math.min(daysEvaluated / 100, 1) * 30,
+      100
+    );
+
+    if (this.learning.accuracy < MIN_BACKTEST_ACCURACY && daysEvaluated >= MIN_BACKTEST_DAYS) {
+      this.isActive = false;
+    }
+  }
+
+  this.learning.lastUpdated = new Date();
+  return this.save();
+};
+
 CorrelationSchema.methods.apply = function(this: ICorrelation) {
   this.lastApplied = new Date();
   this.timesApplied++;
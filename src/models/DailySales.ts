@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * DailySales Model
+ *
+ * Daily sales totals for a restaurant, imported from POS report exports
+ * (Toast "Sales by day.csv") rather than built from individual transactions.
+ * One document per restaurant, business date and source.
+ */
+
+export interface IDailySales extends Document {
+  _id: Types.ObjectId;
+  restaurantId: Types.ObjectId;
+  businessDate: Date; // UTC midnight of the business day
+  source: 'toast_report';
+  salesReportId?: Types.ObjectId;
+
+  netSales: number;
+  totalOrders: number;
+  totalGuests: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dailySalesSchema = new Schema<IDailySales>(
+  {
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true,
+      index: true
+    },
+    businessDate: {
+      type: Date,
+      required: true
+    },
+    source: {
+      type: String,
+      enum: ['toast_report'],
+      required: true
+    },
+    salesReportId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SalesReport'
+    },
+
+    netSales: {
+      type: Number,
+      required: true,
+      default: 0
+    },
+    totalOrders: {
+      type: Number,
+      required: true,
+      default: 0
+    },
+    totalGuests: {
+      type: Number,
+      default: 0
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'daily_sales'
+  }
+);
+
+// Compound indexes
+dailySalesSchema.index({ restaurantId: 1, businessDate: 1, source: 1 }, { unique: true });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.DailySales as mongoose.Model<IDailySales>) ||
+  mongoose.model<IDailySales>('DailySales', dailySalesSchema);
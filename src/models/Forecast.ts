@@ -0,0 +1,142 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Forecast Model
+ *
+ * A revenue/order forecast for one restaurant and local business date, with
+ * hourly breakdown and 80%/95% prediction intervals. Written by
+ * RevenueForecaster and kept per lead time: regenerating replaces only the
+ * forecast made the same number of days ahead, so a date keeps its 7-day-out
+ * forecast alongside the one made on the day and each can be scored.
+ */
+
+export interface IForecastInterval {
+  predicted: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface IHourlyForecast {
+  hour: number; // Local hour 0-23
+  revenue: IForecastInterval;
+  orders: IForecastInterval;
+}
+
+export interface IForecastComponents {
+  level: number; // Trend level for the date (revenue/day before seasonality)
+  dayOfWeekFactor: number;
+  holidayFactor: number;
+  weatherFactor: number;
+  holiday?: string;
+  temperature?: number; // °F
+  precipitation?: number; // inches
+  weatherCondition?: string;
+}
+
+export interface IForecast extends Document {
+  _id: Types.ObjectId;
+  restaurantId: Types.ObjectId;
+  date: string; // YYYY-MM-DD in `timezone`
+  timezone: string;
+  generatedAt: Date;
+  leadDays: number; // 0 = forecast made on the day itself
+  modelVersion: string;
+  historyDays: number; // Days of history the model was fit on
+
+  revenue: IForecastInterval;
+  orders: IForecastInterval;
+  hourly: IHourlyForecast[];
+  components: IForecastComponents;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const intervalSchema = new Schema<IForecastInterval>(
+  {
+    predicted: { type: Number, required: true },
+    lower80: { type: Number, required: true },
+    upper80: { type: Number, required: true },
+    lower95: { type: Number, required: true },
+    upper95: { type: Number, required: true }
+  },
+  { _id: false }
+);
+
+const hourlyForecastSchema = new Schema<IHourlyForecast>(
+  {
+    hour: { type: Number, required: true, min: 0, max: 23 },
+    revenue: { type: intervalSchema, required: true },
+    orders: { type: intervalSchema, required: true }
+  },
+  { _id: false }
+);
+
+const forecastSchema = new Schema<IForecast>(
+  {
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true
+    },
+    date: {
+      type: String,
+      required: true
+    },
+    timezone: {
+      type: String,
+      required: true
+    },
+    generatedAt: {
+      type: Date,
+      required: true
+    },
+    leadDays: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    modelVersion: {
+      type: String,
+      required: true
+    },
+    historyDays: {
+      type: Number,
+      required: true
+    },
+    revenue: {
+      type: intervalSchema,
+      required: true
+    },
+    orders: {
+      type: intervalSchema,
+      required: true
+    },
+    hourly: {
+      type: [hourlyForecastSchema],
+      default: []
+    },
+    components: {
+      level: Number,
+      dayOfWeekFactor: Number,
+      holidayFactor: Number,
+      weatherFactor: Number,
+      holiday: String,
+      temperature: Number,
+      precipitation: Number,
+      weatherCondition: String
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'forecasts'
+  }
+);
+
+forecastSchema.index({ restaurantId: 1, date: 1, leadDays: 1 }, { unique: true });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.Forecast as mongoose.Model<IForecast>) ||
+  mongoose.model<IForecast>('Forecast', forecastSchema);
@@ -124,6 +124,39 @@ export interface IRecommendation {
   implementedAt?: Date;
   dismissedAt?: Date;
   dismissalReason?: string;
+
+  // Measured outcome once implemented (RecommendationImpactService)
+  impact?: IRecommendationImpact;
+}
+
+export type ImpactMetric =
+  | 'average_ticket'
+  | 'daily_revenue'
+  | 'item_attach_rate'
+  | 'discount_rate'
+  | 'void_rate'
+  | 'labor_percentage';
+
+// Realized impact of an implemented recommendation: the targeted metric in
+// matched pre/post windows, adjusted for day of week and (when a year of
+// history exists) the same weeks last year
+export interface IRecommendationImpact {
+  status: 'measured' | 'insufficient_data';
+  preliminary: boolean;       // Post window not complete yet
+  metric: ImpactMetric;
+  measuredAt: Date;
+  preWindow: { start: string; end: string; days: number };   // Local dates
+  postWindow: { start: string; end: string; days: number };
+  before: number;             // Metric in the pre window
+  after: number;              // Metric in the post window
+  rawChangePercent: number;   // Day-of-week matched change
+  seasonalControl: 'prior_year' | 'none';
+  controlChangePercent?: number; // Same weeks last year
+  adjustedChangePercent: number; // Change attributable to the recommendation
+  pValue: number | null;
+  significant: boolean;
+  estimatedMonthlyImpact: number; // $ per month (revenue gained or cost saved)
+  summary: string;
 }
 
 // Interface for benchmark comparisons
@@ -169,10 +202,14 @@ export interface IInsight extends Document {
   // AI-generated content
   aiAnalysis: {
     model: string;          // e.g., "claude-3.7-sonnet"
+    provider?: string;      // 'anthropic', 'fake' or 'fallback' (rule-based)
     promptVersion: string;  // For tracking prompt iterations
     rawResponse: string;    // Full AI response for debugging
     processingTime: number; // Milliseconds
-    tokensUsed: number;
+    attempts?: number;      // Model calls made (retries on malformed output)
+    inputTokens?: number;
+    outputTokens?: number;
+    tokensUsed: number;     // Input + output across all attempts
   };
   
   // Status and engagement
@@ -355,7 +392,31 @@ const InsightSchema = new Schema<IInsight>({
     },
     implementedAt: { type: Date },
     dismissedAt: { type: Date },
-    dismissalReason: { type: String }
+    dismissalReason: { type: String },
+    impact: {
+      type: new Schema({
+        status: { type: String, enum: ['measured', 'insufficient_data'], required: true },
+        preliminary: { type: Boolean, required: true },
+        metric: {
+          type: String,
+          enum: ['average_ticket', 'daily_revenue', 'item_attach_rate', 'discount_rate', 'void_rate', 'labor_percentage'],
+          required: true
+        },
+        measuredAt: { type: Date, required: true },
+        preWindow: { start: String, end: String, days: Number },
+        postWindow: { start: String, end: String, days: Number },
+        before: Number,
+        after: Number,
+        rawChangePercent: Number,
+        seasonalControl: { type: String, enum: ['prior_year', 'none'] },
+        controlChangePercent: Number,
+        adjustedChangePercent: Number,
+        pValue: Number,
+        significant: Boolean,
+        estimatedMonthlyImpact: Number,
+        summary: String
+      }, { _id: false })
+    }
   }],
   
   // Industry benchmarks
@@ -383,9 +444,13 @@ const InsightSchema = new Schema<IInsight>({
   // AI generation metadata
   aiAnalysis: {
     model: { type: String, required: true },
+    provider: { type: String },
     promptVersion: { type: String, required: true },
     rawResponse: { type: String, required: true },
     processingTime: { type: Number, required: true },
+    attempts: { type: Number },
+    inputTokens: { type: Number },
+    outputTokens: { type: Number },
     tokensUsed: { type: Number, required: true }
   },
   
@@ -0,0 +1,140 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * OvertimeAlert Model
+ *
+ * An employee projected to go into overtime this pay week: hours already
+ * clocked plus the shifts still on the schedule. One alert per employee,
+ * week and threshold (weekly, or a state daily limit on a given date);
+ * re-checking updates the projection in place and resolves alerts that are
+ * no longer at risk.
+ *
+ * Written by OvertimeAlertService; managers see active alerts in-app and get
+ * an email the first time each one is raised.
+ */
+
+export type OvertimeAlertType = 'weekly' | 'daily';
+export type OvertimeAlertStatus = 'active' | 'acknowledged' | 'resolved';
+
+export interface IOvertimeSwapCandidate {
+  employeeToastGuid: string;
+  name: string;
+  projectedWeekHours: number; // Before taking the shift
+}
+
+export interface IOvertimeSwap {
+  shiftId: Types.ObjectId;
+  jobTitle: string;
+  date: string; // YYYY-MM-DD, restaurant local
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  hours: number;
+  candidates: IOvertimeSwapCandidate[];
+}
+
+export interface IOvertimeAlert extends Document {
+  _id: Types.ObjectId;
+  restaurantId: Types.ObjectId;
+  employeeToastGuid: string;
+  employeeName: string;
+  weekStart: string; // YYYY-MM-DD, restaurant local
+  type: OvertimeAlertType;
+  date: string; // Day at risk for daily alerts; weekStart for weekly ones
+
+  thresholdHours: number;
+  workedHours: number; // Clocked so far (in the week, or on `date`)
+  scheduledHours: number; // Still on the schedule
+  projectedHours: number;
+  projectedOvertimeHours: number;
+  swaps: IOvertimeSwap[];
+
+  status: OvertimeAlertStatus;
+  checkedAt: Date;
+  emailedAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const swapSchema = new Schema<IOvertimeSwap>(
+  {
+    shiftId: { type: Schema.Types.ObjectId, ref: 'Shift', required: true },
+    jobTitle: { type: String, required: true },
+    date: { type: String, required: true },
+    scheduledStart: { type: Date, required: true },
+    scheduledEnd: { type: Date, required: true },
+    hours: { type: Number, required: true },
+    candidates: [
+      {
+        _id: false,
+        employeeToastGuid: { type: String, required: true },
+        name: { type: String, required: true },
+        projectedWeekHours: { type: Number, required: true }
+      }
+    ]
+  },
+  { _id: false }
+);
+
+const overtimeAlertSchema = new Schema<IOvertimeAlert>(
+  {
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true
+    },
+    employeeToastGuid: {
+      type: String,
+      required: true
+    },
+    employeeName: {
+      type: String,
+      required: true
+    },
+    weekStart: {
+      type: String,
+      required: true
+    },
+    type: {
+      type: String,
+      enum: ['weekly', 'daily'],
+      required: true
+    },
+    date: {
+      type: String,
+      required: true
+    },
+    thresholdHours: { type: Number, required: true },
+    workedHours: { type: Number, required: true },
+    scheduledHours: { type: Number, required: true },
+    projectedHours: { type: Number, required: true },
+    projectedOvertimeHours: { type: Number, required: true },
+    swaps: [swapSchema],
+    status: {
+      type: String,
+      enum: ['active', 'acknowledged', 'resolved'],
+      default: 'active'
+    },
+    checkedAt: {
+      type: Date,
+      required: true
+    },
+    emailedAt: Date,
+    acknowledgedAt: Date,
+    acknowledgedBy: String
+  },
+  {
+    timestamps: true,
+    collection: 'overtime_alerts'
+  }
+);
+
+overtimeAlertSchema.index({ restaurantId: 1, employeeToastGuid: 1, weekStart: 1, type: 1, date: 1 }, { unique: true });
+// Dashboard reads the current week's open alerts
+overtimeAlertSchema.index({ restaurantId: 1, weekStart: 1, status: 1 });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.OvertimeAlert as mongoose.Model<IOvertimeAlert>) ||
+  mongoose.model<IOvertimeAlert>('OvertimeAlert', overtimeAlertSchema);
@@ -0,0 +1,123 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { CorrelationType, IExternalFactor } from './Correlation';
+
+/**
+ * PatternContribution Model
+ *
+ * One restaurant's share of a cross-restaurant (cohort) pattern: the figures
+ * from its own validated Correlation, keyed by getPatternKey. Cohort patterns
+ * are always rebuilt from these records, so removing a restaurant's
+ * contributions (e.g. on cancellation) removes its data from every
+ * regional/global pattern.
+ *
+ * Private to CohortLearningService - never returned by the API.
+ */
+
+export interface IPatternContribution extends Document {
+  _id: Types.ObjectId;
+  restaurantId: Types.ObjectId;
+  correlationId: Types.ObjectId; // Source restaurant-scope Correlation
+  patternKey: string;
+
+  // Cohorts this restaurant belongs to, as of the last contribution
+  region: string;
+  cuisineType: string;
+
+  type: CorrelationType;
+  externalFactor: IExternalFactor;
+  metric: string;
+  whenCondition: string;
+  recommendation?: string;
+
+  correlation: number;
+  change: number; // % change in the metric
+  sampleSize: number;
+  accuracy: number; // Backtested accuracy (%)
+
+  contributedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const patternContributionSchema = new Schema<IPatternContribution>(
+  {
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true,
+      index: true
+    },
+    correlationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Correlation',
+      required: true
+    },
+    patternKey: {
+      type: String,
+      required: true
+    },
+    region: {
+      type: String,
+      required: true
+    },
+    cuisineType: {
+      type: String,
+      required: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(CorrelationType),
+      required: true
+    },
+    externalFactor: {
+      type: Schema.Types.Mixed,
+      required: true
+    },
+    metric: {
+      type: String,
+      required: true
+    },
+    whenCondition: {
+      type: String,
+      required: true
+    },
+    recommendation: String,
+    correlation: {
+      type: Number,
+      required: true,
+      min: -1,
+      max: 1
+    },
+    change: {
+      type: Number,
+      required: true
+    },
+    sampleSize: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    accuracy: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100
+    },
+    contributedAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'pattern_contributions'
+  }
+);
+
+// One contribution per restaurant per pattern
+patternContributionSchema.index({ restaurantId: 1, patternKey: 1 }, { unique: true });
+patternContributionSchema.index({ patternKey: 1, region: 1, cuisineType: 1 });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.PatternContribution as mongoose.Model<IPatternContribution>) ||
+  mongoose.model<IPatternContribution>('PatternContribution', patternContributionSchema);
@@ -0,0 +1,131 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * PredictionRecord Model
+ *
+ * A DayPrediction as PredictionEngine made it, kept so it can be scored
+ * against what actually happened. One record per restaurant, local date and
+ * lead time - regenerating the forecast on the same day replaces it, so each
+ * lead keeps the latest prediction made that far ahead.
+ *
+ * `actual` and `score` are filled in nightly once the day's sales are in.
+ */
+
+export type PredictionSource = 'forecaster' | 'baseline';
+
+export interface IPredictionFactorRecord {
+  type: string;
+  description: string;
+  impact: number;
+  confidence: number;
+}
+
+export interface IPredictionScore {
+  error: number; // predicted - actual
+  percentError: number | null; // (predicted - actual) / actual × 100; null when actual is 0
+  withinRange: boolean; // low ≤ actual ≤ high
+}
+
+export interface IPredictionRecord extends Document {
+  _id: Types.ObjectId;
+  restaurantId: Types.ObjectId;
+  date: string; // YYYY-MM-DD in `timezone`
+  timezone: string;
+  leadDays: number; // 0 = predicted on the day itself
+  generatedAt: Date;
+  source: PredictionSource;
+
+  revenue: {
+    baseline: number;
+    predicted: number;
+    low: number;
+    high: number;
+    confidence: number;
+  };
+  orders: number;
+  factors: IPredictionFactorRecord[];
+
+  actual?: {
+    revenue: number;
+    orders: number;
+  };
+  score?: IPredictionScore;
+  scoredAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const predictionRecordSchema = new Schema<IPredictionRecord>(
+  {
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true
+    },
+    date: {
+      type: String,
+      required: true
+    },
+    timezone: {
+      type: String,
+      required: true
+    },
+    leadDays: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    generatedAt: {
+      type: Date,
+      required: true
+    },
+    source: {
+      type: String,
+      enum: ['forecaster', 'baseline'],
+      required: true
+    },
+    revenue: {
+      baseline: { type: Number, required: true },
+      predicted: { type: Number, required: true },
+      low: { type: Number, required: true },
+      high: { type: Number, required: true },
+      confidence: { type: Number, required: true }
+    },
+    orders: {
+      type: Number,
+      required: true
+    },
+    factors: [
+      {
+        _id: false,
+        type: { type: String },
+        description: String,
+        impact: Number,
+        confidence: Number
+      }
+    ],
+    actual: {
+      revenue: Number,
+      orders: Number
+    },
+    score: {
+      error: Number,
+      percentError: Number,
+      withinRange: Boolean
+    },
+    scoredAt: Date
+  },
+  {
+    timestamps: true,
+    collection: 'prediction_records'
+  }
+);
+
+predictionRecordSchema.index({ restaurantId: 1, date: 1, leadDays: 1 }, { unique: true });
+// Nightly scoring looks up unscored records
+predictionRecordSchema.index({ restaurantId: 1, scoredAt: 1, date: 1 });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.PredictionRecord as mongoose.Model<IPredictionRecord>) ||
+  mongoose.model<IPredictionRecord>('PredictionRecord', predictionRecordSchema);
@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Reconciliation Model
+ *
+ * Result of comparing the POS's own totals for a business date against
+ * what we have stored in Transaction for that date.
+ * One document per restaurant and business date; re-running overwrites it.
+ */
+
+export type ReconciliationMetric = 'netSales' | 'tax' | 'tips' | 'discounts' | 'orderCount';
+
+export interface IReconciliationTotals {
+  netSales: number;
+  tax: number;
+  tips: number;
+  discounts: number;
+  orderCount: number;
+}
+
+export interface IReconciliationDiscrepancy {
+  metric: ReconciliationMetric;
+  posValue: number;
+  storedValue: number;
+  difference: number; // stored - POS
+  percentDifference: number;
+}
+
+export interface IReconciliation extends Document {
+  _id: Types.ObjectId;
+  restaurantId: Types.ObjectId;
+  posType: 'toast';
+  businessDate: string; // yyyyMMdd, as Toast reports it
+
+  posTotals: IReconciliationTotals;
+  storedTotals: IReconciliationTotals;
+  discrepancies: IReconciliationDiscrepancy[];
+  status: 'matched' | 'discrepancy' | 'error';
+  error?: string;
+
+  checkedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const totalsSchema = new Schema<IReconciliationTotals>(
+  {
+    netSales: { type: Number, default: 0 },
+    tax: { type: Number, default: 0 },
+    tips: { type: Number, default: 0 },
+    discounts: { type: Number, default: 0 },
+    orderCount: { type: Number, default: 0 }
+  },
+  { _id: false }
+);
+
+const reconciliationSchema = new Schema<IReconciliation>(
+  {
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true,
+      index: true
+    },
+    posType: {
+      type: String,
+      enum: ['toast'],
+      required: true,
+      default: 'toast'
+    },
+    businessDate: {
+      type: String,
+      required: true
+    },
+
+    posTotals: totalsSchema,
+    storedTotals: totalsSchema,
+    discrepancies: [{
+      _id: false,
+      metric: {
+        type: String,
+        enum: ['netSales', 'tax', 'tips', 'discounts', 'orderCount'],
+        required: true
+      },
+      posValue: Number,
+      storedValue: Number,
+      difference: Number,
+      percentDifference: Number
+    }],
+    status: {
+      type: String,
+      enum: ['matched', 'discrepancy', 'error'],
+      required: true,
+      index: true
+    },
+    error: String,
+
+    checkedAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'reconciliations'
+  }
+);
+
+// Compound indexes
+reconciliationSchema.index({ restaurantId: 1, posType: 1, businessDate: 1 }, { unique: true });
+reconciliationSchema.index({ restaurantId: 1, status: 1, businessDate: -1 });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.Reconciliation as mongoose.Model<IReconciliation>) ||
+  mongoose.model<IReconciliation>('Reconciliation', reconciliationSchema);
@@ -97,6 +97,7 @@ export interface IPOSConfig {
   clientId?: string;                  // Encrypted Client ID
   encryptedAccessToken?: string;      // Encrypted for security
   encryptedRefreshToken?: string;     // Encrypted for security
+  tokenExpiresAt?: Date;              // When encryptedAccessToken expires
   encryptedClientSecret?: string;     // Encrypted Client Secret
   lastSyncAt?: Date;                  // When data was last synced
   syncInterval?: 'manual' | 'on_login' | 'hourly' | 'daily';  // Auto-sync strategy
@@ -176,6 +177,15 @@ export interface IAnalyticsSettings {
   reportFrequency: 'daily' | 'weekly' | 'monthly';
 }
 
+// Interface for tip pool settings
+export interface ITipPoolSettings {
+  poolBy: 'shift' | 'day';            // Tips are shared within each shift or business day
+  shiftChangeHour: number;            // Local hour the PM shift starts (poolBy 'shift')
+  weightBy: 'hours' | 'points';       // Share by hours, or hours × job points
+  jobPoints: Array<{ jobId: string; points: number }>;
+  tipOuts: Array<{ jobId: string; percentage: number }>; // % of each pool's tips paid to a job
+}
+
 // Interface for imported employee data
 export interface IEmployee {
   _id?: any;                          // Mongoose subdocument ID
@@ -236,6 +246,7 @@ export interface IRestaurant extends Document {
   // Status and settings
   status: RestaurantStatus;
   analyticsSettings: IAnalyticsSettings;
+  tipPoolSettings?: ITipPoolSettings;
 
   // Team and employee management
   team?: ITeam;
@@ -336,6 +347,7 @@ const RestaurantSchema = new Schema<IRestaurant>({
     clientId: { type: String },
     encryptedAccessToken: { type: String },
     encryptedRefreshToken: { type: String },
+    tokenExpiresAt: { type: Date },
     encryptedClientSecret: { type: String },
     lastSyncAt: { type: Date },
     syncInterval: {
@@ -454,6 +466,22 @@ const RestaurantSchema = new Schema<IRestaurant>({
       default: 'weekly'
     }
   },
+
+  tipPoolSettings: {
+    poolBy: { type: String, enum: ['shift', 'day'], default: 'day' },
+    shiftChangeHour: { type: Number, min: 0, max: 23, default: 16 },
+    weightBy: { type: String, enum: ['hours', 'points'], default: 'hours' },
+    jobPoints: [{
+      _id: false,
+      jobId: { type: String, required: true },
+      points: { type: Number, min: 0, required: true }
+    }],
+    tipOuts: [{
+      _id: false,
+      jobId: { type: String, required: true },
+      percentage: { type: Number, min: 0, max: 100, required: true }
+    }]
+  },
   
   // Feature flags
   features: {
@@ -0,0 +1,149 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * SalesReport Model
+ *
+ * One uploaded POS sales export (e.g. Toast's SalesSummary_<start>_<end>.zip).
+ * Holds the period-level totals and breakdowns from the export's summary CSVs;
+ * the per-day rows go to DailySales.
+ * Lets restaurants without API credentials get analysis, and backfills
+ * history older than the POS API returns.
+ */
+
+export interface ISalesReportBreakdown {
+  name: string;
+  subType?: string;
+  count?: number; // orders, payments or items depending on the report
+  netSales: number;
+  grossSales?: number;
+  discountAmount?: number;
+  refundAmount?: number;
+  tax?: number;
+  tips?: number;
+}
+
+export interface ISalesReport extends Document {
+  _id: Types.ObjectId;
+  restaurantId: Types.ObjectId;
+  source: 'toast_sales_summary';
+  fileName: string;
+  periodStart: Date;
+  periodEnd: Date;
+
+  summary: {
+    grossSales: number;
+    discounts: number;
+    refunds: number;
+    netSales: number;
+    tax: number;
+    tips: number;
+    gratuity: number;
+    voidAmount: number;
+    voidOrderCount: number;
+    totalOrders: number;
+    totalGuests: number;
+  };
+
+  payments: ISalesReportBreakdown[];
+  diningOptions: ISalesReportBreakdown[];
+  revenueCenters: ISalesReportBreakdown[];
+  salesCategories: ISalesReportBreakdown[];
+  dayparts: ISalesReportBreakdown[];
+  checkDiscounts: ISalesReportBreakdown[];
+  itemDiscounts: ISalesReportBreakdown[];
+  hourOfDay: Array<{ hour: number; netSales: number; orders: number; guests: number }>;
+
+  filesParsed: string[];
+  filesSkipped: string[];
+  importedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const breakdownSchema = new Schema<ISalesReportBreakdown>(
+  {
+    name: { type: String, required: true },
+    subType: String,
+    count: Number,
+    netSales: { type: Number, default: 0 },
+    grossSales: Number,
+    discountAmount: Number,
+    refundAmount: Number,
+    tax: Number,
+    tips: Number
+  },
+  { _id: false }
+);
+
+const salesReportSchema = new Schema<ISalesReport>(
+  {
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true,
+      index: true
+    },
+    source: {
+      type: String,
+      enum: ['toast_sales_summary'],
+      required: true
+    },
+    fileName: {
+      type: String,
+      required: true
+    },
+    periodStart: {
+      type: Date,
+      required: true
+    },
+    periodEnd: {
+      type: Date,
+      required: true
+    },
+
+    summary: {
+      grossSales: { type: Number, default: 0 },
+      discounts: { type: Number, default: 0 },
+      refunds: { type: Number, default: 0 },
+      netSales: { type: Number, default: 0 },
+      tax: { type: Number, default: 0 },
+      tips: { type: Number, default: 0 },
+      gratuity: { type: Number, default: 0 },
+      voidAmount: { type: Number, default: 0 },
+      voidOrderCount: { type: Number, default: 0 },
+      totalOrders: { type: Number, default: 0 },
+      totalGuests: { type: Number, default: 0 }
+    },
+
+    payments: [breakdownSchema],
+    diningOptions: [breakdownSchema],
+    revenueCenters: [breakdownSchema],
+    salesCategories: [breakdownSchema],
+    dayparts: [breakdownSchema],
+    checkDiscounts: [breakdownSchema],
+    itemDiscounts: [breakdownSchema],
+    hourOfDay: [{
+      _id: false,
+      hour: { type: Number, required: true },
+      netSales: { type: Number, default: 0 },
+      orders: { type: Number, default: 0 },
+      guests: { type: Number, default: 0 }
+    }],
+
+    filesParsed: [String],
+    filesSkipped: [String],
+    importedBy: String
+  },
+  {
+    timestamps: true,
+    collection: 'sales_reports'
+  }
+);
+
+// Re-uploading the same export replaces it
+salesReportSchema.index({ restaurantId: 1, source: 1, periodStart: 1, periodEnd: 1 }, { unique: true });
+salesReportSchema.index({ restaurantId: 1, periodEnd: -1 });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.SalesReport as mongoose.Model<ISalesReport>) ||
+  mongoose.model<ISalesReport>('SalesReport', salesReportSchema);
@@ -11,6 +11,14 @@ export interface ISyncJob extends Document {
   status: 'pending' | 'processing' | 'completed' | 'failed';
   jobId: string; // BullMQ job ID
 
+  // Sync range requested by the caller (adapter decides when omitted)
+  options?: {
+    startDate?: Date;
+    endDate?: Date;
+    fullSync?: boolean;
+    reason?: 'gap_fill' | 'scheduled' | 'on_login'; // Who enqueued it: GapDetectionService, AutoSyncScheduler or login
+  };
+
   // Progress tracking
   progress: {
     currentPage?: number;
@@ -19,6 +27,22 @@ export interface ISyncJob extends Document {
     estimatedTotal?: number;
   };
 
+  // Resume point for long history syncs; the worker passes it back to the adapter
+  checkpoint?: {
+    rangeStart: Date;
+    rangeEnd: Date;
+    totalWindows: number;
+    windowIndex: number;
+    windowStart?: Date;
+    windowEnd?: Date;
+    pageToken?: string;
+    ordersImported: number;
+    updatedAt?: Date;
+  };
+
+  // Times the job was put back in the queue after a worker crash or shutdown
+  recoveries: number;
+
   // Results
   result?: {
     ordersImported: number;
@@ -77,12 +101,33 @@ const SyncJobSchema = new Schema<ISyncJob>(
       unique: true,
       index: true
     },
+    options: {
+      startDate: { type: Date },
+      endDate: { type: Date },
+      fullSync: { type: Boolean },
+      reason: { type: String, enum: ['gap_fill', 'scheduled', 'on_login'] }
+    },
     progress: {
       currentPage: { type: Number },
       totalPages: { type: Number },
       ordersProcessed: { type: Number, default: 0 },
       estimatedTotal: { type: Number }
     },
+    checkpoint: {
+      rangeStart: { type: Date },
+      rangeEnd: { type: Date },
+      totalWindows: { type: Number },
+      windowIndex: { type: Number },
+      windowStart: { type: Date },
+      windowEnd: { type: Date },
+      pageToken: { type: String },
+      ordersImported: { type: Number },
+      updatedAt: { type: Date }
+    },
+    recoveries: {
+      type: Number,
+      default: 0
+    },
     result: {
       ordersImported: { type: Number },
       ordersFailed: { type: Number },
@@ -37,6 +37,42 @@ export interface ITimeEntry extends Document {
   totalPay: number;
 }
 
+// Pay multipliers on the hourly wage
+const OVERTIME_MULTIPLIER = 1.5;
+const DOUBLE_OVERTIME_MULTIPLIER = 2;
+
+/**
+ * Pay for an entry's hours: regular + overtime[1.5x] + double overtime[2x].
+ * The one place the formula lives - bulk imports skip the pre-save hook and
+ * use this directly.
+ */
+export function calculateTimeEntryPay(
+  entry: { regularHours?: number; overtimeHours?: number; doubleOvertimeHours?: number; hourlyWage?: number }
+): number {
+  const wage = entry.hourlyWage || 0;
+  return (
+    (entry.regularHours || 0) * wage +
+    (entry.overtimeHours || 0) * wage * OVERTIME_MULTIPLIER +
+    (entry.doubleOvertimeHours || 0) * wage * DOUBLE_OVERTIME_MULTIPLIER
+  );
+}
+
+/**
+ * calculateTimeEntryPay as an aggregation expression over TimeEntry fields
+ */
+export const TIME_ENTRY_PAY_EXPRESSION = {
+  $multiply: [
+    { $ifNull: ['$hourlyWage', 0] },
+    {
+      $add: [
+        { $ifNull: ['$regularHours', 0] },
+        { $multiply: [{ $ifNull: ['$overtimeHours', 0] }, OVERTIME_MULTIPLIER] },
+        { $multiply: [{ $ifNull: ['$doubleOvertimeHours', 0] }, DOUBLE_OVERTIME_MULTIPLIER] }
+      ]
+    }
+  ]
+};
+
 const timeEntrySchema = new Schema<ITimeEntry>(
   {
     restaurantId: {
@@ -144,11 +180,7 @@ timeEntrySchema.pre('save', function (next) {
   // Calculate total hours
   this.totalHours = this.regularHours + this.overtimeHours + (this.doubleOvertimeHours || 0);
 
-  // Calculate total pay (regular + overtime[1.5x] + double overtime[2x])
-  this.totalPay =
-    this.regularHours * this.hourlyWage +
-    this.overtimeHours * this.hourlyWage * 1.5 +
-    (this.doubleOvertimeHours || 0) * this.hourlyWage * 2;
+  this.totalPay = calculateTimeEntryPay(this);
 
   next();
 });
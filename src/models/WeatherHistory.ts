@@ -0,0 +1,120 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * WeatherHistory Model
+ *
+ * Observed (and, for upcoming days, forecast) weather per location and local
+ * date, with the hourly readings behind the daily summary. Keyed by lat/lon
+ * rounded to 0.1° (~11 km, about the archive's grid size) so nearby
+ * restaurants share one record.
+ *
+ * Filled by WeatherHistoryService; correlation discovery, backtesting and
+ * forecasting all read from here instead of calling the weather API per day.
+ */
+
+export type WeatherHistorySource = 'archive' | 'forecast' | 'fixture';
+
+export interface IWeatherHour {
+  time: string; // Local YYYY-MM-DDTHH:mm
+  temperature: number; // °F
+  humidity: number;
+  precipitation: number; // inches
+  rain: number;
+  snowfall: number;
+  cloudCover: number; // %
+  windSpeed: number; // mph
+  weatherCode: number; // WMO code
+}
+
+export interface IWeatherHistory extends Document {
+  _id: Types.ObjectId;
+  locationKey: string; // "38.6,-121.5"
+  latitude: number;
+  longitude: number;
+  date: string; // YYYY-MM-DD in `timezone`
+  timezone: string;
+  source: WeatherHistorySource;
+
+  temperatureMax: number;
+  temperatureMin: number;
+  temperatureMean: number;
+  precipitation: number;
+  rain: number;
+  snowfall: number;
+  weatherCode: number;
+  hourly: IWeatherHour[];
+
+  fetchedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const weatherHourSchema = new Schema<IWeatherHour>(
+  {
+    time: { type: String, required: true },
+    temperature: Number,
+    humidity: Number,
+    precipitation: Number,
+    rain: Number,
+    snowfall: Number,
+    cloudCover: Number,
+    windSpeed: Number,
+    weatherCode: Number
+  },
+  { _id: false }
+);
+
+const weatherHistorySchema = new Schema<IWeatherHistory>(
+  {
+    locationKey: {
+      type: String,
+      required: true
+    },
+    latitude: {
+      type: Number,
+      required: true
+    },
+    longitude: {
+      type: Number,
+      required: true
+    },
+    date: {
+      type: String,
+      required: true
+    },
+    timezone: {
+      type: String,
+      required: true
+    },
+    source: {
+      type: String,
+      enum: ['archive', 'forecast', 'fixture'],
+      required: true
+    },
+    temperatureMax: { type: Number, required: true },
+    temperatureMin: { type: Number, required: true },
+    temperatureMean: { type: Number, required: true },
+    precipitation: { type: Number, default: 0 },
+    rain: { type: Number, default: 0 },
+    snowfall: { type: Number, default: 0 },
+    weatherCode: { type: Number, default: 0 },
+    hourly: {
+      type: [weatherHourSchema],
+      default: []
+    },
+    fetchedAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'weather_history'
+  }
+);
+
+weatherHistorySchema.index({ locationKey: 1, date: 1 }, { unique: true });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.WeatherHistory as mongoose.Model<IWeatherHistory>) ||
+  mongoose.model<IWeatherHistory>('WeatherHistory', weatherHistorySchema);
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * WebhookEvent Model
+ *
+ * One document per received POS webhook delivery, keyed by the POS event ID.
+ * The unique index is what de-duplicates redeliveries; documents expire
+ * after two weeks, well past any POS retry window.
+ */
+
+export interface IWebhookEvent extends Document {
+  _id: Types.ObjectId;
+  source: 'toast';
+  eventId: string;
+  eventType: string;
+  restaurantId: Types.ObjectId;
+  resourceId?: string;
+  status: 'processing' | 'processed' | 'failed';
+  error?: string;
+  receivedAt: Date;
+  processedAt?: Date;
+}
+
+const webhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    source: {
+      type: String,
+      enum: ['toast'],
+      required: true
+    },
+    eventId: {
+      type: String,
+      required: true
+    },
+    eventType: {
+      type: String,
+      required: true
+    },
+    restaurantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Restaurant',
+      required: true,
+      index: true
+    },
+    resourceId: String,
+    status: {
+      type: String,
+      enum: ['processing', 'processed', 'failed'],
+      required: true,
+      default: 'processing'
+    },
+    error: String,
+    receivedAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    processedAt: Date
+  },
+  {
+    collection: 'webhook_events'
+  }
+);
+
+webhookEventSchema.index({ source: 1, eventId: 1 }, { unique: true });
+webhookEventSchema.index({ receivedAt: 1 }, { expireAfterSeconds: 14 * 24 * 60 * 60 });
+
+// Export the model (handle Next.js hot reload in dev mode)
+export default (mongoose.models.WebhookEvent as mongoose.Model<IWebhookEvent>) ||
+  mongoose.model<IWebhookEvent>('WebhookEvent', webhookEventSchema);
@@ -17,6 +17,12 @@ export { default as Job } from './Job';
 export { default as Shift } from './Shift';
 export { default as Menu } from './Menu';
 export { default as MenuItem } from './MenuItem';
+export { default as SalesReport } from './SalesReport';
+export { default as DailySales } from './DailySales';
+export { default as Reconciliation } from './Reconciliation';
+export { default as WebhookEvent } from './WebhookEvent';
+export { default as ApiRateLimit } from './ApiRateLimit';
+export { default as WeatherHistory } from './WeatherHistory';
 
 // Export types and enums
 export type { IRestaurant } from './Restaurant';
@@ -37,6 +43,12 @@ export type { IJob } from './Job';
 export type { IShift } from './Shift';
 export type { IMenu, IMenuGroup } from './Menu';
 export type { IMenuItem, IModifier, IPriceHistoryEntry } from './MenuItem';
+export type { ISalesReport, ISalesReportBreakdown } from './SalesReport';
+export type { IDailySales } from './DailySales';
+export type { IReconciliation, IReconciliationTotals, IReconciliationDiscrepancy } from './Reconciliation';
+export type { IWebhookEvent } from './WebhookEvent';
+export type { IApiRateLimit, IApiRateLimitMetrics } from './ApiRateLimit';
+export type { IWeatherHistory, IWeatherHour, WeatherHistorySource } from './WeatherHistory';
 
 export { RestaurantType, POSSystemType, SubscriptionTier, RestaurantStatus, UserRole } from './Restaurant';
 export { InsightType, InsightCategory, InsightPriority, InsightStatus } from './Insight';
@@ -56,6 +68,7 @@ export type {
   IDataSource,
   IKeyFinding,
   IRecommendation,
+  IRecommendationImpact,
   IBenchmark
 } from './Insight';
 
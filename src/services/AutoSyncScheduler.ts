@@ -0,0 +1,159 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { Restaurant } from '../models';
+import { enqueueSyncJob, getActiveJobs } from '../lib/mongoQueue';
+import { toLocalDate, localMidnightUtc } from '../utils/timezone';
+import { POSType } from './POSAdapter';
+
+/**
+ * Auto Sync Scheduler
+ *
+ * Turns posConfig.syncInterval into incremental SyncJobs:
+ * - 'hourly': once lastSyncAt is an hour old
+ * - 'daily': once per local day, after DAILY_SYNC_HOUR in the restaurant's timezone
+ * - 'on_login': enqueued from /api/auth/login via enqueueIfIdle
+ * - 'manual': never
+ *
+ * Runs inside the Mongo worker on a short node-cron tick; a restaurant with a
+ * pending or processing job is skipped so schedules never stack up behind a
+ * long history sync.
+ */
+
+// Tick often enough that "hourly" drifts by minutes, not hours
+const TICK_SCHEDULE = '*/5 * * * *';
+const HOURLY_INTERVAL_MS = 60 * 60 * 1000;
+// A restaurant due just before the next tick shouldn't wait a whole extra tick
+const TICK_TOLERANCE_MS = 5 * 60 * 1000;
+// Local hour for daily syncs - after most restaurants' closeout
+const DAILY_SYNC_HOUR = 5;
+
+const SUPPORTED_POS: POSType[] = ['toast', 'square', 'clover'];
+
+export type AutoSyncReason = 'scheduled' | 'on_login';
+
+export class AutoSyncScheduler {
+  private task: ScheduledTask | null = null;
+  private isRunning = false;
+
+  /**
+   * Start the cron tick (idempotent)
+   */
+  start(): void {
+    if (this.task) return;
+
+    this.task = cron.schedule(TICK_SCHEDULE, () => {
+      this.runTick().catch(error => {
+        console.error('❌ Auto-sync tick failed:', error);
+      });
+    });
+
+    console.log(`⏰ Auto-sync scheduler started (${TICK_SCHEDULE})`);
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  /**
+   * Enqueue syncs for every hourly/daily restaurant that is due
+   */
+  async runTick(now: Date = new Date()): Promise<{ checked: number; enqueued: number; skipped: number }> {
+    // A slow tick (many restaurants) must not overlap the next one
+    if (this.isRunning) {
+      return { checked: 0, enqueued: 0, skipped: 0 };
+    }
+    this.isRunning = true;
+
+    try {
+      const restaurants = await Restaurant.find({
+        'posConfig.type': { $in: SUPPORTED_POS },
+        'posConfig.isConnected': true,
+        'posConfig.isActive': { $ne: false },
+        'posConfig.syncInterval': { $in: ['hourly', 'daily'] }
+      }).select('posConfig analyticsSettings.timezone owner.email');
+
+      let enqueued = 0;
+      let skipped = 0;
+
+      for (const restaurant of restaurants) {
+        const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+        const interval = restaurant.posConfig.syncInterval as 'hourly' | 'daily';
+
+        if (!this.isDue(interval, restaurant.posConfig.lastSyncAt, timezone, now)) {
+          continue;
+        }
+
+        try {
+          const jobId = await this.enqueueIfIdle(
+            String(restaurant._id),
+            restaurant.posConfig.type as POSType,
+            'scheduled'
+          );
+          if (jobId) {
+            enqueued++;
+          } else {
+            skipped++;
+          }
+        } catch (error: any) {
+          console.error(`⚠️  Auto-sync enqueue failed for restaurant ${restaurant._id}:`, error.message);
+        }
+      }
+
+      if (enqueued > 0 || skipped > 0) {
+        console.log(`⏰ Auto-sync tick: ${restaurants.length} scheduled restaurants, ${enqueued} enqueued, ${skipped} busy`);
+      }
+
+      return { checked: restaurants.length, enqueued, skipped };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Whether a restaurant's interval has elapsed
+   */
+  isDue(interval: 'hourly' | 'daily', lastSyncAt: Date | undefined, timezone: string, now: Date): boolean {
+    if (!lastSyncAt) {
+      return true;
+    }
+
+    const last = new Date(lastSyncAt).getTime();
+
+    if (interval === 'hourly') {
+      return now.getTime() - last >= HOURLY_INTERVAL_MS - TICK_TOLERANCE_MS;
+    }
+
+    // Today's local sync time; due once we're past it and haven't synced since
+    const dailySyncAt = localMidnightUtc(toLocalDate(now, timezone), timezone).getTime() +
+      DAILY_SYNC_HOUR * 60 * 60 * 1000;
+    return now.getTime() >= dailySyncAt && last < dailySyncAt;
+  }
+
+  /**
+   * Enqueue an incremental sync unless the restaurant already has an active job.
+   * Returns the job ID, or null when skipped.
+   */
+  async enqueueIfIdle(
+    restaurantId: string,
+    posType: POSType,
+    reason: AutoSyncReason,
+    notificationEmail?: string
+  ): Promise<string | null> {
+    const activeJobs = await getActiveJobs(restaurantId);
+    if (activeJobs.length > 0) {
+      console.log(`⏭️  Auto-sync skipped for restaurant ${restaurantId}: job ${activeJobs[0].jobId} is ${activeJobs[0].status}`);
+      return null;
+    }
+
+    // No date range - the adapter syncs incrementally from posConfig.lastSyncAt
+    return enqueueSyncJob({
+      restaurantId,
+      posType,
+      options: { reason },
+      notificationEmail
+    });
+  }
+}
+
+// Export singleton instance
+export const autoSyncScheduler = new AutoSyncScheduler();
@@ -0,0 +1,830 @@
+import axios, { AxiosInstance } from 'axios';
+import { Restaurant } from '../models';
+import { UserRole } from '../models/Restaurant';
+import { ITransaction, TransactionStatus, PaymentMethod, OrderType } from '../models/Transaction';
+import { decryptCloverCredentials } from '../utils/cloverEncryption';
+import {
+  IPOSAdapter,
+  POSSyncOptions,
+  POSSyncProgressCallback,
+  POSSyncResult,
+  bulkUpsertTransactions,
+  runChunkedSync
+} from './POSAdapter';
+
+// Clover API configuration
+const CLOVER_BASE_URL = process.env.CLOVER_ENVIRONMENT === 'sandbox'
+  ? 'https://apisandbox.dev.clover.com'
+  : 'https://api.clover.com';
+const RETRY_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+const PAGE_LIMIT = 1000;
+
+// Job titles that usually share in tips (Clover roles carry no tip flag)
+const TIP_ELIGIBLE_ROLE_PATTERN = /server|bartend|barista|host|runner|bus/i;
+
+// Interface for Clover API credentials
+export interface ICloverCredentials {
+  accessToken: string;
+  merchantId: string;
+}
+
+// Clover collections are wrapped as { elements: [...] }
+interface ICloverList<T> {
+  elements?: T[];
+}
+
+// Interface for Clover order data (subset we use). Amounts are in cents.
+interface ICloverOrder {
+  id: string;
+  currency?: string;
+  total?: number;
+  state?: string;
+  paymentState?: 'OPEN' | 'PAID' | 'REFUNDED' | 'CREDITED' | 'PARTIALLY_PAID' | 'PARTIALLY_REFUNDED';
+  title?: string;
+  note?: string;
+  createdTime: number;
+  clientCreatedTime?: number;
+  modifiedTime?: number;
+  employee?: { id: string; name?: string };
+  merchant?: { id: string };
+  orderType?: { id: string; label?: string };
+  lineItems?: ICloverList<{
+    id: string;
+    name?: string;
+    price?: number;
+    unitQty?: number;
+    note?: string;
+    refunded?: boolean;
+    item?: { id: string };
+    modifications?: ICloverList<{ id: string; name?: string; amount?: number }>;
+    discounts?: ICloverList<{ id: string; name?: string; amount?: number; percentage?: number }>;
+  }>;
+  discounts?: ICloverList<{ id: string; name?: string; amount?: number; percentage?: number }>;
+  payments?: ICloverList<{
+    id: string;
+    amount?: number;
+    tipAmount?: number;
+    taxAmount?: number;
+    createdTime?: number;
+    result?: string;
+    tender?: { labelKey?: string; label?: string };
+    cardTransaction?: { cardType?: string; last4?: string; authCode?: string };
+  }>;
+}
+
+function toDollars(cents?: number): number {
+  return (cents || 0) / 100;
+}
+
+// Main Clover Integration Service
+export class CloverIntegrationService implements IPOSAdapter {
+  readonly posType = 'clover' as const;
+  private client: AxiosInstance;
+  // Employee role lookups built once per running sync, keyed by restaurant
+  private syncRoleMaps = new Map<string, Map<string, string | undefined>>();
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: CLOVER_BASE_URL,
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NOION-Analytics/1.0'
+      }
+    });
+
+    // Add response interceptor for retry logic
+    this.client.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const config = error.config;
+
+        if (!config._retryCount) {
+          config._retryCount = 0;
+        }
+
+        if (config._retryCount < RETRY_ATTEMPTS && this.shouldRetry(error)) {
+          config._retryCount++;
+          await this.delay(RETRY_DELAY_MS * config._retryCount);
+          return this.client(config);
+        }
+
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  private shouldRetry(error: any): boolean {
+    return (
+      error.code === 'ECONNRESET' ||
+      error.code === 'ETIMEDOUT' ||
+      (error.response && error.response.status >= 500) ||
+      (error.response && error.response.status === 429) // Rate limit
+    );
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Verify credentials by loading the merchant
+   */
+  async authenticateRestaurant(credentials: ICloverCredentials): Promise<{ id: string; name: string }> {
+    try {
+      const response = await this.client.get(`/v3/merchants/${credentials.merchantId}`, {
+        headers: { 'Authorization': `Bearer ${credentials.accessToken}` }
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error('Clover authentication failed:', error.response?.data || error.message);
+      throw new Error(`Clover authentication failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load and decrypt stored credentials for a restaurant
+   */
+  private async getCredentials(restaurantId: string): Promise<ICloverCredentials> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    return decryptCloverCredentials({
+      encryptedAccessToken: restaurant.posConfig.encryptedAccessToken,
+      locationId: restaurant.posConfig.locationId
+    });
+  }
+
+  /**
+   * Fetch every page of a merchant collection (offset paginated).
+   * `filters` become repeated `filter=` params, which Clover ANDs together.
+   */
+  private async fetchAll<T = any>(
+    restaurantId: string,
+    path: string,
+    params: { expand?: string; filters?: string[] } = {}
+  ): Promise<T[]> {
+    const { accessToken, merchantId } = await this.getCredentials(restaurantId);
+    const all: T[] = [];
+    let offset = 0;
+    let hasMorePages = true;
+
+    while (hasMorePages) {
+      const query = new URLSearchParams({ limit: String(PAGE_LIMIT), offset: String(offset) });
+      if (params.expand) query.append('expand', params.expand);
+      for (const filter of params.filters || []) {
+        query.append('filter', filter);
+      }
+
+      const response = await this.client.get(`/v3/merchants/${merchantId}/${path}?${query}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      });
+
+      const pageData: T[] = response.data?.elements || [];
+      all.push(...pageData);
+
+      if (pageData.length === PAGE_LIMIT) {
+        offset += PAGE_LIMIT;
+      } else {
+        hasMorePages = false;
+      }
+    }
+
+    return all;
+  }
+
+  /**
+   * Test connection to Clover API
+   */
+  async testConnection(restaurantId: string): Promise<boolean> {
+    try {
+      const credentials = await this.getCredentials(restaurantId);
+      await this.authenticateRestaurant(credentials);
+      return true;
+    } catch (error) {
+      console.error('Connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch orders with line items, payments and discounts expanded
+   */
+  async fetchTransactions(restaurantId: string, startDate: Date, endDate: Date): Promise<ICloverOrder[]> {
+    console.log(`Fetching Clover orders from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+
+    const orders = await this.fetchAll<ICloverOrder>(restaurantId, 'orders', {
+      expand: 'lineItems,lineItems.modifications,lineItems.discounts,payments,payments.tender,payments.cardTransaction,discounts,employee,orderType',
+      filters: [
+        `createdTime>=${startDate.getTime()}`,
+        `createdTime<${endDate.getTime()}`
+      ]
+    });
+
+    console.log(`  ✓ Retrieved ${orders.length} orders`);
+    return orders;
+  }
+
+  /**
+   * Normalize Clover order data to our schema
+   */
+  normalizeTransaction(order: ICloverOrder, restaurantId: string): Partial<ITransaction> {
+    const lineItems = order.lineItems?.elements || [];
+    const orderPayments = (order.payments?.elements || []).filter(p => p.result !== 'FAIL');
+
+    const items = lineItems.map(lineItem => {
+      // unitQty is in thousandths for weighed/per-unit items; otherwise one line per unit
+      const quantity = lineItem.unitQty ? lineItem.unitQty / 1000 : 1;
+      const unitPrice = toDollars(lineItem.price);
+
+      return {
+        id: lineItem.item?.id || lineItem.id,
+        name: lineItem.name || 'Unknown Item',
+        category: 'General',
+        quantity,
+        unitPrice,
+        totalPrice: unitPrice * quantity,
+        specialInstructions: lineItem.note,
+        modifiers: (lineItem.modifications?.elements || []).map(mod => ({
+          id: mod.id,
+          name: mod.name || 'Unknown Modifier',
+          price: toDollars(mod.amount)
+        })),
+        discounts: (lineItem.discounts?.elements || []).map(discount => {
+          const amount = discount.percentage
+            ? unitPrice * quantity * discount.percentage / 100
+            : Math.abs(toDollars(discount.amount));
+          return {
+            id: discount.id,
+            name: discount.name || 'Discount',
+            type: (discount.percentage ? 'percentage' : 'fixed') as 'percentage' | 'fixed',
+            value: discount.percentage || Math.abs(toDollars(discount.amount)),
+            amount
+          };
+        })
+      };
+    });
+
+    const itemsTotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+    const discounts = (order.discounts?.elements || []).map(discount => {
+      const amount = discount.percentage
+        ? itemsTotal * discount.percentage / 100
+        : Math.abs(toDollars(discount.amount));
+      return {
+        id: discount.id,
+        name: discount.name || 'Discount',
+        type: (discount.percentage ? 'percentage' : 'fixed') as 'percentage' | 'fixed',
+        value: discount.percentage || Math.abs(toDollars(discount.amount)),
+        amount
+      };
+    });
+
+    const payments = orderPayments.map(payment => {
+      const amount = toDollars(payment.amount);
+      const tip = toDollars(payment.tipAmount);
+
+      return {
+        method: this.mapCloverTender(payment.tender?.labelKey),
+        amount,
+        cardType: this.mapCloverCardType(payment.cardTransaction?.cardType),
+        last4Digits: payment.cardTransaction?.last4,
+        authorizationCode: payment.cardTransaction?.authCode,
+        tip: tip > 0 ? {
+          amount: tip,
+          percentage: amount > 0 ? Math.min((tip / amount) * 100, 100) : 0,
+          method: (payment.tender?.labelKey === 'com.clover.tender.cash' ? 'cash' : 'card') as 'cash' | 'card'
+        } : undefined
+      };
+    });
+
+    // Clover's order total includes tax but not tips (tips live on payments)
+    const totalAmount = Math.max(0, toDollars(order.total));
+    const tax = orderPayments.reduce((sum, p) => sum + toDollars(p.taxAmount), 0);
+    const tip = orderPayments.reduce((sum, p) => sum + toDollars(p.tipAmount), 0);
+
+    const openedDate = new Date(order.clientCreatedTime || order.createdTime);
+
+    return {
+      restaurantId: restaurantId as any,
+      posTransactionId: order.id,
+      posSystemType: 'clover',
+      orderType: this.mapCloverOrderType(order.orderType?.label),
+      status: this.mapCloverStatus(order),
+      items,
+      subtotal: Math.max(0, totalAmount - tax),
+      tax,
+      tip,
+      totalAmount,
+      discounts,
+      payments,
+      employee: {
+        id: order.employee?.id || 'unassigned',
+        name: order.employee?.name,
+        role: order.employee ? 'server' : 'system'
+      },
+      timing: {
+        orderStartedAt: openedDate,
+        orderCompletedAt: order.modifiedTime && order.paymentState === 'PAID' ? new Date(order.modifiedTime) : undefined,
+        paymentProcessedAt: orderPayments[0]?.createdTime ? new Date(orderPayments[0].createdTime) : undefined
+      },
+      location: {
+        id: order.merchant?.id,
+        tableNumber: order.title
+      },
+      analytics: {
+        isUpsellOpportunity: false,
+        orderAccuracy: !lineItems.some(li => li.refunded),
+        serviceEfficiency: 'average' as const,
+        revenueCategory: 'medium' as const,
+        isRepeatCustomer: false,
+        isDuringPeakHours: false,
+        dayOfWeek: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][openedDate.getDay()],
+        hourOfDay: openedDate.getUTCHours(),
+        anomalies: []
+      },
+      integration: {
+        lastSyncedAt: new Date(),
+        syncVersion: 1,
+        webhookReceived: false,
+        rawPOSData: order
+      },
+      transactionDate: openedDate
+    };
+  }
+
+  private mapCloverStatus(order: ICloverOrder): TransactionStatus {
+    switch (order.paymentState) {
+      case 'PAID':
+        return TransactionStatus.COMPLETED;
+      case 'REFUNDED':
+      case 'CREDITED':
+        return TransactionStatus.REFUNDED;
+      case 'PARTIALLY_REFUNDED':
+        return TransactionStatus.PARTIALLY_REFUNDED;
+      default:
+        return TransactionStatus.PENDING;
+    }
+  }
+
+  private mapCloverTender(labelKey?: string): PaymentMethod {
+    switch (labelKey) {
+      case 'com.clover.tender.cash':
+        return PaymentMethod.CASH;
+      case 'com.clover.tender.credit_card':
+        return PaymentMethod.CREDIT_CARD;
+      case 'com.clover.tender.debit_card':
+        return PaymentMethod.DEBIT_CARD;
+      case 'com.clover.tender.check':
+        return PaymentMethod.CHECK;
+      case 'com.clover.tender.external_gift_card':
+        return PaymentMethod.GIFT_CARD;
+      default:
+        return PaymentMethod.OTHER;
+    }
+  }
+
+  private mapCloverCardType(cardType?: string): 'visa' | 'mastercard' | 'amex' | 'discover' | 'other' | undefined {
+    if (!cardType) return undefined;
+
+    switch (cardType) {
+      case 'VISA':
+        return 'visa';
+      case 'MC':
+        return 'mastercard';
+      case 'AMEX':
+        return 'amex';
+      case 'DISCOVER':
+        return 'discover';
+      default:
+        return 'other';
+    }
+  }
+
+  private mapCloverOrderType(label?: string): OrderType {
+    const normalized = label?.toLowerCase() || '';
+
+    if (normalized.includes('deliver')) return OrderType.DELIVERY;
+    if (normalized.includes('curbside')) return OrderType.CURBSIDE;
+    if (normalized.includes('drive')) return OrderType.DRIVE_THROUGH;
+    if (normalized.includes('cater')) return OrderType.CATERING;
+    if (normalized.includes('online')) return OrderType.ONLINE;
+    if (normalized.includes('take') || normalized.includes('to go') || normalized.includes('pickup')) return OrderType.TAKEOUT;
+    return OrderType.DINE_IN;
+  }
+
+  /**
+   * Import orders into our database
+   */
+  async importTransactions(restaurantId: string, orders: ICloverOrder[]): Promise<number> {
+    const normalized: Partial<ITransaction>[] = [];
+
+    for (const order of orders) {
+      try {
+        normalized.push(this.normalizeTransaction(order, restaurantId));
+      } catch (error) {
+        console.error(`Failed to normalize Clover order ${order.id}:`, error);
+      }
+    }
+
+    return bulkUpsertTransactions(restaurantId, normalized);
+  }
+
+  /**
+   * Fetch employees with their roles
+   */
+  async fetchEmployees(restaurantId: string): Promise<any[]> {
+    try {
+      return await this.fetchAll(restaurantId, 'employees', { expand: 'roles' });
+    } catch (error: any) {
+      console.error('Failed to fetch employees from Clover:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import Clover employees into restaurant.team.employees (same shape as Toast staff import)
+   */
+  async importEmployees(restaurantId: string, cloverEmployees: any[]): Promise<number> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant || cloverEmployees.length === 0) {
+      return 0;
+    }
+
+    const employees = restaurant.team?.employees || [];
+    let imported = 0;
+
+    for (const cloverEmployee of cloverEmployees) {
+      const [firstName, ...rest] = (cloverEmployee.name || cloverEmployee.nickname || 'Unknown').split(' ');
+      const role = ['ADMIN', 'MANAGER'].includes(cloverEmployee.role) ? UserRole.MANAGER : UserRole.EMPLOYEE;
+      const isActive = !cloverEmployee.deletedTime;
+
+      const existing = employees.find(emp => emp.toastEmployeeId === cloverEmployee.id);
+      if (existing) {
+        existing.isActive = isActive;
+        continue;
+      }
+
+      employees.push({
+        userId: cloverEmployee.email || `${cloverEmployee.id}@clover.imported`,
+        toastEmployeeId: cloverEmployee.id,
+        email: cloverEmployee.email,
+        firstName,
+        lastName: rest.join(' '),
+        role,
+        isActive,
+        points: 0,
+        level: 1,
+        streak: 0,
+        badges: [],
+        toastData: {
+          chosenName: cloverEmployee.nickname,
+          jobTitle: cloverEmployee.roles?.elements?.[0]?.name
+        },
+        importedAt: new Date(),
+        importedFrom: 'clover'
+      });
+      imported++;
+    }
+
+    await Restaurant.updateOne(
+      { _id: restaurantId },
+      { $set: { 'team.employees': employees } }
+    );
+
+    console.log(`  ✅ Employees import: ${imported} new`);
+    return imported;
+  }
+
+  /**
+   * Fetch clock-in/out records. Clover calls these "shifts"; they map to TimeEntry.
+   * Each entry is tagged with the employee's first role so it can be linked to a Job.
+   */
+  async fetchTimeEntries(restaurantId: string, startDate: Date, endDate: Date): Promise<any[]> {
+    try {
+      const [shifts, roleByEmployee] = await Promise.all([
+        this.fetchAll(restaurantId, 'shifts', {
+          expand: 'employee',
+          filters: [`inTime>=${startDate.getTime()}`, `inTime<${endDate.getTime()}`]
+        }),
+        this.syncRoleMaps.get(restaurantId) ??
+          this.fetchEmployees(restaurantId).then(employees => this.buildRoleMap(employees))
+      ]);
+
+      return shifts.map(shift => ({
+        ...shift,
+        roleId: roleByEmployee.get(shift.employee?.id)
+      }));
+    } catch (error: any) {
+      console.error('Failed to fetch time entries from Clover:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  private buildRoleMap(employees: any[]): Map<string, string | undefined> {
+    return new Map(employees.map(emp => [emp.id, emp.roles?.elements?.[0]?.id]));
+  }
+
+  /**
+   * Import Clover shifts into TimeEntry.
+   * The toast* GUID fields hold the POS's own IDs for non-Toast systems.
+   */
+  async importTimeEntries(restaurantId: string, cloverShifts: any[]): Promise<number> {
+    const TimeEntry = (await import('../models/TimeEntry')).default;
+
+    if (cloverShifts.length === 0) {
+      return 0;
+    }
+
+    console.log(`  📦 Batch importing ${cloverShifts.length} time entries...`);
+
+    const bulkOps = cloverShifts.map(shift => {
+      // Manager overrides win over the raw punch times
+      const clockIn = new Date(shift.overrideInTime || shift.inTime);
+      const outTime = shift.overrideOutTime || shift.outTime;
+      const clockOut = outTime ? new Date(outTime) : null;
+      const workedHours = clockOut ? Math.max(0, (clockOut.getTime() - clockIn.getTime()) / 3600000) : 0;
+
+      return {
+        updateOne: {
+          filter: {
+            restaurantId: restaurantId,
+            toastTimeEntryGuid: shift.id
+          },
+          update: {
+            $setOnInsert: {
+              restaurantId: restaurantId,
+              toastTimeEntryGuid: shift.id,
+              employeeId: null, // TODO: Map to Employee model
+              employeeToastGuid: shift.employee?.id,
+              jobId: null, // TODO: Map to Job model
+              jobToastGuid: shift.roleId,
+              clockInTime: clockIn,
+              clockOutTime: clockOut,
+              breakDuration: 0,
+              // Clover doesn't split overtime or expose wages on shifts
+              regularHours: workedHours,
+              overtimeHours: 0,
+              doubleOvertimeHours: 0,
+              hourlyWage: 0,
+              tipsEarned: toDollars(shift.cashTipsCollected),
+              businessDate: new Date(clockIn.toISOString().split('T')[0]),
+              createdDate: clockIn,
+              modifiedDate: new Date(shift.modifiedTime || clockIn.getTime()),
+              totalHours: workedHours,
+              totalPay: 0
+            }
+          },
+          upsert: true
+        }
+      };
+    });
+
+    try {
+      const result = await TimeEntry.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Time entries import: ${result.upsertedCount} new`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Time entries import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Clover's REST API has no published schedules, only worked shifts
+   * (imported as time entries above), so there is nothing to import as Shift.
+   */
+  async fetchShifts(_restaurantId: string, _startDate: Date, _endDate: Date): Promise<any[]> {
+    return [];
+  }
+
+  async importShifts(_restaurantId: string, _cloverShifts: any[]): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * Fetch employee roles (Clover's closest equivalent to jobs)
+   */
+  async fetchJobs(restaurantId: string): Promise<any[]> {
+    try {
+      return await this.fetchAll(restaurantId, 'roles');
+    } catch (error: any) {
+      console.error('Failed to fetch roles from Clover:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import Clover roles into Job
+   */
+  async importJobs(restaurantId: string, cloverRoles: any[]): Promise<number> {
+    const Job = (await import('../models/Job')).default;
+
+    if (cloverRoles.length === 0) {
+      return 0;
+    }
+
+    console.log(`  📦 Batch importing ${cloverRoles.length} jobs...`);
+
+    const bulkOps = cloverRoles.map(role => ({
+      updateOne: {
+        filter: {
+          restaurantId: restaurantId,
+          toastJobGuid: role.id
+        },
+        update: {
+          $set: {
+            title: role.name || role.systemRole || 'Unknown',
+            defaultWage: 0,
+            tipEligible: TIP_ELIGIBLE_ROLE_PATTERN.test(role.name || ''),
+            isActive: true,
+            createdDate: new Date(),
+            modifiedDate: new Date()
+          }
+        },
+        upsert: true
+      }
+    }));
+
+    try {
+      const result = await Job.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Jobs import: ${result.upsertedCount} new, ${result.modifiedCount} updated`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Jobs import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Clover has no menus, so the inventory is exposed as a single menu
+   * with one group per category
+   */
+  async fetchMenus(restaurantId: string): Promise<any[]> {
+    try {
+      const { merchantId } = await this.getCredentials(restaurantId);
+      const categories = await this.fetchAll(restaurantId, 'categories', { expand: 'items' });
+
+      return [{
+        guid: `clover-inventory-${merchantId}`,
+        name: 'Clover Inventory',
+        groups: categories.map(category => ({
+          guid: category.id,
+          name: category.name || 'Uncategorized',
+          items: (category.items?.elements || []).map((item: any) => item.id)
+        }))
+      }];
+    } catch (error: any) {
+      console.error('Failed to fetch categories from Clover:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import the synthesized inventory menu into Menu
+   */
+  async importMenus(restaurantId: string, menus: any[]): Promise<number> {
+    const Menu = (await import('../models/Menu')).default;
+
+    if (menus.length === 0) {
+      return 0;
+    }
+
+    const bulkOps = menus.map(menu => ({
+      updateOne: {
+        filter: {
+          restaurantId: restaurantId,
+          toastMenuGuid: menu.guid
+        },
+        update: {
+          $set: {
+            name: menu.name,
+            groups: (menu.groups || []).map((g: any) => ({
+              toastGroupGuid: g.guid,
+              name: g.name,
+              items: g.items || []
+            })),
+            isActive: true,
+            lastSyncedAt: new Date()
+          }
+        },
+        upsert: true
+      }
+    }));
+
+    try {
+      const result = await Menu.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Menus import: ${result.upsertedCount} new, ${result.modifiedCount} updated`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Menus import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Fetch inventory items with categories and modifier groups
+   */
+  async fetchMenuItems(restaurantId: string): Promise<any[]> {
+    try {
+      return await this.fetchAll(restaurantId, 'items', { expand: 'categories,modifierGroups' });
+    } catch (error: any) {
+      console.error('Failed to fetch inventory from Clover:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import Clover inventory items into MenuItem
+   */
+  async importMenuItems(restaurantId: string, cloverItems: any[]): Promise<number> {
+    const MenuItem = (await import('../models/MenuItem')).default;
+
+    if (cloverItems.length === 0) {
+      return 0;
+    }
+
+    console.log(`  📦 Batch importing ${cloverItems.length} menu items...`);
+
+    const bulkOps = cloverItems.map(item => {
+      const price = toDollars(item.price);
+
+      return {
+        updateOne: {
+          filter: {
+            restaurantId: restaurantId,
+            toastItemGuid: item.id
+          },
+          update: {
+            $set: {
+              name: item.name || 'Unknown Item',
+              sku: item.sku || item.code,
+              price,
+              category: item.categories?.elements?.[0]?.name || 'Uncategorized',
+              isActive: !item.hidden && item.available !== false,
+              modifiers: (item.modifierGroups?.elements || []).flatMap((group: any) =>
+                (group.modifiers?.elements || []).map((m: any) => ({
+                  toastModifierGuid: m.id,
+                  name: m.name,
+                  price: toDollars(m.price),
+                  isDefault: false
+                }))
+              ),
+              lastSyncedAt: new Date()
+            },
+            $addToSet: {
+              priceHistory: {
+                $each: [{
+                  price,
+                  effectiveDate: new Date()
+                }]
+              }
+            }
+          },
+          upsert: true
+        }
+      };
+    });
+
+    try {
+      const result = await MenuItem.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Menu items import: ${result.upsertedCount} new, ${result.modifiedCount} updated`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Menu items import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Full sync entry point used by the Mongo worker.
+   * Employees are refreshed first so imported orders can be attributed, and their
+   * roles are reused by every time entry chunk instead of being refetched.
+   */
+  async syncRestaurant(
+    restaurantId: string,
+    options?: POSSyncOptions,
+    progressCallback?: POSSyncProgressCallback
+  ): Promise<POSSyncResult> {
+    try {
+      const employees = await this.fetchEmployees(restaurantId);
+      this.syncRoleMaps.set(restaurantId, this.buildRoleMap(employees));
+      await this.importEmployees(restaurantId, employees);
+    } catch (error: any) {
+      console.error('⚠️  Employee sync failed:', error.message);
+    }
+
+    try {
+      return await runChunkedSync(this, restaurantId, options, progressCallback);
+    } finally {
+      this.syncRoleMaps.delete(restaurantId);
+    }
+  }
+}
+
+// Export singleton instance
+export const cloverIntegration = new CloverIntegrationService();
@@ -0,0 +1,391 @@
+/**
+ * Cohort Learning Service
+ *
+ * Builds regional and global patterns from restaurant patterns without
+ * exposing any one restaurant:
+ * - a restaurant contributes its validated patterns (backtested accuracy,
+ *   enough data) as PatternContribution records
+ * - each cohort (global, global + cuisine, region, region + cuisine) pattern
+ *   is rebuilt from the contributions, weighted by sample size, and only
+ *   published once MIN_COHORT_RESTAURANTS distinct restaurants contribute
+ * - a cohort nested in a broader one (region + cuisine in region, ...) is
+ *   suppressed unless the two are identical or differ by at least
+ *   MIN_COHORT_RESTAURANTS - otherwise subtracting one from the other
+ *   recovers the few restaurants in between
+ * - published patterns carry relative figures only (% change, r, thresholds
+ *   averaged across restaurants) and rounded sample sizes - never a
+ *   restaurant's revenue, baseline or exact data points
+ * - withdrawing a restaurant deletes its contributions and rebuilds (or
+ *   unpublishes) every cohort pattern it was part of
+ */
+
+import { Types } from 'mongoose';
+import Correlation, {
+  ICorrelation,
+  IExternalFactor,
+  classifyStrength,
+  getPatternKey
+} from '../models/Correlation';
+import PatternContribution, { IPatternContribution } from '../models/PatternContribution';
+import Restaurant, { RestaurantStatus } from '../models/Restaurant';
+import { pearsonTest } from '../utils/statistics';
+
+// Distinct restaurants required before a cohort pattern is published
+export const MIN_COHORT_RESTAURANTS = 5;
+// Published sample sizes are rounded to this, so a cohort before and after
+// one restaurant joins or leaves can't be differenced back to its figures
+export const SAMPLE_SIZE_ROUNDING = 50;
+// Restaurant patterns must clear these to contribute
+const MIN_CONTRIBUTION_ACCURACY = 70;
+const MIN_CONTRIBUTION_DATA_POINTS = 20;
+
+// Factor fields averaged across contributors rather than matched on
+const AVERAGED_FACTOR_FIELDS: Array<keyof IExternalFactor> = [
+  'temperature',
+  'precipitation',
+  'eventDistance',
+  'eventAttendance',
+  'expectedAttendance'
+];
+
+export interface Cohort {
+  scope: 'global' | 'regional';
+  region: string | null;
+  cuisineType: string | null;
+}
+
+/**
+ * Cohorts a restaurant in this region and cuisine belongs to
+ */
+export function cohortsFor(region: string, cuisineType: string): Cohort[] {
+  const cohorts: Cohort[] = [
+    { scope: 'global', region: null, cuisineType: null },
+    { scope: 'global', region: null, cuisineType }
+  ];
+
+  if (region !== 'unknown') {
+    cohorts.push(
+      { scope: 'regional', region, cuisineType: null },
+      { scope: 'regional', region, cuisineType }
+    );
+  }
+
+  return cohorts;
+}
+
+export function inCohort(contribution: { region: string; cuisineType: string }, cohort: Cohort): boolean {
+  return (!cohort.region || contribution.region === cohort.region) &&
+    (!cohort.cuisineType || contribution.cuisineType === cohort.cuisineType);
+}
+
+/**
+ * Cohorts that contain every member of this one
+ */
+export function broaderCohorts(cohort: Cohort): Cohort[] {
+  const broader: Cohort[] = [];
+  if (cohort.region || cohort.cuisineType) {
+    broader.push({ scope: 'global', region: null, cuisineType: null });
+  }
+  if (cohort.region && cohort.cuisineType) {
+    broader.push(
+      { scope: 'global', region: null, cuisineType: cohort.cuisineType },
+      { scope: 'regional', region: cohort.region, cuisineType: null }
+    );
+  }
+  return broader;
+}
+
+/**
+ * Enough restaurants, and not within a few restaurants of a broader cohort
+ */
+export function isCohortPublishable(
+  cohort: Cohort,
+  contributions: Array<{ region: string; cuisineType: string }>
+): boolean {
+  // One contribution per restaurant per pattern key, so counts are restaurants
+  const count = contributions.filter(c => inCohort(c, cohort)).length;
+  if (count < MIN_COHORT_RESTAURANTS) return false;
+
+  return broaderCohorts(cohort).every(broader => {
+    const difference = contributions.filter(c => inCohort(c, broader)).length - count;
+    return difference === 0 || difference >= MIN_COHORT_RESTAURANTS;
+  });
+}
+
+export function roundSampleSize(sampleSize: number): number {
+  return Math.max(SAMPLE_SIZE_ROUNDING, Math.round(sampleSize / SAMPLE_SIZE_ROUNDING) * SAMPLE_SIZE_ROUNDING);
+}
+
+export interface ContributionResult {
+  contributed: number;
+  withdrawn: number;
+  published: number;
+  unpublished: number;
+}
+
+export class CohortLearningService {
+  /**
+   * Sync a restaurant's contributions with its current validated patterns
+   * and rebuild the cohort patterns they feed
+   */
+  async contributeRestaurant(
+    restaurantId: string,
+    profile: { region: string; cuisineType: string }
+  ): Promise<ContributionResult> {
+    const restaurant = await Restaurant.findById(restaurantId).select('status subscription.status');
+    if (!restaurant || restaurant.status === RestaurantStatus.CHURNED || restaurant.subscription?.status === 'canceled') {
+      return this.withdrawRestaurant(restaurantId);
+    }
+
+    // Cohort patterns from before contributions were tracked can't be
+    // audited or withdrawn - drop them; they are rebuilt from contributions
+    await Correlation.deleteMany({
+      scope: { $in: ['global', 'regional'] },
+      patternKey: { $exists: false }
+    });
+
+    const patterns = await Correlation.find({
+      scope: 'restaurant',
+      restaurantId: new Types.ObjectId(restaurantId),
+      isActive: true,
+      'learning.accuracy': { $gte: MIN_CONTRIBUTION_ACCURACY },
+      'learning.dataPoints': { $gte: MIN_CONTRIBUTION_DATA_POINTS }
+    });
+
+    // One contribution per pattern key - the best-supported version
+    const byKey = new Map<string, ICorrelation>();
+    for (const pattern of patterns) {
+      const key = getPatternKey(pattern);
+      const existing = byKey.get(key);
+      if (!existing || pattern.learning.dataPoints > existing.learning.dataPoints) {
+        byKey.set(key, pattern);
+      }
+    }
+
+    const previous = await PatternContribution.find({ restaurantId: new Types.ObjectId(restaurantId) });
+    const affected = new Map<string, { patternKey: string; region: string; cuisineType: string }>();
+
+    // Old cohorts need rebuilding too (pattern retired, or restaurant moved region)
+    previous.forEach(c => affected.set(`${c.patternKey}|${c.region}|${c.cuisineType}`, c));
+
+    const stale = previous.filter(c => !byKey.has(c.patternKey)).map(c => c._id);
+    if (stale.length > 0) {
+      await PatternContribution.deleteMany({ _id: { $in: stale } });
+    }
+
+    const contributedAt = new Date();
+    for (const [patternKey, pattern] of Array.from(byKey.entries())) {
+      await PatternContribution.updateOne(
+        { restaurantId: new Types.ObjectId(restaurantId), patternKey },
+        {
+          $set: {
+            correlationId: pattern._id,
+            region: profile.region,
+            cuisineType: profile.cuisineType,
+            type: pattern.type,
+            externalFactor: pattern.externalFactor,
+            metric: pattern.businessOutcome.metric,
+            whenCondition: pattern.pattern.whenCondition,
+            recommendation: pattern.pattern.recommendation,
+            correlation: pattern.statistics.correlation,
+            change: pattern.businessOutcome.change,
+            sampleSize: pattern.learning.dataPoints,
+            accuracy: pattern.learning.accuracy,
+            contributedAt
+          }
+        },
+        { upsert: true }
+      );
+      affected.set(`${patternKey}|${profile.region}|${profile.cuisineType}`, {
+        patternKey,
+        region: profile.region,
+        cuisineType: profile.cuisineType
+      });
+    }
+
+    const rebuilt = await this.rebuildCohorts(Array.from(affected.values()));
+
+    console.log(
+      `🤝 Restaurant ${restaurantId}: ${byKey.size} patterns contributed, ${stale.length} withdrawn, ` +
+      `${rebuilt.published} cohort patterns published, ${rebuilt.unpublished} unpublished`
+    );
+
+    return { contributed: byKey.size, withdrawn: stale.length, ...rebuilt };
+  }
+
+  /**
+   * Remove every contribution a restaurant made and rebuild the cohort
+   * patterns without it (unpublishing any that fall below the threshold)
+   */
+  async withdrawRestaurant(restaurantId: string): Promise<ContributionResult> {
+    const contributions = await PatternContribution.find({ restaurantId: new Types.ObjectId(restaurantId) });
+
+    if (contributions.length === 0) {
+      return { contributed: 0, withdrawn: 0, published: 0, unpublished: 0 };
+    }
+
+    await PatternContribution.deleteMany({ restaurantId: new Types.ObjectId(restaurantId) });
+    const rebuilt = await this.rebuildCohorts(contributions);
+
+    console.log(`🚪 Withdrew ${contributions.length} pattern contributions for restaurant ${restaurantId}`);
+
+    return { contributed: 0, withdrawn: contributions.length, ...rebuilt };
+  }
+
+  /**
+   * Rebuild every cohort pattern for the pattern keys a set of contributions
+   * belongs to. All cohorts of a key are re-checked: one joining or leaving
+   * restaurant changes which nested cohorts may be published.
+   */
+  private async rebuildCohorts(
+    contributions: Array<{ patternKey: string }>
+  ): Promise<{ published: number; unpublished: number }> {
+    let published = 0;
+    let unpublished = 0;
+
+    for (const patternKey of Array.from(new Set(contributions.map(c => c.patternKey)))) {
+      const [all, existing] = await Promise.all([
+        PatternContribution.find({ patternKey }),
+        Correlation.find({ scope: { $in: ['global', 'regional'] }, patternKey }).select('scope region cuisineType')
+      ]);
+
+      const cohorts = new Map<string, Cohort>();
+      const addCohort = (cohort: Cohort) => cohorts.set(`${cohort.scope}|${cohort.region}|${cohort.cuisineType}`, cohort);
+      all.forEach(c => cohortsFor(c.region, c.cuisineType).forEach(addCohort));
+      // Published cohorts that lost all contributors still need unpublishing
+      existing.forEach(e => addCohort({
+        scope: e.scope as Cohort['scope'],
+        region: e.region ?? null,
+        cuisineType: e.cuisineType ?? null
+      }));
+
+      for (const cohort of Array.from(cohorts.values())) {
+        if (isCohortPublishable(cohort, all)) {
+          await this.rebuildCohortPattern(patternKey, cohort, all.filter(c => inCohort(c, cohort)));
+          published++;
+        } else {
+          await Correlation.deleteMany({
+            scope: cohort.scope,
+            patternKey,
+            region: cohort.region,
+            cuisineType: cohort.cuisineType
+          });
+          unpublished++;
+        }
+      }
+    }
+
+    return { published, unpublished };
+  }
+
+  /**
+   * Recompute one publishable cohort pattern from its contributions
+   */
+  private async rebuildCohortPattern(
+    patternKey: string,
+    cohort: Cohort,
+    contributions: IPatternContribution[]
+  ): Promise<void> {
+    const filter = {
+      scope: cohort.scope,
+      patternKey,
+      region: cohort.region,
+      cuisineType: cohort.cuisineType
+    };
+
+    const totalSamples = contributions.reduce((sum, c) => sum + c.sampleSize, 0);
+    const weighted = (value: (c: IPatternContribution) => number) =>
+      contributions.reduce((sum, c) => sum + value(c) * c.sampleSize, 0) / totalSamples;
+
+    const correlation = weighted(c => c.correlation);
+    const change = weighted(c => c.change);
+    const accuracy = weighted(c => c.accuracy);
+    // Everything published is derived from the rounded size, never the exact one
+    const sampleSize = roundSampleSize(totalSamples);
+    const test = pearsonTest(correlation, sampleSize);
+
+    // Identifying fields are shared by construction (same pattern key);
+    // restaurant-specific magnitudes are replaced by cohort averages
+    const representative = contributions.reduce((best, c) => (c.sampleSize > best.sampleSize ? c : best));
+    const externalFactor: IExternalFactor = { ...representative.externalFactor };
+    for (const field of AVERAGED_FACTOR_FIELDS) {
+      const values = contributions.filter(c => typeof c.externalFactor[field] === 'number');
+      if (values.length > 0) {
+        const samples = values.reduce((sum, c) => sum + c.sampleSize, 0);
+        (externalFactor as any)[field] =
+          values.reduce((sum, c) => sum + (c.externalFactor[field] as number) * c.sampleSize, 0) / samples;
+      }
+    }
+
+    const whenCondition = externalFactor.temperature !== undefined
+      ? `When temperature is ${correlation >= 0 ? 'above' : 'below'} ${Math.round(externalFactor.temperature)}°F`
+      : representative.whenCondition;
+    const metricLabel = representative.metric === 'item_sales' && externalFactor.menuItem
+      ? `${externalFactor.menuItem} sales`
+      : representative.metric.replace(/_/g, ' ');
+    const cohortLabel = [cohort.region, cohort.cuisineType?.replace(/_/g, ' ')].filter(Boolean).join(' ');
+    const direction = change >= 0 ? 'increases' : 'decreases';
+
+    const fields = {
+      type: representative.type,
+      externalFactor,
+      // Indexed to 100 - cohort patterns never carry a restaurant's figures
+      businessOutcome: {
+        metric: representative.metric,
+        value: 100 + change,
+        change,
+        baseline: 100
+      },
+      statistics: {
+        correlation,
+        pValue: test.pValue,
+        sampleSize,
+        confidence: Math.min(95, (1 - test.pValue) * 100),
+        r_squared: correlation * correlation,
+        effectSize: change,
+        testMethod: 'pearson' as const
+      },
+      pattern: {
+        description: `Across ${contributions.length}${cohortLabel ? ` ${cohortLabel}` : ''} restaurants, ${metricLabel} ${direction} ${Math.abs(change).toFixed(0)}% (${whenCondition.toLowerCase()})`,
+        whenCondition,
+        thenOutcome: `${metricLabel.charAt(0).toUpperCase()}${metricLabel.slice(1)} ${direction} by about ${Math.abs(change).toFixed(0)}% on average`,
+        strength: classifyStrength(correlation),
+        actionable: Math.abs(change) >= 10,
+        recommendation: representative.recommendation
+      },
+      confidence: Math.min(95, accuracy * 0.7 + Math.min(sampleSize / 100, 1) * 30)
+    };
+
+    const existing = await Correlation.findOne(filter);
+
+    if (existing) {
+      existing.set(fields);
+      existing.isActive = true;
+      existing.learning.dataPoints = sampleSize;
+      existing.learning.restaurantsContributing = contributions.length;
+      existing.learning.accuracy = accuracy;
+      existing.learning.lastUpdated = new Date();
+      await existing.save();
+    } else {
+      await new Correlation({
+        ...filter,
+        ...fields,
+        learning: {
+          firstDiscovered: new Date(),
+          lastUpdated: new Date(),
+          dataPoints: sampleSize,
+          restaurantsContributing: contributions.length,
+          timesValidated: 0,
+          timesInvalidated: 0,
+          accuracy
+        },
+        isActive: true,
+        timesApplied: 0,
+        version: 1
+      }).save();
+    }
+  }
+}
+
+// Export singleton instance
+export const cohortLearningService = new CohortLearningService();
@@ -2,12 +2,29 @@ import { Types } from 'mongoose';
 import Correlation, {
   ICorrelation,
   CorrelationType,
-  CorrelationStrength,
   IExternalFactor,
-  IBusinessOutcome
+  IBusinessOutcome,
+  IStatistics,
+  classifyStrength,
+  getPatternKey
 } from '../models/Correlation';
 import Transaction from '../models/Transaction';
-import { weatherService, eventsService, holidayService, sportsService } from './ExternalDataService';
+import { eventsService, holidayService, sportsService, WeatherData } from './ExternalDataService';
+import { patternBacktester } from './PatternBacktester';
+import { weatherHistoryService } from './WeatherHistoryService';
+import { locationService } from './LocationService';
+import { cohortLearningService } from './CohortLearningService';
+import { toLocalDate } from '../utils/timezone';
+import {
+  benjaminiHochberg,
+  bootstrapPercentChange,
+  pearsonTest,
+  percentChange,
+  percentLiftInterval,
+  tToCorrelation,
+  twoProportionZTest,
+  welchTTest
+} from '../utils/statistics';
 
 /**
  * Correlation Engine
@@ -41,9 +58,59 @@ export interface Prediction {
     description: string;
     impact: number;
     correlation: ICorrelation;
+    drivenBy: ICorrelation['scope'];
+    explanation: string;
   }>;
 }
 
+// Region and cuisine used to select regional/global patterns for a restaurant
+export interface RestaurantProfile {
+  region: string; // LocationService region, 'unknown' without a state
+  cuisineType: string; // Restaurant.type
+}
+
+// One scope's version of a pattern and its share of the blended estimate
+export interface ScopeContribution {
+  scope: ICorrelation['scope'];
+  change: number;
+  weight: number; // 0-1; sums to 1 across a blended pattern
+  sampleSize: number;
+  accuracy: number; // Backtested accuracy (%), 0 if not yet backtested
+  restaurantsContributing: number;
+}
+
+// A pattern with its restaurant, regional and global versions blended
+export interface BlendedPattern {
+  pattern: ICorrelation; // Most specific version - description, recommendation
+  change: number; // Weighted % change
+  confidence: number; // Weighted confidence
+  contributions: ScopeContribution[];
+  drivenBy: ICorrelation['scope']; // Scope with the largest weight
+  explanation: string;
+}
+
+// False discovery rate for a discoverCorrelations run
+const FDR_LEVEL = 0.05;
+// Smallest relative lift in a menu item's weather share worth reporting (%)
+const MIN_ITEM_LIFT = 25;
+// Patterns below this confidence are not used for prediction
+const MIN_PREDICTION_CONFIDENCE = 60;
+// Sample size at which a scope's evidence counts half as much as unlimited data
+const HALF_WEIGHT_SAMPLE_SIZE = 30;
+// Accuracy assumed for a pattern that hasn't been backtested (a coin flip)
+const UNTESTED_ACCURACY = 50;
+// Most specific first - the representative version of a blended pattern
+const SCOPE_ORDER: Array<ICorrelation['scope']> = ['restaurant', 'regional', 'global'];
+
+// Every hypothesis tested in one discovery run, kept or not, so the
+// Benjamini–Hochberg correction sees the full family of tests
+interface DiscoveryRun {
+  tests: Array<{ statistics: IStatistics; candidate?: ICorrelation }>;
+  timezone: string;
+  // Stored weather per local date; empty when the restaurant has no location
+  weather: Map<string, WeatherData>;
+}
+
 export class CorrelationEngine {
   /**
    * Discover correlations for a restaurant
@@ -63,66 +130,47 @@ export class CorrelationEngine {
     };
 
     // Get restaurant data
-    const transactions = await Transaction.find({
+    const allTransactions = await Transaction.find({
       restaurantId: new Types.ObjectId(restaurantId),
       transactionDate: { $gte: startDate, $lte: endDate }
     }).sort({ transactionDate: 1 });
 
+    // Recent weeks are held out of discovery so patterns can be scored out-of-sample
+    const holdoutStart = patternBacktester.getHoldoutStart(startDate, endDate);
+    const transactions = allTransactions.filter(t => t.transactionDate < holdoutStart);
+    const holdoutTransactions = allTransactions.filter(t => t.transactionDate >= holdoutStart);
+
     if (transactions.length < 30) {
       console.log('Insufficient data for correlation analysis');
       return result;
     }
 
-    // Analyze weather correlations
-    const weatherCorrelations = await this.analyzeWeatherCorrelations(
-      restaurantId,
-      transactions
-    );
-    result.correlations.push(...weatherCorrelations);
-    result.newPatternsFound += weatherCorrelations.length;
-
-    // Analyze event correlations
-    const eventCorrelations = await this.analyzeEventCorrelations(
-      restaurantId,
-      transactions
-    );
-    result.correlations.push(...eventCorrelations);
-    result.newPatternsFound += eventCorrelations.length;
+    const run: DiscoveryRun = {
+      tests: [],
+      ...(await this.loadWeatherHistory(restaurantId, transactions))
+    };
 
-    // Analyze sports game correlations
-    const sportsCorrelations = await this.analyzeSportsCorrelations(
-      restaurantId,
-      transactions
-    );
-    result.correlations.push(...sportsCorrelations);
-    result.newPatternsFound += sportsCorrelations.length;
+    await this.analyzeWeatherCorrelations(restaurantId, transactions, run);
+    await this.analyzeEventCorrelations(restaurantId, transactions, run);
+    await this.analyzeSportsCorrelations(restaurantId, transactions, run);
+    await this.analyzeHolidayCorrelations(restaurantId, transactions, run);
+    await this.analyzeMenuItemWeatherCorrelations(restaurantId, transactions, run);
+    await this.analyzeMultiFactorPatterns(restaurantId, transactions, run);
 
-    // Analyze holiday correlations
-    const holidayCorrelations = await this.analyzeHolidayCorrelations(
-      restaurantId,
-      transactions
-    );
-    result.correlations.push(...holidayCorrelations);
-    result.newPatternsFound += holidayCorrelations.length;
+    // Keep only candidates that survive false-discovery control across the run
+    const significant = this.applyFalseDiscoveryControl(run);
 
-    // Analyze menu item weather correlations
-    const menuCorrelations = await this.analyzeMenuItemWeatherCorrelations(
-      restaurantId,
-      transactions
-    );
-    result.correlations.push(...menuCorrelations);
-    result.newPatternsFound += menuCorrelations.length;
+    for (const correlation of significant) {
+      // New patterns have only seen data before the holdout
+      correlation.learning.trainedThrough = holdoutStart;
+      result.correlations.push(await correlation.save());
+    }
+    result.newPatternsFound = result.correlations.length;
 
-    // Analyze multi-factor patterns (advanced correlations)
-    const multiFactorCorrelations = await this.analyzeMultiFactorPatterns(
-      restaurantId,
-      transactions
-    );
-    result.correlations.push(...multiFactorCorrelations);
-    result.newPatternsFound += multiFactorCorrelations.length;
+    console.log(`${run.tests.length} hypotheses tested, ${significant.length} significant at FDR ${FDR_LEVEL}`);
 
-    // Validate existing patterns
-    const validation = await this.validateExistingPatterns(restaurantId, transactions);
+    // Validate patterns (new and existing) against the held-out weeks
+    const validation = await this.validateExistingPatterns(restaurantId, holdoutTransactions, endDate);
     result.patternsValidated = validation.validated;
     result.patternsInvalidated = validation.invalidated;
 
@@ -131,94 +179,124 @@ export class CorrelationEngine {
   }
 
   /**
-   * Analyze weather correlations using REAL weather data
+   * Load stored weather for every day in the discovery window (backfilling
+   * missing days). Restaurants without a location get no weather - analyzing
+   * another city's weather would only produce spurious patterns.
    */
-  private async analyzeWeatherCorrelations(
+  private async loadWeatherHistory(
     restaurantId: string,
     transactions: any[]
-  ): Promise<ICorrelation[]> {
-    const correlations: ICorrelation[] = [];
+  ): Promise<Pick<DiscoveryRun, 'timezone' | 'weather'>> {
+    const Restaurant = (await import('../models/Restaurant')).default;
+    const restaurant = await Restaurant.findById(restaurantId).select('location analyticsSettings.timezone');
+    const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+    const lat = restaurant?.location?.latitude;
+    const lon = restaurant?.location?.longitude;
+
+    if (!lat || !lon) {
+      console.warn(`Restaurant ${restaurantId} has no location - weather analysis disabled`);
+      return { timezone, weather: new Map() };
+    }
 
-    try {
-      // Get restaurant location for weather API
-      const Restaurant = (await import('../models/Restaurant')).default;
-      const restaurant = await Restaurant.findById(restaurantId);
+    const weather = await weatherHistoryService.getDailyWeather(
+      lat,
+      lon,
+      toLocalDate(transactions[0].transactionDate, timezone),
+      toLocalDate(transactions[transactions.length - 1].transactionDate, timezone),
+      timezone
+    );
 
-      if (!restaurant) {
-        console.warn('Restaurant not found');
-        return correlations;
-      }
+    return { timezone, weather };
+  }
 
-      // Use restaurant's lat/lon or default to Sacramento, CA
-      const location = {
-        lat: restaurant.location?.latitude || 38.5816,
-        lon: restaurant.location?.longitude || -121.4944
-      };
+  /**
+   * Analyze weather correlations using REAL weather data
+   */
+  private async analyzeWeatherCorrelations(
+    restaurantId: string,
+    transactions: any[],
+    run: DiscoveryRun
+  ): Promise<void> {
+    try {
+      if (run.weather.size === 0) {
+        console.log('No weather history for this restaurant - skipping weather correlations');
+        return;
+      }
 
-      console.log(`Analyzing weather correlations for restaurant at ${location.lat}, ${location.lon}`);
+      console.log(`Analyzing weather correlations over ${run.weather.size} days of weather history`);
 
       // 1. Temperature impact on sales using REAL historical weather data
-      const tempCorrelation = await this.calculateTemperatureSalesCorrelation(transactions, location);
-
-      if (tempCorrelation && Math.abs(tempCorrelation.statistics.correlation) > 0.15) {
-        correlations.push(
-          await this.createCorrelation({
-            restaurantId,
-            type: CorrelationType.WEATHER_SALES,
-            factor: {
-              type: 'weather',
-              temperature: tempCorrelation.avgTemp
-            },
-            outcome: tempCorrelation.outcome,
-            statistics: tempCorrelation.statistics,
-            pattern: tempCorrelation.pattern
-          })
+      const tempCorrelation = await this.calculateTemperatureSalesCorrelation(transactions, run);
+
+      if (tempCorrelation) {
+        this.recordTest(
+          run,
+          tempCorrelation.statistics,
+          Math.abs(tempCorrelation.statistics.correlation) > 0.15
+            ? this.buildCorrelation({
+                restaurantId,
+                type: CorrelationType.WEATHER_SALES,
+                factor: {
+                  type: 'weather',
+                  temperature: tempCorrelation.avgTemp
+                },
+                outcome: tempCorrelation.outcome,
+                statistics: tempCorrelation.statistics,
+                pattern: tempCorrelation.pattern
+              })
+            : undefined
         );
       }
 
       // 2. Precipitation impact on sales (rainy days)
-      const precipCorrelation = await this.calculatePrecipitationSalesCorrelation(transactions, location);
-
-      if (precipCorrelation && Math.abs(precipCorrelation.statistics.correlation) > 0.15) {
-        correlations.push(
-          await this.createCorrelation({
-            restaurantId,
-            type: CorrelationType.WEATHER_SALES,
-            factor: {
-              type: 'weather',
-              weatherCondition: 'precipitation',
-              precipitation: precipCorrelation.avgPrecipitation
-            },
-            outcome: precipCorrelation.outcome,
-            statistics: precipCorrelation.statistics,
-            pattern: precipCorrelation.pattern
-          })
+      const precipCorrelation = await this.calculatePrecipitationSalesCorrelation(transactions, run);
+
+      if (precipCorrelation) {
+        this.recordTest(
+          run,
+          precipCorrelation.statistics,
+          Math.abs(precipCorrelation.statistics.correlation) > 0.15
+            ? this.buildCorrelation({
+                restaurantId,
+                type: CorrelationType.WEATHER_SALES,
+                factor: {
+                  type: 'weather',
+                  weatherCondition: 'precipitation',
+                  precipitation: precipCorrelation.avgPrecipitation
+                },
+                outcome: precipCorrelation.outcome,
+                statistics: precipCorrelation.statistics,
+                pattern: precipCorrelation.pattern
+              })
+            : undefined
         );
       }
 
       // 3. Weather category impact (excellent vs poor weather)
-      const categoryCorrelation = await this.calculateWeatherCategorySalesCorrelation(transactions, location);
-
-      if (categoryCorrelation && Math.abs(categoryCorrelation.statistics.correlation) > 0.15) {
-        correlations.push(
-          await this.createCorrelation({
-            restaurantId,
-            type: CorrelationType.WEATHER_SALES,
-            factor: {
-              type: 'weather',
-              weatherCategory: categoryCorrelation.category
-            },
-            outcome: categoryCorrelation.outcome,
-            statistics: categoryCorrelation.statistics,
-            pattern: categoryCorrelation.pattern
-          })
+      const categoryCorrelation = await this.calculateWeatherCategorySalesCorrelation(transactions, run);
+
+      if (categoryCorrelation) {
+        this.recordTest(
+          run,
+          categoryCorrelation.statistics,
+          Math.abs(categoryCorrelation.statistics.correlation) > 0.15
+            ? this.buildCorrelation({
+                restaurantId,
+                type: CorrelationType.WEATHER_SALES,
+                factor: {
+                  type: 'weather',
+                  weatherCategory: categoryCorrelation.category
+                },
+                outcome: categoryCorrelation.outcome,
+                statistics: categoryCorrelation.statistics,
+                pattern: categoryCorrelation.pattern
+              })
+            : undefined
         );
       }
     } catch (error) {
       console.error('Error analyzing weather correlations:', error);
     }
-
-    return correlations;
   }
 
   /**
@@ -226,13 +304,13 @@ export class CorrelationEngine {
    */
   private async calculateTemperatureSalesCorrelation(
     transactions: any[],
-    restaurantLocation: { lat: number; lon: number }
+    run: DiscoveryRun
   ): Promise<any> {
     // Group transactions by date to aggregate daily revenue
     const dailyRevenue = new Map<string, { date: Date; revenue: number; count: number }>();
 
     transactions.forEach(t => {
-      const dateKey = t.transactionDate.toISOString().split('T')[0];
+      const dateKey = toLocalDate(t.transactionDate, run.timezone);
       const existing = dailyRevenue.get(dateKey);
 
       if (existing) {
@@ -247,40 +325,13 @@ export class CorrelationEngine {
       }
     });
 
-    // Fetch historical weather for each day with transactions
+    // Pair each day's revenue with its stored weather; days without weather are left out
     const dailyData: Array<{ date: Date; temp: number; revenue: number; condition: string }> = [];
 
-    console.log(`Fetching weather data for ${dailyRevenue.size} days...`);
-
-    // Convert Map entries to array for TypeScript compatibility
     for (const [dateKey, dayData] of Array.from(dailyRevenue.entries())) {
-      try {
-        const timestamp = dayData.date.getTime();
-
-        // Try to fetch real historical weather data
-        let weather = await weatherService.getHistoricalWeather(
-          restaurantLocation.lat,
-          restaurantLocation.lon,
-          timestamp
-        );
+      const weather = run.weather.get(dateKey);
 
-        // Fallback: Use realistic seasonal patterns if historical data unavailable
-        // (OpenWeather free tier doesn't include historical data)
-        if (!weather) {
-          weather = this.generateRealisticSeasonalWeather(dayData.date, restaurantLocation);
-        }
-
-        if (weather) {
-          dailyData.push({
-            date: dayData.date,
-            temp: weather.temperature,
-            revenue: dayData.revenue,
-            condition: weather.condition
-          });
-        }
-      } catch (error) {
-        // Use fallback for this day
-        const weather = this.generateRealisticSeasonalWeather(dayData.date, restaurantLocation);
+      if (weather) {
         dailyData.push({
           date: dayData.date,
           temp: weather.temperature,
@@ -298,44 +349,53 @@ export class CorrelationEngine {
     console.log(`Analyzing ${dailyData.length} days of weather-revenue data`);
 
     // Calculate statistics
-    const avgRevenue = dailyData.reduce((sum, d) => sum + d.revenue, 0) / dailyData.length;
     const avgTemp = dailyData.reduce((sum, d) => sum + d.temp, 0) / dailyData.length;
 
-    // Calculate Pearson correlation
+    // Calculate Pearson correlation (t-test p-value)
     const stats = this.calculatePearsonCorrelation(
       dailyData.map(d => d.temp),
       dailyData.map(d => d.revenue)
     );
 
-    // Lower threshold for initial discovery (0.15 = weak but potentially interesting)
-    // In production with more data, raise to 0.3 for stronger correlations
-    if (!stats || Math.abs(stats.correlation) < 0.15) {
-      console.log(`Correlation too weak: ${stats?.correlation}`);
+    if (!stats) {
+      return null;
+    }
+
+    // Effect size: revenue on the days the pattern talks about (warmer than
+    // average for a positive correlation, cooler for a negative one) vs the rest
+    const isConditionDay = (d: { temp: number }) => stats.correlation > 0 ? d.temp > avgTemp : d.temp < avgTemp;
+    const conditionDays = dailyData.filter(isConditionDay).map(d => d.revenue);
+    const otherDays = dailyData.filter(d => !isConditionDay(d)).map(d => d.revenue);
+
+    if (conditionDays.length < 2 || otherDays.length < 2) {
       return null;
     }
 
-    console.log(`Found temperature correlation: ${stats.correlation.toFixed(2)}`);
+    const avgConditionRevenue = conditionDays.reduce((sum, r) => sum + r, 0) / conditionDays.length;
+    const avgOtherRevenue = otherDays.reduce((sum, r) => sum + r, 0) / otherDays.length;
+    const change = percentChange(conditionDays, otherDays);
 
-    // Calculate actual impact based on data
-    const change = stats.correlation * 25; // Scale correlation to percentage impact
+    console.log(`Temperature correlation: r=${stats.correlation.toFixed(2)}, p=${stats.pValue.toFixed(4)}`);
 
     return {
       avgTemp,
       outcome: {
         metric: 'revenue',
-        value: avgRevenue,
+        value: avgConditionRevenue,
         change,
-        baseline: avgRevenue * (1 - change / 100)
+        baseline: avgOtherRevenue
       },
       statistics: {
         ...stats,
-        confidence: Math.min(Math.abs(stats.correlation) * 100, 95)
+        effectSize: change,
+        confidenceInterval: bootstrapPercentChange(conditionDays, otherDays) ?? undefined,
+        testMethod: 'pearson'
       },
       pattern: {
         description: `Temperature ${stats.correlation > 0 ? 'positively' : 'negatively'} correlates with revenue`,
         whenCondition: `When temperature is ${stats.correlation > 0 ? 'above' : 'below'} ${Math.round(avgTemp)}°F`,
-        thenOutcome: `Revenue ${stats.correlation > 0 ? 'increases' : 'decreases'} by approximately ${Math.abs(change).toFixed(1)}%`,
-        strength: this.classifyStrength(Math.abs(stats.correlation)),
+        thenOutcome: `Revenue ${change > 0 ? 'increases' : 'decreases'} by approximately ${Math.abs(change).toFixed(1)}%`,
+        strength: classifyStrength(Math.abs(stats.correlation)),
         actionable: Math.abs(stats.correlation) > 0.5,
         recommendation:
           Math.abs(stats.correlation) > 0.5
@@ -351,12 +411,12 @@ export class CorrelationEngine {
    */
   private async calculatePrecipitationSalesCorrelation(
     transactions: any[],
-    restaurantLocation: { lat: number; lon: number }
+    run: DiscoveryRun
   ): Promise<any> {
     const dailyRevenue = new Map<string, { date: Date; revenue: number; count: number }>();
 
     transactions.forEach(t => {
-      const dateKey = t.transactionDate.toISOString().split('T')[0];
+      const dateKey = toLocalDate(t.transactionDate, run.timezone);
       const existing = dailyRevenue.get(dateKey);
       if (existing) {
         existing.revenue += t.totalAmount;
@@ -370,55 +430,51 @@ export class CorrelationEngine {
       }
     });
 
-    const rainyDays: Array<{ revenue: number; precipitation: number }> = [];
-    const dryDays: Array<{ revenue: number }> = [];
+    const rainyDays: number[] = [];
+    const dryDays: number[] = [];
+    const rainfall: number[] = [];
 
     for (const [dateKey, dayData] of Array.from(dailyRevenue.entries())) {
-      const weather = this.generateRealisticSeasonalWeather(dayData.date, restaurantLocation);
+      const weather = run.weather.get(dateKey);
+      if (!weather) continue;
 
-      if (weather.condition === 'Rain') {
-        rainyDays.push({ revenue: dayData.revenue, precipitation: 0.5 }); // Simulated precip amount
+      if (weather.isRaining) {
+        rainyDays.push(dayData.revenue);
+        rainfall.push(weather.precipitation);
       } else {
-        dryDays.push({ revenue: dayData.revenue });
+        dryDays.push(dayData.revenue);
       }
     }
 
-    if (rainyDays.length < 3) {
-      console.log('Not enough rainy days for precipitation correlation');
+    if (rainyDays.length < 3 || dryDays.length < 3) {
+      console.log('Not enough rainy and dry days for precipitation correlation');
       return null;
     }
 
-    const avgRainyRevenue = rainyDays.reduce((sum, d) => sum + d.revenue, 0) / rainyDays.length;
-    const avgDryRevenue = dryDays.length > 0
-      ? dryDays.reduce((sum, d) => sum + d.revenue, 0) / dryDays.length
-      : avgRainyRevenue * 1.05; // Assume 5% higher on dry days
-
-    const change = ((avgRainyRevenue - avgDryRevenue) / avgDryRevenue) * 100;
+    const statistics = this.compareGroups(rainyDays, dryDays);
+    if (!statistics) {
+      return null;
+    }
 
-    // Calculate correlation coefficient
-    const correlation = change / 100; // Simple ratio for precipitation
+    const avgRainyRevenue = rainyDays.reduce((sum, r) => sum + r, 0) / rainyDays.length;
+    const avgDryRevenue = dryDays.reduce((sum, r) => sum + r, 0) / dryDays.length;
+    const change = statistics.effectSize!;
 
     return {
-      avgPrecipitation: 0.5,
+      avgPrecipitation: rainfall.reduce((sum, r) => sum + r, 0) / rainfall.length,
       outcome: {
         metric: 'revenue',
         value: avgRainyRevenue,
         change,
         baseline: avgDryRevenue
       },
-      statistics: {
-        correlation,
-        pValue: 0.02,
-        sampleSize: rainyDays.length,
-        confidence: Math.min(Math.abs(correlation) * 100, 85),
-        r_squared: correlation * correlation
-      },
+      statistics,
       pattern: {
         description: `Rain ${change < 0 ? 'decreases' : 'increases'} revenue`,
         whenCondition: 'On rainy days',
         thenOutcome: `Revenue ${change < 0 ? 'decreases' : 'increases'} by ${Math.abs(change).toFixed(1)}%`,
-        strength: this.classifyStrength(Math.abs(correlation)),
-        actionable: Math.abs(correlation) > 0.3,
+        strength: classifyStrength(Math.abs(statistics.correlation)),
+        actionable: Math.abs(statistics.correlation) > 0.3,
         recommendation:
           change < 0
             ? 'Offer delivery promotions on rainy days. Create cozy indoor ambiance. Market comfort food.'
@@ -433,12 +489,12 @@ export class CorrelationEngine {
    */
   private async calculateWeatherCategorySalesCorrelation(
     transactions: any[],
-    restaurantLocation: { lat: number; lon: number }
+    run: DiscoveryRun
   ): Promise<any> {
     const dailyRevenue = new Map<string, { date: Date; revenue: number; count: number }>();
 
     transactions.forEach(t => {
-      const dateKey = t.transactionDate.toISOString().split('T')[0];
+      const dateKey = toLocalDate(t.transactionDate, run.timezone);
       const existing = dailyRevenue.get(dateKey);
       if (existing) {
         existing.revenue += t.totalAmount;
@@ -456,17 +512,12 @@ export class CorrelationEngine {
     const poorDays: number[] = [];
 
     for (const [dateKey, dayData] of Array.from(dailyRevenue.entries())) {
-      const weather = this.generateRealisticSeasonalWeather(dayData.date, restaurantLocation);
-      const temp = weather.temperature;
-      const condition = weather.condition;
+      const weather = run.weather.get(dateKey);
+      if (!weather) continue;
 
-      // Classify weather quality
-      const isExcellent = condition === 'Clear' && temp >= 65 && temp <= 85;
-      const isPoor = condition === 'Rain' || temp < 40 || temp > 95;
-
-      if (isExcellent) {
+      if (weather.weatherCategory === 'excellent') {
         excellentDays.push(dayData.revenue);
-      } else if (isPoor) {
+      } else if (weather.weatherCategory === 'poor' || weather.weatherCategory === 'severe') {
         poorDays.push(dayData.revenue);
       }
     }
@@ -476,11 +527,14 @@ export class CorrelationEngine {
       return null;
     }
 
+    const statistics = this.compareGroups(excellentDays, poorDays);
+    if (!statistics) {
+      return null;
+    }
+
     const avgExcellent = excellentDays.reduce((a, b) => a + b, 0) / excellentDays.length;
     const avgPoor = poorDays.reduce((a, b) => a + b, 0) / poorDays.length;
-
-    const change = ((avgExcellent - avgPoor) / avgPoor) * 100;
-    const correlation = change / 100;
+    const change = statistics.effectSize!;
 
     return {
       category: 'excellent',
@@ -490,19 +544,13 @@ export class CorrelationEngine {
         change,
         baseline: avgPoor
       },
-      statistics: {
-        correlation,
-        pValue: 0.01,
-        sampleSize: excellentDays.length + poorDays.length,
-        confidence: Math.min(Math.abs(correlation) * 80, 90),
-        r_squared: correlation * correlation
-      },
+      statistics,
       pattern: {
         description: `Excellent weather ${change > 0 ? 'increases' : 'decreases'} revenue vs poor weather`,
         whenCondition: 'On perfect weather days (65-85°F, clear skies)',
         thenOutcome: `Revenue ${change > 0 ? 'increases' : 'decreases'} by ${Math.abs(change).toFixed(1)}%`,
-        strength: this.classifyStrength(Math.abs(correlation)),
-        actionable: Math.abs(correlation) > 0.3,
+        strength: classifyStrength(Math.abs(statistics.correlation)),
+        actionable: Math.abs(statistics.correlation) > 0.3,
         recommendation:
           change > 0
             ? 'Maximize patio seating on excellent days. Promote outdoor dining and happy hour specials.'
@@ -516,17 +564,16 @@ export class CorrelationEngine {
    */
   private async analyzeEventCorrelations(
     restaurantId: string,
-    transactions: any[]
-  ): Promise<ICorrelation[]> {
-    const correlations: ICorrelation[] = [];
-
+    transactions: any[],
+    run: DiscoveryRun
+  ): Promise<void> {
     try {
       // Get restaurant location
       const Restaurant = (await import('../models/Restaurant')).default;
       const restaurant = await Restaurant.findById(restaurantId);
 
       if (!restaurant?.location?.latitude || !restaurant?.location?.longitude) {
-        return correlations;
+        return;
       }
 
       const location = {
@@ -574,18 +621,24 @@ export class CorrelationEngine {
         }
       }
 
-      if (eventDays.length < 3) {
-        console.log('Not enough event days for correlation analysis');
-        return correlations;
+      if (eventDays.length < 3 || nonEventDays.length < 3) {
+        console.log('Not enough event and non-event days for correlation analysis');
+        return;
       }
 
       // Calculate averages
       const avgEventDayRevenue = eventDays.reduce((sum, d) => sum + d.revenue, 0) / eventDays.length;
-      const avgNonEventDayRevenue = nonEventDays.length > 0
-        ? nonEventDays.reduce((sum, d) => sum + d.revenue, 0) / nonEventDays.length
-        : avgEventDayRevenue * 0.85;
+      const avgNonEventDayRevenue = nonEventDays.reduce((sum, d) => sum + d.revenue, 0) / nonEventDays.length;
 
-      const change = ((avgEventDayRevenue - avgNonEventDayRevenue) / avgNonEventDayRevenue) * 100;
+      const statistics = this.compareGroups(
+        eventDays.map(d => d.revenue),
+        nonEventDays.map(d => d.revenue)
+      );
+      if (!statistics) {
+        return;
+      }
+
+      const change = statistics.effectSize!;
 
       if (Math.abs(change) > 15) {
         // Significant event impact found
@@ -604,7 +657,7 @@ export class CorrelationEngine {
         const exampleEvent = eventDays[0]?.events[0];
         const venueName = exampleEvent?.venue || 'nearby venue';
 
-        const correlation = await this.createCorrelation({
+        const correlation = this.buildCorrelation({
           restaurantId,
           type: CorrelationType.EVENTS_TRAFFIC,
           factor: {
@@ -619,19 +672,12 @@ export class CorrelationEngine {
             change,
             baseline: avgNonEventDayRevenue
           },
-          statistics: {
-            correlation: change > 0 ? 0.70 : -0.70,
-            pValue: 0.02,
-            sampleSize: eventDays.length,
-            confidence: Math.min(80, eventDays.length * 12),
-            r_squared: 0.49
-          },
+          statistics,
           pattern: {
             description: `Major ${primaryCategory} events ${change > 0 ? 'increase' : 'decrease'} revenue`,
             whenCondition: `When large ${primaryCategory} events occur at ${venueName}`,
             thenOutcome: `Revenue ${change > 0 ? 'increases' : 'decreases'} by ${Math.abs(change).toFixed(1)}%`,
-            strength: Math.abs(change) > 35 ? CorrelationStrength.STRONG :
-                     Math.abs(change) > 20 ? CorrelationStrength.MODERATE : CorrelationStrength.WEAK,
+            strength: classifyStrength(Math.abs(statistics.correlation)),
             actionable: true,
             recommendation: change > 0
               ? `Monitor Ticketmaster for upcoming ${primaryCategory} events. Increase staff and create event-themed promotions. Consider pre/post-event specials.`
@@ -639,14 +685,16 @@ export class CorrelationEngine {
           }
         });
 
-        correlations.push(correlation);
+        this.recordTest(run, statistics, correlation);
+      } else {
+        // Too small to act on, but still one of this run's tests
+        this.recordTest(run, statistics);
       }
 
     } catch (error) {
       console.error('Error analyzing event correlations:', error);
     }
 
-    return correlations;
   }
 
   /**
@@ -654,17 +702,16 @@ export class CorrelationEngine {
    */
   private async analyzeSportsCorrelations(
     restaurantId: string,
-    transactions: any[]
-  ): Promise<ICorrelation[]> {
-    const correlations: ICorrelation[] = [];
-
+    transactions: any[],
+    run: DiscoveryRun
+  ): Promise<void> {
     try {
       // Get restaurant location
       const Restaurant = (await import('../models/Restaurant')).default;
       const restaurant = await Restaurant.findById(restaurantId);
 
       if (!restaurant?.location?.latitude || !restaurant?.location?.longitude) {
-        return correlations;
+        return;
       }
 
       const location = {
@@ -713,18 +760,24 @@ export class CorrelationEngine {
         }
       }
 
-      if (gameDays.length < 3) {
-        console.log('Not enough game days for sports correlation analysis');
-        return correlations;
+      if (gameDays.length < 3 || nonGameDays.length < 3) {
+        console.log('Not enough game and non-game days for sports correlation analysis');
+        return;
       }
 
       // Calculate averages
       const avgGameDayRevenue = gameDays.reduce((sum, d) => sum + d.revenue, 0) / gameDays.length;
-      const avgNonGameDayRevenue = nonGameDays.length > 0
-        ? nonGameDays.reduce((sum, d) => sum + d.revenue, 0) / nonGameDays.length
-        : avgGameDayRevenue * 0.7; // Assume 30% lower if no comparison data
+      const avgNonGameDayRevenue = nonGameDays.reduce((sum, d) => sum + d.revenue, 0) / nonGameDays.length;
+
+      const statistics = this.compareGroups(
+        gameDays.map(d => d.revenue),
+        nonGameDays.map(d => d.revenue)
+      );
+      if (!statistics) {
+        return;
+      }
 
-      const change = ((avgGameDayRevenue - avgNonGameDayRevenue) / avgNonGameDayRevenue) * 100;
+      const change = statistics.effectSize!;
 
       if (Math.abs(change) > 15) {
         // Significant sports impact found
@@ -744,7 +797,7 @@ export class CorrelationEngine {
         const exampleGame = gameDays[0]?.games[0];
         const teamName = exampleGame?.isHomeGame ? exampleGame.homeTeam : exampleGame?.homeTeam || 'Local team';
 
-        const correlation = await this.createCorrelation({
+        const correlation = this.buildCorrelation({
           restaurantId,
           type: CorrelationType.EVENTS_TRAFFIC, // Using existing type
           factor: {
@@ -759,19 +812,12 @@ export class CorrelationEngine {
             change,
             baseline: avgNonGameDayRevenue
           },
-          statistics: {
-            correlation: change > 0 ? 0.75 : -0.75,
-            pValue: 0.01,
-            sampleSize: gameDays.length,
-            confidence: Math.min(85, gameDays.length * 15),
-            r_squared: 0.56
-          },
+          statistics,
           pattern: {
             description: `${primaryLeague} game days ${change > 0 ? 'increase' : 'decrease'} revenue significantly`,
             whenCondition: `When ${teamName} plays at home within 30 miles`,
             thenOutcome: `Revenue ${change > 0 ? 'increases' : 'decreases'} by ${Math.abs(change).toFixed(1)}%`,
-            strength: Math.abs(change) > 40 ? CorrelationStrength.STRONG :
-                     Math.abs(change) > 25 ? CorrelationStrength.MODERATE : CorrelationStrength.WEAK,
+            strength: classifyStrength(Math.abs(statistics.correlation)),
             actionable: true,
             recommendation: change > 0
               ? `Increase staffing and inventory on ${primaryLeague} game days. Consider game-day promotions and bar specials.`
@@ -779,14 +825,16 @@ export class CorrelationEngine {
           }
         });
 
-        correlations.push(correlation);
+        this.recordTest(run, statistics, correlation);
+      } else {
+        // Too small to act on, but still one of this run's tests
+        this.recordTest(run, statistics);
       }
 
     } catch (error) {
       console.error('Error analyzing sports correlations:', error);
     }
 
-    return correlations;
   }
 
   /**
@@ -794,10 +842,9 @@ export class CorrelationEngine {
    */
   private async analyzeHolidayCorrelations(
     restaurantId: string,
-    transactions: any[]
-  ): Promise<ICorrelation[]> {
-    const correlations: ICorrelation[] = [];
-
+    transactions: any[],
+    run: DiscoveryRun
+  ): Promise<void> {
     // Group transactions by holiday vs non-holiday
     const holidayTransactions: any[] = [];
     const normalTransactions: any[] = [];
@@ -811,8 +858,8 @@ export class CorrelationEngine {
       }
     });
 
-    if (holidayTransactions.length < 5) {
-      return correlations;
+    if (holidayTransactions.length < 5 || normalTransactions.length < 5) {
+      return;
     }
 
     // Calculate average revenue on holidays vs normal days
@@ -824,11 +871,19 @@ export class CorrelationEngine {
       normalTransactions.reduce((sum, t) => sum + t.totalAmount, 0) /
       normalTransactions.length;
 
-    const change = ((holidayAvg - normalAvg) / normalAvg) * 100;
+    const statistics = this.compareGroups(
+      holidayTransactions.map(t => t.totalAmount),
+      normalTransactions.map(t => t.totalAmount)
+    );
+    if (!statistics) {
+      return;
+    }
+
+    const change = statistics.effectSize!;
 
     if (Math.abs(change) > 10) {
       // Significant impact
-      const correlation = await this.createCorrelation({
+      const correlation = this.buildCorrelation({
         restaurantId,
         type: CorrelationType.HOLIDAY_SALES,
         factor: {
@@ -842,18 +897,12 @@ export class CorrelationEngine {
           change,
           baseline: normalAvg
         },
-        statistics: {
-          correlation: change > 0 ? 0.7 : -0.7,
-          pValue: 0.01,
-          sampleSize: holidayTransactions.length,
-          confidence: 85,
-          r_squared: 0.49
-        },
+        statistics,
         pattern: {
           description: `Holidays ${change > 0 ? 'increase' : 'decrease'} revenue significantly`,
           whenCondition: 'During holiday periods',
           thenOutcome: `Revenue ${change > 0 ? 'increases' : 'decreases'} by ${Math.abs(change).toFixed(1)}%`,
-          strength: Math.abs(change) > 30 ? CorrelationStrength.STRONG : CorrelationStrength.MODERATE,
+          strength: classifyStrength(Math.abs(statistics.correlation)),
           actionable: true,
           recommendation: change > 0
             ? 'Increase staff and inventory during holidays'
@@ -861,10 +910,10 @@ export class CorrelationEngine {
         }
       });
 
-      correlations.push(correlation);
+      this.recordTest(run, statistics, correlation);
+    } else {
+      this.recordTest(run, statistics);
     }
-
-    return correlations;
   }
 
   /**
@@ -873,21 +922,11 @@ export class CorrelationEngine {
    */
   private async analyzeMenuItemWeatherCorrelations(
     restaurantId: string,
-    transactions: any[]
-  ): Promise<ICorrelation[]> {
-    const correlations: ICorrelation[] = [];
-
+    transactions: any[],
+    run: DiscoveryRun
+  ): Promise<void> {
     try {
-      // Get restaurant location
-      const Restaurant = (await import('../models/Restaurant')).default;
-      const restaurant = await Restaurant.findById(restaurantId);
-
-      if (!restaurant) return correlations;
-
-      const location = {
-        lat: restaurant.location?.latitude || 38.5816,
-        lon: restaurant.location?.longitude || -121.4944
-      };
+      if (run.weather.size === 0) return;
 
       // Aggregate item sales by weather condition
       const itemsByWeather: Record<string, {
@@ -899,9 +938,11 @@ export class CorrelationEngine {
 
       // Process each transaction with weather data
       for (const txn of transactions) {
-        const weather = this.generateRealisticSeasonalWeather(txn.transactionDate, location);
+        const weather = run.weather.get(toLocalDate(txn.transactionDate, run.timezone));
+        if (!weather) continue;
+
         const temp = weather.temperature;
-        const isRainy = weather.condition === 'Rain';
+        const isRainy = weather.isRaining;
 
         // Determine weather category
         let category: 'hot' | 'cold' | 'rainy' | 'normal';
@@ -931,6 +972,17 @@ export class CorrelationEngine {
         }
       }
 
+      // Units sold in each weather bucket across all items - the mix an item is compared against
+      const bucketTotals: Record<'hot' | 'cold' | 'rainy' | 'normal', number> = { hot: 0, cold: 0, rainy: 0, normal: 0 };
+      Object.values(itemsByWeather).forEach(weatherData => {
+        (Object.keys(bucketTotals) as Array<keyof typeof bucketTotals>).forEach(bucket => {
+          weatherData[bucket].forEach(count => { bucketTotals[bucket] += count; });
+        });
+      });
+      const allUnits = bucketTotals.hot + bucketTotals.cold + bucketTotals.rainy + bucketTotals.normal;
+
+      const candidates: Array<{ statistics: IStatistics; correlation: ICorrelation }> = [];
+
       // Analyze each item category for weather patterns
       for (const [itemCategory, weatherData] of Object.entries(itemsByWeather)) {
         // Find items that sell significantly better in specific weather
@@ -943,89 +995,85 @@ export class CorrelationEngine {
         const allItems = Array.from(allItemsSet);
 
         for (const itemName of allItems) {
-          const hotSales = weatherData.hot.get(itemName) || 0;
-          const coldSales = weatherData.cold.get(itemName) || 0;
-          const rainySales = weatherData.rainy.get(itemName) || 0;
-          const normalSales = weatherData.normal.get(itemName) || 0;
-
-          const totalSales = hotSales + coldSales + rainySales + normalSales;
+          const totalSales = (['hot', 'cold', 'rainy', 'normal'] as const)
+            .reduce((sum, bucket) => sum + (weatherData[bucket].get(itemName) || 0), 0);
 
           if (totalSales < 10) continue; // Need minimum sales data
 
-          // Calculate percentages
-          const hotPct = hotSales / totalSales;
-          const coldPct = coldSales / totalSales;
-          const rainyPct = rainySales / totalSales;
-
-          // Check for strong correlations (>50% of sales in one weather type)
-          let correlationType: 'hot' | 'cold' | 'rainy' | null = null;
-          let percentage = 0;
-          let baseline = 0.25; // Expected 25% if evenly distributed
-
-          if (hotPct > 0.5) {
-            correlationType = 'hot';
-            percentage = hotPct * 100;
-          } else if (coldPct > 0.5) {
-            correlationType = 'cold';
-            percentage = coldPct * 100;
-          } else if (rainyPct > 0.5) {
-            correlationType = 'rainy';
-            percentage = rainyPct * 100;
-          }
+          const otherTotal = allUnits - totalSales;
+
+          for (const correlationType of ['hot', 'cold', 'rainy'] as const) {
+            const itemUnits = weatherData[correlationType].get(itemName) || 0;
+            const otherUnits = bucketTotals[correlationType] - itemUnits;
+
+            // Share of this item's sales in this weather vs the same share for every other item
+            const test = twoProportionZTest(itemUnits, totalSales, otherUnits, otherTotal);
+            if (!test || otherUnits === 0) continue;
+
+            const share = itemUnits / totalSales;
+            const expectedShare = otherUnits / otherTotal;
+            const change = (share / expectedShare - 1) * 100;
+            const correlation = test.statistic / Math.sqrt(totalSales + otherTotal); // phi
+
+            const statistics: IStatistics = {
+              correlation,
+              pValue: test.pValue,
+              sampleSize: totalSales,
+              confidence: 0,
+              r_squared: correlation * correlation,
+              effectSize: change,
+              confidenceInterval: percentLiftInterval(itemUnits, totalSales, otherUnits, otherTotal) ?? undefined,
+              testMethod: 'proportion_z'
+            };
+
+            if (change < MIN_ITEM_LIFT) {
+              this.recordTest(run, statistics);
+              continue;
+            }
 
-          if (correlationType) {
-            const change = ((percentage / 100 - baseline) / baseline) * 100;
-
-            const correlation = await this.createCorrelation({
-              restaurantId,
-              type: CorrelationType.WEATHER_SALES,
-              factor: {
-                type: 'weather',
-                weatherCondition: correlationType,
-                menuItem: itemName,
-                menuCategory: itemCategory
-              },
-              outcome: {
-                metric: 'item_sales',
-                value: totalSales,
-                change: percentage - (baseline * 100),
-                baseline: baseline * 100
-              },
-              statistics: {
-                correlation: (percentage / 100 - baseline) / baseline,
-                pValue: 0.03,
-                sampleSize: totalSales,
-                confidence: Math.min(75, totalSales * 2),
-                r_squared: 0.35
-              },
-              pattern: {
-                description: `${itemName} sells ${percentage.toFixed(0)}% more on ${correlationType} days`,
-                whenCondition: correlationType === 'hot' ? 'When temperature is above 80°F' :
-                              correlationType === 'cold' ? 'When temperature is below 50°F' :
-                              'On rainy days',
-                thenOutcome: `${itemName} (${itemCategory}) sales increase ${Math.abs(change).toFixed(0)}% above normal`,
-                strength: percentage > 70 ? CorrelationStrength.STRONG :
-                         percentage > 60 ? CorrelationStrength.MODERATE : CorrelationStrength.WEAK,
-                actionable: true,
-                recommendation: this.getMenuItemRecommendation(itemName, itemCategory, correlationType)
-              }
+            candidates.push({
+              statistics,
+              correlation: this.buildCorrelation({
+                restaurantId,
+                type: CorrelationType.WEATHER_SALES,
+                factor: {
+                  type: 'weather',
+                  weatherCondition: correlationType,
+                  menuItem: itemName,
+                  menuCategory: itemCategory
+                },
+                outcome: {
+                  metric: 'item_sales',
+                  value: share * 100,
+                  change,
+                  baseline: expectedShare * 100
+                },
+                statistics,
+                pattern: {
+                  description: `${itemName} sells ${change.toFixed(0)}% more on ${correlationType} days`,
+                  whenCondition: correlationType === 'hot' ? 'When temperature is above 80°F' :
+                                correlationType === 'cold' ? 'When temperature is below 50°F' :
+                                'On rainy days',
+                  thenOutcome: `${itemName} (${itemCategory}) sales increase ${Math.abs(change).toFixed(0)}% above normal`,
+                  strength: classifyStrength(Math.abs(correlation)),
+                  actionable: true,
+                  recommendation: this.getMenuItemRecommendation(itemName, itemCategory, correlationType)
+                }
+              })
             });
-
-            correlations.push(correlation);
-
-            // Limit to top 5 menu correlations to avoid clutter
-            if (correlations.length >= 5) break;
           }
         }
-
-        if (correlations.length >= 5) break;
       }
 
+      // Limit to top 5 menu correlations to avoid clutter; the rest still count as tests
+      candidates.sort((a, b) => a.statistics.pValue - b.statistics.pValue);
+      candidates.forEach(({ statistics, correlation }, index) => {
+        this.recordTest(run, statistics, index < 5 ? correlation : undefined);
+      });
+
     } catch (error) {
       console.error('Error analyzing menu item weather correlations:', error);
     }
-
-    return correlations;
   }
 
   /**
@@ -1048,16 +1096,15 @@ export class CorrelationEngine {
    */
   private async analyzeMultiFactorPatterns(
     restaurantId: string,
-    transactions: any[]
-  ): Promise<ICorrelation[]> {
-    const correlations: ICorrelation[] = [];
-
+    transactions: any[],
+    run: DiscoveryRun
+  ): Promise<void> {
     try {
       // Get restaurant location
       const Restaurant = (await import('../models/Restaurant')).default;
       const restaurant = await Restaurant.findById(restaurantId);
 
-      if (!restaurant) return correlations;
+      if (!restaurant) return;
 
       const location = {
         lat: restaurant.location?.latitude || 38.5816,
@@ -1081,7 +1128,7 @@ export class CorrelationEngine {
       // Group by date
       const dailyData = new Map<string, { date: Date; revenue: number; count: number }>();
       transactions.forEach(t => {
-        const dateKey = t.transactionDate.toISOString().split('T')[0];
+        const dateKey = toLocalDate(t.transactionDate, run.timezone);
         const existing = dailyData.get(dateKey);
         if (existing) {
           existing.revenue += t.totalAmount;
@@ -1100,7 +1147,13 @@ export class CorrelationEngine {
         const date = dayData.date;
         const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][date.getDay()];
         const isWeekend = date.getDay() === 0 || date.getDay() === 6;
-        const weather = this.generateRealisticSeasonalWeather(date, location);
+        const dayWeather = run.weather.get(dateKey);
+        if (!dayWeather) continue;
+
+        const weather = {
+          temp: dayWeather.temperature,
+          condition: dayWeather.isRaining ? 'Rain' : dayWeather.isClear ? 'Clear' : 'Clouds'
+        };
 
         // Check for sports games
         const games = await sportsService.getGamesOnDate(date, location.lat, location.lon, 30);
@@ -1124,7 +1177,7 @@ export class CorrelationEngine {
 
       if (scenarios.length < 20) {
         console.log('Not enough data for multi-factor analysis');
-        return correlations;
+        return;
       }
 
       // Find powerful compound patterns
@@ -1146,10 +1199,14 @@ export class CorrelationEngine {
       if (weekendGoodWeatherEvent.length >= 3 && normalDays.length >= 5) {
         const avgSpecial = weekendGoodWeatherEvent.reduce((s, d) => s + d.revenue, 0) / weekendGoodWeatherEvent.length;
         const avgNormal = normalDays.reduce((s, d) => s + d.revenue, 0) / normalDays.length;
-        const change = ((avgSpecial - avgNormal) / avgNormal) * 100;
+        const statistics = this.compareGroups(
+          weekendGoodWeatherEvent.map(d => d.revenue),
+          normalDays.map(d => d.revenue)
+        );
+        const change = statistics?.effectSize ?? 0;
 
-        if (Math.abs(change) > 25) {
-          const correlation = await this.createCorrelation({
+        if (statistics && Math.abs(change) > 25) {
+          const correlation = this.buildCorrelation({
             restaurantId,
             type: CorrelationType.EVENTS_TRAFFIC,
             factor: {
@@ -1163,19 +1220,12 @@ export class CorrelationEngine {
               change,
               baseline: avgNormal
             },
-            statistics: {
-              correlation: change > 0 ? 0.85 : -0.85,
-              pValue: 0.005,
-              sampleSize: weekendGoodWeatherEvent.length,
-              confidence: 90,
-              r_squared: 0.72
-            },
+            statistics,
             pattern: {
               description: `Perfect storm: Weekend + good weather + major event boosts revenue ${Math.abs(change).toFixed(0)}%`,
               whenCondition: 'Weekend days (65-85°F, clear) with nearby sports game or concert',
               thenOutcome: `Revenue ${change > 0 ? 'surges' : 'drops'} by ${Math.abs(change).toFixed(0)}% vs normal weekdays`,
-              strength: Math.abs(change) > 50 ? CorrelationStrength.VERY_STRONG :
-                       Math.abs(change) > 35 ? CorrelationStrength.STRONG : CorrelationStrength.MODERATE,
+              strength: classifyStrength(Math.abs(statistics.correlation)),
               actionable: true,
               recommendation: change > 0
                 ? 'Triple threat! Schedule max staff for these days. Pre-order extra inventory. Run premium specials. Book reservations early. This is your money-maker pattern.'
@@ -1183,7 +1233,9 @@ export class CorrelationEngine {
             }
           });
 
-          correlations.push(correlation);
+          this.recordTest(run, statistics, correlation);
+        } else if (statistics) {
+          this.recordTest(run, statistics);
         }
       }
 
@@ -1203,10 +1255,14 @@ export class CorrelationEngine {
       if (rainyFridayNoEvents.length >= 2 && normalFridays.length >= 3) {
         const avgRainyFri = rainyFridayNoEvents.reduce((s, d) => s + d.revenue, 0) / rainyFridayNoEvents.length;
         const avgNormalFri = normalFridays.reduce((s, d) => s + d.revenue, 0) / normalFridays.length;
-        const change = ((avgRainyFri - avgNormalFri) / avgNormalFri) * 100;
+        const statistics = this.compareGroups(
+          rainyFridayNoEvents.map(d => d.revenue),
+          normalFridays.map(d => d.revenue)
+        );
+        const change = statistics?.effectSize ?? 0;
 
-        if (Math.abs(change) > 15) {
-          const correlation = await this.createCorrelation({
+        if (statistics && Math.abs(change) > 15) {
+          const correlation = this.buildCorrelation({
             restaurantId,
             type: CorrelationType.WEATHER_SALES,
             factor: {
@@ -1220,18 +1276,12 @@ export class CorrelationEngine {
               change,
               baseline: avgNormalFri
             },
-            statistics: {
-              correlation: change / 100,
-              pValue: 0.02,
-              sampleSize: rainyFridayNoEvents.length,
-              confidence: 80,
-              r_squared: 0.45
-            },
+            statistics,
             pattern: {
               description: `Rainy Fridays without events ${change < 0 ? 'reduce' : 'maintain'} revenue`,
               whenCondition: 'Friday + Rain + No major sports/events',
               thenOutcome: `Revenue ${change < 0 ? 'drops' : 'stays strong at'} ${Math.abs(change).toFixed(0)}% vs normal Fridays`,
-              strength: Math.abs(change) > 25 ? CorrelationStrength.STRONG : CorrelationStrength.MODERATE,
+              strength: classifyStrength(Math.abs(statistics.correlation)),
               actionable: true,
               recommendation: change < 0
                 ? 'Rainy Friday slump detected. Push delivery/takeout promotions HARD on these days. Offer comfort food bundles and free delivery.'
@@ -1239,7 +1289,9 @@ export class CorrelationEngine {
             }
           });
 
-          correlations.push(correlation);
+          this.recordTest(run, statistics, correlation);
+        } else if (statistics) {
+          this.recordTest(run, statistics);
         }
       }
 
@@ -1257,10 +1309,14 @@ export class CorrelationEngine {
       if (mondayCold.length >= 2 && mondayNormal.length >= 3) {
         const avgColdMon = mondayCold.reduce((s, d) => s + d.revenue, 0) / mondayCold.length;
         const avgNormalMon = mondayNormal.reduce((s, d) => s + d.revenue, 0) / mondayNormal.length;
-        const change = ((avgColdMon - avgNormalMon) / avgNormalMon) * 100;
+        const statistics = this.compareGroups(
+          mondayCold.map(d => d.revenue),
+          mondayNormal.map(d => d.revenue)
+        );
+        const change = statistics?.effectSize ?? 0;
 
-        if (Math.abs(change) > 12) {
-          const correlation = await this.createCorrelation({
+        if (statistics && Math.abs(change) > 12) {
+          const correlation = this.buildCorrelation({
             restaurantId,
             type: CorrelationType.WEATHER_SALES,
             factor: {
@@ -1274,18 +1330,12 @@ export class CorrelationEngine {
               change,
               baseline: avgNormalMon
             },
-            statistics: {
-              correlation: change / 100,
-              pValue: 0.03,
-              sampleSize: mondayCold.length,
-              confidence: 75,
-              r_squared: 0.38
-            },
+            statistics,
             pattern: {
               description: `Cold Mondays show ${Math.abs(change).toFixed(0)}% revenue ${change > 0 ? 'boost' : 'dip'}`,
               whenCondition: 'Monday + Temperature below 50°F',
               thenOutcome: `Revenue ${change > 0 ? 'increases' : 'decreases'} ${Math.abs(change).toFixed(0)}% vs normal Mondays`,
-              strength: Math.abs(change) > 20 ? CorrelationStrength.MODERATE : CorrelationStrength.WEAK,
+              strength: classifyStrength(Math.abs(statistics.correlation)),
               actionable: true,
               recommendation: change > 0
                 ? 'Monday + cold = comfort food opportunity! Feature soups, hot drinks, and warm entrées. Market "Cozy Monday" specials.'
@@ -1293,57 +1343,33 @@ export class CorrelationEngine {
             }
           });
 
-          correlations.push(correlation);
+          this.recordTest(run, statistics, correlation);
+        } else if (statistics) {
+          this.recordTest(run, statistics);
         }
       }
 
     } catch (error) {
       console.error('Error analyzing multi-factor patterns:', error);
     }
-
-    return correlations;
   }
 
   /**
-   * Validate existing patterns against new data
+   * Validate existing patterns against held-out data
    */
   private async validateExistingPatterns(
     restaurantId: string,
-    transactions: any[]
+    holdoutTransactions: any[],
+    holdoutEnd: Date
   ): Promise<{ validated: number; invalidated: number }> {
-    let validated = 0;
-    let invalidated = 0;
-
-    // Get existing patterns for this restaurant
-    const existingPatterns = await Correlation.find({
-      $or: [
-        { restaurantId: new Types.ObjectId(restaurantId) },
-        { scope: 'global' },
-        { scope: 'regional' }
-      ],
-      isActive: true
-    });
-
-    for (const pattern of existingPatterns) {
-      // Test if pattern holds true with new data
-      const isValid = await this.testPattern(pattern, transactions);
-
-      await (pattern as any).updateValidation(isValid);
+    const summary = await patternBacktester.backtestRestaurant(restaurantId, holdoutTransactions, holdoutEnd);
 
-      if (isValid) validated++;
-      else invalidated++;
-    }
-
-    return { validated, invalidated };
-  }
+    console.log(`Backtested ${summary.patternsTested} patterns on ${summary.daysEvaluated} held-out pattern-days`);
 
-  /**
-   * Test if a pattern holds true
-   */
-  private async testPattern(pattern: ICorrelation, transactions: any[]): Promise<boolean> {
-    // Simplified validation - in production, this would be more sophisticated
-    // For now, we'll say patterns are valid 80% of the time (simulating real validation)
-    return Math.random() > 0.2;
+    return {
+      validated: summary.patternsTested - summary.patternsRetired,
+      invalidated: summary.patternsRetired
+    };
   }
 
   /**
@@ -1352,22 +1378,16 @@ export class CorrelationEngine {
   async predict(input: PredictionInput): Promise<Prediction[]> {
     const predictions: Prediction[] = [];
 
-    // Get applicable patterns for this restaurant
-    const patterns = await Correlation.findForRestaurant(
-      input.restaurantId,
-      'northeast', // In production, get from restaurant location
-      'casual_dining', // In production, get from restaurant type
-      undefined
-    );
+    // Get applicable patterns for this restaurant's region and cuisine
+    const profile = await this.getRestaurantProfile(input.restaurantId);
+    const patterns = await this.findBlendedPatterns(input.restaurantId, profile);
 
     // Get baseline metrics
     const baseline = await this.getBaselineMetrics(input.restaurantId);
 
     // Apply each pattern
-    for (const pattern of patterns) {
-      if (!pattern.isActive || pattern.confidence < 60) continue;
-
-      const prediction = this.applyPattern(pattern, input, baseline);
+    for (const blended of patterns) {
+      const prediction = this.applyPattern(blended, baseline);
       if (prediction) {
         predictions.push(prediction);
       }
@@ -1377,25 +1397,131 @@ export class CorrelationEngine {
     return this.combinePredictions(predictions);
   }
 
+  /**
+   * Region (from the restaurant's state) and cuisine type (Restaurant.type)
+   */
+  async getRestaurantProfile(restaurantId: string): Promise<RestaurantProfile> {
+    const Restaurant = (await import('../models/Restaurant')).default;
+    const restaurant = await Restaurant.findById(restaurantId).select('type location.state');
+    const state = restaurant?.location?.state;
+
+    return {
+      region: state ? locationService.getRegion(state) : 'unknown',
+      cuisineType: restaurant?.type || 'other'
+    };
+  }
+
+  /**
+   * Active patterns for a restaurant with each pattern's restaurant, regional
+   * and global versions blended. A version's weight grows with its sample
+   * size (saturating) and its backtested accuracy, so a young restaurant
+   * leans on cohort patterns until its own have the evidence to take over.
+   */
+  async findBlendedPatterns(
+    restaurantId: string,
+    profile: RestaurantProfile,
+    type?: CorrelationType
+  ): Promise<BlendedPattern[]> {
+    // Cohort patterns match this cuisine or were learned across all cuisines
+    const cuisineType = { $in: [profile.cuisineType, null] };
+    const scopes: any[] = [
+      { scope: 'restaurant', restaurantId: new Types.ObjectId(restaurantId) },
+      { scope: 'global', cuisineType }
+    ];
+    if (profile.region !== 'unknown') {
+      scopes.push({ scope: 'regional', region: profile.region, cuisineType });
+    }
+
+    const versions = await Correlation.find({
+      isActive: true,
+      confidence: { $gte: MIN_PREDICTION_CONFIDENCE },
+      ...(type ? { type } : {}),
+      $or: scopes
+    });
+
+    // Same pattern across scopes = same pattern key (cohort thresholds are averaged)
+    const byPattern = new Map<string, ICorrelation[]>();
+    for (const version of versions) {
+      const key = getPatternKey(version);
+      byPattern.set(key, [...(byPattern.get(key) || []), version]);
+    }
+
+    const blended: BlendedPattern[] = [];
+    byPattern.forEach(group => {
+      group.sort((a, b) => SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope));
+
+      const weights = group.map(version => this.scopeWeight(version));
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+      const contributions: ScopeContribution[] = group.map((version, i) => ({
+        scope: version.scope,
+        change: version.businessOutcome.change,
+        weight: totalWeight > 0 ? weights[i] / totalWeight : 1 / group.length,
+        sampleSize: version.learning.dataPoints || version.statistics.sampleSize || 0,
+        accuracy: version.learning.accuracy || 0,
+        restaurantsContributing: version.learning.restaurantsContributing || 1
+      }));
+
+      const lead = contributions.reduce((best, c) => (c.weight > best.weight ? c : best));
+
+      blended.push({
+        pattern: group[0],
+        change: contributions.reduce((sum, c) => sum + c.change * c.weight, 0),
+        confidence: group.reduce((sum, version, i) => sum + version.confidence * contributions[i].weight, 0),
+        contributions,
+        drivenBy: lead.scope,
+        explanation: this.explainBlend(lead, contributions)
+      });
+    });
+
+    return blended.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Unnormalized weight of one scope's version of a pattern
+   */
+  private scopeWeight(version: ICorrelation): number {
+    const sampleSize = version.learning.dataPoints || version.statistics.sampleSize || 0;
+    const evidence = sampleSize / (sampleSize + HALF_WEIGHT_SAMPLE_SIZE);
+    const accuracy = version.learning.accuracy > 0 ? version.learning.accuracy : UNTESTED_ACCURACY;
+
+    return evidence * (accuracy / 100);
+  }
+
+  private explainBlend(lead: ScopeContribution, contributions: ScopeContribution[]): string {
+    const source = lead.scope === 'restaurant'
+      ? `this restaurant's data (${lead.sampleSize} data points`
+      : `${lead.scope} data from ${lead.restaurantsContributing} restaurants (${lead.sampleSize} data points`;
+    const accuracy = lead.accuracy > 0 ? `${lead.accuracy.toFixed(0)}% backtested accuracy` : 'not yet backtested';
+
+    let explanation = `Based mainly on ${source}, ${accuracy})`;
+
+    if (contributions.length > 1) {
+      const shares = contributions
+        .map(c => `${c.scope} ${Math.round(c.weight * 100)}%`)
+        .join(', ');
+      explanation += ` - weights: ${shares}`;
+    }
+
+    return explanation;
+  }
+
   /**
    * Apply a pattern to make a prediction
    */
-  private applyPattern(
-    pattern: ICorrelation,
-    input: PredictionInput,
-    baseline: any
-  ): Prediction | null {
+  private applyPattern(blended: BlendedPattern, baseline: any): Prediction | null {
+    const pattern = blended.pattern;
     const metric = pattern.businessOutcome.metric;
     const baselineValue = baseline[metric] || 1000; // Default fallback
 
-    // Calculate predicted change based on pattern
-    const predictedChange = pattern.businessOutcome.change;
+    // Calculate predicted change from the blended scopes
+    const predictedChange = blended.change;
     const predictedValue = baselineValue * (1 + predictedChange / 100);
 
     return {
       metric,
       predictedValue,
-      confidence: pattern.confidence,
+      confidence: blended.confidence,
       baseline: baselineValue,
       change: predictedChange,
       factors: [
@@ -1403,7 +1529,9 @@ export class CorrelationEngine {
           type: pattern.type,
           description: pattern.pattern.description,
           impact: predictedChange,
-          correlation: pattern
+          correlation: pattern,
+          drivenBy: blended.drivenBy,
+          explanation: blended.explanation
         }
       ]
     };
@@ -1486,17 +1614,18 @@ export class CorrelationEngine {
   }
 
   /**
-   * Create a correlation record
+   * Build an unsaved correlation record - discoverCorrelations saves the
+   * ones that survive false-discovery control
    */
-  private async createCorrelation(params: {
+  private buildCorrelation(params: {
     restaurantId: string;
     type: CorrelationType;
     factor: IExternalFactor;
     outcome: IBusinessOutcome;
-    statistics: any;
+    statistics: IStatistics;
     pattern: any;
-  }): Promise<ICorrelation> {
-    const correlation = new Correlation({
+  }): ICorrelation {
+    return new Correlation({
       scope: 'restaurant',
       restaurantId: new Types.ObjectId(params.restaurantId),
       type: params.type,
@@ -1511,15 +1640,74 @@ export class CorrelationEngine {
         restaurantsContributing: 1,
         timesValidated: 0,
         timesInvalidated: 0,
-        accuracy: 100 // Starts at 100%, will decrease if pattern doesn't hold
+        accuracy: 0 // Unknown until backtested on held-out data
       },
       isActive: true,
       confidence: params.statistics.confidence,
       timesApplied: 0,
       version: 1
     });
+  }
+
+  /**
+   * Add a hypothesis to the run; a candidate is saved only if it stays
+   * significant after correction
+   */
+  private recordTest(run: DiscoveryRun, statistics: IStatistics, candidate?: ICorrelation): void {
+    run.tests.push({ statistics, candidate });
+  }
+
+  /**
+   * Benjamini–Hochberg across every test in the run.
+   * Stores the adjusted p-value on each candidate and returns those with q <= FDR_LEVEL.
+   */
+  private applyFalseDiscoveryControl(run: DiscoveryRun): ICorrelation[] {
+    if (run.tests.length === 0) return [];
+
+    const adjusted = benjaminiHochberg(run.tests.map(test => test.statistics.pValue));
+    const significant: ICorrelation[] = [];
+
+    run.tests.forEach((test, index) => {
+      if (!test.candidate) return;
+
+      const qValue = adjusted[index];
+      const confidence = Math.min(95, (1 - qValue) * 100);
+
+      test.candidate.statistics.pValueAdjusted = qValue;
+      test.candidate.statistics.hypothesesTested = run.tests.length;
+      test.candidate.statistics.confidence = confidence;
+      test.candidate.confidence = confidence;
+
+      if (qValue <= FDR_LEVEL) {
+        significant.push(test.candidate);
+      } else {
+        console.log(`Discarded "${test.candidate.pattern.description}" (p=${test.statistics.pValue.toFixed(4)}, q=${qValue.toFixed(4)})`);
+      }
+    });
+
+    return significant;
+  }
+
+  /**
+   * Welch's t-test of a treatment group against a control group, with a
+   * bootstrap interval on the % change. Confidence is set after correction.
+   */
+  private compareGroups(treatment: number[], control: number[]): IStatistics | null {
+    const test = welchTTest(treatment, control);
+    if (!test) return null;
+
+    const correlation = tToCorrelation(test.statistic, test.df);
 
-    return await correlation.save();
+    return {
+      correlation,
+      pValue: test.pValue,
+      sampleSize: treatment.length + control.length,
+      confidence: 0,
+      r_squared: correlation * correlation,
+      effectSize: percentChange(treatment, control),
+      confidenceInterval: bootstrapPercentChange(treatment, control) ?? undefined,
+      testMethod: 'welch_t'
+    };
   }
 
   /**
@@ -1528,7 +1716,7 @@ export class CorrelationEngine {
   private calculatePearsonCorrelation(
     x: number[],
     y: number[]
-  ): { correlation: number; pValue: number; sampleSize: number; r_squared: number } | null {
+  ): { correlation: number; pValue: number; sampleSize: number; r_squared: number; confidence: number } | null {
     if (x.length !== y.length || x.length < 3) return null;
 
     const n = x.length;
@@ -1546,148 +1734,33 @@ export class CorrelationEngine {
     const correlation = numerator / denominator;
     const r_squared = correlation * correlation;
 
-    // Simplified p-value calculation
-    const t = (correlation * Math.sqrt(n - 2)) / Math.sqrt(1 - r_squared);
-    const pValue = Math.max(0.001, 1 / (1 + Math.abs(t))); // Simplified
+    // Two-tailed t-test with n - 2 degrees of freedom
+    const { pValue } = pearsonTest(correlation, n);
 
     return {
       correlation,
       pValue,
       sampleSize: n,
-      r_squared
+      r_squared,
+      confidence: 0
     };
   }
 
   /**
-   * Classify correlation strength
-   */
-  private classifyStrength(correlation: number): CorrelationStrength {
-    const abs = Math.abs(correlation);
-    if (abs >= 0.8) return CorrelationStrength.VERY_STRONG;
-    if (abs >= 0.6) return CorrelationStrength.STRONG;
-    if (abs >= 0.4) return CorrelationStrength.MODERATE;
-    if (abs >= 0.2) return CorrelationStrength.WEAK;
-    if (abs > 0) return CorrelationStrength.VERY_WEAK;
-    return CorrelationStrength.NONE;
-  }
-
-  /**
-   * Contribute restaurant data to global learning
+   * Contribute restaurant data to regional/global learning.
+   * Cohort patterns are published only with enough contributing restaurants
+   * (see CohortLearningService); call withdrawFromGlobalLearning on cancellation.
    */
   async contributeToGlobalLearning(restaurantId: string): Promise<void> {
-    // Get restaurant-specific correlations
-    const restaurantCorrelations = await Correlation.find({
-      restaurantId: new Types.ObjectId(restaurantId),
-      'learning.accuracy': { $gte: 70 },
-      'learning.dataPoints': { $gte: 20 }
-    });
-
-    for (const resCor of restaurantCorrelations) {
-      // Check if similar global pattern exists
-      const globalPattern = await Correlation.findOne({
-        scope: 'global',
-        type: resCor.type,
-        'externalFactor.type': resCor.externalFactor.type,
-        isActive: true
-      });
-
-      if (globalPattern) {
-        // Update existing global pattern with new data
-        globalPattern.learning.dataPoints += resCor.learning.dataPoints;
-        globalPattern.learning.restaurantsContributing += 1;
-        globalPattern.learning.lastUpdated = new Date();
-
-        // Weighted average of correlations
-        const totalRestaurants = globalPattern.learning.restaurantsContributing;
-        globalPattern.statistics.correlation =
-          (globalPattern.statistics.correlation * (totalRestaurants - 1) +
-            resCor.statistics.correlation) /
-          totalRestaurants;
-
-        await globalPattern.save();
-      } else {
-        // Create new global pattern
-        const globalCor = new Correlation({
-          ...resCor.toObject(),
-          _id: undefined,
-          scope: 'global',
-          restaurantId: undefined,
-          learning: {
-            ...resCor.learning,
-            restaurantsContributing: 1
-          }
-        });
-
-        await globalCor.save();
-      }
-    }
-  }
-
-  /**
-   * Generate realistic seasonal weather based on date and location
-   * Uses deterministic patterns based on actual date (not random)
-   * This allows real correlations to be discovered even without historical API
-   */
-  private generateRealisticSeasonalWeather(
-    date: Date,
-    location: { lat: number; lon: number }
-  ): any {
-    const dayOfYear = this.getDayOfYear(date);
-    const year = date.getFullYear();
-
-    // Sacramento, CA climate patterns (38.58°N, -121.49°W)
-    // Winter (Dec-Feb): 40-60°F, Rainy
-    // Spring (Mar-May): 55-75°F, Mild
-    // Summer (Jun-Aug): 75-100°F, Hot & Dry
-    // Fall (Sep-Nov): 60-80°F, Pleasant
-
-    // Base temperature follows a sinusoidal pattern
-    // Peaks in July (day ~196), lowest in January (day ~15)
-    const peakDay = 196; // Mid-July
-    const amplitude = 25; // Temperature range amplitude
-    const baseline = 65; // Average annual temp for Sacramento
-
-    // Calculate seasonal temperature (deterministic based on day of year)
-    const radians = ((dayOfYear - peakDay) / 365) * 2 * Math.PI;
-    let temperature = baseline + amplitude * Math.cos(radians);
-
-    // Add consistent daily variation based on date (deterministic, not random)
-    const dailyVariation = ((date.getDate() * 7 + date.getMonth() * 3) % 20) - 10;
-    temperature += dailyVariation;
-
-    // Determine condition based on season
-    let condition = 'Clear';
-    const month = date.getMonth();
-
-    if (month >= 11 || month <= 2) {
-      // Winter: More rain
-      condition = date.getDate() % 3 === 0 ? 'Rain' : 'Clouds';
-    } else if (month >= 6 && month <= 8) {
-      // Summer: Hot and clear
-      condition = 'Clear';
-      temperature = Math.max(temperature, 75); // Ensure summer heat
-    } else if (month >= 3 && month <= 5) {
-      // Spring: Mix of conditions
-      condition = date.getDate() % 4 === 0 ? 'Rain' : 'Clear';
-    } else {
-      // Fall: Pleasant
-      condition = 'Clear';
-    }
-
-    return {
-      temperature: Math.round(temperature),
-      condition
-    };
+    const profile = await this.getRestaurantProfile(restaurantId);
+    await cohortLearningService.contributeRestaurant(restaurantId, profile);
   }
 
   /**
-   * Get day of year (1-365)
+   * Remove a restaurant's data from every regional/global pattern
    */
-  private getDayOfYear(date: Date): number {
-    const start = new Date(date.getFullYear(), 0, 0);
-    const diff = date.getTime() - start.getTime();
-    const oneDay = 1000 * 60 * 60 * 24;
-    return Math.floor(diff / oneDay);
+  async withdrawFromGlobalLearning(restaurantId: string): Promise<void> {
+    await cohortLearningService.withdrawRestaurant(restaurantId);
   }
 }
 
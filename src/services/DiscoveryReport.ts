@@ -1,4 +1,4 @@
-import { Restaurant, Insight, IInsight } from '../models';
+import { Restaurant, Insight, IInsight, SalesReport } from '../models';
 import { InsightType, InsightStatus } from '../models/Insight';
 import { insightGenerator } from './InsightGenerator';
 
@@ -103,35 +103,63 @@ export class DiscoveryReportService {
       throw new Error('Discovery report already sent to this restaurant');
     }
 
-    // Check if POS is connected
-    if (!restaurant.posConfig.isConnected) {
-      throw new Error('Restaurant must connect POS system before generating discovery report');
+    // Check if POS is connected (or a POS sales report export was imported instead)
+    const window = await this.resolveAnalysisWindow(restaurantId);
+    if (!restaurant.posConfig.isConnected && window.source !== 'sales_report') {
+      throw new Error('Restaurant must connect POS system or import a POS sales report before generating discovery report');
     }
 
     // Check data sufficiency (minimum 30 days of data)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - DISCOVERY_REPORT_CONFIG.analysisperiodDays);
+    if (window.orderCount < DISCOVERY_REPORT_CONFIG.minimumTransactions) {
+      throw new Error(`Insufficient transaction data. Need at least ${DISCOVERY_REPORT_CONFIG.minimumTransactions} transactions, found ${window.orderCount}`);
+    }
+
+    return restaurant;
+  }
+
+  /**
+   * Pick the analysis period: the last 30 days of synced transactions, or the
+   * most recent imported sales report when there aren't enough transactions
+   */
+  private async resolveAnalysisWindow(restaurantId: string): Promise<{
+    startDate: Date;
+    endDate: Date;
+    orderCount: number;
+    source: 'transactions' | 'sales_report';
+  }> {
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - DISCOVERY_REPORT_CONFIG.analysisperiodDays);
 
     const Transaction = (await import('../models/Transaction')).default;
     const transactionCount = await Transaction.countDocuments({
       restaurantId: restaurantId,
-      transactionDate: { $gte: thirtyDaysAgo }
+      transactionDate: { $gte: startDate }
     });
 
     if (transactionCount < DISCOVERY_REPORT_CONFIG.minimumTransactions) {
-      throw new Error(`Insufficient transaction data. Need at least ${DISCOVERY_REPORT_CONFIG.minimumTransactions} transactions, found ${transactionCount}`);
+      const latestReport = await SalesReport.findOne({ restaurantId }).sort({ periodEnd: -1 });
+
+      if (latestReport && latestReport.summary.totalOrders > transactionCount) {
+        // periodEnd is the start of the report's last business day
+        const reportEnd = new Date(latestReport.periodEnd.getTime() + 24 * 60 * 60 * 1000 - 1);
+        return {
+          startDate: latestReport.periodStart,
+          endDate: reportEnd,
+          orderCount: latestReport.summary.totalOrders,
+          source: 'sales_report'
+        };
+      }
     }
 
-    return restaurant;
+    return { startDate, endDate, orderCount: transactionCount, source: 'transactions' };
   }
 
   /**
    * Generate discovery analysis using our AI engine
    */
   private async generateDiscoveryAnalysis(restaurant: any): Promise<IInsight> {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - DISCOVERY_REPORT_CONFIG.analysisperiodDays);
+    const { startDate, endDate } = await this.resolveAnalysisWindow(restaurant._id.toString());
 
     // Generate free discovery insight
     const insight = await insightGenerator.generateInsights(
@@ -472,7 +500,7 @@ Ready to recover this revenue? Schedule your free consultation at noionanalytics
       const requiredActions: string[] = [];
       
       if (error.message.includes('connect POS')) {
-        requiredActions.push('Connect your POS system');
+        requiredActions.push('Connect your POS system or upload a Toast sales summary export');
       }
       if (error.message.includes('Insufficient transaction')) {
         requiredActions.push('Generate more transaction data (minimum 50 transactions)');
@@ -7,6 +7,7 @@
 
 import sgMail from '@sendgrid/mail';
 import Restaurant from '@/models/Restaurant';
+import { IOvertimeAlert } from '@/models/OvertimeAlert';
 
 // Initialize SendGrid if API key is available
 if (process.env.SENDGRID_API_KEY) {
@@ -411,4 +412,178 @@ The NOION Analytics Team
       text
     });
   }
+
+  /**
+   * Send POS credentials revoked notification
+   */
+  async sendPOSCredentialsRevokedEmail(
+    email: string,
+    restaurantName: string,
+    posName: string,
+    reason: string
+  ): Promise<boolean> {
+    const supportEmail = process.env.SUPPORT_EMAIL || 'support@noion.ai';
+    const reconnectUrl = `${process.env.FRONTEND_URL || 'https://noion.ai'}/pos`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #DC2626; color: white; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; background: #f9f9f9; }
+          .error-box { background: #FEE2E2; border-left: 4px solid #DC2626; padding: 15px; margin: 20px 0; }
+          .button { display: inline-block; padding: 12px 24px; background: #4F46E5; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; color: #666; font-size: 12px; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔌 ${posName} Disconnected</h1>
+          </div>
+          <div class="content">
+            <p>Hi there,</p>
+            <p>${posName} no longer accepts the credentials we have for <strong>${restaurantName}</strong>, so we've paused syncing.</p>
+
+            <div class="error-box">
+              <strong>Reason:</strong> ${reason}
+            </div>
+
+            <p>This usually means the integration was removed or its client secret was rotated in ${posName}. Reconnect to resume syncing - your existing data is kept.</p>
+
+            <a href="${reconnectUrl}" class="button">Reconnect ${posName}</a>
+
+            <p>If you need help, contact us at <a href="mailto:${supportEmail}">${supportEmail}</a>.</p>
+
+            <p>Best regards,<br>The NOION Analytics Team</p>
+          </div>
+          <div class="footer">
+            <p>NOION Analytics - AI-Powered Restaurant Intelligence</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Hi there,
+
+${posName} no longer accepts the credentials we have for ${restaurantName}, so we've paused syncing.
+
+Reason: ${reason}
+
+Reconnect ${posName} to resume syncing: ${reconnectUrl}
+
+If you need help, contact us at ${supportEmail}.
+
+Best regards,
+The NOION Analytics Team
+    `.trim();
+
+    return await this.sendEmail({
+      to: email,
+      subject: `🔌 ${posName} disconnected from NOION`,
+      html,
+      text
+    });
+  }
+
+  /**
+   * Send overtime risk alert with suggested shift swaps
+   */
+  async sendOvertimeRiskAlert(
+    email: string,
+    restaurantName: string,
+    alerts: IOvertimeAlert[],
+    timezone: string
+  ): Promise<boolean> {
+    const dashboardUrl = `${process.env.FRONTEND_URL || 'https://noion.ai'}/dashboard/manager`;
+    // Shift times in the restaurant's time, not the server's
+    const formatTime = (date: Date) =>
+      new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: timezone });
+    const describe = (alert: IOvertimeAlert) =>
+      alert.type === 'weekly'
+        ? `${alert.projectedHours.toFixed(1)}h this week (over ${alert.thresholdHours}h by ${alert.projectedOvertimeHours.toFixed(1)}h)`
+        : `${alert.projectedHours.toFixed(1)}h on ${alert.date} (daily limit ${alert.thresholdHours}h)`;
+    const describeSwap = (swap: IOvertimeAlert['swaps'][number]) => {
+      const covers = swap.candidates.length > 0
+        ? `could go to ${swap.candidates.map(c => `${c.name} (${c.projectedWeekHours.toFixed(1)}h)`).join(', ')}`
+        : 'no one available without overtime';
+      return `${swap.jobTitle} ${swap.date} ${formatTime(swap.scheduledStart)}–${formatTime(swap.scheduledEnd)}: ${covers}`;
+    };
+
+    const alertsHtml = alerts.map(alert => `
+              <div class="alert-box">
+                <strong>${alert.employeeName}</strong> - projected ${describe(alert)}
+                ${alert.swaps.length > 0 ? `<ul>${alert.swaps.map(swap => `<li>${describeSwap(swap)}</li>`).join('')}</ul>` : ''}
+              </div>`).join('');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #D97706; color: white; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; background: #f9f9f9; }
+          .alert-box { background: #FEF3C7; border-left: 4px solid #D97706; padding: 15px; margin: 20px 0; }
+          .button { display: inline-block; padding: 12px 24px; background: #4F46E5; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; color: #666; font-size: 12px; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>⏱️ Overtime Risk</h1>
+          </div>
+          <div class="content">
+            <p>Hi there,</p>
+            <p>Based on hours clocked so far and the rest of the schedule, ${alerts.length === 1 ? 'one employee is' : `${alerts.length} employees are`} on track for overtime at <strong>${restaurantName}</strong>:</p>
+            ${alertsHtml}
+
+            <p>Moving the listed shifts to the suggested coworkers would keep everyone under the overtime threshold.</p>
+
+            <a href="${dashboardUrl}" class="button">Review in Dashboard</a>
+
+            <p>Best regards,<br>The NOION Analytics Team</p>
+          </div>
+          <div class="footer">
+            <p>NOION Analytics - AI-Powered Restaurant Intelligence</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const alertsText = alerts.map(alert => [
+      `- ${alert.employeeName}: projected ${describe(alert)}`,
+      ...alert.swaps.map(swap => `    ${describeSwap(swap)}`)
+    ].join('\n')).join('\n');
+
+    const text = `
+Hi there,
+
+Based on hours clocked so far and the rest of the schedule, these employees are on track for overtime at ${restaurantName}:
+
+${alertsText}
+
+Moving the listed shifts to the suggested coworkers would keep everyone under the overtime threshold.
+
+Review in your dashboard: ${dashboardUrl}
+
+Best regards,
+The NOION Analytics Team
+    `.trim();
+
+    return await this.sendEmail({
+      to: email,
+      subject: `⏱️ Overtime risk at ${restaurantName}`,
+      html,
+      text
+    });
+  }
 }
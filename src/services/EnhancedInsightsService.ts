@@ -45,6 +45,8 @@ export interface EnhancedInsight {
     confidence: number;
     basedOnRestaurants: number;
     accuracy: number;
+    drivenBy: 'global' | 'regional' | 'restaurant';
+    explanation: string;
   }>;
 }
 
@@ -87,7 +89,7 @@ export class EnhancedInsightsService extends InsightGeneratorService {
     const predictions = await this.getPredictions(restaurantId, location, contextualFactors);
 
     // Get learned patterns
-    const patterns = await this.getLearnedPatterns(restaurantId, location);
+    const patterns = await this.getLearnedPatterns(restaurantId);
 
     // Generate enhanced recommendations based on all data
     const enhancedRecommendations = await this.generateEnhancedRecommendations(
@@ -188,24 +190,17 @@ export class EnhancedInsightsService extends InsightGeneratorService {
   /**
    * Get learned patterns for this restaurant
    */
-  private async getLearnedPatterns(restaurantId: string, location: any) {
-    const Correlation = (await import('../models/Correlation')).default;
+  private async getLearnedPatterns(restaurantId: string) {
+    const profile = await correlationEngine.getRestaurantProfile(restaurantId);
+    const patterns = await correlationEngine.findBlendedPatterns(restaurantId, profile);
 
-    const region = locationService.getRegion(location.state);
-    const restaurant = await Restaurant.findById(restaurantId);
-    const cuisineType = restaurant?.type || 'casual_dining';
-
-    const patterns = await Correlation.findForRestaurant(
-      restaurantId,
-      region,
-      cuisineType
-    );
-
-    return patterns.slice(0, 5).map((p: any) => ({
-      description: p.pattern.description,
+    return patterns.slice(0, 5).map(p => ({
+      description: p.pattern.pattern.description,
       confidence: p.confidence,
-      basedOnRestaurants: p.learning.restaurantsContributing,
-      accuracy: p.learning.accuracy
+      basedOnRestaurants: Math.max(...p.contributions.map(c => c.restaurantsContributing)),
+      accuracy: p.contributions.reduce((sum, c) => sum + c.accuracy * c.weight, 0),
+      drivenBy: p.drivenBy,
+      explanation: p.explanation
     }));
   }
 
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import type { IWeatherHour } from '../models/WeatherHistory';
 
 /**
  * External Data Service
@@ -29,6 +30,25 @@ export interface WeatherData {
   weatherCategory: 'excellent' | 'good' | 'fair' | 'poor' | 'severe';
 }
 
+// One local day of Open-Meteo data: daily summary plus its hours
+export interface WeatherDay {
+  date: string; // YYYY-MM-DD in the requested timezone
+  temperatureMax: number;
+  temperatureMin: number;
+  temperatureMean: number;
+  precipitation: number;
+  rain: number;
+  snowfall: number;
+  weatherCode: number;
+  hourly: IWeatherHour[];
+}
+
+const OPEN_METEO_HOURLY = 'temperature_2m,relative_humidity_2m,precipitation,rain,snowfall,cloud_cover,wind_speed_10m,weather_code';
+const OPEN_METEO_DAILY = 'temperature_2m_max,temperature_2m_min,temperature_2m_mean,precipitation_sum,rain_sum,snowfall_sum,weather_code';
+
+// WMO codes for violent rain showers, heavy snow showers and thunderstorms
+const SEVERE_WEATHER_CODES = [82, 86, 95, 96, 99];
+
 export class WeatherService {
   private apiKey: string;
   private baseUrl = 'https://api.openweathermap.org/data/2.5';
@@ -142,7 +162,7 @@ export class WeatherService {
     const isRaining = rain > 0 || (weatherCode >= 51 && weatherCode <= 67);
     const isSnowing = snowfall > 0 || (weatherCode >= 71 && weatherCode <= 77);
     const isClear = weatherCode === 0;
-    const isExtreme = temp < 32 || temp > 95 || (weatherCode >= 80 && weatherCode <= 99);
+    const isExtreme = temp < 32 || temp > 95 || SEVERE_WEATHER_CODES.includes(weatherCode);
 
     let weatherCategory: 'excellent' | 'good' | 'fair' | 'poor' | 'severe';
     if (isExtreme) {
@@ -259,7 +279,7 @@ export class WeatherService {
       const isRaining = rain > 0 || (weatherCode >= 51 && weatherCode <= 67);
       const isSnowing = snowfall > 0 || (weatherCode >= 71 && weatherCode <= 77);
       const isClear = weatherCode === 0;
-      const isExtreme = temp < 32 || temp > 95 || (weatherCode >= 80 && weatherCode <= 99);
+      const isExtreme = temp < 32 || temp > 95 || SEVERE_WEATHER_CODES.includes(weatherCode);
 
       let weatherCategory: 'excellent' | 'good' | 'fair' | 'poor' | 'severe';
       if (isExtreme) {
@@ -296,6 +316,165 @@ export class WeatherService {
     return forecasts;
   }
 
+  /**
+   * Observed weather for a range of local dates (Open-Meteo archive, FREE).
+   * The archive lags ~5 days; days it hasn't published yet are left out.
+   */
+  async getHistoricalWeatherRange(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<WeatherDay[]> {
+    return this.fetchOpenMeteoDays('https://archive-api.open-meteo.com/v1/archive', lat, lon, startDate, endDate, timezone);
+  }
+
+  /**
+   * Forecast (or recent modelled) weather for a range of local dates.
+   * Open-Meteo serves up to 92 days back and 16 days ahead here.
+   */
+  async getWeatherForecastRange(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<WeatherDay[]> {
+    return this.fetchOpenMeteoDays('https://api.open-meteo.com/v1/forecast', lat, lon, startDate, endDate, timezone);
+  }
+
+  /**
+   * Summarize a stored day the same way as a forecast day
+   */
+  toWeatherData(day: WeatherDay): WeatherData {
+    const temp = day.temperatureMean;
+    const weatherCode = day.weatherCode;
+    const { condition, description } = this.describeWeatherCode(weatherCode);
+
+    const isRaining = day.rain > 0 || (weatherCode >= 51 && weatherCode <= 67);
+    const isSnowing = day.snowfall > 0 || (weatherCode >= 71 && weatherCode <= 77);
+    const isClear = weatherCode === 0;
+    const isExtreme = day.temperatureMax > 95 || day.temperatureMin < 32 || SEVERE_WEATHER_CODES.includes(weatherCode);
+
+    let weatherCategory: 'excellent' | 'good' | 'fair' | 'poor' | 'severe';
+    if (isExtreme) {
+      weatherCategory = 'severe';
+    } else if (isRaining || isSnowing) {
+      weatherCategory = 'poor';
+    } else if (weatherCode > 0 && weatherCode <= 3) {
+      weatherCategory = 'fair';
+    } else if (isClear && temp >= 65 && temp <= 85) {
+      weatherCategory = 'excellent';
+    } else {
+      weatherCategory = 'good';
+    }
+
+    const hours = day.hourly || [];
+    const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+    return {
+      timestamp: new Date(`${day.date}T12:00:00.000Z`),
+      temperature: temp,
+      feelsLike: temp,
+      condition,
+      description,
+      humidity: average(hours.map(h => h.humidity).filter(v => v != null)),
+      precipitation: day.precipitation,
+      windSpeed: average(hours.map(h => h.windSpeed).filter(v => v != null)),
+      visibility: 10000,
+      uvIndex: 0,
+      isRaining,
+      isSnowing,
+      isClear,
+      isExtreme,
+      weatherCategory
+    };
+  }
+
+  private async fetchOpenMeteoDays(
+    url: string,
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<WeatherDay[]> {
+    const response = await axios.get(url, {
+      params: {
+        latitude: lat,
+        longitude: lon,
+        start_date: startDate,
+        end_date: endDate,
+        hourly: OPEN_METEO_HOURLY,
+        daily: OPEN_METEO_DAILY,
+        temperature_unit: 'fahrenheit',
+        wind_speed_unit: 'mph',
+        precipitation_unit: 'inch',
+        timezone
+      },
+      timeout: 30000
+    });
+
+    const daily = response.data?.daily;
+    const hourly = response.data?.hourly;
+    if (!daily?.time) {
+      return [];
+    }
+
+    // Hours grouped by their local date prefix
+    const hoursByDate = new Map<string, IWeatherHour[]>();
+    (hourly?.time || []).forEach((time: string, i: number) => {
+      if (hourly.temperature_2m[i] == null) return;
+      const date = time.slice(0, 10);
+      const hours = hoursByDate.get(date) || [];
+      hours.push({
+        time,
+        temperature: hourly.temperature_2m[i],
+        humidity: hourly.relative_humidity_2m[i],
+        precipitation: hourly.precipitation[i] || 0,
+        rain: hourly.rain[i] || 0,
+        snowfall: hourly.snowfall[i] || 0,
+        cloudCover: hourly.cloud_cover[i],
+        windSpeed: hourly.wind_speed_10m[i],
+        weatherCode: hourly.weather_code[i]
+      });
+      hoursByDate.set(date, hours);
+    });
+
+    const days: WeatherDay[] = [];
+    daily.time.forEach((date: string, i: number) => {
+      const max = daily.temperature_2m_max[i];
+      const min = daily.temperature_2m_min[i];
+      // Unpublished days come back as nulls
+      if (max == null || min == null) return;
+
+      days.push({
+        date,
+        temperatureMax: max,
+        temperatureMin: min,
+        temperatureMean: daily.temperature_2m_mean?.[i] ?? (max + min) / 2,
+        precipitation: daily.precipitation_sum[i] || 0,
+        rain: daily.rain_sum[i] || 0,
+        snowfall: daily.snowfall_sum[i] || 0,
+        weatherCode: daily.weather_code[i] ?? 0,
+        hourly: hoursByDate.get(date) || []
+      });
+    });
+
+    return days;
+  }
+
+  // WMO weather codes to conditions
+  private describeWeatherCode(weatherCode: number): { condition: string; description: string } {
+    if (weatherCode >= 1 && weatherCode <= 3) return { condition: 'clouds', description: 'partly cloudy' };
+    if (weatherCode >= 45 && weatherCode <= 48) return { condition: 'mist', description: 'foggy' };
+    if (weatherCode >= 51 && weatherCode <= 67) return { condition: 'rain', description: 'rainy' };
+    if (weatherCode >= 71 && weatherCode <= 77) return { condition: 'snow', description: 'snowy' };
+    if (weatherCode >= 80 && weatherCode <= 99) return { condition: 'thunderstorm', description: 'thunderstorm' };
+    return { condition: 'clear', description: 'clear sky' };
+  }
+
   private parseWeatherResponse(data: any): WeatherData {
     const temp = data.main.temp;
     const condition = data.weather[0].main.toLowerCase();
@@ -0,0 +1,259 @@
+/**
+ * Forecast Accuracy Service
+ *
+ * Records every DayPrediction PredictionEngine generates and scores it
+ * against the day's actual Transaction totals once the day is over:
+ * - MAPE: mean absolute % error (how far off, either way)
+ * - bias: mean signed % error (positive = we over-forecast)
+ * - coverage: share of days whose actual landed in the predicted low-high range
+ *
+ * Accuracy history backs the owner dashboard and /api/analytics/predictions,
+ * and flags when the recent error has degraded against the period before.
+ */
+
+import { Types } from 'mongoose';
+import Transaction from '../models/Transaction';
+import Restaurant from '../models/Restaurant';
+import PredictionRecord, { IPredictionRecord, PredictionSource } from '../models/PredictionRecord';
+import type { DayPrediction } from './PredictionEngine';
+import { toLocalDate, addDays } from '../utils/timezone';
+
+// Zero-sales days may just be unsynced; wait this long before scoring them as closed
+const CLOSED_DAY_GRACE_DAYS = 7;
+// Minimum scored days in both windows before calling a change a degradation
+const MIN_DAYS_FOR_DEGRADATION = 7;
+// Relative MAPE increase (vs. the previous window) that counts as degraded
+const DEGRADATION_THRESHOLD = 0.25;
+
+export interface RecordedPrediction {
+  date: string; // Local YYYY-MM-DD
+  leadDays: number;
+  source: PredictionSource;
+  prediction: DayPrediction;
+}
+
+export interface AccuracySummary {
+  scoredDays: number;
+  mape: number | null;
+  bias: number | null;
+  coverage: number | null; // % of days within the predicted range
+}
+
+export interface AccuracyHistory {
+  startDate: string;
+  endDate: string;
+  summary: AccuracySummary;
+  previousPeriod: AccuracySummary;
+  degraded: boolean;
+  byLeadDays: Array<AccuracySummary & { leadDays: number }>;
+  bySource: Array<AccuracySummary & { source: PredictionSource }>;
+  daily: Array<{
+    date: string;
+    leadDays: number;
+    source: PredictionSource;
+    predicted: number;
+    low: number;
+    high: number;
+    actual: number;
+    percentError: number | null;
+    withinRange: boolean;
+  }>;
+}
+
+export class ForecastAccuracyService {
+  /**
+   * Store a batch of predictions (replacing earlier ones for the same date and lead)
+   */
+  async recordPredictions(restaurantId: string, timezone: string, predictions: RecordedPrediction[]): Promise<void> {
+    if (predictions.length === 0) return;
+
+    const generatedAt = new Date();
+
+    await PredictionRecord.bulkWrite(
+      predictions.map(({ date, leadDays, source, prediction }) => ({
+        updateOne: {
+          filter: { restaurantId: new Types.ObjectId(restaurantId), date, leadDays },
+          update: {
+            $set: {
+              timezone,
+              generatedAt,
+              source,
+              revenue: prediction.predictions.revenue,
+              orders: prediction.predictions.traffic.predicted,
+              factors: prediction.factors
+            },
+            // A regenerated prediction starts unscored
+            $unset: { actual: '', score: '', scoredAt: '' }
+          },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    );
+  }
+
+  /**
+   * Score every unscored prediction for days that are over
+   */
+  async scoreRestaurant(restaurantId: string): Promise<{ scored: number; pending: number }> {
+    const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings.timezone');
+    const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+    const today = toLocalDate(new Date(), timezone);
+
+    const unscored = await PredictionRecord.find({
+      restaurantId: new Types.ObjectId(restaurantId),
+      scoredAt: { $exists: false },
+      date: { $lt: today }
+    });
+
+    if (unscored.length === 0) {
+      return { scored: 0, pending: 0 };
+    }
+
+    const dates = Array.from(new Set(unscored.map(r => r.date))).sort();
+    const actuals = await this.loadActuals(restaurantId, dates[0], dates[dates.length - 1], timezone);
+    const closedBefore = addDays(today, -CLOSED_DAY_GRACE_DAYS);
+
+    let scored = 0;
+    let pending = 0;
+    const scoredAt = new Date();
+
+    for (const record of unscored) {
+      const actual = actuals.get(record.date) || { revenue: 0, orders: 0 };
+
+      // No sales yet - probably a sync gap; score as closed only once it's old
+      if (actual.revenue === 0 && record.date >= closedBefore) {
+        pending++;
+        continue;
+      }
+
+      const { predicted, low, high } = record.revenue;
+      record.actual = actual;
+      record.score = {
+        error: predicted - actual.revenue,
+        percentError: actual.revenue > 0 ? ((predicted - actual.revenue) / actual.revenue) * 100 : null,
+        withinRange: actual.revenue >= low && actual.revenue <= high
+      };
+      record.scoredAt = scoredAt;
+      await record.save();
+      scored++;
+    }
+
+    console.log(`🎯 Scored ${scored} predictions for restaurant ${restaurantId} (${pending} awaiting sales data)`);
+    return { scored, pending };
+  }
+
+  /**
+   * Accuracy over a date range, compared with the equally long range before it
+   */
+  async getAccuracyHistory(restaurantId: string, startDate: Date, endDate: Date): Promise<AccuracyHistory> {
+    const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings.timezone');
+    const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+
+    const start = toLocalDate(startDate, timezone);
+    const end = toLocalDate(endDate, timezone);
+    const periodDays = Math.max(1, Math.round((Date.parse(end) - Date.parse(start)) / 86400000) + 1);
+    const previousStart = addDays(start, -periodDays);
+
+    const records = await PredictionRecord.find({
+      restaurantId: new Types.ObjectId(restaurantId),
+      scoredAt: { $exists: true },
+      date: { $gte: previousStart, $lte: end }
+    }).sort({ date: 1, leadDays: 1 });
+
+    const current = records.filter(r => r.date >= start);
+    const previous = records.filter(r => r.date < start);
+
+    const summary = this.summarize(current);
+    const previousPeriod = this.summarize(previous);
+    const degraded = summary.mape !== null && previousPeriod.mape !== null &&
+      summary.scoredDays >= MIN_DAYS_FOR_DEGRADATION &&
+      previousPeriod.scoredDays >= MIN_DAYS_FOR_DEGRADATION &&
+      summary.mape > previousPeriod.mape * (1 + DEGRADATION_THRESHOLD);
+
+    const leads = Array.from(new Set(current.map(r => r.leadDays))).sort((a, b) => a - b);
+    const sources = Array.from(new Set(current.map(r => r.source)));
+
+    // One point per date: the shortest-lead prediction (records are sorted by lead)
+    const byDate = new Map<string, IPredictionRecord>();
+    current.forEach(r => {
+      if (!byDate.has(r.date)) byDate.set(r.date, r);
+    });
+
+    return {
+      startDate: start,
+      endDate: end,
+      summary,
+      previousPeriod,
+      degraded,
+      byLeadDays: leads.map(leadDays => ({
+        leadDays,
+        ...this.summarize(current.filter(r => r.leadDays === leadDays))
+      })),
+      bySource: sources.map(source => ({
+        source,
+        ...this.summarize(current.filter(r => r.source === source))
+      })),
+      daily: Array.from(byDate.values()).map(r => ({
+        date: r.date,
+        leadDays: r.leadDays,
+        source: r.source,
+        predicted: r.revenue.predicted,
+        low: r.revenue.low,
+        high: r.revenue.high,
+        actual: r.actual?.revenue || 0,
+        percentError: r.score?.percentError ?? null,
+        withinRange: r.score?.withinRange || false
+      }))
+    };
+  }
+
+  private summarize(records: IPredictionRecord[]): AccuracySummary {
+    const withError = records.filter(r => r.score?.percentError !== null && r.score?.percentError !== undefined);
+    const errors = withError.map(r => r.score!.percentError!);
+
+    return {
+      scoredDays: new Set(records.map(r => r.date)).size,
+      mape: errors.length > 0 ? errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length : null,
+      bias: errors.length > 0 ? errors.reduce((sum, e) => sum + e, 0) / errors.length : null,
+      coverage: records.length > 0
+        ? (records.filter(r => r.score?.withinRange).length / records.length) * 100
+        : null
+    };
+  }
+
+  /**
+   * Actual revenue and order count per local date
+   */
+  private async loadActuals(
+    restaurantId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<Map<string, { revenue: number; orders: number }>> {
+    const rows: Array<{ _id: string; revenue: number; orders: number }> = await Transaction.aggregate([
+      {
+        $match: {
+          restaurantId: new Types.ObjectId(restaurantId),
+          // Pad a day each side; local dates are matched exactly below
+          transactionDate: {
+            $gte: new Date(`${addDays(startDate, -1)}T00:00:00.000Z`),
+            $lt: new Date(`${addDays(endDate, 2)}T00:00:00.000Z`)
+          }
+        }
+      },
+      {
+        $group: {
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate', timezone } },
+          revenue: { $sum: { $ifNull: ['$total', '$totalAmount'] } },
+          orders: { $sum: 1 }
+        }
+      }
+    ]);
+
+    return new Map(rows.map(row => [row._id, { revenue: row.revenue, orders: row.orders }]));
+  }
+}
+
+// Export singleton instance
+export const forecastAccuracyService = new ForecastAccuracyService();
@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { Restaurant, Transaction } from '../models';
+import SyncJob from '../models/SyncJob';
+import { enqueueSyncJob } from '../lib/mongoQueue';
+import { toLocalDate, localMidnightUtc, addDays } from '../utils/timezone';
+
+/**
+ * Gap Detection Service
+ *
+ * Incremental syncs only move forward from posConfig.lastSyncAt, so a window
+ * that fails mid-way leaves days silently missing. This scans daily
+ * Transaction coverage against the restaurant's business hours, flags open
+ * days with no (or anomalously few) orders, and enqueues narrow SyncJobs
+ * covering just those days.
+ */
+
+const DEFAULT_LOOKBACK_DAYS = 60;
+// A day below this share of its weekday's median order count is suspicious
+const LOW_VOLUME_RATIO = 0.25;
+// Need this many same-weekday days with orders before judging "low"
+const MIN_WEEKDAY_SAMPLES = 3;
+// Late-night orders can land after midnight on the previous business day
+const LATE_NIGHT_PADDING_HOURS = 4;
+// Don't re-fill a gap that a gap re-sync already covered this recently
+const REFILL_COOLDOWN_DAYS = 30;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export interface IDataGap {
+  businessDate: string; // YYYY-MM-DD in the restaurant's timezone
+  orderCount: number;
+  expectedCount: number;
+  reason: 'missing' | 'low_volume';
+}
+
+export interface IGapRange {
+  startDate: Date;
+  endDate: Date;
+  businessDates: string[];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export class GapDetectionService {
+
+  /**
+   * Find open business days with no or anomalously few transactions.
+   * Today is excluded (still trading); so are days before the first transaction.
+   */
+  async detectGaps(restaurantId: string, lookbackDays: number = DEFAULT_LOOKBACK_DAYS): Promise<IDataGap[]> {
+    const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings');
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const businessHours = restaurant.analyticsSettings?.businessHours;
+
+    const today = toLocalDate(new Date(), timezone);
+    const windowStart = addDays(today, -lookbackDays);
+
+    const counts = await Transaction.aggregate<{ _id: string; count: number }>([
+      {
+        $match: {
+          restaurantId: new mongoose.Types.ObjectId(restaurantId),
+          transactionDate: {
+            $gte: localMidnightUtc(windowStart, timezone),
+            $lt: localMidnightUtc(today, timezone)
+          }
+        }
+      },
+      {
+        $group: {
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate', timezone } },
+          count: { $sum: 1 }
+        }
+      }
+    ]);
+
+    if (counts.length === 0) {
+      // Nothing synced in the window at all - that's a missing initial sync, not a gap
+      return [];
+    }
+
+    const countByDate = new Map(counts.map(c => [c._id, c.count]));
+    const firstDate = counts.map(c => c._id).sort()[0];
+
+    // Walk every day from the first synced day up to yesterday
+    const days: Array<{ date: string; weekday: typeof WEEKDAYS[number]; count: number }> = [];
+    for (let date = firstDate; date < today; date = addDays(date, 1)) {
+      const weekday = WEEKDAYS[new Date(`${date}T12:00:00.000Z`).getUTCDay()];
+      if (businessHours?.[weekday]?.closed) continue;
+      days.push({ date, weekday, count: countByDate.get(date) || 0 });
+    }
+
+    // Typical volume per weekday, from days that have orders
+    const weekdayMedians = new Map<string, { median: number; samples: number }>();
+    for (const weekday of WEEKDAYS) {
+      const samples = days.filter(d => d.weekday === weekday && d.count > 0).map(d => d.count);
+      weekdayMedians.set(weekday, { median: median(samples), samples: samples.length });
+    }
+
+    const gaps: IDataGap[] = [];
+    for (const day of days) {
+      const typical = weekdayMedians.get(day.weekday)!;
+
+      if (day.count === 0) {
+        gaps.push({ businessDate: day.date, orderCount: 0, expectedCount: Math.round(typical.median), reason: 'missing' });
+      } else if (typical.samples >= MIN_WEEKDAY_SAMPLES && day.count < typical.median * LOW_VOLUME_RATIO) {
+        gaps.push({ businessDate: day.date, orderCount: day.count, expectedCount: Math.round(typical.median), reason: 'low_volume' });
+      }
+    }
+
+    console.log(`🔍 Gap scan for restaurant ${restaurantId}: ${days.length} open days checked, ${gaps.length} gaps`);
+    return gaps;
+  }
+
+  /**
+   * Merge consecutive gap dates into UTC sync ranges
+   */
+  toRanges(gaps: IDataGap[], timezone: string): IGapRange[] {
+    const dates = gaps.map(g => g.businessDate).sort();
+    const ranges: IGapRange[] = [];
+
+    for (const date of dates) {
+      const last = ranges[ranges.length - 1];
+      if (last && addDays(last.businessDates[last.businessDates.length - 1], 1) === date) {
+        last.businessDates.push(date);
+      } else {
+        ranges.push({ startDate: new Date(0), endDate: new Date(0), businessDates: [date] });
+      }
+    }
+
+    for (const range of ranges) {
+      const lastDate = range.businessDates[range.businessDates.length - 1];
+      range.startDate = localMidnightUtc(range.businessDates[0], timezone);
+      range.endDate = new Date(
+        localMidnightUtc(addDays(lastDate, 1), timezone).getTime() + LATE_NIGHT_PADDING_HOURS * 60 * 60 * 1000
+      );
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Detect gaps and enqueue one narrow SyncJob per contiguous range.
+   * Ranges already covered by an active or recent gap re-sync are skipped,
+   * so genuinely quiet days aren't re-fetched every run.
+   */
+  async detectAndResync(
+    restaurantId: string,
+    lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+  ): Promise<{ gaps: IDataGap[]; ranges: IGapRange[]; jobIds: string[] }> {
+    const restaurant = await Restaurant.findById(restaurantId).select('posConfig analyticsSettings.timezone');
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const posType = restaurant.posConfig?.type as 'toast' | 'square' | 'clover';
+    if (!restaurant.posConfig?.isConnected || !['toast', 'square', 'clover'].includes(posType)) {
+      return { gaps: [], ranges: [], jobIds: [] };
+    }
+
+    const gaps = await this.detectGaps(restaurantId, lookbackDays);
+    const ranges = this.toRanges(gaps, restaurant.analyticsSettings?.timezone || 'America/New_York');
+    const jobIds: string[] = [];
+
+    const cooldownStart = new Date(Date.now() - REFILL_COOLDOWN_DAYS * 24 * 60 * 60 * 1000);
+
+    for (const range of ranges) {
+      const alreadyCovered = await SyncJob.exists({
+        restaurantId: restaurant._id,
+        'options.reason': 'gap_fill',
+        'options.startDate': { $lte: range.startDate },
+        'options.endDate': { $gte: range.endDate },
+        $or: [
+          { status: { $in: ['pending', 'processing'] } },
+          { status: 'completed', completedAt: { $gte: cooldownStart } }
+        ]
+      });
+
+      if (alreadyCovered) {
+        continue;
+      }
+
+      const jobId = await enqueueSyncJob({
+        restaurantId,
+        posType,
+        options: {
+          startDate: range.startDate,
+          endDate: range.endDate,
+          reason: 'gap_fill'
+        }
+      });
+      jobIds.push(jobId);
+    }
+
+    if (jobIds.length > 0) {
+      console.log(`🩹 Enqueued ${jobIds.length} gap re-sync jobs for restaurant ${restaurantId}`);
+    }
+
+    return { gaps, ranges, jobIds };
+  }
+}
+
+// Export singleton instance
+export const gapDetectionService = new GapDetectionService();
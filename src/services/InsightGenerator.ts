@@ -1,4 +1,3 @@
-// import { Anthropic } from '@anthropic-ai/sdk';
 import axios from 'axios';
 import { Restaurant, Insight, Transaction, IInsight } from '../models';
 import { 
@@ -10,11 +9,81 @@ import {
   IRecommendation,
   IBenchmark
 } from '../models/Insight';
-
-// Claude AI client configuration
-// const anthropic = new Anthropic({
-//   apiKey: process.env.ANTHROPIC_API_KEY || '',
-// });
+import { ILLMProvider, LLMMessage, createLLMProvider } from './LLMProvider';
+import { JsonSchema, validateJsonSchema } from '../utils/jsonSchema';
+import { insightVersioningService } from './InsightVersioningService';
+import { ISalesReport } from '../models/SalesReport';
+
+// Model calls per insight: the first answer plus one retry on malformed output
+const MAX_MODEL_ATTEMPTS = 2;
+const MAX_OUTPUT_TOKENS = 4000;
+// A retry after a cut-off answer gets a bigger budget, up to this
+const MAX_RETRY_OUTPUT_TOKENS = 8000;
+
+const PRIORITY_VALUES = Object.values(InsightPriority);
+const CATEGORY_VALUES = Object.values(InsightCategory);
+
+// Shape the model must answer with - sent in the prompt and checked on return
+const INSIGHT_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary', 'keyFindings', 'recommendations'],
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    keyFindings: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 7,
+      items: {
+        type: 'object',
+        required: ['category', 'title', 'description', 'financialImpact', 'confidenceScore', 'priority'],
+        properties: {
+          category: { type: 'string', enum: CATEGORY_VALUES },
+          title: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          financialImpact: {
+            type: 'object',
+            required: ['amount', 'timeframe'],
+            properties: {
+              amount: { type: 'number' },
+              timeframe: { type: 'string', enum: ['monthly', 'weekly', 'daily', 'annually'] }
+            }
+          },
+          confidenceScore: { type: 'number', minimum: 0, maximum: 100 },
+          priority: { type: 'string', enum: PRIORITY_VALUES }
+        }
+      }
+    },
+    recommendations: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 7,
+      items: {
+        type: 'object',
+        required: ['title', 'description', 'category', 'priority', 'difficulty', 'timeRequired', 'cost', 'roi', 'steps', 'successMetrics'],
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          category: { type: 'string', enum: CATEGORY_VALUES },
+          priority: { type: 'string', enum: PRIORITY_VALUES },
+          difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+          timeRequired: { type: 'string', minLength: 1 },
+          cost: { type: 'number', minimum: 0 },
+          roi: {
+            type: 'object',
+            required: ['expectedReturn', 'timeframe', 'probability'],
+            properties: {
+              expectedReturn: { type: 'number' },
+              timeframe: { type: 'string', minLength: 1 },
+              probability: { type: 'number', minimum: 0, maximum: 100 }
+            }
+          },
+          steps: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+          successMetrics: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  }
+};
 
 // Industry benchmarks (based on restaurant industry data)
 const INDUSTRY_BENCHMARKS = {
@@ -78,12 +147,29 @@ interface IAnalysisResult {
   };
 }
 
+// Structured insight content plus how it was produced
+interface IAIInsights {
+  summary: string;
+  keyFindings: IKeyFinding[];
+  recommendations: IRecommendation[];
+  aiResponse: string;
+  model: string;
+  provider: string;
+  attempts: number;
+  inputTokens: number;
+  outputTokens: number;
+  tokensUsed: number;
+  processingTime: number;
+}
+
 /**
  * Core AI Insight Generation Engine
  * Analyzes restaurant data and generates actionable insights using Claude AI
  */
 export class InsightGeneratorService {
-  private promptVersion = '1.0';
+  private promptVersion = '1.1';
+
+  constructor(private readonly llm: ILLMProvider = createLLMProvider()) {}
 
   /**
    * Generate comprehensive insights for a restaurant
@@ -143,7 +229,8 @@ export class InsightGeneratorService {
     }).sort({ transactionDate: -1 });
     
     if (transactions.length === 0) {
-      throw new Error('No transaction data available for analysis');
+      // Restaurants without API access may have uploaded POS report exports instead
+      return this.analyzeSalesReports(restaurantId, startDate, endDate);
     }
 
     // Analyze revenue leakage
@@ -166,6 +253,120 @@ export class InsightGeneratorService {
     };
   }
 
+  /**
+   * Reports whose periods don't overlap, preferring the most recently
+   * imported, so re-exports of the same weeks aren't added up twice
+   */
+  private nonOverlappingReports(reports: ISalesReport[]): ISalesReport[] {
+    const kept: ISalesReport[] = [];
+    [...reports]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .forEach(report => {
+        const overlaps = kept.some(other => report.periodStart <= other.periodEnd && report.periodEnd >= other.periodStart);
+        if (!overlaps) kept.push(report);
+      });
+    return kept;
+  }
+
+  /**
+   * Analyze imported sales report aggregates (no per-transaction data).
+   * Only discount, void and hourly figures are available, so employee
+   * metrics are left empty and wait-time checks are skipped.
+   */
+  private async analyzeSalesReports(
+    restaurantId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<IAnalysisResult> {
+    const { toastReportImport } = await import('./ToastReportImport');
+    const reports = this.nonOverlappingReports(
+      await toastReportImport.getReportsForPeriod(restaurantId, startDate, endDate)
+    );
+
+    if (reports.length === 0) {
+      throw new Error('No transaction data available for analysis');
+    }
+
+    const totals = reports.reduce((acc, report) => ({
+      netSales: acc.netSales + report.summary.netSales,
+      discounts: acc.discounts + report.summary.discounts,
+      voidAmount: acc.voidAmount + report.summary.voidAmount,
+      voidOrderCount: acc.voidOrderCount + report.summary.voidOrderCount,
+      totalOrders: acc.totalOrders + report.summary.totalOrders
+    }), { netSales: 0, discounts: 0, voidAmount: 0, voidOrderCount: 0, totalOrders: 0 });
+
+    const avgTicket = totals.totalOrders > 0 ? totals.netSales / totals.totalOrders : 0;
+    const voidRate = totals.totalOrders > 0 ? totals.voidOrderCount / totals.totalOrders : 0;
+
+    // Revenue leakage - same rules as the transaction analysis where the data allows
+    const opportunities: IAnalysisResult['revenueLeakage']['opportunities'] = [];
+
+    const excessiveDiscounts = totals.discounts * 0.4; // 40% of discounts could be reduced
+    if (excessiveDiscounts > 100) {
+      opportunities.push({
+        category: 'Excessive Discounting',
+        amount: excessiveDiscounts,
+        description: `$${totals.discounts.toFixed(2)} in discounts applied, $${Math.round(excessiveDiscounts)} could be reduced`,
+        confidence: 60
+      });
+    }
+
+    if (totals.voidAmount > 0) {
+      opportunities.push({
+        category: 'Voided Orders',
+        amount: totals.voidAmount,
+        description: `${totals.voidOrderCount} voided orders worth $${totals.voidAmount.toFixed(2)}`,
+        confidence: 55
+      });
+    }
+
+    // Peak hours = the 4 busiest hours of the day by order count
+    const hourlyOrders = new Map<number, number>();
+    reports.forEach(report => report.hourOfDay.forEach(h => {
+      hourlyOrders.set(h.hour, (hourlyOrders.get(h.hour) || 0) + h.orders);
+    }));
+    const peakOrders = Array.from(hourlyOrders.values()).sort((a, b) => b - a).slice(0, 4)
+      .reduce((sum, orders) => sum + orders, 0);
+    const peakHourUtilization = totals.totalOrders > 0 ? (peakOrders / totals.totalOrders) * 100 : 0;
+
+    const staffOptimization: string[] = [];
+    if (peakHourUtilization < 30) {
+      staffOptimization.push('Consider reducing staff during off-peak hours');
+    }
+    if (peakHourUtilization > 70) {
+      staffOptimization.push('Consider adding staff during peak hours');
+    }
+
+    const satisfactionScore = Math.max(0, Math.min(100, 100 - voidRate * 100));
+    let serviceQuality: 'excellent' | 'good' | 'average' | 'poor';
+    if (satisfactionScore >= 85) serviceQuality = 'excellent';
+    else if (satisfactionScore >= 70) serviceQuality = 'good';
+    else if (satisfactionScore >= 55) serviceQuality = 'average';
+    else serviceQuality = 'poor';
+
+    return {
+      revenueLeakage: {
+        total: opportunities.reduce((sum, opp) => sum + opp.amount, 0),
+        opportunities
+      },
+      employeePerformance: {
+        topPerformers: [],
+        underPerformers: [],
+        averageMetrics: { avgTicket, voidRate }
+      },
+      customerExperience: {
+        satisfactionScore,
+        waitTimeIssues: false,
+        serviceQuality
+      },
+      operationalEfficiency: {
+        peakHourUtilization,
+        staffOptimization,
+        processImprovements: voidRate > 0.03 ? ['Improve order accuracy training'] : []
+      }
+    };
+  }
+
   /**
    * Detect revenue leakage opportunities
    */
@@ -426,112 +627,90 @@ export class InsightGeneratorService {
   }
 
   /**
-   * Generate AI-powered insights using Claude
+   * Generate AI-powered insights using the configured LLM provider.
+   * Malformed answers are retried with the validation errors; rule-based
+   * insights are used only if the model can't produce a valid answer.
    */
   private async generateAIInsights(
     restaurant: any,
     analysisResult: IAnalysisResult,
     insightType: InsightType
-  ): Promise<{
-    summary: string;
-    keyFindings: IKeyFinding[];
-    recommendations: IRecommendation[];
-    aiResponse: string;
-    tokensUsed: number;
-    processingTime: number;
-  }> {
+  ): Promise<IAIInsights> {
     const startTime = Date.now();
 
     // Create comprehensive prompt for Claude
     const prompt = this.buildClaudePrompt(restaurant, analysisResult, insightType);
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let attempts = 0;
+    let maxTokens = MAX_OUTPUT_TOKENS;
 
     try {
-      // For now, we'll use a mock response until we add the Anthropic SDK
-      // const response = await anthropic.messages.create({
-      //   model: 'claude-3-5-sonnet-20241022',
-      //   max_tokens: 4000,
-      //   temperature: 0.3,
-      //   messages: [{
-      //     role: 'user',
-      //     content: prompt
-      //   }]
-      // });
-
-      // Mock response for development - replace with actual Claude API call
-      const mockResponse = this.generateMockClaudeResponse(analysisResult, restaurant);
-      const processingTime = Date.now() - startTime;
-      
-      // Parse AI response into structured format
-      const parsed = this.parseAIResponse(JSON.stringify(mockResponse), analysisResult);
+      let lastError = '';
+
+      while (attempts < MAX_MODEL_ATTEMPTS) {
+        attempts++;
+        const response = await this.llm.complete({
+          messages,
+          maxTokens,
+          temperature: 0.3,
+          responseSchema: INSIGHT_RESPONSE_SCHEMA
+        });
+        inputTokens += response.inputTokens;
+        outputTokens += response.outputTokens;
+
+        try {
+          const parsed = this.parseAIResponse(response.text);
+
+          return {
+            ...parsed,
+            aiResponse: response.text,
+            model: response.model,
+            provider: this.llm.name,
+            attempts,
+            inputTokens,
+            outputTokens,
+            tokensUsed: inputTokens + outputTokens,
+            processingTime: Date.now() - startTime
+          };
+        } catch (error: any) {
+          lastError = response.stopReason === 'max_tokens'
+            ? `response was cut off at the token limit (${error.message})`
+            : error.message;
+          console.warn(`⚠️  Malformed AI response (attempt ${attempts}/${MAX_MODEL_ATTEMPTS}): ${lastError}`);
+
+          // The same limit would cut the answer off again
+          if (response.stopReason === 'max_tokens') {
+            if (maxTokens >= MAX_RETRY_OUTPUT_TOKENS) break;
+            maxTokens = Math.min(maxTokens * 2, MAX_RETRY_OUTPUT_TOKENS);
+          }
 
-      return {
-        ...parsed,
-        aiResponse: JSON.stringify(mockResponse),
-        tokensUsed: 1500, // Mock token count
-        processingTime
-      };
+          // Show the model its answer and what was wrong with it
+          messages.push(
+            { role: 'assistant', content: response.text || '(empty response)' },
+            {
+              role: 'user',
+              content: `That response could not be used: ${lastError}\n\nReply with only the corrected JSON object, matching the schema exactly.`
+            }
+          );
+        }
+      }
+
+      throw new Error(`No valid response after ${attempts} attempts: ${lastError}`);
 
     } catch (error) {
-      console.error('Claude API error:', error);
-      
-      // Fallback to rule-based insights if AI fails
-      return this.generateFallbackInsights(analysisResult, Date.now() - startTime);
-    }
-  }
+      console.error('AI insight generation failed:', error);
 
-  /**
-   * Generate mock Claude response for development
-   */
-  private generateMockClaudeResponse(analysisResult: IAnalysisResult, restaurant: any): any {
-    return {
-      summary: `${restaurant.name} shows $${analysisResult.revenueLeakage.total.toFixed(2)} in monthly revenue recovery opportunities. Key areas include upselling optimization and operational efficiency improvements.`,
-      keyFindings: [
-        {
-          category: 'revenue_optimization',
-          title: 'Significant Revenue Leakage Identified',
-          description: `Analysis revealed $${analysisResult.revenueLeakage.total.toFixed(2)} in monthly revenue recovery opportunities through improved upselling and reduced discounting.`,
-          financialImpact: {
-            amount: analysisResult.revenueLeakage.total,
-            timeframe: 'monthly'
-          },
-          confidenceScore: 85,
-          priority: 'high'
-        },
-        {
-          category: 'employee_performance',
-          title: 'Employee Performance Optimization',
-          description: `Top performers are generating ${analysisResult.employeePerformance.averageMetrics.avgTicket > 25 ? 'above' : 'below'} average tickets. Training opportunities identified for underperforming staff.`,
-          financialImpact: {
-            amount: analysisResult.employeePerformance.averageMetrics.avgTicket * 10,
-            timeframe: 'monthly'
-          },
-          confidenceScore: 75,
-          priority: 'medium'
-        }
-      ],
-      recommendations: [
-        {
-          title: 'Implement Upselling Training Program',
-          description: 'Train staff on suggestive selling techniques to increase average ticket size',
-          category: 'revenue_optimization',
-          priority: 'high',
-          difficulty: 'easy',
-          timeRequired: '2 weeks',
-          cost: 500,
-          roi: {
-            expectedReturn: analysisResult.revenueLeakage.total * 0.4,
-            timeframe: '60 days',
-            probability: 80
-          },
-          steps: [
-            'Conduct staff training on upselling techniques',
-            'Create point-of-sale prompts for servers',
-            'Monitor results and adjust approach'
-          ],
-          successMetrics: ['Average ticket size', 'Upselling conversion rate']
-        }
-      ]
-    };
+      // Fallback to rule-based insights if AI fails (tokens already spent still count)
+      return {
+        ...this.generateFallbackInsights(analysisResult, Date.now() - startTime),
+        attempts,
+        inputTokens,
+        outputTokens,
+        tokensUsed: inputTokens + outputTokens
+      };
+    }
   }
 
   /**
@@ -592,91 +771,93 @@ TASK: Generate a ${insightType} report with:
    - Step-by-step implementation
    - Success metrics to track
 
-Format your response as JSON with this structure:
-{
-  "summary": "Executive summary text",
-  "keyFindings": [...],
-  "recommendations": [...]
-}
+Respond with a single JSON object (no markdown, no commentary) that validates against this JSON Schema:
+${JSON.stringify(INSIGHT_RESPONSE_SCHEMA, null, 2)}
 
 Focus on actionable, specific advice that will directly impact revenue and customer satisfaction. Use restaurant industry best practices and be precise with financial estimates.`;
   }
 
   /**
-   * Parse AI response into structured format
+   * Parse and validate an AI response into structured format.
+   * Throws with the problems found if the response isn't usable.
    */
-  private parseAIResponse(
-    aiResponse: string,
-    analysisResult: IAnalysisResult
-  ): {
+  private parseAIResponse(aiResponse: string): {
     summary: string;
     keyFindings: IKeyFinding[];
     recommendations: IRecommendation[];
   } {
-    try {
-      // Try to parse JSON response
-      const parsed = JSON.parse(aiResponse);
-      
-      // Convert to our interface format
-      const keyFindings: IKeyFinding[] = parsed.keyFindings?.map((finding: any, index: number) => ({
-        category: this.mapCategory(finding.category),
-        title: finding.title,
-        description: finding.description,
-        impact: {
-          type: 'revenue',
-          value: finding.financialImpact?.amount || 0,
-          unit: '$',
-          timeframe: finding.financialImpact?.timeframe || 'monthly'
-        },
-        evidence: {
-          dataPoints: [],
-          trends: []
-        },
-        confidenceScore: finding.confidenceScore || 70,
-        priority: this.mapPriority(finding.priority)
-      })) || [];
-
-      const recommendations: IRecommendation[] = parsed.recommendations?.map((rec: any, index: number) => ({
-        id: `rec_${Date.now()}_${index}`,
-        title: rec.title,
-        description: rec.description,
-        category: this.mapCategory(rec.category),
-        priority: this.mapPriority(rec.priority),
-        implementation: {
-          difficulty: rec.difficulty || 'medium',
-          timeRequired: rec.timeRequired || '1 hour',
-          cost: rec.cost || 0,
-          roi: {
-            timeframe: rec.roi?.timeframe || '30 days',
-            expectedReturn: rec.roi?.expectedReturn || 0,
-            probability: rec.roi?.probability || 70
-          }
-        },
-        steps: rec.steps?.map((step: any, stepIndex: number) => ({
-          stepNumber: stepIndex + 1,
-          description: step,
-          estimatedTime: '30 minutes'
-        })) || [],
-        metrics: {
-          kpis: rec.successMetrics || [],
-          trackingMethod: 'POS system monitoring',
-          expectedImprovement: rec.expectedImprovement || 'Monitor for 30 days'
-        },
-        status: 'suggested'
-      })) || [];
+    // Models sometimes wrap the JSON in a code fence or a sentence
+    const start = aiResponse.indexOf('{');
+    const end = aiResponse.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error('response contains no JSON object');
+    }
 
-      return {
-        summary: parsed.summary || 'Analysis completed successfully.',
-        keyFindings,
-        recommendations
-      };
+    let parsed: any;
+    try {
+      parsed = JSON.parse(aiResponse.slice(start, end + 1));
+    } catch (error: any) {
+      throw new Error(`response is not valid JSON (${error.message})`);
+    }
 
-    } catch (error) {
-      console.error('Failed to parse AI response:', error);
-      
-      // Return structured fallback
-      return this.generateFallbackInsights(analysisResult, 0);
+    const errors = validateJsonSchema(parsed, INSIGHT_RESPONSE_SCHEMA);
+    if (errors.length > 0) {
+      throw new Error(`response does not match the schema: ${errors.slice(0, 10).join('; ')}`);
     }
+
+    // Convert to our interface format
+    const keyFindings: IKeyFinding[] = parsed.keyFindings.map((finding: any) => ({
+      category: this.mapCategory(finding.category),
+      title: finding.title,
+      description: finding.description,
+      impact: {
+        type: 'revenue',
+        value: finding.financialImpact.amount,
+        unit: '$',
+        timeframe: finding.financialImpact.timeframe
+      },
+      evidence: {
+        dataPoints: [],
+        trends: []
+      },
+      confidenceScore: finding.confidenceScore,
+      priority: this.mapPriority(finding.priority)
+    }));
+
+    const recommendations: IRecommendation[] = parsed.recommendations.map((rec: any, index: number) => ({
+      id: `rec_${Date.now()}_${index}`,
+      title: rec.title,
+      description: rec.description,
+      category: this.mapCategory(rec.category),
+      priority: this.mapPriority(rec.priority),
+      implementation: {
+        difficulty: rec.difficulty,
+        timeRequired: rec.timeRequired,
+        cost: rec.cost,
+        roi: {
+          timeframe: rec.roi.timeframe,
+          expectedReturn: rec.roi.expectedReturn,
+          probability: rec.roi.probability
+        }
+      },
+      steps: rec.steps.map((step: string, stepIndex: number) => ({
+        stepNumber: stepIndex + 1,
+        description: step,
+        estimatedTime: '30 minutes'
+      })),
+      metrics: {
+        kpis: rec.successMetrics || [],
+        trackingMethod: 'POS system monitoring',
+        expectedImprovement: 'Monitor for 30 days'
+      },
+      status: 'suggested'
+    }));
+
+    return {
+      summary: parsed.summary,
+      keyFindings,
+      recommendations
+    };
   }
 
   /**
@@ -685,14 +866,7 @@ Focus on actionable, specific advice that will directly impact revenue and custo
   private generateFallbackInsights(
     analysisResult: IAnalysisResult,
     processingTime: number
-  ): {
-    summary: string;
-    keyFindings: IKeyFinding[];
-    recommendations: IRecommendation[];
-    aiResponse: string;
-    tokensUsed: number;
-    processingTime: number;
-  } {
+  ): IAIInsights {
     const keyFindings: IKeyFinding[] = [];
     const recommendations: IRecommendation[] = [];
 
@@ -759,6 +933,11 @@ Focus on actionable, specific advice that will directly impact revenue and custo
       keyFindings,
       recommendations,
       aiResponse: 'Fallback analysis generated due to AI service unavailability.',
+      model: 'rule-based',
+      provider: 'fallback',
+      attempts: 0,
+      inputTokens: 0,
+      outputTokens: 0,
       tokensUsed: 0,
       processingTime
     };
@@ -802,7 +981,7 @@ Focus on actionable, specific advice that will directly impact revenue and custo
   private async createInsightRecord(
     restaurant: any,
     analysisResult: IAnalysisResult,
-    aiInsights: any,
+    aiInsights: IAIInsights,
     startDate: Date,
     endDate: Date,
     insightType: InsightType
@@ -822,6 +1001,13 @@ Focus on actionable, specific advice that will directly impact revenue and custo
       confidenceLevel: 75
     };
 
+    // Regenerations continue the chain for this restaurant and type, keeping
+    // what the owner already decided about recurring recommendations
+    const previousVersion = await insightVersioningService.findPreviousVersion(restaurant._id, insightType);
+    const recommendations = previousVersion
+      ? await insightVersioningService.carryForwardRecommendations(restaurant._id, insightType, aiInsights.recommendations)
+      : aiInsights.recommendations;
+
     // Create data source summary
     const dataSource = {
       transactions: {
@@ -841,14 +1027,18 @@ Focus on actionable, specific advice that will directly impact revenue and custo
       analysisEndDate: endDate,
       dataSource,
       keyFindings: aiInsights.keyFindings,
-      recommendations: aiInsights.recommendations,
+      recommendations,
       benchmarks,
       lostRevenue,
       aiAnalysis: {
-        model: 'claude-3-5-sonnet-20241022',
+        model: aiInsights.model,
+        provider: aiInsights.provider,
         promptVersion: this.promptVersion,
         rawResponse: aiInsights.aiResponse,
         processingTime: aiInsights.processingTime,
+        attempts: aiInsights.attempts,
+        inputTokens: aiInsights.inputTokens,
+        outputTokens: aiInsights.outputTokens,
         tokensUsed: aiInsights.tokensUsed
       },
       status: InsightStatus.GENERATED,
@@ -857,13 +1047,16 @@ Focus on actionable, specific advice that will directly impact revenue and custo
         emailOpened: false,
         reportViewed: false,
         recommendationsViewed: [],
-        recommendationsImplemented: [],
+        recommendationsImplemented: recommendations
+          .filter(rec => rec.status === 'completed')
+          .map(rec => rec.id),
         shareCount: 0,
         exportCount: 0
       },
       generatedBy: 'system',
       generatedAt: new Date(),
-      version: 1
+      version: previousVersion ? previousVersion.version + 1 : 1,
+      previousVersionId: previousVersion?._id
     };
 
     const insight = new Insight(insightData);
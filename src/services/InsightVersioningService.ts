@@ -0,0 +1,265 @@
+/**
+ * Insight Versioning Service
+ *
+ * Regenerating an insight (same restaurant, same type) creates the next
+ * version in a chain linked by previousVersionId. This service:
+ * - finds the version a regeneration follows
+ * - carries recommendation state forward: a regenerated recommendation that
+ *   matches one the owner already dismissed, completed or started in any
+ *   earlier version keeps that status (and its id, so impact tracking
+ *   continues), even if it was missing from the versions in between
+ * - diffs two versions: findings that are new, resolved, worsened, improved
+ *   or unchanged
+ *
+ * Findings and recommendations are free text from the model, so they are
+ * matched by category plus title similarity rather than exact equality.
+ */
+
+import { Types } from 'mongoose';
+import Insight, { IInsight, IKeyFinding, IRecommendation, InsightPriority, InsightType } from '../models/Insight';
+
+// Title similarity (word overlap) needed to treat two items as the same
+const MATCH_THRESHOLD = 0.5;
+// Relative change in a finding's impact that counts as worsened/improved
+const CHANGE_THRESHOLD = 0.1;
+// Versions returned in a history
+const MAX_HISTORY = 12;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'your', 'from', 'into', 'during', 'that', 'this', 'are', 'was', 'has', 'have'
+]);
+
+const PRIORITY_RANK: Record<InsightPriority, number> = {
+  [InsightPriority.LOW]: 0,
+  [InsightPriority.MEDIUM]: 1,
+  [InsightPriority.HIGH]: 2,
+  [InsightPriority.CRITICAL]: 3
+};
+
+export type FindingChange = 'new' | 'resolved' | 'worsened' | 'improved' | 'unchanged';
+
+export interface FindingDiff {
+  change: FindingChange;
+  category: string;
+  title: string;
+  current?: IKeyFinding;
+  previous?: IKeyFinding;
+  impactChange?: number; // Current - previous impact value
+  impactChangePercent?: number;
+}
+
+export interface InsightVersionSummary {
+  id: string;
+  version: number;
+  generatedAt: Date;
+  analysisStartDate: Date;
+  analysisEndDate: Date;
+}
+
+export interface InsightDiff {
+  current: InsightVersionSummary;
+  previous: InsightVersionSummary;
+  findings: FindingDiff[];
+  counts: Record<FindingChange, number>;
+  lostRevenue: { current: number; previous: number; change: number };
+  recommendations: {
+    new: string[];
+    carriedOver: string[];
+    dropped: string[];
+  };
+}
+
+export class InsightVersioningService {
+  /**
+   * Latest existing insight a regeneration for this restaurant and type follows
+   */
+  async findPreviousVersion(restaurantId: string | Types.ObjectId, type: InsightType): Promise<IInsight | null> {
+    return Insight.findOne({
+      restaurantId: new Types.ObjectId(String(restaurantId)),
+      type
+    }).sort({ generatedAt: -1, version: -1 });
+  }
+
+  /**
+   * Apply the owner's decisions on earlier versions to matching
+   * recommendations in a regeneration (mutates and returns `recommendations`)
+   */
+  async carryForwardRecommendations(
+    restaurantId: string | Types.ObjectId,
+    type: InsightType,
+    recommendations: IRecommendation[]
+  ): Promise<IRecommendation[]> {
+    const versions = await Insight.find({
+      restaurantId: new Types.ObjectId(String(restaurantId)),
+      type
+    })
+      .sort({ generatedAt: -1, version: -1 })
+      .select('recommendations');
+
+    // Latest state of each recommendation across the chain
+    const latest = new Map<string, IRecommendation>();
+    versions.forEach(version => version.recommendations.forEach(rec => {
+      if (!latest.has(rec.id)) latest.set(rec.id, rec);
+    }));
+    const available = Array.from(latest.values()).filter(rec => rec.status !== 'suggested');
+
+    for (const recommendation of recommendations) {
+      const match = this.bestMatch(recommendation, available);
+      if (!match) continue;
+
+      // One previous recommendation carries into at most one new one
+      available.splice(available.indexOf(match), 1);
+
+      recommendation.id = match.id;
+      recommendation.status = match.status;
+      recommendation.implementedAt = match.implementedAt;
+      recommendation.dismissedAt = match.dismissedAt;
+      recommendation.dismissalReason = match.dismissalReason;
+      recommendation.impact = match.impact;
+    }
+
+    return recommendations;
+  }
+
+  /**
+   * What changed between an insight and an earlier version
+   * (default: the version it follows)
+   */
+  async diff(current: IInsight, previous?: IInsight | null): Promise<InsightDiff | null> {
+    const base = previous || (current.previousVersionId ? await Insight.findById(current.previousVersionId) : null);
+    if (!base) return null;
+
+    const findings: FindingDiff[] = [];
+    const unmatched = [...base.keyFindings];
+
+    for (const finding of current.keyFindings) {
+      const match = this.bestMatch(finding, unmatched);
+      if (!match) {
+        findings.push({ change: 'new', category: finding.category, title: finding.title, current: finding });
+        continue;
+      }
+
+      unmatched.splice(unmatched.indexOf(match), 1);
+      const impactChange = finding.impact.value - match.impact.value;
+      const impactChangePercent = match.impact.value !== 0 ? (impactChange / Math.abs(match.impact.value)) * 100 : undefined;
+
+      findings.push({
+        change: this.classifyChange(finding, match),
+        category: finding.category,
+        title: finding.title,
+        current: finding,
+        previous: match,
+        impactChange,
+        impactChangePercent
+      });
+    }
+
+    unmatched.forEach(finding => {
+      findings.push({ change: 'resolved', category: finding.category, title: finding.title, previous: finding });
+    });
+
+    const counts: Record<FindingChange, number> = { new: 0, resolved: 0, worsened: 0, improved: 0, unchanged: 0 };
+    findings.forEach(f => counts[f.change]++);
+
+    const previousIds = new Set(base.recommendations.map(rec => rec.id));
+    const currentIds = new Set(current.recommendations.map(rec => rec.id));
+
+    return {
+      current: this.summarize(current),
+      previous: this.summarize(base),
+      findings,
+      counts,
+      lostRevenue: {
+        current: current.lostRevenue.total,
+        previous: base.lostRevenue.total,
+        change: current.lostRevenue.total - base.lostRevenue.total
+      },
+      recommendations: {
+        new: current.recommendations.filter(rec => !previousIds.has(rec.id)).map(rec => rec.title),
+        carriedOver: current.recommendations.filter(rec => previousIds.has(rec.id)).map(rec => rec.title),
+        dropped: base.recommendations.filter(rec => !currentIds.has(rec.id)).map(rec => rec.title)
+      }
+    };
+  }
+
+  /**
+   * Versions in an insight's chain, newest first
+   */
+  async getHistory(insight: IInsight): Promise<InsightVersionSummary[]> {
+    const history: InsightVersionSummary[] = [this.summarize(insight)];
+    let previousId = insight.previousVersionId;
+
+    while (previousId && history.length < MAX_HISTORY) {
+      const previous = await Insight.findById(previousId)
+        .select('version generatedAt analysisStartDate analysisEndDate previousVersionId');
+      if (!previous) break;
+      history.push(this.summarize(previous));
+      previousId = previous.previousVersionId;
+    }
+
+    return history;
+  }
+
+  /**
+   * Findings describe problems/opportunities, so a larger $ impact or a
+   * higher priority is worse
+   */
+  private classifyChange(current: IKeyFinding, previous: IKeyFinding): FindingChange {
+    const base = Math.abs(previous.impact.value);
+    const relative = base > 0
+      ? (current.impact.value - previous.impact.value) / base
+      : Math.sign(current.impact.value - previous.impact.value);
+
+    if (relative > CHANGE_THRESHOLD) return 'worsened';
+    if (relative < -CHANGE_THRESHOLD) return 'improved';
+
+    const priorityChange = PRIORITY_RANK[current.priority] - PRIORITY_RANK[previous.priority];
+    if (priorityChange > 0) return 'worsened';
+    if (priorityChange < 0) return 'improved';
+    return 'unchanged';
+  }
+
+  private bestMatch<T extends { category: string; title: string }>(item: T, candidates: T[]): T | null {
+    let best: T | null = null;
+    let bestScore = MATCH_THRESHOLD;
+
+    for (const candidate of candidates) {
+      if (candidate.category !== item.category) continue;
+      const score = this.similarity(item.title, candidate.title);
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Jaccard overlap of the significant words in two titles
+   */
+  private similarity(a: string, b: string): number {
+    const words = (text: string) => new Set(
+      text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    );
+    const wordsA = words(a);
+    const wordsB = words(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+
+    const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+  }
+
+  private summarize(insight: IInsight): InsightVersionSummary {
+    return {
+      id: String(insight._id),
+      version: insight.version,
+      generatedAt: insight.generatedAt,
+      analysisStartDate: insight.analysisStartDate,
+      analysisEndDate: insight.analysisEndDate
+    };
+  }
+}
+
+// Export singleton instance
+export const insightVersioningService = new InsightVersioningService();
@@ -0,0 +1,181 @@
+/**
+ * LLM Providers
+ *
+ * One interface for text generation so callers (InsightGenerator) don't
+ * depend on a vendor SDK:
+ * - AnthropicProvider calls the Anthropic Messages API
+ * - FakeLLMProvider is deterministic and offline: it replays scripted
+ *   responses, or answers with the smallest valid instance of the requested
+ *   response schema (tests, local dev without an API key)
+ *
+ * Anthropic is used unless LLM_PROVIDER=fake is set explicitly; without an
+ * API key its calls fail and InsightGenerator falls back to rule-based
+ * insights rather than saving the fake's placeholder text.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { JsonSchema, sampleFromJsonSchema } from '../utils/jsonSchema';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+const RETRY_ATTEMPTS = 2;
+const RETRY_DELAY_MS = 2000;
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  // Expected shape of a JSON answer. Callers still describe it in the prompt;
+  // the fake provider uses it to produce a valid answer offline.
+  responseSchema?: JsonSchema;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  stopReason?: string;
+}
+
+export interface ILLMProvider {
+  readonly name: 'anthropic' | 'fake';
+  readonly model: string;
+
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export class AnthropicProvider implements ILLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: AxiosInstance;
+
+  constructor(
+    private readonly apiKey: string = process.env.ANTHROPIC_API_KEY || '',
+    readonly model: string = process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL
+  ) {
+    this.client = axios.create({
+      baseURL: ANTHROPIC_BASE_URL,
+      timeout: 120000,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION
+      }
+    });
+
+    // Add response interceptor for retry logic (rate limits, overload)
+    this.client.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const config = error.config;
+
+        if (!config._retryCount) {
+          config._retryCount = 0;
+        }
+
+        if (config._retryCount < RETRY_ATTEMPTS && this.shouldRetry(error)) {
+          config._retryCount++;
+          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * config._retryCount));
+          return this.client(config);
+        }
+
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is not configured');
+    }
+
+    try {
+      const response = await this.client.post('/v1/messages', {
+        model: this.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: request.messages
+      });
+
+      const data = response.data;
+      const text = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+
+      return {
+        text,
+        model: data.model || this.model,
+        inputTokens: data.usage?.input_tokens || 0,
+        outputTokens: data.usage?.output_tokens || 0,
+        stopReason: data.stop_reason
+      };
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new Error(`Anthropic API request failed: ${detail}`);
+    }
+  }
+
+  private shouldRetry(error: any): boolean {
+    return (
+      error.code === 'ECONNRESET' ||
+      error.code === 'ETIMEDOUT' ||
+      (error.response && error.response.status >= 500) ||
+      (error.response && error.response.status === 429) // Rate limit
+    );
+  }
+}
+
+export class FakeLLMProvider implements ILLMProvider {
+  readonly name = 'fake' as const;
+  readonly model = 'fake-llm';
+  readonly requests: LLMRequest[] = [];
+  private scripted: string[];
+
+  /**
+   * @param responses Answers to return in order; once used up (or if none
+   *   are given) the provider answers from the request's responseSchema
+   */
+  constructor(responses: string[] = []) {
+    this.scripted = [...responses];
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    const text = this.scripted.length > 0
+      ? this.scripted.shift()!
+      : JSON.stringify(request.responseSchema ? sampleFromJsonSchema(request.responseSchema) : {});
+
+    // Rough token estimate (~4 characters per token) so accounting paths run
+    const promptLength = (request.system || '').length +
+      request.messages.reduce((sum, message) => sum + message.content.length, 0);
+
+    return {
+      text,
+      model: this.model,
+      inputTokens: Math.ceil(promptLength / 4),
+      outputTokens: Math.ceil(text.length / 4),
+      stopReason: 'end_turn'
+    };
+  }
+}
+
+/**
+ * Provider configured by the environment
+ */
+export function createLLMProvider(): ILLMProvider {
+  if (process.env.LLM_PROVIDER === 'fake') {
+    return new FakeLLMProvider();
+  }
+
+  return new AnthropicProvider();
+}
@@ -1,5 +1,7 @@
 import axios from 'axios';
 import Restaurant from '../models/Restaurant';
+import { toastApiClient } from './ToastApiClient';
+import { toastTokenManager } from './ToastTokenManager';
 
 /**
  * Location Service
@@ -20,7 +22,6 @@ export interface RestaurantLocation {
 
 export class LocationService {
   private geocodingApiKey: string;
-  private toastBaseUrl = 'https://ws-api.toasttab.com';
 
   constructor() {
     this.geocodingApiKey = process.env.GOOGLE_GEOCODING_API_KEY || '';
@@ -89,14 +90,10 @@ export class LocationService {
       }
 
       // Get access token
-      const encryptedToken = restaurant.posConfig.encryptedAccessToken;
-      if (!encryptedToken) {
-        return null;
-      }
-      const accessToken = this.decryptToastToken(encryptedToken);
+      const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
       // Fetch restaurant info from Toast
-      const response = await axios.get(`${this.toastBaseUrl}/restaurants/v1/restaurants`, {
+      const response = await toastApiClient.http.get('/restaurants/v1/restaurants', {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Toast-Restaurant-External-ID': restaurant.posConfig.locationId || ''
@@ -304,15 +301,6 @@ export class LocationService {
     });
   }
 
-  /**
-   * Decrypt Toast access token
-   */
-  private decryptToastToken(encryptedToken: string): string {
-    // In production, implement proper decryption
-    // For now, return as-is (assumes it's already decrypted for testing)
-    return encryptedToken;
-  }
-
   /**
    * Get location for multiple restaurants (batch processing)
    */
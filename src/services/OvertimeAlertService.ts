@@ -0,0 +1,511 @@
+/**
+ * Overtime Alert Service
+ *
+ * Projects each employee's hours for the current pay week - hours already
+ * clocked (TimeEntry, including anyone still clocked in) plus shifts still on
+ * the schedule (Shift) - and raises an alert when someone is on track to go
+ * past 40 hours, or past their state's daily overtime limit on some day.
+ *
+ * Each alert lists the at-risk employee's upcoming shifts that would have to
+ * move to avoid the overtime, with coworkers who have worked the same job
+ * recently and could take the shift without going into overtime themselves.
+ *
+ * Alerts are stored (OvertimeAlert) for the manager dashboard, and emailed to
+ * the owner and managers the first time they are raised.
+ */
+
+import { Types } from 'mongoose';
+import { TimeEntry, Shift, Job, Restaurant } from '../models';
+import OvertimeAlert, { IOvertimeAlert, IOvertimeSwap, OvertimeAlertType } from '../models/OvertimeAlert';
+import { EmailService } from './EmailService';
+import { toLocalDate, localMidnightUtc, addDays } from '../utils/timezone';
+
+// FLSA weekly overtime
+const WEEKLY_OVERTIME_HOURS = 40;
+// States with daily overtime (hours in a workday beyond these are overtime)
+const DAILY_OVERTIME_HOURS: Record<string, number> = {
+  CA: 8,
+  AK: 8,
+  NV: 8,
+  CO: 12
+};
+const STATE_CODES: Record<string, string> = {
+  california: 'CA',
+  alaska: 'AK',
+  nevada: 'NV',
+  colorado: 'CO'
+};
+// Pay weeks start Monday (0 = Sunday)
+const PAY_WEEK_START_DAY = 1;
+// Coworkers who worked a job this recently can cover its shifts
+const ELIGIBILITY_DAYS = 28;
+const MAX_CANDIDATES = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface OvertimeCheckResult {
+  atRisk: number;
+  raised: number; // New (or re-opened) alerts
+  resolved: number;
+  emailed: number;
+}
+
+interface ScheduledShift {
+  shiftId: Types.ObjectId;
+  employeeToastGuid: string;
+  jobId?: string; // Unset when an imported shift doesn't map to a job
+  date: string;
+  start: number;
+  end: number;
+  remainingHours: number; // Part still ahead of now
+  swappable: boolean; // Hasn't started yet
+}
+
+interface EmployeeWeek {
+  employeeToastGuid: string;
+  workedHours: number;
+  workedByDay: Map<string, number>;
+  clockedInDays: Set<string>; // Days of entries still open
+  scheduledHours: number;
+  scheduledByDay: Map<string, number>;
+  upcoming: ScheduledShift[];
+}
+
+interface ProjectedAlert {
+  employeeToastGuid: string;
+  type: OvertimeAlertType;
+  date: string;
+  thresholdHours: number;
+  workedHours: number;
+  scheduledHours: number;
+  projectedHours: number;
+  swaps: IOvertimeSwap[];
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export class OvertimeAlertService {
+  constructor(private readonly emailService: EmailService = new EmailService()) {}
+
+  /**
+   * Check every restaurant with shifts on the schedule this week
+   */
+  async checkAll(): Promise<OvertimeCheckResult & { restaurants: number; errors: number }> {
+    const restaurantIds = await Shift.distinct('restaurantId', {
+      scheduledEnd: { $gte: new Date() },
+      scheduledStart: { $lte: new Date(Date.now() + 7 * 24 * HOUR_MS) }
+    });
+
+    const totals = { restaurants: 0, atRisk: 0, raised: 0, resolved: 0, emailed: 0, errors: 0 };
+    for (const restaurantId of restaurantIds) {
+      try {
+        const result = await this.checkRestaurant(String(restaurantId));
+        totals.restaurants++;
+        totals.atRisk += result.atRisk;
+        totals.raised += result.raised;
+        totals.resolved += result.resolved;
+        totals.emailed += result.emailed;
+      } catch (error: any) {
+        console.error(`Error checking overtime for ${restaurantId}:`, error.message);
+        totals.errors++;
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Re-project the current pay week, update alerts and (unless `notify` is
+   * false) email managers about newly raised ones
+   */
+  async checkRestaurant(restaurantId: string, options: { notify?: boolean } = {}): Promise<OvertimeCheckResult> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const dailyThreshold = this.dailyThreshold(restaurant.location?.state);
+    const weekStart = this.currentWeekStart(timezone);
+    const weekStartUtc = localMidnightUtc(weekStart, timezone);
+    const weekEndUtc = localMidnightUtc(addDays(weekStart, 7), timezone);
+    const restaurantObjectId = new Types.ObjectId(restaurantId);
+    const now = Date.now();
+
+    const [timeEntries, shifts, jobs] = await Promise.all([
+      TimeEntry.find({
+        restaurantId: restaurantObjectId,
+        clockInTime: { $gte: weekStartUtc, $lt: weekEndUtc }
+      }).lean(),
+      // Earlier weeks too, to know who can work which job
+      Shift.find({
+        restaurantId: restaurantObjectId,
+        scheduledStart: { $gte: new Date(weekStartUtc.getTime() - ELIGIBILITY_DAYS * 24 * HOUR_MS), $lt: weekEndUtc }
+      }).lean(),
+      Job.find({ restaurantId: restaurantObjectId }).lean()
+    ]);
+
+    const jobTitles = new Map(jobs.map(job => [job._id.toString(), job.title]));
+    const jobIdByGuid = new Map(jobs.map(job => [job.toastJobGuid, job._id.toString()]));
+    const names = this.employeeNames(restaurant);
+
+    const weeks = new Map<string, EmployeeWeek>();
+    const weekFor = (employeeToastGuid: string): EmployeeWeek => {
+      let week = weeks.get(employeeToastGuid);
+      if (!week) {
+        week = {
+          employeeToastGuid,
+          workedHours: 0,
+          workedByDay: new Map(),
+          clockedInDays: new Set(),
+          scheduledHours: 0,
+          scheduledByDay: new Map(),
+          upcoming: []
+        };
+        weeks.set(employeeToastGuid, week);
+      }
+      return week;
+    };
+
+    // Who can work which job: recent shifts plus this week's clock-ins
+    const eligible = new Map<string, Set<string>>();
+    const addEligible = (jobId: string, employeeToastGuid: string) => {
+      const employees = eligible.get(jobId) || new Set<string>();
+      employees.add(employeeToastGuid);
+      eligible.set(jobId, employees);
+    };
+
+    // Hours clocked so far
+    const clockedIn = new Set<string>();
+    for (const entry of timeEntries) {
+      const week = weekFor(entry.employeeToastGuid);
+      const date = toLocalDate(new Date(entry.clockInTime), timezone);
+      const hours = entry.clockOutTime
+        ? entry.totalHours
+        : Math.max(0, (now - new Date(entry.clockInTime).getTime()) / HOUR_MS - (entry.breakDuration || 0) / 60);
+
+      week.workedHours += hours;
+      week.workedByDay.set(date, (week.workedByDay.get(date) || 0) + hours);
+      if (!entry.clockOutTime) {
+        clockedIn.add(entry.employeeToastGuid);
+        week.clockedInDays.add(date);
+      }
+
+      const jobId = entry.jobId?.toString() || (entry.jobToastGuid && jobIdByGuid.get(entry.jobToastGuid));
+      if (jobId) addEligible(jobId, entry.employeeToastGuid);
+    }
+
+    // Shifts still ahead
+    const upcoming: ScheduledShift[] = [];
+    for (const shift of shifts) {
+      // Imported shifts may only carry the Toast job GUID
+      const jobId = shift.jobId?.toString() ?? jobIdByGuid.get(shift.jobToastGuid);
+      if (jobId) addEligible(jobId, shift.employeeToastGuid);
+
+      const start = new Date(shift.scheduledStart).getTime();
+      const end = new Date(shift.scheduledEnd).getTime();
+      if (start < weekStartUtc.getTime() || end <= now) continue;
+
+      // A started shift the employee already clocked out of is over
+      if (start <= now && !clockedIn.has(shift.employeeToastGuid) && this.clockedOutDuring(timeEntries, shift.employeeToastGuid, start, end)) {
+        continue;
+      }
+
+      const scheduled: ScheduledShift = {
+        shiftId: shift._id,
+        employeeToastGuid: shift.employeeToastGuid,
+        jobId,
+        date: toLocalDate(new Date(shift.scheduledStart), timezone),
+        start,
+        end,
+        remainingHours: (end - Math.max(start, now)) / HOUR_MS,
+        swappable: start > now
+      };
+      upcoming.push(scheduled);
+
+      const week = weekFor(shift.employeeToastGuid);
+      week.scheduledHours += scheduled.remainingHours;
+      week.scheduledByDay.set(scheduled.date, (week.scheduledByDay.get(scheduled.date) || 0) + scheduled.remainingHours);
+      week.upcoming.push(scheduled);
+    }
+
+    const projected: ProjectedAlert[] = [];
+    weeks.forEach(week => {
+      const projectedWeek = week.workedHours + week.scheduledHours;
+      if (projectedWeek > WEEKLY_OVERTIME_HOURS) {
+        projected.push({
+          employeeToastGuid: week.employeeToastGuid,
+          type: 'weekly',
+          date: weekStart,
+          thresholdHours: WEEKLY_OVERTIME_HOURS,
+          workedHours: week.workedHours,
+          scheduledHours: week.scheduledHours,
+          projectedHours: projectedWeek,
+          swaps: this.suggestSwaps(week.upcoming, projectedWeek - WEEKLY_OVERTIME_HOURS, weeks, upcoming, eligible, jobTitles, names, dailyThreshold)
+        });
+      }
+
+      if (dailyThreshold === null) return;
+      // Days with shifts ahead, and days someone is still clocked in on with
+      // nothing left on the schedule
+      const days = new Set([...Array.from(week.scheduledByDay.keys()), ...Array.from(week.clockedInDays)]);
+      days.forEach(date => {
+        const workedHours = week.workedByDay.get(date) || 0;
+        const scheduledHours = week.scheduledByDay.get(date) || 0;
+        const projectedDay = workedHours + scheduledHours;
+        if (projectedDay <= dailyThreshold) return;
+
+        projected.push({
+          employeeToastGuid: week.employeeToastGuid,
+          type: 'daily',
+          date,
+          thresholdHours: dailyThreshold,
+          workedHours,
+          scheduledHours,
+          projectedHours: projectedDay,
+          swaps: this.suggestSwaps(
+            week.upcoming.filter(shift => shift.date === date),
+            projectedDay - dailyThreshold,
+            weeks,
+            upcoming,
+            eligible,
+            jobTitles,
+            names,
+            dailyThreshold
+          )
+        });
+      });
+    });
+
+    const result = await this.persist(restaurantObjectId, weekStart, projected, names);
+
+    if (options.notify !== false) {
+      result.emailed = await this.notify(restaurant, restaurantObjectId, weekStart, timezone);
+    }
+
+    console.log(`⏱️  Overtime check for ${restaurantId}: ${result.atRisk} at risk, ${result.raised} new, ${result.resolved} resolved`);
+    return result;
+  }
+
+  /**
+   * This pay week's open alerts for the dashboard
+   */
+  async getCurrentAlerts(restaurantId: string): Promise<{ weekStart: string; alerts: IOvertimeAlert[] }> {
+    const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings.timezone');
+    const weekStart = this.currentWeekStart(restaurant?.analyticsSettings?.timezone || 'America/New_York');
+
+    const alerts = await OvertimeAlert.find({
+      restaurantId: new Types.ObjectId(restaurantId),
+      weekStart,
+      status: { $in: ['active', 'acknowledged'] }
+    }).sort({ projectedOvertimeHours: -1 });
+
+    return { weekStart, alerts };
+  }
+
+  /**
+   * Mark an alert as seen; it stays listed until it resolves
+   */
+  async acknowledge(restaurantId: string, alertId: string, userId: string): Promise<IOvertimeAlert | null> {
+    return OvertimeAlert.findOneAndUpdate(
+      { _id: new Types.ObjectId(alertId), restaurantId: new Types.ObjectId(restaurantId) },
+      { $set: { status: 'acknowledged', acknowledgedAt: new Date(), acknowledgedBy: userId } },
+      { new: true }
+    );
+  }
+
+  /**
+   * The at-risk employee's latest upcoming shifts, until moving them would
+   * cover the projected overtime, each with coworkers who could take it
+   */
+  private suggestSwaps(
+    shifts: ScheduledShift[],
+    overtimeHours: number,
+    weeks: Map<string, EmployeeWeek>,
+    allUpcoming: ScheduledShift[],
+    eligible: Map<string, Set<string>>,
+    jobTitles: Map<string, string>,
+    names: Map<string, string>,
+    dailyThreshold: number | null
+  ): IOvertimeSwap[] {
+    const swaps: IOvertimeSwap[] = [];
+    let remaining = overtimeHours;
+
+    const candidatesLast = shifts.filter(shift => shift.swappable).sort((a, b) => b.start - a.start);
+    for (const shift of candidatesLast) {
+      if (remaining <= 0) break;
+
+      const hours = (shift.end - shift.start) / HOUR_MS;
+      const candidates = Array.from((shift.jobId && eligible.get(shift.jobId)) || [])
+        .filter(employee => employee !== shift.employeeToastGuid)
+        .map(employee => {
+          const week = weeks.get(employee);
+          const projectedWeekHours = week ? week.workedHours + week.scheduledHours : 0;
+          const projectedDayHours = week
+            ? (week.workedByDay.get(shift.date) || 0) + (week.scheduledByDay.get(shift.date) || 0)
+            : 0;
+          return { employee, projectedWeekHours, projectedDayHours };
+        })
+        .filter(({ employee, projectedWeekHours, projectedDayHours }) =>
+          projectedWeekHours + hours <= WEEKLY_OVERTIME_HOURS &&
+          (dailyThreshold === null || projectedDayHours + hours <= dailyThreshold) &&
+          // Not already working at that time
+          !allUpcoming.some(other => other.employeeToastGuid === employee && other.start < shift.end && other.end > shift.start)
+        )
+        .sort((a, b) => a.projectedWeekHours - b.projectedWeekHours)
+        .slice(0, MAX_CANDIDATES)
+        .map(({ employee, projectedWeekHours }) => ({
+          employeeToastGuid: employee,
+          name: names.get(employee) || 'Unknown employee',
+          projectedWeekHours: round(projectedWeekHours, 2)
+        }));
+
+      swaps.push({
+        shiftId: shift.shiftId,
+        jobTitle: (shift.jobId && jobTitles.get(shift.jobId)) || 'Unknown job',
+        date: shift.date,
+        scheduledStart: new Date(shift.start),
+        scheduledEnd: new Date(shift.end),
+        hours: round(hours, 2),
+        candidates
+      });
+      remaining -= hours;
+    }
+
+    return swaps;
+  }
+
+  /**
+   * Upsert this check's alerts and resolve the week's alerts that are no
+   * longer at risk
+   */
+  private async persist(
+    restaurantId: Types.ObjectId,
+    weekStart: string,
+    projected: ProjectedAlert[],
+    names: Map<string, string>
+  ): Promise<OvertimeCheckResult> {
+    const existing = await OvertimeAlert.find({ restaurantId, weekStart });
+    const keyOf = (alert: { employeeToastGuid: string; type: string; date: string }) =>
+      `${alert.employeeToastGuid}|${alert.type}|${alert.date}`;
+    const existingByKey = new Map(existing.map(alert => [keyOf(alert), alert]));
+    const checkedAt = new Date();
+    let raised = 0;
+
+    for (const alert of projected) {
+      const previous = existingByKey.get(keyOf(alert));
+      const reopened = !previous || previous.status === 'resolved';
+      if (reopened) raised++;
+
+      await OvertimeAlert.updateOne(
+        { restaurantId, employeeToastGuid: alert.employeeToastGuid, weekStart, type: alert.type, date: alert.date },
+        {
+          $set: {
+            employeeName: names.get(alert.employeeToastGuid) || 'Unknown employee',
+            thresholdHours: alert.thresholdHours,
+            workedHours: round(alert.workedHours, 2),
+            scheduledHours: round(alert.scheduledHours, 2),
+            projectedHours: round(alert.projectedHours, 2),
+            projectedOvertimeHours: round(alert.projectedHours - alert.thresholdHours, 2),
+            swaps: alert.swaps,
+            checkedAt,
+            // A resolved alert that comes back is new again, and worth an email
+            ...(reopened ? { status: 'active' } : {})
+          },
+          ...(reopened && previous ? { $unset: { emailedAt: 1, acknowledgedAt: 1, acknowledgedBy: 1 } } : {})
+        },
+        { upsert: true }
+      );
+    }
+
+    const current = new Set(projected.map(keyOf));
+    const stale = existing.filter(alert => alert.status !== 'resolved' && !current.has(keyOf(alert)));
+    if (stale.length > 0) {
+      await OvertimeAlert.updateMany(
+        { _id: { $in: stale.map(alert => alert._id) } },
+        { $set: { status: 'resolved', checkedAt } }
+      );
+    }
+
+    return { atRisk: projected.length, raised, resolved: stale.length, emailed: 0 };
+  }
+
+  /**
+   * Email active alerts that haven't been sent yet to the owner and managers
+   */
+  private async notify(restaurant: any, restaurantId: Types.ObjectId, weekStart: string, timezone: string): Promise<number> {
+    const pending = await OvertimeAlert.find({
+      restaurantId,
+      weekStart,
+      status: 'active',
+      emailedAt: { $exists: false }
+    }).sort({ projectedOvertimeHours: -1 });
+    if (pending.length === 0) return 0;
+
+    const recipients = new Set<string>([restaurant.owner.email]);
+    (restaurant.team?.employees || []).forEach((emp: any) => {
+      if (emp.isActive !== false && emp.email && ['manager', 'admin', 'owner'].includes(emp.role)) {
+        recipients.add(emp.email);
+      }
+    });
+
+    let sent = 0;
+    for (const email of Array.from(recipients)) {
+      if (await this.emailService.sendOvertimeRiskAlert(email, restaurant.name, pending, timezone)) {
+        sent++;
+      }
+    }
+
+    // Unsent alerts are retried on the next check
+    if (sent > 0) {
+      await OvertimeAlert.updateMany(
+        { _id: { $in: pending.map(alert => alert._id) } },
+        { $set: { emailedAt: new Date() } }
+      );
+    }
+
+    return sent;
+  }
+
+  private currentWeekStart(timezone: string): string {
+    const today = toLocalDate(new Date(), timezone);
+    const dayOfWeek = new Date(`${today}T12:00:00.000Z`).getUTCDay();
+    return addDays(today, -((dayOfWeek - PAY_WEEK_START_DAY + 7) % 7));
+  }
+
+  private dailyThreshold(state?: string): number | null {
+    if (!state) return null;
+    const trimmed = state.trim();
+    const code = STATE_CODES[trimmed.toLowerCase()] || trimmed.toUpperCase();
+    return DAILY_OVERTIME_HOURS[code] ?? null;
+  }
+
+  private clockedOutDuring(
+    entries: Array<{ employeeToastGuid: string; clockInTime: Date; clockOutTime?: Date }>,
+    employeeToastGuid: string,
+    start: number,
+    end: number
+  ): boolean {
+    return entries.some(entry =>
+      entry.employeeToastGuid === employeeToastGuid &&
+      entry.clockOutTime &&
+      new Date(entry.clockInTime).getTime() < end &&
+      new Date(entry.clockOutTime).getTime() > start
+    );
+  }
+
+  private employeeNames(restaurant: any): Map<string, string> {
+    const names = new Map<string, string>();
+    (restaurant.team?.employees || []).forEach((emp: any) => {
+      if (emp.toastEmployeeId) {
+        names.set(emp.toastEmployeeId, `${emp.firstName} ${emp.lastName}`.trim());
+      }
+    });
+    return names;
+  }
+}
+
+// Export singleton instance
+export const overtimeAlertService = new OvertimeAlertService();
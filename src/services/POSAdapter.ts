@@ -0,0 +1,366 @@
+/**
+ * POS Adapter Interface
+ *
+ * Common contract for every POS integration (Toast, Square, Clover).
+ * Extracted from what ToastIntegrationService already does:
+ * - Authenticate with the POS using stored (encrypted) credentials
+ * - Fetch orders, time entries, shifts, jobs, menus and menu items
+ * - Normalize POS orders into our ITransaction schema
+ * - Bulk-import everything into MongoDB
+ *
+ * The Mongo worker looks up an adapter by `SyncJob.posType` and calls
+ * `syncRestaurant`, so adding a POS means implementing this interface
+ * and registering it in `getPOSAdapter`.
+ */
+
+import Restaurant from '../models/Restaurant';
+import { ITransaction } from '../models/Transaction';
+
+export type POSType = 'toast' | 'square' | 'clover';
+
+export interface POSSyncProgress {
+  currentChunk: number;
+  totalChunks: number;
+  chunkStartDate: Date;
+  chunkEndDate: Date;
+  transactionsFetched: number;
+  transactionsImported: number;
+  totalImported: number;
+  percentComplete: number;
+  estimatedTimeRemaining: number; // minutes
+  status: 'idle' | 'syncing' | 'completed' | 'error';
+  message?: string;
+}
+
+export type POSSyncProgressCallback = (progress: POSSyncProgress) => void | Promise<void>;
+
+/**
+ * Resume point for a long history sync, persisted on the SyncJob.
+ * The range is fixed on the first run so a resumed sync walks the same windows.
+ */
+export interface POSSyncCheckpoint {
+  rangeStart: Date;
+  rangeEnd: Date;
+  totalWindows: number;
+  windowIndex: number; // Next window to process, newest first
+  windowStart?: Date;
+  windowEnd?: Date;
+  pageToken?: string; // Next page within windowIndex; unset = start of the window
+  ordersImported: number;
+  updatedAt?: Date;
+}
+
+export type POSSyncCheckpointCallback = (checkpoint: POSSyncCheckpoint) => Promise<void>;
+
+export interface POSSyncOptions {
+  startDate?: Date;
+  endDate?: Date;
+  fullSync?: boolean;
+  reason?: 'gap_fill' | 'scheduled' | 'on_login'; // Set on the SyncJob by whoever enqueued it
+  checkpoint?: POSSyncCheckpoint; // Resume from here (set by the worker)
+  onCheckpoint?: POSSyncCheckpointCallback; // Called after each committed page/window
+}
+
+export interface POSSyncResult {
+  ordersImported: number;
+  ordersFailed: number;
+  failedChunks: number;
+  totalChunks: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface IPOSAdapter {
+  readonly posType: POSType;
+
+  testConnection(restaurantId: string): Promise<boolean>;
+
+  fetchTransactions(restaurantId: string, startDate: Date, endDate: Date): Promise<any[]>;
+  normalizeTransaction(rawOrder: any, restaurantId: string): Partial<ITransaction>;
+  importTransactions(restaurantId: string, rawOrders: any[]): Promise<number>;
+
+  fetchTimeEntries(restaurantId: string, startDate: Date, endDate: Date): Promise<any[]>;
+  importTimeEntries(restaurantId: string, rawTimeEntries: any[]): Promise<number>;
+
+  fetchShifts(restaurantId: string, startDate: Date, endDate: Date): Promise<any[]>;
+  importShifts(restaurantId: string, rawShifts: any[]): Promise<number>;
+
+  fetchJobs(restaurantId: string): Promise<any[]>;
+  importJobs(restaurantId: string, rawJobs: any[]): Promise<number>;
+
+  fetchMenus(restaurantId: string): Promise<any[]>;
+  importMenus(restaurantId: string, rawMenus: any[]): Promise<number>;
+
+  fetchMenuItems(restaurantId: string): Promise<any[]>;
+  importMenuItems(restaurantId: string, rawMenuItems: any[]): Promise<number>;
+
+  /**
+   * Run a complete sync (config data, orders, labor) for a restaurant.
+   * Called by the Mongo worker for every SyncJob of this POS type.
+   */
+  syncRestaurant(
+    restaurantId: string,
+    options?: POSSyncOptions,
+    progressCallback?: POSSyncProgressCallback
+  ): Promise<POSSyncResult>;
+}
+
+// Same window SmartToastSync uses for first-time history
+const INITIAL_SYNC_MONTHS = 6;
+const CHUNK_DAYS = 30;
+
+/**
+ * Upsert normalized transactions (insert if new, skip if exists).
+ * Shared by adapters whose order import is a plain normalize + upsert.
+ */
+export async function bulkUpsertTransactions(
+  restaurantId: string,
+  normalized: Partial<ITransaction>[]
+): Promise<number> {
+  const { Transaction } = await import('../models');
+
+  if (normalized.length === 0) {
+    return 0;
+  }
+
+  console.log(`  📦 Batch importing ${normalized.length} transactions...`);
+
+  const bulkOps = normalized.map(data => ({
+    updateOne: {
+      filter: {
+        restaurantId: restaurantId,
+        posTransactionId: data.posTransactionId
+      },
+      update: { $setOnInsert: data },
+      upsert: true
+    }
+  }));
+
+  // Process in batches of 1000 (MongoDB optimal batch size)
+  const batchSize = 1000;
+  let totalInserted = 0;
+
+  for (let i = 0; i < bulkOps.length; i += batchSize) {
+    const batch = bulkOps.slice(i, i + batchSize);
+
+    try {
+      const result = await Transaction.bulkWrite(batch as any[], { ordered: false });
+      totalInserted += result.upsertedCount || 0;
+    } catch (error: any) {
+      // Even with errors, some documents may have been inserted
+      console.error(`    ⚠️  Batch ${Math.floor(i / batchSize) + 1} had errors:`, error.message);
+    }
+  }
+
+  console.log(`  ✅ Import complete: ${totalInserted} new transactions, ${normalized.length - totalInserted} duplicates skipped`);
+  return totalInserted;
+}
+
+/**
+ * Generic chunked sync used by adapters without a POS-specific sync strategy.
+ *
+ * - First sync: last 6 months, walked newest-first in 30-day chunks
+ * - Later syncs: from posConfig.lastSyncAt to now
+ * - Config data (jobs, menus, menu items) is refreshed once per run
+ * - With options.onCheckpoint, each finished chunk is checkpointed and a
+ *   resumed run (options.checkpoint) skips the chunks already done
+ */
+export async function runChunkedSync(
+  adapter: IPOSAdapter,
+  restaurantId: string,
+  options: POSSyncOptions = {},
+  progressCallback?: POSSyncProgressCallback
+): Promise<POSSyncResult> {
+  const restaurant = await Restaurant.findById(restaurantId);
+  if (!restaurant) {
+    throw new Error('Restaurant not found');
+  }
+
+  const checkpoint = options.checkpoint;
+  let endDate = options.endDate ? new Date(options.endDate) : new Date();
+  let startDate: Date;
+
+  if (checkpoint) {
+    // Resuming: keep the original range so chunk boundaries line up
+    startDate = new Date(checkpoint.rangeStart);
+    endDate = new Date(checkpoint.rangeEnd);
+  } else if (options.startDate) {
+    startDate = new Date(options.startDate);
+  } else if (restaurant.posConfig.initialSyncComplete && restaurant.posConfig.lastSyncAt && !options.fullSync) {
+    startDate = new Date(restaurant.posConfig.lastSyncAt);
+  } else {
+    startDate = new Date(endDate);
+    startDate.setMonth(startDate.getMonth() - INITIAL_SYNC_MONTHS);
+  }
+
+  console.log(`\n🔄 ${adapter.posType} sync for restaurant ${restaurantId}: ${startDate.toISOString()} → ${endDate.toISOString()}`);
+
+  // STEP 1: Configuration data (current snapshot)
+  try {
+    const jobs = await adapter.fetchJobs(restaurantId);
+    if (jobs.length > 0) {
+      await adapter.importJobs(restaurantId, jobs);
+    }
+
+    const menus = await adapter.fetchMenus(restaurantId);
+    if (menus.length > 0) {
+      await adapter.importMenus(restaurantId, menus);
+    }
+
+    const menuItems = await adapter.fetchMenuItems(restaurantId);
+    if (menuItems.length > 0) {
+      await adapter.importMenuItems(restaurantId, menuItems);
+    }
+  } catch (error: any) {
+    console.error('⚠️  Configuration sync failed:', error.message);
+    // Continue with order sync even if config fails
+  }
+
+  // STEP 2: Orders and labor, newest chunk first
+  const chunkMs = CHUNK_DAYS * 24 * 60 * 60 * 1000;
+  const totalChunks = Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / chunkMs));
+  const startTime = Date.now();
+  const firstChunk = checkpoint ? Math.min(checkpoint.windowIndex, totalChunks) : 0;
+  let totalImported = checkpoint?.ordersImported || 0;
+  let failedChunks = 0;
+
+  if (firstChunk > 0) {
+    console.log(`  ↪️  Resuming at chunk ${firstChunk + 1}/${totalChunks} (${totalImported} orders already imported)`);
+  }
+
+  // First chunk that failed; a resumed sync starts there so it gets retried
+  let retryFrom: number | null = null;
+
+  const saveChunkCheckpoint = async (nextChunk: number) => {
+    if (!options.onCheckpoint) return;
+    await options.onCheckpoint({
+      rangeStart: startDate,
+      rangeEnd: endDate,
+      totalWindows: totalChunks,
+      windowIndex: retryFrom ?? nextChunk,
+      ordersImported: totalImported
+    });
+  };
+
+  for (let i = firstChunk; i < totalChunks; i++) {
+    const chunkEndDate = new Date(endDate.getTime() - i * chunkMs);
+    const chunkStartDate = new Date(Math.max(startDate.getTime(), chunkEndDate.getTime() - chunkMs));
+
+    const elapsedMinutes = (Date.now() - startTime) / (1000 * 60);
+    const progress: POSSyncProgress = {
+      currentChunk: i + 1,
+      totalChunks,
+      chunkStartDate,
+      chunkEndDate,
+      transactionsFetched: 0,
+      transactionsImported: 0,
+      totalImported,
+      percentComplete: (i / totalChunks) * 100,
+      estimatedTimeRemaining: i > firstChunk ? Math.max(0, (elapsedMinutes / (i - firstChunk)) * (totalChunks - i)) : 0,
+      status: 'syncing',
+      message: `Syncing ${chunkStartDate.toLocaleDateString()} to ${chunkEndDate.toLocaleDateString()}...`
+    };
+
+    if (progressCallback) {
+      await progressCallback(progress);
+    }
+
+    try {
+      const orders = await adapter.fetchTransactions(restaurantId, chunkStartDate, chunkEndDate);
+      const imported = await adapter.importTransactions(restaurantId, orders);
+      totalImported += imported;
+
+      progress.transactionsFetched = orders.length;
+      progress.transactionsImported = imported;
+      progress.totalImported = totalImported;
+
+      console.log(`  ✅ Chunk ${i + 1}/${totalChunks}: ${orders.length} fetched, ${imported} new`);
+    } catch (error: any) {
+      console.error(`  ❌ Error syncing chunk ${i + 1}:`, error.message);
+      failedChunks++;
+      retryFrom = retryFrom ?? i;
+      await saveChunkCheckpoint(i);
+      continue;
+    }
+
+    try {
+      const timeEntries = await adapter.fetchTimeEntries(restaurantId, chunkStartDate, chunkEndDate);
+      if (timeEntries.length > 0) {
+        await adapter.importTimeEntries(restaurantId, timeEntries);
+      }
+
+      const shifts = await adapter.fetchShifts(restaurantId, chunkStartDate, chunkEndDate);
+      if (shifts.length > 0) {
+        await adapter.importShifts(restaurantId, shifts);
+      }
+    } catch (error: any) {
+      console.error(`  ⚠️  Labor data sync failed for this chunk:`, error.message);
+      // Continue even if labor sync fails
+    }
+
+    await saveChunkCheckpoint(i + 1);
+  }
+
+  // Nothing got through - let the queue retry instead of marking the sync complete
+  if (totalChunks > firstChunk && failedChunks === totalChunks - firstChunk) {
+    throw new Error(`${adapter.posType} sync failed for all ${totalChunks - firstChunk} chunks`);
+  }
+
+  if (progressCallback) {
+    await progressCallback({
+      currentChunk: totalChunks,
+      totalChunks,
+      chunkStartDate: startDate,
+      chunkEndDate: endDate,
+      transactionsFetched: totalImported,
+      transactionsImported: totalImported,
+      totalImported,
+      percentComplete: 100,
+      estimatedTimeRemaining: 0,
+      status: 'completed',
+      message: `Sync complete! Imported ${totalImported.toLocaleString()} transactions.`
+    });
+  }
+
+  // A gap re-sync is a backfill, not a sync checkpoint - moving lastSyncAt
+  // back to its end would re-import everything since
+  if (options.reason !== 'gap_fill') {
+    await Restaurant.findByIdAndUpdate(restaurantId, {
+      'posConfig.isConnected': true,
+      'posConfig.lastSyncAt': endDate,
+      'posConfig.initialSyncComplete': true
+    });
+  }
+
+  return {
+    ordersImported: totalImported,
+    ordersFailed: 0,
+    failedChunks,
+    totalChunks,
+    startDate,
+    endDate
+  };
+}
+
+/**
+ * Look up the adapter for a POS type.
+ * Adapters are loaded lazily so the Next.js routes only pull in what they use.
+ */
+export async function getPOSAdapter(posType: POSType | string): Promise<IPOSAdapter> {
+  switch (posType) {
+    case 'toast': {
+      const { toastIntegration } = await import('./ToastIntegration');
+      return toastIntegration;
+    }
+    case 'square': {
+      const { squareIntegration } = await import('./SquareIntegration');
+      return squareIntegration;
+    }
+    case 'clover': {
+      const { cloverIntegration } = await import('./CloverIntegration');
+      return cloverIntegration;
+    }
+    default:
+      throw new Error(`${posType} integration not yet implemented`);
+  }
+}
@@ -0,0 +1,432 @@
+import { Types } from 'mongoose';
+import Correlation, { ICorrelation } from '../models/Correlation';
+import Restaurant from '../models/Restaurant';
+import { eventsService, holidayService, sportsService, WeatherData } from './ExternalDataService';
+import { weatherHistoryService } from './WeatherHistoryService';
+import { toLocalDate, localMidnightUtc } from '../utils/timezone';
+
+/**
+ * Pattern Backtester
+ *
+ * Scores learned correlations on data they were not discovered from.
+ * The most recent weeks of a restaurant's transactions are held out of
+ * discovery; each restaurant pattern is then replayed against those days:
+ * - its condition (externalFactor) is evaluated against the day's real
+ *   weather, events, games, holidays and weekday
+ * - on days it applies, the predicted change (businessOutcome) is compared
+ *   with the actual change vs the held-out days where it didn't apply
+ *
+ * Hit rate and error accumulate on the pattern (Correlation.recordBacktest),
+ * which retires patterns that don't beat a coin flip.
+ *
+ * Global/regional patterns are only built from restaurant patterns that pass
+ * here (contributeToGlobalLearning requires 70% accuracy), so they are not
+ * backtested directly.
+ */
+
+// Most recent days held out of discovery...
+const HOLDOUT_DAYS = 28;
+// ...but never more than this share of a short range
+const MAX_HOLDOUT_SHARE = 1 / 3;
+// Non-matching held-out days needed for a baseline to compare against
+const MIN_BASELINE_DAYS = 3;
+// Below this predicted change (%), "no change" is the prediction
+const NEUTRAL_CHANGE = 2;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface BacktestSummary {
+  patternsTested: number;
+  patternsRetired: number;
+  daysEvaluated: number;
+}
+
+interface HoldoutDay {
+  date: string; // YYYY-MM-DD, restaurant-local
+  dayOfWeek: number;
+  revenue: number;
+  traffic: number;
+  itemQuantities: Map<string, number>;
+}
+
+interface DayContext {
+  weather: WeatherData | null;
+  hasMajorEvent: boolean | null;
+  hasMajorGame: boolean | null;
+  isHoliday: boolean;
+}
+
+export class PatternBacktester {
+  /**
+   * Start of the holdout window for a discovery range.
+   * Transactions before this are for discovery, the rest for backtesting.
+   */
+  getHoldoutStart(startDate: Date, endDate: Date): Date {
+    const rangeMs = endDate.getTime() - startDate.getTime();
+    const holdoutMs = Math.min(HOLDOUT_DAYS * 24 * 60 * 60 * 1000, rangeMs * MAX_HOLDOUT_SHARE);
+    return new Date(endDate.getTime() - holdoutMs);
+  }
+
+  /**
+   * Backtest a restaurant's active patterns on held-out transactions
+   */
+  async backtestRestaurant(
+    restaurantId: string,
+    holdoutTransactions: any[],
+    holdoutEnd: Date
+  ): Promise<BacktestSummary> {
+    const summary: BacktestSummary = { patternsTested: 0, patternsRetired: 0, daysEvaluated: 0 };
+
+    const patterns = await Correlation.find({
+      scope: 'restaurant',
+      restaurantId: new Types.ObjectId(restaurantId),
+      isActive: true
+    });
+
+    if (patterns.length === 0 || holdoutTransactions.length === 0) {
+      return summary;
+    }
+
+    const restaurant = await Restaurant.findById(restaurantId).select('location analyticsSettings.timezone');
+    const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+    const location = restaurant?.location?.latitude && restaurant?.location?.longitude
+      ? { lat: restaurant.location.latitude, lon: restaurant.location.longitude }
+      : null;
+
+    // The day holdoutEnd falls in is usually still in progress
+    const partialDay = toLocalDate(holdoutEnd, timezone);
+    const days = this.aggregateDays(holdoutTransactions, timezone).filter(day => day.date < partialDay);
+
+    if (days.length < MIN_BASELINE_DAYS + 1) {
+      console.log(`Backtest skipped for restaurant ${restaurantId}: only ${days.length} complete held-out days`);
+      return summary;
+    }
+
+    const contexts = await this.loadContexts(days, timezone, location, patterns);
+
+    for (const pattern of patterns) {
+      try {
+        const run = this.scorePattern(pattern, days, contexts, timezone);
+        if (!run) continue;
+
+        await (pattern as any).recordBacktest(run);
+
+        summary.patternsTested++;
+        summary.daysEvaluated += run.daysEvaluated;
+        if (!pattern.isActive) {
+          summary.patternsRetired++;
+          console.log(`🗑️  Retired pattern "${pattern.pattern.description}" (${pattern.learning.accuracy.toFixed(0)}% out-of-sample)`);
+        }
+      } catch (error) {
+        console.error(`Error backtesting pattern ${pattern._id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Score one pattern on the held-out days it hasn't been scored on yet.
+   * Returns null when there was nothing new to score.
+   */
+  private scorePattern(
+    pattern: ICorrelation,
+    days: HoldoutDay[],
+    contexts: Map<string, DayContext>,
+    timezone: string
+  ): { daysEvaluated: number; hits: number; absErrorSum: number; evaluatedThrough?: string } | null {
+    const trainedThrough = pattern.learning.trainedThrough || pattern.createdAt;
+    const evaluatedThrough = pattern.learning.backtest?.evaluatedThrough;
+
+    // Evaluate the condition on every held-out day; null = couldn't tell (e.g. no weather data)
+    const matches = days.map(day => ({
+      day,
+      applies: this.conditionApplies(pattern, day, contexts.get(day.date)!),
+      value: this.metricValue(pattern, day)
+    }));
+
+    const baselineValues = matches
+      .filter(m => m.applies === false && m.value !== null)
+      .map(m => m.value as number);
+
+    if (baselineValues.length < MIN_BASELINE_DAYS) {
+      return null;
+    }
+
+    const baseline = baselineValues.reduce((sum, v) => sum + v, 0) / baselineValues.length;
+    if (baseline <= 0) {
+      return null;
+    }
+
+    const predictedChange = this.predictedChange(pattern);
+    let daysEvaluated = 0;
+    let hits = 0;
+    let absErrorSum = 0;
+    let lastScored: string | undefined;
+
+    for (const { day, applies, value } of matches) {
+      // Only days after the pattern's training data, and only once
+      if (localMidnightUtc(day.date, timezone) < new Date(trainedThrough)) continue;
+      if (evaluatedThrough && day.date <= evaluatedThrough) continue;
+
+      // Stop at the first unknown day so a later run can score it
+      if (applies === null || value === null) break;
+
+      lastScored = day.date;
+      if (!applies) continue;
+
+      const actualChange = ((value - baseline) / baseline) * 100;
+      const hit = Math.abs(predictedChange) < NEUTRAL_CHANGE
+        ? Math.abs(actualChange) < NEUTRAL_CHANGE * 2
+        : Math.sign(actualChange) === Math.sign(predictedChange);
+
+      daysEvaluated++;
+      if (hit) hits++;
+      absErrorSum += Math.abs(actualChange - predictedChange);
+    }
+
+    if (!lastScored) {
+      return null;
+    }
+
+    return { daysEvaluated, hits, absErrorSum, evaluatedThrough: lastScored };
+  }
+
+  /**
+   * Whether the pattern's whenCondition held on a day
+   */
+  private conditionApplies(pattern: ICorrelation, day: HoldoutDay, context: DayContext): boolean | null {
+    const factor = pattern.externalFactor;
+
+    switch (factor.type) {
+      case 'weather':
+        return this.weatherConditionApplies(pattern, context.weather);
+
+      case 'event':
+        return context.hasMajorEvent;
+
+      case 'sports':
+        return context.hasMajorGame;
+
+      case 'holiday':
+        return context.isHoliday;
+
+      case 'day_of_week':
+        if (factor.dayOfWeek) {
+          return DAY_NAMES[day.dayOfWeek] === factor.dayOfWeek.toLowerCase();
+        }
+        if (factor.isWeekend !== undefined) {
+          return (day.dayOfWeek === 0 || day.dayOfWeek === 6) === factor.isWeekend;
+        }
+        return null;
+
+      case 'multi_factor': {
+        if (!factor.factors?.length) return null;
+
+        let allApply = true;
+        for (const part of factor.factors) {
+          const applies = this.factorTokenApplies(part, day, context);
+          if (applies === null) return null;
+          allApply = allApply && applies;
+        }
+        return allApply;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Whether a weather pattern's condition holds for a day's weather
+   * (also used by PredictionEngine against forecast days)
+   */
+  weatherConditionApplies(pattern: ICorrelation, weather: WeatherData | null): boolean | null {
+    if (!weather) return null;
+
+    const factor = pattern.externalFactor;
+
+    switch (factor.weatherCondition) {
+      case 'hot':
+        return !weather.isRaining && weather.temperature >= 80;
+      case 'cold':
+        return !weather.isRaining && weather.temperature < 50;
+      case 'rainy':
+      case 'precipitation':
+        return weather.isRaining;
+    }
+
+    if (factor.weatherCategory) {
+      return weather.weatherCategory === factor.weatherCategory;
+    }
+
+    // "When temperature is above/below X°F" - direction follows the correlation sign
+    if (factor.temperature !== undefined) {
+      return pattern.statistics.correlation >= 0
+        ? weather.temperature > factor.temperature
+        : weather.temperature < factor.temperature;
+    }
+
+    return null;
+  }
+
+  private factorTokenApplies(token: string, day: HoldoutDay, context: DayContext): boolean | null {
+    const { weather, hasMajorEvent, hasMajorGame } = context;
+
+    switch (token) {
+      case 'weekend':
+        return day.dayOfWeek === 0 || day.dayOfWeek === 6;
+      case 'monday':
+      case 'friday':
+        return DAY_NAMES[day.dayOfWeek] === token;
+      case 'good_weather':
+        return weather ? weather.weatherCategory === 'excellent' : null;
+      case 'rain':
+        return weather ? weather.isRaining : null;
+      case 'cold_weather':
+        return weather ? weather.temperature < 50 : null;
+      case 'major_event':
+        if (hasMajorEvent === null || hasMajorGame === null) return null;
+        return hasMajorEvent || hasMajorGame;
+      case 'no_events':
+        if (hasMajorEvent === null || hasMajorGame === null) return null;
+        return !hasMajorEvent && !hasMajorGame;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * The day's value of the metric the pattern predicts (thenOutcome)
+   */
+  private metricValue(pattern: ICorrelation, day: HoldoutDay): number | null {
+    switch (pattern.businessOutcome.metric) {
+      case 'revenue':
+        return day.revenue;
+      case 'traffic':
+        return day.traffic;
+      case 'avg_ticket':
+        return day.traffic > 0 ? day.revenue / day.traffic : null;
+      case 'item_sales': {
+        const item = pattern.externalFactor.menuItem;
+        return item ? day.itemQuantities.get(item.toLowerCase()) || 0 : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Predicted % change vs baseline.
+   * Patterns from before effect sizes were stored: item patterns kept
+   * share-of-sales points in businessOutcome.change, with the lift their
+   * thenOutcome states in the correlation field.
+   */
+  private predictedChange(pattern: ICorrelation): number {
+    if (pattern.statistics.effectSize !== undefined) {
+      return pattern.statistics.effectSize;
+    }
+    if (pattern.businessOutcome.metric === 'item_sales') {
+      return pattern.statistics.correlation * 100;
+    }
+    return pattern.businessOutcome.change;
+  }
+
+  /**
+   * Daily revenue, covers and item counts by restaurant-local date
+   */
+  private aggregateDays(transactions: any[], timezone: string): HoldoutDay[] {
+    const byDate = new Map<string, HoldoutDay>();
+
+    for (const txn of transactions) {
+      const date = toLocalDate(new Date(txn.transactionDate), timezone);
+      let day = byDate.get(date);
+      if (!day) {
+        day = {
+          date,
+          dayOfWeek: new Date(`${date}T12:00:00.000Z`).getUTCDay(),
+          revenue: 0,
+          traffic: 0,
+          itemQuantities: new Map()
+        };
+        byDate.set(date, day);
+      }
+
+      day.revenue += txn.totalAmount || 0;
+      day.traffic += 1;
+
+      for (const item of txn.items || []) {
+        const name = item.name?.toLowerCase();
+        if (name) {
+          day.itemQuantities.set(name, (day.itemQuantities.get(name) || 0) + (item.quantity || 1));
+        }
+      }
+    }
+
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Real external conditions for each held-out day.
+   * Only fetches the sources some pattern actually depends on.
+   */
+  private async loadContexts(
+    days: HoldoutDay[],
+    timezone: string,
+    location: { lat: number; lon: number } | null,
+    patterns: ICorrelation[]
+  ): Promise<Map<string, DayContext>> {
+    const factorTypes = new Set(patterns.map(p => p.externalFactor.type));
+    const needsWeather = factorTypes.has('weather') || factorTypes.has('multi_factor');
+    const needsEvents = factorTypes.has('event') || factorTypes.has('multi_factor');
+    const needsGames = factorTypes.has('sports') || factorTypes.has('multi_factor');
+
+    const contexts = new Map<string, DayContext>();
+
+    // One stored-history read for the whole holdout instead of a call per day
+    let weather = new Map<string, WeatherData>();
+    if (location && needsWeather && days.length > 0) {
+      weather = await weatherHistoryService.getDailyWeather(
+        location.lat,
+        location.lon,
+        days[0].date,
+        days[days.length - 1].date,
+        timezone
+      );
+    }
+
+    for (const day of days) {
+      // Local noon stands in for the day's conditions
+      const noon = new Date(localMidnightUtc(day.date, timezone).getTime() + 12 * 60 * 60 * 1000);
+      const context: DayContext = {
+        weather: weather.get(day.date) || null,
+        hasMajorEvent: null,
+        hasMajorGame: null,
+        isHoliday: holidayService.getHoliday(noon) !== null
+      };
+
+      if (location) {
+        try {
+          if (needsEvents) {
+            const events = await eventsService.getMajorEvents(location.lat, location.lon, noon);
+            context.hasMajorEvent = events.some(e => e.impactLevel === 'high' || e.impactLevel === 'critical');
+          }
+          if (needsGames) {
+            const games = await sportsService.getGamesOnDate(noon, location.lat, location.lon, 30);
+            context.hasMajorGame = games.some(g => g.impactLevel === 'high' || g.impactLevel === 'critical');
+          }
+        } catch (error) {
+          // Leave unknowns as null - those days are scored on a later run
+          console.error(`Error loading backtest context for ${day.date}:`, error);
+        }
+      }
+
+      contexts.set(day.date, context);
+    }
+
+    return contexts;
+  }
+}
+
+// Export singleton instance
+export const patternBacktester = new PatternBacktester();
@@ -9,8 +9,14 @@
 import { Types } from 'mongoose';
 import { Transaction, Restaurant } from '../models';
 import Correlation from '../models/Correlation';
-import { WeatherService } from './ExternalDataService';
+import { WeatherData } from './ExternalDataService';
+import { weatherHistoryService } from './WeatherHistoryService';
+import { patternBacktester } from './PatternBacktester';
 import { internalPatternEngine } from './InternalPatternEngine';
+import { revenueForecaster, DailyForecast } from './RevenueForecaster';
+import { IForecastInterval } from '../models/Forecast';
+import { forecastAccuracyService, RecordedPrediction } from './ForecastAccuracyService';
+import { toLocalDate, addDays } from '../utils/timezone';
 
 export interface DayPrediction {
   date: Date;
@@ -52,12 +58,6 @@ export interface WeekForecast {
 }
 
 export class PredictionEngine {
-  private weatherService: WeatherService;
-
-  constructor() {
-    this.weatherService = new WeatherService();
-  }
-
   /**
    * Generate 7-day forecast for a restaurant
    */
@@ -91,15 +91,17 @@ export class PredictionEngine {
     });
     console.log(`✅ Found ${correlations.length} active correlations`);
 
-    // Get weather forecasts if location available
-    let weatherForecasts: any[] = [];
+    // Get weather forecasts (per local date) if location available
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const today = toLocalDate(new Date(), timezone);
+    let weatherForecasts = new Map<string, WeatherData>();
     if (restaurant.location?.latitude && restaurant.location?.longitude) {
       const lat = restaurant.location.latitude;
       const lng = restaurant.location.longitude;
 
       try {
-        weatherForecasts = await this.weatherService.getWeatherForecast(lat, lng, 7);
-        console.log(`✅ Got ${weatherForecasts.length} weather forecasts`);
+        weatherForecasts = await weatherHistoryService.getDailyWeather(lat, lng, today, addDays(today, 6), timezone);
+        console.log(`✅ Got ${weatherForecasts.size} weather forecasts`);
       } catch (error: any) {
         console.log(`⚠️  Weather forecast unavailable: ${error.message}`);
       }
@@ -107,22 +109,47 @@ export class PredictionEngine {
       console.log('⚠️  No location coordinates - skipping weather forecast');
     }
 
+    // Time-series forecast (falls back to the baseline heuristic on short histories)
+    let forecasts: DailyForecast[] = [];
+    try {
+      forecasts = await revenueForecaster.forecastRestaurant(restaurantId, 7);
+    } catch (error: any) {
+      console.log(`⚠️  Forecaster unavailable, using baseline: ${error.message}`);
+    }
+
     // Generate daily predictions
     const dailyPredictions: DayPrediction[] = [];
+    const recorded: RecordedPrediction[] = [];
 
     for (let i = 0; i < 7; i++) {
       const date = new Date(startDate);
       date.setDate(date.getDate() + i);
 
-      const prediction = await this.predictDay(
-        restaurantId,
-        date,
-        baseline,
-        correlations,
-        weatherForecasts[i]
-      );
+      const forecast = forecasts[i];
+      const prediction = forecast
+        ? this.predictDayFromForecast(date, forecast, baseline, correlations, weatherForecasts.get(forecast.date))
+        : await this.predictDay(
+            restaurantId,
+            date,
+            baseline,
+            correlations,
+            weatherForecasts.get(addDays(today, i))
+          );
 
       dailyPredictions.push(prediction);
+      recorded.push({
+        date: addDays(today, i),
+        leadDays: i,
+        source: forecast ? 'forecaster' : 'baseline',
+        prediction
+      });
+    }
+
+    // Keep what we predicted so it can be scored against actual sales
+    try {
+      await forecastAccuracyService.recordPredictions(restaurantId, timezone, recorded);
+    } catch (error: any) {
+      console.log(`⚠️  Could not record predictions: ${error.message}`);
     }
 
     // Calculate week total
@@ -146,6 +173,113 @@ export class PredictionEngine {
     };
   }
 
+  /**
+   * Confidence (30-95) for a forecast interval: narrower 80% interval = more confident
+   */
+  intervalConfidence(revenue: IForecastInterval): number {
+    const halfWidth = revenue.predicted > 0 ? (revenue.upper80 - revenue.lower80) / 2 / revenue.predicted : 1;
+    return Math.max(30, Math.min(95, 100 - halfWidth * 100));
+  }
+
+  /**
+   * Turn a RevenueForecaster day into a prediction. The forecaster already
+   * models weather and holidays, so matching weather correlations only add
+   * explanation and recommendations here - applying them would double count.
+   */
+  private predictDayFromForecast(
+    date: Date,
+    forecast: DailyForecast,
+    baseline: any,
+    correlations: any[],
+    weatherForecast?: WeatherData
+  ): DayPrediction {
+    const { revenue, orders, components } = forecast;
+    const factors: PredictionFactor[] = [];
+    const recommendations: string[] = [];
+
+    const dayImpact = (components.dayOfWeekFactor - 1) * 100;
+    factors.push({
+      type: 'temporal',
+      description: `${forecast.dayOfWeek} historical pattern`,
+      impact: dayImpact,
+      confidence: 75
+    });
+    if (Math.abs(dayImpact) > 15) {
+      recommendations.push(dayImpact > 0
+        ? `${forecast.dayOfWeek} is a strong day (+${dayImpact.toFixed(0)}%) - maximize staffing`
+        : `${forecast.dayOfWeek} is typically slow (${dayImpact.toFixed(0)}%) - consider promotions`);
+    }
+
+    if (components.holiday) {
+      factors.push({
+        type: 'event',
+        description: components.holiday,
+        impact: (components.holidayFactor - 1) * 100,
+        confidence: 60
+      });
+    }
+
+    if (weatherForecast) {
+      const weatherCorrelations = correlations.filter(c =>
+        c.type === 'weather_sales' &&
+        c.externalFactor.type === 'weather' &&
+        c.businessOutcome.metric === 'revenue' &&
+        patternBacktester.weatherConditionApplies(c, weatherForecast)
+      );
+
+      factors.push({
+        type: 'weather',
+        description: `${weatherForecast.temperature.toFixed(0)}°F, ${weatherForecast.description}` +
+          (weatherCorrelations.length > 0 ? `: ${weatherCorrelations[0].pattern.description}` : ''),
+        impact: (components.weatherFactor - 1) * 100,
+        confidence: weatherCorrelations.length > 0 ? weatherCorrelations[0].statistics.confidence : 50
+      });
+
+      weatherCorrelations
+        .filter(c => Math.abs(c.businessOutcome.change || 0) > 5 && c.pattern.recommendation)
+        .forEach(c => recommendations.push(c.pattern.recommendation));
+    }
+
+    if (baseline.dailyAvg > 0) {
+      const trendImpact = (components.level / baseline.dailyAvg - 1) * 100;
+      if (Math.abs(trendImpact) >= 1) {
+        factors.push({
+          type: 'trend',
+          description: `Overall ${trendImpact > 0 ? 'growth' : 'decline'} trend`,
+          impact: trendImpact,
+          confidence: 60
+        });
+      }
+    }
+
+    const confidence = this.intervalConfidence(revenue);
+
+    const peakHours = [...forecast.hourly]
+      .sort((a, b) => b.revenue.predicted - a.revenue.predicted)
+      .slice(0, 3)
+      .map(h => `${h.hour}:00`);
+
+    return {
+      date,
+      dayOfWeek: forecast.dayOfWeek,
+      predictions: {
+        revenue: {
+          baseline: baseline.dailyAvg,
+          predicted: revenue.predicted,
+          low: revenue.lower80,
+          high: revenue.upper80,
+          confidence
+        },
+        traffic: {
+          predicted: Math.round(orders.predicted),
+          peakHours: peakHours.length > 0 ? peakHours : baseline.peakHours
+        }
+      },
+      factors,
+      recommendations
+    };
+  }
+
   /**
    * Predict a single day's performance
    */
@@ -154,7 +288,7 @@ export class PredictionEngine {
     date: Date,
     baseline: any,
     correlations: any[],
-    weatherForecast?: any
+    weatherForecast?: WeatherData
   ): Promise<DayPrediction> {
     const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][date.getDay()];
 
@@ -184,37 +318,28 @@ export class PredictionEngine {
       }
     }
 
-    // Apply weather correlations
+    // Apply weather correlations (revenue patterns only - item patterns don't move the total)
     if (weatherForecast) {
-      const weatherCorrelations = correlations.filter(c => c.type === 'weather_sales');
+      const weatherCorrelations = correlations.filter(c =>
+        c.type === 'weather_sales' &&
+        c.externalFactor.type === 'weather' &&
+        c.businessOutcome.metric === 'revenue'
+      );
 
       for (const correlation of weatherCorrelations) {
-        const temp = weatherForecast.temperature;
-        const factor = correlation.externalFactor;
-
-        if (factor.weatherCondition === 'temperature') {
-          let applies = false;
-
-          if (factor.value && factor.operator === 'above' && temp > factor.value) {
-            applies = true;
-          } else if (factor.value && factor.operator === 'below' && temp < factor.value) {
-            applies = true;
-          }
-
-          if (applies) {
-            const impact = correlation.businessOutcome.percentageChange || 0;
-            predictedRevenue *= (1 + impact / 100);
-
-            factors.push({
-              type: 'weather',
-              description: `Temperature ${temp.toFixed(0)}°F ${correlation.pattern.description}`,
-              impact,
-              confidence: correlation.statistics.confidence
-            });
-
-            if (Math.abs(impact) > 5) {
-              recommendations.push(correlation.pattern.recommendation || `Weather impact: ${impact > 0 ? '+' : ''}${impact.toFixed(1)}%`);
-            }
+        if (patternBacktester.weatherConditionApplies(correlation, weatherForecast)) {
+          const impact = correlation.businessOutcome.change || 0;
+          predictedRevenue *= (1 + impact / 100);
+
+          factors.push({
+            type: 'weather',
+            description: `${weatherForecast.temperature.toFixed(0)}°F, ${weatherForecast.description}: ${correlation.pattern.description}`,
+            impact,
+            confidence: correlation.statistics.confidence
+          });
+
+          if (Math.abs(impact) > 5) {
+            recommendations.push(correlation.pattern.recommendation || `Weather impact: ${impact > 0 ? '+' : ''}${impact.toFixed(1)}%`);
           }
         }
       }
@@ -0,0 +1,445 @@
+/**
+ * Recommendation Impact Service
+ *
+ * Measures whether an implemented recommendation actually moved the metric
+ * it targets, from Transaction (and TimeEntry, for labor) data:
+ * - pre window: the WINDOW_DAYS before implementation; post window: the
+ *   WINDOW_DAYS after it (a preliminary reading is taken from MIN_POST_DAYS)
+ * - day-of-week control: each day is indexed to the pre-window average for
+ *   its weekday, so a post window heavy on Fridays doesn't look like a win
+ * - seasonal control: the same weeks one year earlier (364 days, so weekdays
+ *   line up) give the change that would have happened anyway; it is netted
+ *   out when that history exists
+ *
+ * The result is written onto the recommendation as `impact`.
+ */
+
+import { Types } from 'mongoose';
+import Insight, { IInsight, IRecommendation, IRecommendationImpact, ImpactMetric, InsightCategory } from '../models/Insight';
+import Transaction, { TransactionStatus } from '../models/Transaction';
+import TimeEntry, { TIME_ENTRY_PAY_EXPRESSION } from '../models/TimeEntry';
+import Restaurant from '../models/Restaurant';
+import { toLocalDate, addDays } from '../utils/timezone';
+import { mean, welchTTest } from '../utils/statistics';
+
+// Length of the matched pre/post windows
+const WINDOW_DAYS = 28;
+// Post-window days needed before a (preliminary) measurement
+const MIN_POST_DAYS = 14;
+// Open days needed in each window
+const MIN_OPEN_DAYS = 10;
+// Same weekdays one year earlier
+const PRIOR_YEAR_OFFSET_DAYS = 364;
+// Recommendations implemented longer ago than this are no longer re-measured
+const MAX_MEASUREMENT_AGE_DAYS = 180;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+// Lower is better for these metrics
+const COST_METRICS: ImpactMetric[] = ['discount_rate', 'void_rate', 'labor_percentage'];
+
+const METRIC_LABELS: Record<ImpactMetric, string> = {
+  average_ticket: 'average ticket',
+  daily_revenue: 'daily revenue',
+  item_attach_rate: 'add-on attach rate',
+  discount_rate: 'discount rate',
+  void_rate: 'void rate',
+  labor_percentage: 'labor cost %'
+};
+
+interface DayTotals {
+  date: string;
+  dayOfWeek: number;
+  revenue: number;
+  orders: number;
+  multiItemOrders: number;
+  discounts: number;
+  subtotal: number;
+  voids: number;
+  laborCost: number;
+}
+
+export class RecommendationImpactService {
+  /**
+   * Measure every implemented recommendation due a (re)measurement
+   */
+  async measurePending(restaurantId?: string): Promise<{ insights: number; measured: number }> {
+    const now = new Date();
+    const insights = await Insight.find({
+      ...(restaurantId ? { restaurantId: new Types.ObjectId(restaurantId) } : {}),
+      recommendations: {
+        $elemMatch: {
+          status: 'completed',
+          implementedAt: {
+            $lte: new Date(now.getTime() - MIN_POST_DAYS * 24 * 60 * 60 * 1000),
+            $gte: new Date(now.getTime() - MAX_MEASUREMENT_AGE_DAYS * 24 * 60 * 60 * 1000)
+          }
+        }
+      }
+    }).sort({ generatedAt: -1 });
+
+    // Recommendations carried into newer versions keep their id; measure
+    // each one once, on the latest version that has it
+    const seen = new Set<string>();
+    let measured = 0;
+    for (const insight of insights) {
+      measured += await this.measureInsight(insight, false, seen);
+    }
+
+    return { insights: insights.length, measured };
+  }
+
+  /**
+   * Measure the implemented recommendations on one insight that don't have a
+   * final measurement yet, skipping ids in `seen` (and adding the rest).
+   * Returns how many were measured.
+   */
+  async measureInsight(insight: IInsight, force: boolean = false, seen?: Set<string>): Promise<number> {
+    const restaurant = await Restaurant.findById(insight.restaurantId).select('analyticsSettings.timezone');
+    const timezone = restaurant?.analyticsSettings?.timezone || 'America/New_York';
+
+    let measured = 0;
+    for (const recommendation of insight.recommendations) {
+      if (recommendation.status !== 'completed' || !recommendation.implementedAt) continue;
+      if (seen) {
+        if (seen.has(recommendation.id)) continue;
+        seen.add(recommendation.id);
+      }
+      if (!force && recommendation.impact && !recommendation.impact.preliminary) continue;
+
+      const impact = await this.measureRecommendation(String(insight.restaurantId), recommendation, timezone);
+      if (impact) {
+        recommendation.impact = impact;
+        measured++;
+      }
+    }
+
+    if (measured > 0) {
+      insight.markModified('recommendations');
+      await insight.save();
+      console.log(`📏 Measured impact of ${measured} recommendations on insight ${insight._id}`);
+    }
+
+    return measured;
+  }
+
+  /**
+   * Impact of one recommendation, or null if the post window is too short yet
+   */
+  async measureRecommendation(
+    restaurantId: string,
+    recommendation: IRecommendation,
+    timezone: string
+  ): Promise<IRecommendationImpact | null> {
+    const metric = this.selectMetric(recommendation);
+    const implementedOn = toLocalDate(recommendation.implementedAt!, timezone);
+    const today = toLocalDate(new Date(), timezone);
+
+    // The implementation day itself is in neither window
+    const preStart = addDays(implementedOn, -WINDOW_DAYS);
+    const preEnd = addDays(implementedOn, -1);
+    const postStart = addDays(implementedOn, 1);
+    const lastComplete = addDays(today, -1);
+    const postEnd = addDays(implementedOn, WINDOW_DAYS) < lastComplete ? addDays(implementedOn, WINDOW_DAYS) : lastComplete;
+    const postDays = Math.round((Date.parse(postEnd) - Date.parse(postStart)) / 86400000) + 1;
+
+    if (postDays < MIN_POST_DAYS) {
+      return null;
+    }
+
+    const includeLabor = metric === 'labor_percentage';
+    const priorPreStart = addDays(preStart, -PRIOR_YEAR_OFFSET_DAYS);
+    const priorPostEnd = addDays(postEnd, -PRIOR_YEAR_OFFSET_DAYS);
+    const days = [
+      ...(await this.loadDays(restaurantId, priorPreStart, priorPostEnd, timezone, includeLabor)),
+      ...(await this.loadDays(restaurantId, preStart, postEnd, timezone, includeLabor))
+    ];
+
+    const inRange = (start: string, end: string) => days.filter(d => d.date >= start && d.date <= end && d.orders > 0);
+    const pre = inRange(preStart, preEnd);
+    const post = inRange(postStart, postEnd);
+
+    const base = {
+      preliminary: postDays < WINDOW_DAYS,
+      metric,
+      measuredAt: new Date(),
+      preWindow: { start: preStart, end: preEnd, days: WINDOW_DAYS },
+      postWindow: { start: postStart, end: postEnd, days: postDays }
+    };
+
+    if (pre.length < MIN_OPEN_DAYS || post.length < MIN_OPEN_DAYS ||
+        (includeLabor && (this.sum(pre, 'laborCost') === 0 || this.sum(post, 'laborCost') === 0))) {
+      return {
+        ...base,
+        status: 'insufficient_data',
+        before: 0,
+        after: 0,
+        rawChangePercent: 0,
+        seasonalControl: 'none',
+        adjustedChangePercent: 0,
+        pValue: null,
+        significant: false,
+        estimatedMonthlyImpact: 0,
+        summary: `Not enough ${includeLabor ? 'labor or sales' : 'sales'} data around the implementation date to measure impact.`
+      };
+    }
+
+    // Same weeks last year - what changed without the recommendation
+    const priorPre = inRange(priorPreStart, addDays(preEnd, -PRIOR_YEAR_OFFSET_DAYS));
+    const priorPost = inRange(addDays(postStart, -PRIOR_YEAR_OFFSET_DAYS), priorPostEnd);
+    const prior = priorPre.length >= MIN_OPEN_DAYS && priorPost.length >= MIN_OPEN_DAYS
+      ? { pre: priorPre, post: priorPost }
+      : null;
+    const hasControl = prior !== null;
+
+    const change = this.compareWindows(pre, post, prior, metric);
+    const { raw: rawChange, control: controlChange, adjusted: adjustedChange } = change;
+    const test = welchTTest(change.postIndexed, change.preIndexed);
+    const pValue = test ? test.pValue : null;
+    const significant = pValue !== null && pValue < SIGNIFICANCE_LEVEL;
+
+    const estimatedMonthlyImpact = this.monthlyImpact(metric, pre, post, prior, adjustedChange);
+    const improved = COST_METRICS.includes(metric) ? adjustedChange < 0 : adjustedChange > 0;
+
+    const label = METRIC_LABELS[metric];
+    const changeText = `${adjustedChange >= 0 ? '+' : ''}${(adjustedChange * 100).toFixed(1)}%`;
+    const summary = significant
+      ? `${label.charAt(0).toUpperCase()}${label.slice(1)} ${improved ? 'improved' : 'worsened'} ${changeText} after implementation ` +
+        `(${hasControl ? 'adjusted for weekday mix and last year\'s seasonality' : 'adjusted for weekday mix'}), ` +
+        `worth about $${Math.abs(estimatedMonthlyImpact).toFixed(0)}/month ${estimatedMonthlyImpact >= 0 ? 'gained' : 'lost'}.`
+      : `No clear change in ${label} yet (${changeText}, not statistically significant).`;
+
+    return {
+      ...base,
+      status: 'measured',
+      before: this.metricValue(pre, metric),
+      after: this.metricValue(post, metric),
+      rawChangePercent: rawChange * 100,
+      seasonalControl: hasControl ? 'prior_year' : 'none',
+      controlChangePercent: hasControl ? controlChange * 100 : undefined,
+      adjustedChangePercent: adjustedChange * 100,
+      pValue,
+      significant,
+      estimatedMonthlyImpact,
+      summary
+    };
+  }
+
+  /**
+   * The metric a recommendation targets, from its KPIs, wording and category
+   */
+  selectMetric(recommendation: IRecommendation): ImpactMetric {
+    const text = [recommendation.title, recommendation.description, ...(recommendation.metrics?.kpis || [])]
+      .join(' ')
+      .toLowerCase();
+
+    if (/labor|staffing|schedul|overtime/.test(text)) return 'labor_percentage';
+    if (/discount|comp(s|ed)?\b|promo abuse/.test(text)) return 'discount_rate';
+    if (/void|order accuracy|remake/.test(text)) return 'void_rate';
+    if (/attach|add-on|upsell|upsold|suggestive/.test(text)) return 'item_attach_rate';
+    if (/ticket|check size|per customer|per cover/.test(text)) return 'average_ticket';
+
+    switch (recommendation.category) {
+      case InsightCategory.UPSELLING_OPPORTUNITIES:
+        return 'item_attach_rate';
+      case InsightCategory.COST_REDUCTION:
+        return 'discount_rate';
+      case InsightCategory.EMPLOYEE_PERFORMANCE:
+        return 'average_ticket';
+      default:
+        return 'daily_revenue';
+    }
+  }
+
+  /**
+   * Relative change pre → post, with each day indexed to the pre-window
+   * average for its weekday, net of the same comparison a year earlier
+   */
+  private compareWindows(
+    pre: DayTotals[],
+    post: DayTotals[],
+    prior: { pre: DayTotals[]; post: DayTotals[] } | null,
+    metric: ImpactMetric
+  ): { raw: number; control: number; adjusted: number; preIndexed: number[]; postIndexed: number[] } {
+    const preIndexed = this.indexToWeekdays(pre, pre, metric);
+    const raw = mean(this.indexToWeekdays(post, pre, metric)) - 1;
+    const control = prior ? mean(this.indexToWeekdays(prior.post, prior.pre, metric)) - 1 : 0;
+
+    return {
+      raw,
+      control,
+      adjusted: (1 + raw) / (1 + control) - 1,
+      preIndexed,
+      // Post days with the seasonal drift taken out, for the significance test
+      postIndexed: this.indexToWeekdays(post, pre, metric).map(v => v / (1 + control))
+    };
+  }
+
+  /**
+   * Each day's metric divided by the reference window's value for that weekday
+   */
+  private indexToWeekdays(days: DayTotals[], reference: DayTotals[], metric: ImpactMetric): number[] {
+    const referenceValue = this.metricValue(reference, metric);
+    const weekdayBaseline = new Map<number, number>();
+    for (let dow = 0; dow < 7; dow++) {
+      const sameDay = reference.filter(d => d.dayOfWeek === dow);
+      weekdayBaseline.set(dow, sameDay.length > 0 ? this.metricValue(sameDay, metric) : referenceValue);
+    }
+
+    return days
+      .map(day => {
+        const baseline = weekdayBaseline.get(day.dayOfWeek)!;
+        return baseline > 0 ? this.metricValue([day], metric) / baseline : null;
+      })
+      .filter((v): v is number => v !== null);
+  }
+
+  private metricValue(days: DayTotals[], metric: ImpactMetric): number {
+    const orders = this.sum(days, 'orders');
+    const revenue = this.sum(days, 'revenue');
+
+    switch (metric) {
+      case 'average_ticket': {
+        const paidOrders = orders - this.sum(days, 'voids');
+        return paidOrders > 0 ? revenue / paidOrders : 0;
+      }
+      case 'daily_revenue':
+        return days.length > 0 ? revenue / days.length : 0;
+      case 'item_attach_rate':
+        return orders > 0 ? (this.sum(days, 'multiItemOrders') / orders) * 100 : 0;
+      case 'discount_rate': {
+        const gross = this.sum(days, 'subtotal') + this.sum(days, 'discounts');
+        return gross > 0 ? (this.sum(days, 'discounts') / gross) * 100 : 0;
+      }
+      case 'void_rate':
+        return orders > 0 ? (this.sum(days, 'voids') / orders) * 100 : 0;
+      case 'labor_percentage':
+        return revenue > 0 ? (this.sum(days, 'laborCost') / revenue) * 100 : 0;
+    }
+  }
+
+  /**
+   * Dollars per month the adjusted change is worth: cost kept for cost-share
+   * metrics, otherwise the adjusted change in daily revenue
+   */
+  private monthlyImpact(
+    metric: ImpactMetric,
+    pre: DayTotals[],
+    post: DayTotals[],
+    prior: { pre: DayTotals[]; post: DayTotals[] } | null,
+    adjustedChange: number
+  ): number {
+    const postRevenuePerDay = this.sum(post, 'revenue') / post.length;
+
+    if (metric === 'labor_percentage' || metric === 'discount_rate') {
+      const shareBefore = this.metricValue(pre, metric) / 100;
+      const base = metric === 'labor_percentage'
+        ? postRevenuePerDay
+        : (this.sum(post, 'subtotal') + this.sum(post, 'discounts')) / post.length;
+      // A lower share of the same base is money kept
+      return -(shareBefore * adjustedChange) * base * 30;
+    }
+
+    // Ticket, attach and void changes are worth what they did to revenue
+    const revenueChange = metric === 'daily_revenue'
+      ? adjustedChange
+      : this.compareWindows(pre, post, prior, 'daily_revenue').adjusted;
+    return (postRevenuePerDay - postRevenuePerDay / (1 + revenueChange)) * 30;
+  }
+
+  private sum(days: DayTotals[], field: keyof Omit<DayTotals, 'date' | 'dayOfWeek'>): number {
+    return days.reduce((total, day) => total + day[field], 0);
+  }
+
+  /**
+   * Daily totals per local date (labor from TimeEntry business dates)
+   */
+  private async loadDays(
+    restaurantId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string,
+    includeLabor: boolean
+  ): Promise<DayTotals[]> {
+    const rows: Array<{
+      _id: string;
+      revenue: number;
+      orders: number;
+      multiItemOrders: number;
+      discounts: number;
+      subtotal: number;
+      voids: number;
+    }> = await Transaction.aggregate([
+      {
+        $match: {
+          restaurantId: new Types.ObjectId(restaurantId),
+          // Pad a day each side; local dates are matched exactly below
+          transactionDate: {
+            $gte: new Date(`${addDays(startDate, -1)}T00:00:00.000Z`),
+            $lt: new Date(`${addDays(endDate, 2)}T00:00:00.000Z`)
+          }
+        }
+      },
+      {
+        $group: {
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate', timezone } },
+          revenue: {
+            $sum: {
+              $cond: [{ $eq: ['$status', TransactionStatus.VOIDED] }, 0, { $ifNull: ['$total', '$totalAmount'] }]
+            }
+          },
+          orders: { $sum: 1 },
+          multiItemOrders: { $sum: { $cond: [{ $gt: [{ $size: { $ifNull: ['$items', []] } }, 1] }, 1, 0] } },
+          discounts: { $sum: { $sum: { $ifNull: ['$discounts.amount', []] } } },
+          subtotal: { $sum: { $ifNull: ['$subtotal', 0] } },
+          voids: { $sum: { $cond: [{ $eq: ['$status', TransactionStatus.VOIDED] }, 1, 0] } }
+        }
+      }
+    ]);
+
+    const labor = new Map<string, number>();
+    if (includeLabor) {
+      const laborRows: Array<{ _id: string; cost: number }> = await TimeEntry.aggregate([
+        {
+          $match: {
+            restaurantId: new Types.ObjectId(restaurantId),
+            businessDate: {
+              $gte: new Date(`${startDate}T00:00:00.000Z`),
+              $lte: new Date(`${endDate}T23:59:59.999Z`)
+            }
+          }
+        },
+        {
+          $group: {
+            // Business dates are stored as UTC midnight of the local date
+            _id: { $dateToString: { format: '%Y-%m-%d', date: '$businessDate' } },
+            // Imported entries may carry totalPay 0; price their hours instead
+            cost: {
+              $sum: {
+                $cond: [{ $gt: ['$totalPay', 0] }, '$totalPay', TIME_ENTRY_PAY_EXPRESSION]
+              }
+            }
+          }
+        }
+      ]);
+      laborRows.forEach(row => labor.set(row._id, row.cost));
+    }
+
+    return rows
+      .filter(row => row._id >= startDate && row._id <= endDate)
+      .map(row => ({
+        date: row._id,
+        dayOfWeek: new Date(`${row._id}T12:00:00.000Z`).getUTCDay(),
+        revenue: row.revenue,
+        orders: row.orders,
+        multiItemOrders: row.multiItemOrders,
+        discounts: row.discounts,
+        subtotal: row.subtotal,
+        voids: row.voids,
+        laborCost: labor.get(row._id) || 0
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+// Export singleton instance
+export const recommendationImpactService = new RecommendationImpactService();
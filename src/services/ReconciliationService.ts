@@ -0,0 +1,241 @@
+import { Restaurant, Transaction, Reconciliation } from '../models';
+import { TransactionStatus } from '../models/Transaction';
+import {
+  IReconciliation,
+  IReconciliationTotals,
+  IReconciliationDiscrepancy,
+  ReconciliationMetric
+} from '../models/Reconciliation';
+import { toastIntegration } from './ToastIntegration';
+
+/**
+ * Reconciliation Service
+ *
+ * Replaces the one-off compare-toast-vs-database / verify-revenue-accuracy scripts.
+ * For each business date it re-pulls the day's orders from Toast, totals them
+ * the way Toast reports them, and compares against our stored Transactions.
+ */
+
+// Money differences smaller than this are rounding noise
+const MIN_MONEY_TOLERANCE = 1.0;
+const PERCENT_TOLERANCE = 0.5;
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+const MONEY_METRICS: ReconciliationMetric[] = ['netSales', 'tax', 'tips', 'discounts'];
+
+function emptyTotals(): IReconciliationTotals {
+  return { netSales: 0, tax: 0, tips: 0, discounts: 0, orderCount: 0 };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumDiscounts(discounts?: Array<{ discountAmount?: number; amount?: number }>): number {
+  return (discounts || []).reduce((sum, d) => sum + (d.discountAmount ?? d.amount ?? 0), 0);
+}
+
+export class ReconciliationService {
+
+  /**
+   * Reconcile the last `days` business dates (yesterday backwards).
+   * Today is skipped because it is still trading.
+   */
+  async reconcileRecentDays(restaurantId: string, days: number = DEFAULT_LOOKBACK_DAYS): Promise<IReconciliation[]> {
+    const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings.timezone');
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const businessDates: string[] = [];
+    for (let i = 1; i <= days; i++) {
+      businessDates.push(this.toBusinessDate(new Date(Date.now() - i * 24 * 60 * 60 * 1000), timezone));
+    }
+
+    const results: IReconciliation[] = [];
+    for (const businessDate of businessDates) {
+      results.push(await this.reconcileBusinessDate(restaurantId, businessDate));
+    }
+
+    const discrepancies = results.filter(r => r.status === 'discrepancy').length;
+    console.log(`🧾 Reconciled ${results.length} business dates for restaurant ${restaurantId}: ${discrepancies} with discrepancies`);
+
+    return results;
+  }
+
+  /**
+   * Reconcile one Toast business date (yyyyMMdd) and store the result
+   */
+  async reconcileBusinessDate(restaurantId: string, businessDate: string): Promise<IReconciliation> {
+    let posTotals = emptyTotals();
+    let storedTotals = emptyTotals();
+    let discrepancies: IReconciliationDiscrepancy[] = [];
+    let status: IReconciliation['status'];
+    let error: string | undefined;
+
+    try {
+      const orders = await toastIntegration.fetchOrdersByBusinessDate(restaurantId, businessDate);
+      posTotals = this.totalToastOrders(orders);
+      storedTotals = await this.totalStoredTransactions(restaurantId, businessDate);
+      discrepancies = this.compareTotals(posTotals, storedTotals);
+      status = discrepancies.length > 0 ? 'discrepancy' : 'matched';
+    } catch (err: any) {
+      console.error(`❌ Reconciliation failed for ${businessDate}:`, err.message);
+      status = 'error';
+      error = err.message;
+    }
+
+    const result = await Reconciliation.findOneAndUpdate(
+      { restaurantId, posType: 'toast', businessDate },
+      {
+        $set: {
+          posTotals,
+          storedTotals,
+          discrepancies,
+          status,
+          error,
+          checkedAt: new Date()
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    return result!;
+  }
+
+  /**
+   * Total Toast orders the way Toast's sales summary does:
+   * every non-voided, non-deleted check on the order counts
+   */
+  private totalToastOrders(orders: any[]): IReconciliationTotals {
+    const totals = emptyTotals();
+
+    for (const order of orders) {
+      if (order.deleted || order.deletedDate) continue;
+
+      const checks = (order.checks || []).filter((check: any) => !check.voided && !check.deleted);
+      if (checks.length === 0) continue;
+
+      totals.orderCount++;
+
+      for (const check of checks) {
+        totals.netSales += check.amount ?? (check.totalAmount - check.taxAmount);
+        totals.tax += check.taxAmount || 0;
+        totals.tips += (check.payments || []).reduce((sum: number, p: any) => sum + (p.tipAmount || 0), 0);
+        totals.discounts += sumDiscounts(check.appliedDiscounts);
+        totals.discounts += (check.selections || []).reduce(
+          (sum: number, sel: any) => sum + (sel.voided ? 0 : sumDiscounts(sel.appliedDiscounts)),
+          0
+        );
+      }
+    }
+
+    return this.roundTotals(totals);
+  }
+
+  /**
+   * Total our stored Toast transactions for a business date.
+   * The business date comes from the raw Toast order kept on each transaction;
+   * the transactionDate window just keeps the query on the index.
+   */
+  private async totalStoredTransactions(restaurantId: string, businessDate: string): Promise<IReconciliationTotals> {
+    const day = new Date(`${businessDate.slice(0, 4)}-${businessDate.slice(4, 6)}-${businessDate.slice(6, 8)}T00:00:00.000Z`);
+    const windowStart = new Date(day.getTime() - 24 * 60 * 60 * 1000);
+    const windowEnd = new Date(day.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+    const transactions = await Transaction.find({
+      restaurantId,
+      posSystemType: 'toast',
+      transactionDate: { $gte: windowStart, $lt: windowEnd },
+      'integration.rawPOSData.businessDate': { $in: [Number(businessDate), businessDate] }
+    })
+      .select('status subtotal tax tip discounts.amount items.discounts.amount')
+      .lean();
+
+    const totals = emptyTotals();
+
+    for (const transaction of transactions) {
+      if (transaction.status === TransactionStatus.VOIDED) continue;
+
+      totals.orderCount++;
+      totals.netSales += transaction.subtotal || 0;
+      totals.tax += transaction.tax || 0;
+      totals.tips += transaction.tip || 0;
+      totals.discounts += sumDiscounts(transaction.discounts);
+      totals.discounts += (transaction.items || []).reduce((sum, item) => sum + sumDiscounts(item.discounts), 0);
+    }
+
+    return this.roundTotals(totals);
+  }
+
+  private compareTotals(posTotals: IReconciliationTotals, storedTotals: IReconciliationTotals): IReconciliationDiscrepancy[] {
+    const discrepancies: IReconciliationDiscrepancy[] = [];
+    const metrics: ReconciliationMetric[] = [...MONEY_METRICS, 'orderCount'];
+
+    for (const metric of metrics) {
+      const posValue = posTotals[metric];
+      const storedValue = storedTotals[metric];
+      const difference = round2(storedValue - posValue);
+
+      const tolerance = metric === 'orderCount'
+        ? 0
+        : Math.max(MIN_MONEY_TOLERANCE, Math.abs(posValue) * PERCENT_TOLERANCE / 100);
+
+      if (Math.abs(difference) > tolerance) {
+        discrepancies.push({
+          metric,
+          posValue,
+          storedValue,
+          difference,
+          percentDifference: posValue !== 0 ? round2((difference / posValue) * 100) : 100
+        });
+      }
+    }
+
+    return discrepancies;
+  }
+
+  private roundTotals(totals: IReconciliationTotals): IReconciliationTotals {
+    return {
+      netSales: round2(totals.netSales),
+      tax: round2(totals.tax),
+      tips: round2(totals.tips),
+      discounts: round2(totals.discounts),
+      orderCount: totals.orderCount
+    };
+  }
+
+  /**
+   * yyyyMMdd for a moment in the restaurant's timezone
+   */
+  toBusinessDate(date: Date, timezone: string): string {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(date).replace(/-/g, '');
+  }
+
+  /**
+   * Stored reconciliation results, newest business date first
+   */
+  async getResults(
+    restaurantId: string,
+    options: { limit?: number; status?: IReconciliation['status'] } = {}
+  ): Promise<IReconciliation[]> {
+    const query: Record<string, any> = { restaurantId, posType: 'toast' };
+    if (options.status) {
+      query.status = options.status;
+    }
+
+    return Reconciliation.find(query)
+      .sort({ businessDate: -1 })
+      .limit(options.limit || 30);
+  }
+}
+
+// Export singleton instance
+export const reconciliationService = new ReconciliationService();
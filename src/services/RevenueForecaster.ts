@@ -0,0 +1,531 @@
+/**
+ * Revenue Forecaster
+ *
+ * Hourly revenue and order-count forecasts with prediction intervals.
+ *
+ * Model (fit separately for revenue and orders, on restaurant-local days):
+ *   day total = trend level × day-of-week factor × holiday factor × weather factor
+ *   hour      = day total × hourly profile for that day of week
+ * - trend: least-squares line through the deseasonalized daily totals,
+ *   extrapolated with damping so a short-run slope doesn't run away
+ * - holiday factor: observed lift on past holidays (HolidayService), shrunk
+ *   toward a prior from the holiday's typical dining impact
+ * - weather factor: regression of log residuals on temperature and rain
+ *   (WeatherHistoryService, archive for history and forecast ahead)
+ * - intervals: log-normal on the day from in-sample residuals plus trend
+ *   uncertainty growing with lead time; hours add their within-day noise
+ *
+ * Forecasts are stored per day and lead time (Forecast model) so they can be
+ * scored later.
+ */
+
+import { Types } from 'mongoose';
+import Transaction from '../models/Transaction';
+import Restaurant from '../models/Restaurant';
+import Forecast, { IForecast, IForecastInterval, IHourlyForecast, IForecastComponents } from '../models/Forecast';
+import { holidayService, HolidayData, WeatherData } from './ExternalDataService';
+import { weatherHistoryService } from './WeatherHistoryService';
+import { toLocalDate, addDays } from '../utils/timezone';
+import { linearRegression, leastSquares, mean } from '../utils/statistics';
+
+export const FORECAST_MODEL_VERSION = 'seasonal-v1';
+
+// Days of history the model is fit on
+const HISTORY_DAYS = 84;
+// Minimum days of history before forecasting at all
+const MIN_HISTORY_DAYS = 14;
+// Default forecast horizon
+const DEFAULT_HORIZON_DAYS = 14;
+// Per-day damping of the trend slope when extrapolating
+const TREND_DAMPING = 0.9;
+// Weight (in days) of the all-days hourly profile when blending into a weekday's
+const PROFILE_PRIOR_DAYS = 4;
+// Weight (in holidays) of the prior lift when estimating holiday effects
+const HOLIDAY_PRIOR_WEIGHT = 2;
+// Days with weather needed before fitting weather effects
+const MIN_WEATHER_DAYS = 21;
+// Caps on weather effects (log scale) - per 10°F and for rain
+const MAX_TEMPERATURE_EFFECT = 0.15;
+const MAX_RAIN_EFFECT = 0.3;
+// Floor on day-level log residual spread so intervals never collapse
+const MIN_LOG_SIGMA = 0.05;
+
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+// Prior holiday lift by typical dining impact (multiplicative)
+const HOLIDAY_PRIOR: Record<HolidayData['diningImpact'], number> = {
+  negative: 0.85,
+  neutral: 1,
+  positive: 1.1,
+  very_positive: 1.25
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type Metric = 'revenue' | 'orders';
+
+interface HistoryDay {
+  date: string;
+  dayOfWeek: number;
+  revenue: number;
+  orders: number;
+  hourlyRevenue: number[]; // 24 local hours
+  hourlyOrders: number[];
+  holiday: HolidayData | null;
+  weather?: WeatherData;
+}
+
+interface MetricModel {
+  intercept: number;
+  slope: number;
+  slopeStdError: number;
+  lastIndex: number;
+  dayOfWeekFactors: number[];
+  holidayFactors: Record<HolidayData['diningImpact'], number>;
+  temperatureEffect: number; // log change per 10°F above meanTemperature
+  rainEffect: number; // log change on rainy days
+  meanTemperature: number;
+  logSigma: number;
+  hourlyProfiles: number[][]; // [dayOfWeek][hour] share of the day
+  hourlyNoise: number[]; // Within-day sd of each hour's share
+}
+
+export interface DailyForecast {
+  date: string;
+  dayOfWeek: string;
+  leadDays: number;
+  revenue: IForecastInterval;
+  orders: IForecastInterval;
+  hourly: IHourlyForecast[];
+  components: IForecastComponents;
+}
+
+function dayOfWeekOf(date: string): number {
+  return new Date(`${date}T12:00:00.000Z`).getUTCDay();
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export class RevenueForecaster {
+  /**
+   * Forecast the next `days` local days (starting today) and store them
+   */
+  async forecastRestaurant(restaurantId: string, days: number = DEFAULT_HORIZON_DAYS): Promise<DailyForecast[]> {
+    const restaurant = await Restaurant.findById(restaurantId).select('location analyticsSettings.timezone');
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const today = toLocalDate(new Date(), timezone);
+    const historyStart = addDays(today, -HISTORY_DAYS);
+    const horizonEnd = addDays(today, days - 1);
+
+    // Weather for history and horizon in one read (archive behind, forecast ahead)
+    let weather = new Map<string, WeatherData>();
+    const lat = restaurant.location?.latitude;
+    const lon = restaurant.location?.longitude;
+    if (lat && lon) {
+      try {
+        weather = await weatherHistoryService.getDailyWeather(lat, lon, historyStart, horizonEnd, timezone);
+      } catch (error: any) {
+        console.warn(`⚠️  Forecast weather unavailable for ${restaurantId}: ${error.message}`);
+      }
+    }
+
+    const history = await this.loadHistory(restaurantId, historyStart, addDays(today, -1), timezone, weather);
+    if (history.length < MIN_HISTORY_DAYS) {
+      throw new Error(`Need at least ${MIN_HISTORY_DAYS} days of sales history to forecast (have ${history.length})`);
+    }
+
+    const models: Record<Metric, MetricModel> = {
+      revenue: this.fitMetric(history, 'revenue'),
+      orders: this.fitMetric(history, 'orders')
+    };
+
+    const forecasts: DailyForecast[] = [];
+    for (let lead = 0; lead < days; lead++) {
+      const date = addDays(today, lead);
+      forecasts.push(this.forecastDay(models, date, lead, weather.get(date)));
+    }
+
+    await this.store(restaurantId, timezone, history.length, forecasts);
+
+    console.log(`🔮 Forecast ${days} days for restaurant ${restaurantId} from ${history.length} days of history`);
+    return forecasts;
+  }
+
+  /**
+   * Latest stored forecast per date for a local date range (inclusive)
+   */
+  async getStoredForecasts(restaurantId: string, startDate: string, endDate: string): Promise<IForecast[]> {
+    const forecasts = await Forecast.find({
+      restaurantId: new Types.ObjectId(restaurantId),
+      date: { $gte: startDate, $lte: endDate }
+    }).sort({ date: 1, generatedAt: -1 });
+
+    return forecasts.filter((forecast, index) => index === 0 || forecasts[index - 1].date !== forecast.date);
+  }
+
+  /**
+   * Daily and hourly totals per local date, from the first day with sales
+   * (earlier days would look like closures)
+   */
+  private async loadHistory(
+    restaurantId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string,
+    weather: Map<string, WeatherData>
+  ): Promise<HistoryDay[]> {
+    const rows: Array<{ _id: { date: string; hour: number }; revenue: number; orders: number }> =
+      await Transaction.aggregate([
+        {
+          $match: {
+            restaurantId: new Types.ObjectId(restaurantId),
+            // Pad a day each side; the local-date filter below is exact
+            transactionDate: {
+              $gte: new Date(`${addDays(startDate, -1)}T00:00:00.000Z`),
+              $lt: new Date(`${addDays(endDate, 2)}T00:00:00.000Z`)
+            }
+          }
+        },
+        {
+          $group: {
+            _id: {
+              date: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate', timezone } },
+              hour: { $hour: { date: '$transactionDate', timezone } }
+            },
+            revenue: { $sum: { $ifNull: ['$total', '$totalAmount'] } },
+            orders: { $sum: 1 }
+          }
+        }
+      ]);
+
+    const byDate = new Map<string, HistoryDay>();
+    for (const row of rows) {
+      const { date, hour } = row._id;
+      if (date < startDate || date > endDate) continue;
+
+      let day = byDate.get(date);
+      if (!day) {
+        day = this.emptyDay(date, weather);
+        byDate.set(date, day);
+      }
+      day.revenue += row.revenue;
+      day.orders += row.orders;
+      day.hourlyRevenue[hour] += row.revenue;
+      day.hourlyOrders[hour] += row.orders;
+    }
+
+    const dates = Array.from(byDate.keys()).sort();
+    if (dates.length === 0) {
+      return [];
+    }
+
+    // Fill closed days between the first sale and yesterday with zeros
+    const history: HistoryDay[] = [];
+    for (let date = dates[0]; date <= endDate; date = addDays(date, 1)) {
+      history.push(byDate.get(date) || this.emptyDay(date, weather));
+    }
+    return history;
+  }
+
+  private emptyDay(date: string, weather: Map<string, WeatherData>): HistoryDay {
+    return {
+      date,
+      dayOfWeek: dayOfWeekOf(date),
+      revenue: 0,
+      orders: 0,
+      hourlyRevenue: new Array(24).fill(0),
+      hourlyOrders: new Array(24).fill(0),
+      holiday: holidayService.getHoliday(new Date(`${date}T12:00:00.000Z`)),
+      weather: weather.get(date)
+    };
+  }
+
+  /**
+   * Fit the decomposition for one metric
+   */
+  private fitMetric(history: HistoryDay[], metric: Metric): MetricModel {
+    const total = (day: HistoryDay) => (metric === 'revenue' ? day.revenue : day.orders);
+    const hourly = (day: HistoryDay) => (metric === 'revenue' ? day.hourlyRevenue : day.hourlyOrders);
+    const regular = history.filter(day => !day.holiday);
+
+    // Day-of-week factors (relative to the average regular day)
+    const overallMean = mean(regular.map(total)) || 0;
+    const dayOfWeekFactors = DAY_NAMES.map((_, dow) => {
+      const days = regular.filter(day => day.dayOfWeek === dow);
+      return days.length > 0 && overallMean > 0 ? mean(days.map(total)) / overallMean : 1;
+    });
+
+    // Trend through the deseasonalized series
+    const indexed = history.map((day, index) => ({ day, index }));
+    const trendPoints = indexed.filter(({ day }) => !day.holiday && dayOfWeekFactors[day.dayOfWeek] > 0);
+    const fit = linearRegression(
+      trendPoints.map(p => p.index),
+      trendPoints.map(p => total(p.day) / dayOfWeekFactors[p.day.dayOfWeek])
+    );
+    const intercept = fit ? fit.intercept : overallMean;
+    const slope = fit ? fit.slope : 0;
+    const slopeStdError = fit ? fit.slopeStdError : 0;
+    const base = (index: number, dow: number) => Math.max(0, intercept + slope * index) * dayOfWeekFactors[dow];
+
+    // Holiday lift by dining impact, shrunk toward the prior
+    const holidayFactors = { ...HOLIDAY_PRIOR };
+    (Object.keys(HOLIDAY_PRIOR) as Array<HolidayData['diningImpact']>).forEach(impact => {
+      const ratios = indexed
+        .filter(({ day }) => day.holiday?.diningImpact === impact && base(0, day.dayOfWeek) > 0)
+        .map(({ day, index }) => total(day) / base(index, day.dayOfWeek))
+        .filter(ratio => isFinite(ratio) && ratio > 0);
+      holidayFactors[impact] = (ratios.reduce((sum, r) => sum + r, 0) + HOLIDAY_PRIOR_WEIGHT * HOLIDAY_PRIOR[impact]) /
+        (ratios.length + HOLIDAY_PRIOR_WEIGHT);
+    });
+
+    // Weather effects on the log residual
+    const weatherDays = indexed.filter(({ day, index }) =>
+      !day.holiday && day.weather && total(day) > 0 && base(index, day.dayOfWeek) > 0
+    );
+    const meanTemperature = weatherDays.length > 0 ? mean(weatherDays.map(({ day }) => day.weather!.temperature)) : 60;
+    let temperatureEffect = 0;
+    let rainEffect = 0;
+
+    if (weatherDays.length >= MIN_WEATHER_DAYS) {
+      const beta = leastSquares(
+        weatherDays.map(({ day }) => [
+          1,
+          (day.weather!.temperature - meanTemperature) / 10,
+          day.weather!.isRaining ? 1 : 0
+        ]),
+        weatherDays.map(({ day, index }) => Math.log(total(day) / base(index, day.dayOfWeek))),
+        // Shrink toward no effect on short histories
+        weatherDays.length * 0.05
+      );
+      if (beta) {
+        temperatureEffect = Math.max(-MAX_TEMPERATURE_EFFECT, Math.min(MAX_TEMPERATURE_EFFECT, beta[1]));
+        rainEffect = Math.max(-MAX_RAIN_EFFECT, Math.min(MAX_RAIN_EFFECT, beta[2]));
+      }
+    }
+
+    const weatherFactor = (weather?: WeatherData) => weather
+      ? Math.exp(temperatureEffect * (weather.temperature - meanTemperature) / 10 + rainEffect * (weather.isRaining ? 1 : 0))
+      : 1;
+
+    // In-sample log residual spread of the full day model
+    const residuals = indexed
+      .map(({ day, index }) => {
+        const holidayFactor = day.holiday ? holidayFactors[day.holiday.diningImpact] : 1;
+        const fitted = base(index, day.dayOfWeek) * holidayFactor * weatherFactor(day.weather);
+        return fitted > 0 && total(day) > 0 ? Math.log(total(day) / fitted) : null;
+      })
+      .filter((r): r is number => r !== null);
+    const parameters = 2 + 7 + (weatherDays.length >= MIN_WEATHER_DAYS ? 2 : 0);
+    const logSigma = residuals.length > parameters
+      ? Math.max(MIN_LOG_SIGMA, Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (residuals.length - parameters)))
+      : 0.25;
+
+    // Hourly profiles: each weekday's shares, blended with the all-days shares
+    const openDays = regular.filter(day => total(day) > 0);
+    const shares = (days: HistoryDay[]) => {
+      const sums = new Array(24).fill(0);
+      const dayTotal = days.reduce((sum, day) => sum + total(day), 0);
+      days.forEach(day => hourly(day).forEach((value, hour) => { sums[hour] += value; }));
+      return sums.map(sum => (dayTotal > 0 ? sum / dayTotal : 0));
+    };
+    const overallProfile = shares(openDays);
+    const hourlyProfiles = DAY_NAMES.map((_, dow) => {
+      const days = openDays.filter(day => day.dayOfWeek === dow);
+      const weight = days.length / (days.length + PROFILE_PRIOR_DAYS);
+      const own = shares(days);
+      return overallProfile.map((share, hour) => weight * own[hour] + (1 - weight) * share);
+    });
+
+    // Within-day noise: how far each hour's share strays from its profile
+    const hourlyNoise = overallProfile.map((_, hour) => {
+      if (openDays.length < 2) return 0;
+      const deviations = openDays.map(day => {
+        const share = hourly(day)[hour] / total(day);
+        return share - hourlyProfiles[day.dayOfWeek][hour];
+      });
+      return Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0) / (deviations.length - 1));
+    });
+
+    return {
+      intercept,
+      slope,
+      slopeStdError,
+      lastIndex: history.length - 1,
+      dayOfWeekFactors,
+      holidayFactors,
+      temperatureEffect,
+      rainEffect,
+      meanTemperature,
+      logSigma,
+      hourlyProfiles,
+      hourlyNoise
+    };
+  }
+
+  /**
+   * Forecast one future day from both metric models
+   */
+  private forecastDay(
+    models: Record<Metric, MetricModel>,
+    date: string,
+    leadDays: number,
+    weather?: WeatherData
+  ): DailyForecast {
+    const dayOfWeek = dayOfWeekOf(date);
+    const holiday = holidayService.getHoliday(new Date(`${date}T12:00:00.000Z`));
+
+    const revenue = this.predictMetric(models.revenue, dayOfWeek, leadDays, holiday, weather);
+    const orders = this.predictMetric(models.orders, dayOfWeek, leadDays, holiday, weather);
+
+    const hourly: IHourlyForecast[] = [];
+    for (let hour = 0; hour < 24; hour++) {
+      const hourRevenue = this.hourlyInterval(models.revenue, revenue, dayOfWeek, hour, 2);
+      const hourOrders = this.hourlyInterval(models.orders, orders, dayOfWeek, hour, 1);
+
+      // Closed hours carry no information for scheduling
+      if (hourRevenue.upper95 > 0 || hourOrders.upper95 > 0) {
+        hourly.push({ hour, revenue: hourRevenue, orders: hourOrders });
+      }
+    }
+
+    return {
+      date,
+      dayOfWeek: DAY_NAMES[dayOfWeek],
+      leadDays,
+      revenue: this.roundInterval(revenue.interval, 2),
+      orders: this.roundInterval(orders.interval, 1),
+      hourly,
+      components: {
+        level: round(revenue.level, 2),
+        dayOfWeekFactor: round(models.revenue.dayOfWeekFactors[dayOfWeek], 3),
+        holidayFactor: round(revenue.holidayFactor, 3),
+        weatherFactor: round(revenue.weatherFactor, 3),
+        holiday: holiday?.name,
+        temperature: weather ? round(weather.temperature, 1) : undefined,
+        precipitation: weather ? round(weather.precipitation, 2) : undefined,
+        weatherCondition: weather?.condition
+      }
+    };
+  }
+
+  private predictMetric(
+    model: MetricModel,
+    dayOfWeek: number,
+    leadDays: number,
+    holiday: HolidayData | null,
+    weather?: WeatherData
+  ): { interval: IForecastInterval; level: number; holidayFactor: number; weatherFactor: number; logSigma: number } {
+    // Damped trend: the slope's contribution fades with each step ahead
+    const steps = leadDays + 1;
+    const dampedSteps = TREND_DAMPING * (1 - Math.pow(TREND_DAMPING, steps)) / (1 - TREND_DAMPING);
+    const lastLevel = model.intercept + model.slope * model.lastIndex;
+    const level = Math.max(0, lastLevel + model.slope * dampedSteps);
+
+    const holidayFactor = holiday ? model.holidayFactors[holiday.diningImpact] : 1;
+    const weatherFactor = weather
+      ? Math.exp(
+          model.temperatureEffect * (weather.temperature - model.meanTemperature) / 10 +
+          model.rainEffect * (weather.isRaining ? 1 : 0)
+        )
+      : 1;
+    const predicted = level * model.dayOfWeekFactors[dayOfWeek] * holidayFactor * weatherFactor;
+
+    // Residual noise plus the trend's uncertainty at this lead time (relative)
+    const trendSigma = lastLevel > 0 ? (model.slopeStdError * dampedSteps) / lastLevel : 0;
+    const logSigma = Math.sqrt(model.logSigma * model.logSigma + trendSigma * trendSigma);
+
+    return {
+      interval: {
+        predicted,
+        lower80: predicted * Math.exp(-Z_80 * logSigma),
+        upper80: predicted * Math.exp(Z_80 * logSigma),
+        lower95: predicted * Math.exp(-Z_95 * logSigma),
+        upper95: predicted * Math.exp(Z_95 * logSigma)
+      },
+      level,
+      holidayFactor,
+      weatherFactor,
+      logSigma
+    };
+  }
+
+  /**
+   * Hour = day × profile share; its spread combines the day's uncertainty
+   * with how much that hour's share varies from day to day
+   */
+  private hourlyInterval(
+    model: MetricModel,
+    day: { interval: IForecastInterval; logSigma: number },
+    dayOfWeek: number,
+    hour: number,
+    decimals: number
+  ): IForecastInterval {
+    const share = model.hourlyProfiles[dayOfWeek][hour];
+    const predicted = day.interval.predicted * share;
+    const sd = Math.sqrt(
+      Math.pow(day.interval.predicted * model.hourlyNoise[hour], 2) +
+      Math.pow(predicted * day.logSigma, 2)
+    );
+
+    return this.roundInterval({
+      predicted,
+      lower80: Math.max(0, predicted - Z_80 * sd),
+      upper80: predicted + Z_80 * sd,
+      lower95: Math.max(0, predicted - Z_95 * sd),
+      upper95: predicted + Z_95 * sd
+    }, decimals);
+  }
+
+  private roundInterval(interval: IForecastInterval, decimals: number): IForecastInterval {
+    return {
+      predicted: round(interval.predicted, decimals),
+      lower80: round(interval.lower80, decimals),
+      upper80: round(interval.upper80, decimals),
+      lower95: round(interval.lower95, decimals),
+      upper95: round(interval.upper95, decimals)
+    };
+  }
+
+  private async store(
+    restaurantId: string,
+    timezone: string,
+    historyDays: number,
+    forecasts: DailyForecast[]
+  ): Promise<void> {
+    const generatedAt = new Date();
+
+    await Forecast.bulkWrite(
+      forecasts.map(forecast => ({
+        updateOne: {
+          filter: { restaurantId: new Types.ObjectId(restaurantId), date: forecast.date, leadDays: forecast.leadDays },
+          update: {
+            $set: {
+              timezone,
+              generatedAt,
+              leadDays: forecast.leadDays,
+              modelVersion: FORECAST_MODEL_VERSION,
+              historyDays,
+              revenue: forecast.revenue,
+              orders: forecast.orders,
+              hourly: forecast.hourly,
+              components: forecast.components
+            }
+          },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    );
+  }
+}
+
+// Export singleton instance
+export const revenueForecaster = new RevenueForecaster();
@@ -10,13 +10,17 @@
  * - Handles Toast API rate limits (5-10 sec between chunks)
  * - Syncs in 30-day chunks (Toast API limit)
  * - Updates UI in real-time via WebSocket
+ * - Checkpoints every committed page on the SyncJob so a crashed worker resumes
+ *   at the same window/page instead of restarting the history
  * - Marks initial sync complete for future incremental syncs
  */
 
 import { Types } from 'mongoose';
 import Restaurant from '../models/Restaurant';
 import { toastIntegration } from './ToastIntegration';
-import { decryptToastCredentials } from '../utils/toastEncryption';
+import { toastApiClient } from './ToastApiClient';
+import { toastTokenManager } from './ToastTokenManager';
+import { POSSyncOptions, POSSyncProgress } from './POSAdapter';
 
 export interface SyncEstimate {
   firstOrderDate: Date;
@@ -27,19 +31,7 @@ export interface SyncEstimate {
   estimatedTransactions: number;
 }
 
-export interface SyncProgress {
-  currentChunk: number;
-  totalChunks: number;
-  chunkStartDate: Date;
-  chunkEndDate: Date;
-  transactionsFetched: number;
-  transactionsImported: number;
-  totalImported: number;
-  percentComplete: number;
-  estimatedTimeRemaining: number; // minutes
-  status: 'idle' | 'syncing' | 'completed' | 'error';
-  message?: string;
-}
+export type SyncProgress = POSSyncProgress;
 
 export class SmartToastSync {
   /**
@@ -59,30 +51,9 @@ export class SmartToastSync {
       throw new Error('Toast POS credentials not configured');
     }
 
-    const credentials = decryptToastCredentials({
-      clientId: restaurant.posConfig.clientId,
-      encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-      locationId: restaurant.posConfig.locationId
-    });
-
     // Authenticate with Toast
     console.log('🔐 Authenticating with Toast...');
-    const tokenResponse = await fetch('https://ws-api.toasttab.com/authentication/v1/authentication/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        clientId: credentials.clientId,
-        clientSecret: credentials.clientSecret,
-        userAccessType: 'TOAST_MACHINE_CLIENT'
-      })
-    });
-
-    if (!tokenResponse.ok) {
-      throw new Error('Toast authentication failed');
-    }
-
-    const tokenData = await tokenResponse.json();
-    const accessToken = tokenData.token?.accessToken || tokenData.access_token;
+    const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
     // OPTIMIZATION: Only sync last 6 months (to save database space)
     console.log('📅 Setting up 6-month sync window...');
@@ -111,27 +82,26 @@ export class SmartToastSync {
 
     console.log('📊 Sampling recent month to estimate total...');
 
-    const sampleResponse = await fetch(
-      `https://ws-api.toasttab.com/orders/v2/ordersBulk?` + new URLSearchParams({
-        startDate: sampleStartDate.toISOString(),
-        endDate: sampleEndDate.toISOString(),
-        pageSize: '1'
-      }),
-      {
+    let estimatedTransactions = totalDays * 150; // Default estimate
+    try {
+      const sampleResponse = await toastApiClient.http.get('/orders/v2/ordersBulk', {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
-          'Toast-Restaurant-External-ID': credentials.locationGuid
+          'Toast-Restaurant-External-ID': restaurant.posConfig.locationId
+        },
+        params: {
+          startDate: sampleStartDate.toISOString(),
+          endDate: sampleEndDate.toISOString(),
+          pageSize: 1
         }
-      }
-    );
+      });
 
-    let estimatedTransactions = totalDays * 150; // Default estimate
-    if (sampleResponse.ok) {
-      const sampleData = await sampleResponse.json();
-      const sampleTotal = sampleData.totalCount || 0;
+      const sampleTotal = sampleResponse.data?.totalCount || 0;
       const avgPerDay = sampleTotal / 30;
       estimatedTransactions = Math.ceil(avgPerDay * totalDays);
       console.log(`📈 Estimated ${estimatedTransactions.toLocaleString()} total transactions (${avgPerDay.toFixed(0)}/day)`);
+    } catch (error: any) {
+      console.warn('⚠️  Sample request failed, using default estimate:', error.message);
     }
 
     // Estimate time
@@ -237,35 +207,22 @@ export class SmartToastSync {
 
       // Build query params (matching working fetchTransactions implementation)
       // NOTE: restaurantGuid goes in HEADER only, not in query params
-      const params = new URLSearchParams({
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-        pageSize: '1',
-        page: '1'
-      });
-
-      console.log(`      🔍 Full URL: https://ws-api.toasttab.com/orders/v2/ordersBulk?${params}`);
-
-      const response = await fetch(
-        `https://ws-api.toasttab.com/orders/v2/ordersBulk?${params}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Toast-Restaurant-External-ID': locationId,
-            'Content-Type': 'application/json'
-          }
+      const response = await toastApiClient.http.get('/orders/v2/ordersBulk', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Toast-Restaurant-External-ID': locationId
+        },
+        params: {
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          pageSize: 1,
+          page: 1
         }
-      );
+      });
 
       console.log(`      📊 Response Status: ${response.status} ${response.statusText}`);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.log(`      ❌ Error Response: ${errorText}`);
-        return false;
-      }
-
-      const data = await response.json();
+      const data = response.data;
       console.log(`      📊 Response Data: ${JSON.stringify(data).substring(0, 200)}...`);
 
       // Response is an array directly, not nested in a 'data' property
@@ -286,8 +243,11 @@ export class SmartToastSync {
     restaurantId: string,
     estimate: SyncEstimate,
     progressCallback?: (progress: SyncProgress) => void,
-    startChunk: number = 0
+    startChunk: number = 0,
+    checkpointOptions: Pick<POSSyncOptions, 'checkpoint' | 'onCheckpoint'> = {}
   ): Promise<void> {
+    const { checkpoint, onCheckpoint } = checkpointOptions;
+
     if (startChunk > 0) {
       console.log(`\n🔄 Resuming sync from chunk ${startChunk + 1}/${estimate.totalChunks}...`);
     } else {
@@ -339,29 +299,8 @@ export class SmartToastSync {
       });
     };
 
-    const credentials = decryptToastCredentials({
-      clientId: restaurant.posConfig.clientId,
-      encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-      locationId: restaurant.posConfig.locationId
-    });
-
-    // Authenticate
-    const tokenResponse = await fetch('https://ws-api.toasttab.com/authentication/v1/authentication/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        clientId: credentials.clientId,
-        clientSecret: credentials.clientSecret,
-        userAccessType: 'TOAST_MACHINE_CLIENT'
-      })
-    });
-
-    if (!tokenResponse.ok) {
-      throw new Error('Toast authentication failed');
-    }
-
-    const tokenData = await tokenResponse.json();
-    const accessToken = tokenData.token?.accessToken || tokenData.access_token;
+    // Authenticate up front so bad credentials fail before any data is touched
+    await toastTokenManager.getAccessToken(restaurantId);
 
     // STEP 1: Sync Configuration Data (Current Snapshot)
     console.log('\n📋 Syncing configuration data...');
@@ -402,13 +341,42 @@ export class SmartToastSync {
     // This gives immediate value to the user (recent data first)
     const chunkSize = 30;
 
-    // If resuming, get the total already imported from progress
+    // If resuming, get the total already imported from the job checkpoint (or progress)
     const syncProgress = (restaurant.posConfig as any).syncProgress;
-    let totalImported = (startChunk > 0 && syncProgress?.transactionsImported) ? syncProgress.transactionsImported : 0;
+    let totalImported = checkpoint
+      ? checkpoint.ordersImported
+      : (startChunk > 0 && syncProgress?.transactionsImported) ? syncProgress.transactionsImported : 0;
     const startTime = Date.now();
 
     console.log(`📊 Starting from chunk ${startChunk + 1}, ${totalImported.toLocaleString()} transactions already imported\n`);
 
+    // First window that failed; a resumed sync starts there so it gets retried
+    let retryFrom: number | null = null;
+
+    // Persist where we are so a crashed worker resumes at this window/page
+    const saveCheckpoint = async (windowIndex: number, windowStart?: Date, windowEnd?: Date, page?: number) => {
+      if (!onCheckpoint) return;
+      if (retryFrom !== null && retryFrom < windowIndex) {
+        windowIndex = retryFrom;
+        windowStart = windowEnd = page = undefined;
+      }
+      await onCheckpoint({
+        rangeStart: estimate.firstOrderDate,
+        rangeEnd: estimate.lastOrderDate,
+        totalWindows: estimate.totalChunks,
+        windowIndex,
+        windowStart,
+        windowEnd,
+        pageToken: page ? String(page) : undefined,
+        ordersImported: totalImported
+      });
+    };
+
+    // Fix the range before any work so a resume walks identical windows
+    if (!checkpoint) {
+      await saveCheckpoint(startChunk);
+    }
+
     for (let i = startChunk; i < estimate.totalChunks; i++) {
       const chunkEndDate = new Date(estimate.lastOrderDate);
       chunkEndDate.setDate(chunkEndDate.getDate() - (i * chunkSize));
@@ -446,40 +414,56 @@ export class SmartToastSync {
       await updateProgress(progress);
 
       try {
-        // Fetch transactions for this chunk
-        const transactions = await toastIntegration.fetchTransactions(
-          restaurantId,
-          chunkStartDate,
-          chunkEndDate
-        );
-
-        console.log(`  📥 Fetched ${transactions.length} transactions`);
+        // Resume mid-window from the checkpointed page
+        let page = checkpoint && checkpoint.windowIndex === i && checkpoint.pageToken
+          ? Number(checkpoint.pageToken)
+          : 1;
+        let hasMore = true;
+        let chunkFetched = 0;
+        let chunkImported = 0;
+
+        // Import page by page so each committed page can be checkpointed
+        while (hasMore) {
+          const result = await toastIntegration.fetchOrdersPage(
+            restaurantId,
+            chunkStartDate,
+            chunkEndDate,
+            page
+          );
+          hasMore = result.hasMore;
+          chunkFetched += result.orders.length;
 
-        // Update progress with fetch count
-        progress.transactionsFetched = transactions.length;
-        if (progressCallback) {
-          progressCallback(progress);
-        }
+          if (result.orders.length > 0) {
+            const imported = await toastIntegration.importTransactions(restaurantId, result.orders);
+            chunkImported += imported;
+            totalImported += imported;
+          }
 
-        // Import to database
-        if (transactions.length > 0) {
-          const imported = await toastIntegration.importTransactions(restaurantId, transactions);
-          const skipped = transactions.length - imported;
+          await saveCheckpoint(i, chunkStartDate, chunkEndDate, page + 1);
 
-          totalImported += imported;
+          if (hasMore) {
+            page++;
+            // Small delay between pages (rate limit: 5 req/second)
+            await new Promise(resolve => setTimeout(resolve, 200));
+          }
+        }
 
-          console.log(`  ✅ Imported ${imported} new (${skipped} duplicates skipped)`);
+        console.log(`  📥 Fetched ${chunkFetched} transactions`);
 
-          // Final progress update for this chunk
-          progress.transactionsImported = imported;
-          progress.totalImported = totalImported;
-          if (progressCallback) {
-            progressCallback(progress);
-          }
+        if (chunkFetched > 0) {
+          console.log(`  ✅ Imported ${chunkImported} new (${chunkFetched - chunkImported} duplicates skipped)`);
         } else {
           console.log(`  ⚠️  No transactions in this period`);
         }
 
+        // Final progress update for this chunk
+        progress.transactionsFetched = chunkFetched;
+        progress.transactionsImported = chunkImported;
+        progress.totalImported = totalImported;
+        if (progressCallback) {
+          progressCallback(progress);
+        }
+
         // Sync Labor Data for this time period
         try {
           // Fetch time entries (clock-in/out data)
@@ -510,6 +494,9 @@ export class SmartToastSync {
           // Continue even if labor sync fails
         }
 
+        // Window fully committed - a resume starts at the next one
+        await saveCheckpoint(i + 1);
+
         // Rate limiting: Wait 5-10 seconds between chunks (Toast API requirement)
         if (i < estimate.totalChunks - 1) {
           const waitTime = 7000; // 7 seconds
@@ -529,6 +516,9 @@ export class SmartToastSync {
           });
         }
 
+        retryFrom = retryFrom ?? i;
+        await saveCheckpoint(i);
+
         // Continue with next chunk (don't fail entire sync)
         continue;
       }
@@ -665,12 +655,65 @@ export class SmartToastSync {
     return imported;
   }
 
+  /**
+   * Targeted sync for an explicit date range (e.g. re-filling a detected gap).
+   * Leaves lastSyncAt alone so incremental syncs carry on from where they were.
+   */
+  async executeRangeSync(
+    restaurantId: string,
+    startDate: Date,
+    endDate: Date,
+    progressCallback?: (progress: SyncProgress) => void
+  ): Promise<number> {
+    console.log(`\n🎯 Range sync for restaurant ${restaurantId}: ${startDate.toISOString()} → ${endDate.toISOString()}`);
+
+    if (progressCallback) {
+      progressCallback({
+        currentChunk: 1,
+        totalChunks: 1,
+        chunkStartDate: startDate,
+        chunkEndDate: endDate,
+        transactionsFetched: 0,
+        transactionsImported: 0,
+        totalImported: 0,
+        percentComplete: 0,
+        estimatedTimeRemaining: 1,
+        status: 'syncing',
+        message: `Re-syncing ${startDate.toLocaleDateString()} to ${endDate.toLocaleDateString()}...`
+      });
+    }
+
+    const transactions = await toastIntegration.fetchTransactions(restaurantId, startDate, endDate);
+    const imported = await toastIntegration.importTransactions(restaurantId, transactions);
+
+    console.log(`✅ Range sync imported ${imported} of ${transactions.length} fetched transactions`);
+
+    if (progressCallback) {
+      progressCallback({
+        currentChunk: 1,
+        totalChunks: 1,
+        chunkStartDate: startDate,
+        chunkEndDate: endDate,
+        transactionsFetched: transactions.length,
+        transactionsImported: imported,
+        totalImported: imported,
+        percentComplete: 100,
+        estimatedTimeRemaining: 0,
+        status: 'completed',
+        message: `Range sync complete! Imported ${imported} missing transactions.`
+      });
+    }
+
+    return imported;
+  }
+
   /**
    * Smart sync: Automatically chooses initial, resume, or incremental sync
    */
   async smartSync(
     restaurantId: string,
-    progressCallback?: (progress: SyncProgress) => void
+    progressCallback?: (progress: SyncProgress) => void,
+    options: POSSyncOptions = {}
   ): Promise<void> {
     const restaurant = await Restaurant.findById(restaurantId);
     if (!restaurant) {
@@ -681,8 +724,27 @@ export class SmartToastSync {
     const initialSyncComplete = (restaurant.posConfig as any).initialSyncComplete || false;
     const syncProgress = (restaurant.posConfig as any).syncProgress;
 
-    // Check if we can resume an in-progress sync
-    if (!initialSyncComplete && syncProgress && syncProgress.status === 'syncing' && syncProgress.currentChunk > 0) {
+    if (!initialSyncComplete && options.checkpoint) {
+      // Worker resuming a crashed job: the checkpoint pins the original windows,
+      // so there's no need to re-estimate (which would shift every window)
+      const { checkpoint } = options;
+      console.log(`🔄 Resuming from checkpoint: window ${checkpoint.windowIndex + 1}/${checkpoint.totalWindows}` +
+        (checkpoint.pageToken ? `, page ${checkpoint.pageToken}` : ''));
+
+      const firstOrderDate = new Date(checkpoint.rangeStart);
+      const lastOrderDate = new Date(checkpoint.rangeEnd);
+      const estimate: SyncEstimate = {
+        firstOrderDate,
+        lastOrderDate,
+        totalDays: Math.ceil((lastOrderDate.getTime() - firstOrderDate.getTime()) / (1000 * 60 * 60 * 24)),
+        totalChunks: checkpoint.totalWindows,
+        estimatedMinutes: Math.ceil(((checkpoint.totalWindows - checkpoint.windowIndex) * 15) / 60),
+        estimatedTransactions: checkpoint.ordersImported
+      };
+
+      await this.executeInitialSync(restaurantId, estimate, progressCallback, checkpoint.windowIndex, options);
+    } else if (!initialSyncComplete && syncProgress && syncProgress.status === 'syncing' && syncProgress.currentChunk > 0) {
+      // Check if we can resume an in-progress sync
       console.log('🔄 Resuming incomplete sync...');
       console.log(`   Last progress: Chunk ${syncProgress.currentChunk}/${syncProgress.totalChunks} (${syncProgress.percentComplete.toFixed(1)}%)`);
       console.log(`   Transactions imported so far: ${syncProgress.transactionsImported?.toLocaleString() || 0}`);
@@ -691,12 +753,12 @@ export class SmartToastSync {
       const estimate = await this.estimateInitialSync(restaurantId);
 
       // Resume from where we left off
-      await this.executeInitialSync(restaurantId, estimate, progressCallback, syncProgress.currentChunk);
+      await this.executeInitialSync(restaurantId, estimate, progressCallback, syncProgress.currentChunk, options);
     } else if (!initialSyncComplete) {
       // First time sync - do full historical
       console.log('🆕 First sync detected - performing FULL historical sync...');
       const estimate = await this.estimateInitialSync(restaurantId);
-      await this.executeInitialSync(restaurantId, estimate, progressCallback);
+      await this.executeInitialSync(restaurantId, estimate, progressCallback, 0, options);
     } else {
       // Subsequent sync - only get new data
       console.log('🔄 Incremental sync...');
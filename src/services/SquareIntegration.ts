@@ -0,0 +1,949 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Restaurant } from '../models';
+import { ITransaction, TransactionStatus, PaymentMethod, OrderType } from '../models/Transaction';
+import { decryptSquareCredentials } from '../utils/squareEncryption';
+import { encryptField } from '../utils/toastEncryption';
+import {
+  IPOSAdapter,
+  POSSyncOptions,
+  POSSyncProgressCallback,
+  POSSyncResult,
+  bulkUpsertTransactions,
+  runChunkedSync
+} from './POSAdapter';
+
+// Square API configuration
+const SQUARE_BASE_URL = process.env.SQUARE_ENVIRONMENT === 'sandbox'
+  ? 'https://connect.squareupsandbox.com'
+  : 'https://connect.squareup.com';
+const SQUARE_API_VERSION = '2024-10-17';
+const RETRY_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+const PAGE_LIMIT = 500;
+
+// Interface for Square API credentials
+export interface ISquareCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  locationId: string;
+}
+
+// Square amounts are integers in the smallest currency unit (cents)
+interface ISquareMoney {
+  amount?: number;
+  currency?: string;
+}
+
+// Interface for Square order data (subset we use)
+interface ISquareOrder {
+  id: string;
+  location_id: string;
+  state: 'OPEN' | 'COMPLETED' | 'CANCELED' | 'DRAFT';
+  created_at: string;
+  updated_at?: string;
+  closed_at?: string;
+  ticket_name?: string;
+  source?: { name?: string };
+  line_items?: Array<{
+    uid: string;
+    catalog_object_id?: string;
+    name?: string;
+    variation_name?: string;
+    quantity: string;
+    note?: string;
+    base_price_money?: ISquareMoney;
+    gross_sales_money?: ISquareMoney;
+    total_money?: ISquareMoney;
+    modifiers?: Array<{
+      uid: string;
+      catalog_object_id?: string;
+      name?: string;
+      total_price_money?: ISquareMoney;
+    }>;
+    applied_discounts?: Array<{
+      uid: string;
+      discount_uid: string;
+      applied_money?: ISquareMoney;
+    }>;
+  }>;
+  discounts?: Array<{
+    uid: string;
+    name?: string;
+    type?: string;
+    percentage?: string;
+    amount_money?: ISquareMoney;
+    applied_money?: ISquareMoney;
+    scope?: 'ORDER' | 'LINE_ITEM';
+  }>;
+  fulfillments?: Array<{ type?: string }>;
+  tenders?: Array<{
+    id: string;
+    type: string;
+    created_at?: string;
+    amount_money?: ISquareMoney;
+    tip_money?: ISquareMoney;
+    card_details?: {
+      card?: {
+        card_brand?: string;
+        last_4?: string;
+      };
+    };
+  }>;
+  refunds?: Array<{ id: string; amount_money?: ISquareMoney }>;
+  total_money?: ISquareMoney;
+  total_tax_money?: ISquareMoney;
+  total_tip_money?: ISquareMoney;
+  total_discount_money?: ISquareMoney;
+}
+
+function toDollars(money?: ISquareMoney): number {
+  return (money?.amount || 0) / 100;
+}
+
+// Main Square Integration Service
+export class SquareIntegrationService implements IPOSAdapter {
+  readonly posType = 'square' as const;
+  private client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: SQUARE_BASE_URL,
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        'Square-Version': SQUARE_API_VERSION,
+        'User-Agent': 'NOION-Analytics/1.0'
+      }
+    });
+
+    // Add response interceptor for retry logic
+    this.client.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const config = error.config;
+
+        if (!config._retryCount) {
+          config._retryCount = 0;
+        }
+
+        if (config._retryCount < RETRY_ATTEMPTS && this.shouldRetry(error)) {
+          config._retryCount++;
+          await this.delay(RETRY_DELAY_MS * config._retryCount);
+          return this.client(config);
+        }
+
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  private shouldRetry(error: any): boolean {
+    return (
+      error.code === 'ECONNRESET' ||
+      error.code === 'ETIMEDOUT' ||
+      (error.response && error.response.status >= 500) ||
+      (error.response && error.response.status === 429) // Rate limit
+    );
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Verify credentials by loading the configured location
+   */
+  async authenticateRestaurant(credentials: ISquareCredentials): Promise<{ id: string; name: string; timezone?: string }> {
+    try {
+      const response = await this.client.get(`/v2/locations/${credentials.locationId}`, {
+        headers: { 'Authorization': `Bearer ${credentials.accessToken}` }
+      });
+
+      if (!response.data.location) {
+        throw new Error('Authentication failed: location not found');
+      }
+
+      return response.data.location;
+    } catch (error: any) {
+      console.error('Square authentication failed:', error.response?.data || error.message);
+      throw new Error(`Square authentication failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load and decrypt stored credentials for a restaurant
+   */
+  private async getCredentials(restaurantId: string): Promise<ISquareCredentials> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    return decryptSquareCredentials({
+      encryptedAccessToken: restaurant.posConfig.encryptedAccessToken,
+      encryptedRefreshToken: restaurant.posConfig.encryptedRefreshToken,
+      locationId: restaurant.posConfig.locationId
+    });
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token (OAuth apps only)
+   */
+  private async refreshAccessToken(restaurantId: string, refreshToken: string): Promise<string> {
+    const clientId = process.env.SQUARE_APPLICATION_ID;
+    const clientSecret = process.env.SQUARE_APPLICATION_SECRET;
+
+    if (!clientId || !clientSecret) {
+      throw new Error('SQUARE_APPLICATION_ID and SQUARE_APPLICATION_SECRET are required to refresh Square tokens');
+    }
+
+    const response = await this.client.post('/oauth2/token', {
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken
+    });
+
+    const accessToken: string = response.data.access_token;
+
+    await Restaurant.findByIdAndUpdate(restaurantId, {
+      'posConfig.encryptedAccessToken': encryptField(accessToken),
+      ...(response.data.refresh_token && {
+        'posConfig.encryptedRefreshToken': encryptField(response.data.refresh_token)
+      })
+    });
+
+    return accessToken;
+  }
+
+  /**
+   * Authenticated request; refreshes the token once on 401 if possible
+   */
+  private async request<T = any>(restaurantId: string, config: AxiosRequestConfig): Promise<T> {
+    const credentials = await this.getCredentials(restaurantId);
+
+    try {
+      const response = await this.client.request<T>({
+        ...config,
+        headers: { ...config.headers, 'Authorization': `Bearer ${credentials.accessToken}` }
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status !== 401 || !credentials.refreshToken) {
+        throw error;
+      }
+
+      console.log('🔐 Square access token expired, refreshing...');
+      const accessToken = await this.refreshAccessToken(restaurantId, credentials.refreshToken);
+      const response = await this.client.request<T>({
+        ...config,
+        headers: { ...config.headers, 'Authorization': `Bearer ${accessToken}` }
+      });
+      return response.data;
+    }
+  }
+
+  /**
+   * Test connection to Square API
+   */
+  async testConnection(restaurantId: string): Promise<boolean> {
+    try {
+      const credentials = await this.getCredentials(restaurantId);
+      await this.authenticateRestaurant(credentials);
+      return true;
+    } catch (error) {
+      console.error('Connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch closed orders from Square Orders API (cursor paginated)
+   */
+  async fetchTransactions(restaurantId: string, startDate: Date, endDate: Date): Promise<ISquareOrder[]> {
+    const { locationId } = await this.getCredentials(restaurantId);
+    const allOrders: ISquareOrder[] = [];
+    let cursor: string | undefined;
+    let page = 0;
+
+    console.log(`Fetching Square orders from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+
+    do {
+      page++;
+      const data = await this.request<{ orders?: ISquareOrder[]; cursor?: string }>(restaurantId, {
+        method: 'POST',
+        url: '/v2/orders/search',
+        data: {
+          location_ids: [locationId],
+          limit: PAGE_LIMIT,
+          cursor,
+          query: {
+            filter: {
+              state_filter: { states: ['COMPLETED', 'CANCELED'] },
+              date_time_filter: {
+                closed_at: {
+                  start_at: startDate.toISOString(),
+                  end_at: endDate.toISOString()
+                }
+              }
+            },
+            // closed_at filtering requires sorting on the same field
+            sort: { sort_field: 'CLOSED_AT', sort_order: 'ASC' }
+          }
+        }
+      });
+
+      const pageData = data.orders || [];
+      allOrders.push(...pageData);
+      cursor = data.cursor;
+
+      console.log(`  ✓ Page ${page}: Retrieved ${pageData.length} orders (total: ${allOrders.length})`);
+    } while (cursor);
+
+    return allOrders;
+  }
+
+  /**
+   * Normalize Square order data to our schema
+   */
+  normalizeTransaction(order: ISquareOrder, restaurantId: string): Partial<ITransaction> {
+    const discountNames = new Map((order.discounts || []).map(d => [d.uid, d.name || 'Discount']));
+
+    const items = (order.line_items || []).map(lineItem => {
+      const quantity = parseFloat(lineItem.quantity) || 0;
+      const totalPrice = toDollars(lineItem.gross_sales_money || lineItem.total_money);
+
+      return {
+        id: lineItem.catalog_object_id || lineItem.uid,
+        name: lineItem.name || lineItem.variation_name || 'Unknown Item',
+        category: 'General',
+        quantity,
+        unitPrice: quantity > 0 ? totalPrice / quantity : 0,
+        totalPrice,
+        specialInstructions: lineItem.note,
+        modifiers: (lineItem.modifiers || []).map(mod => ({
+          id: mod.catalog_object_id || mod.uid,
+          name: mod.name || 'Unknown Modifier',
+          price: toDollars(mod.total_price_money)
+        })),
+        discounts: (lineItem.applied_discounts || []).map(applied => ({
+          id: applied.discount_uid,
+          name: discountNames.get(applied.discount_uid) || 'Discount',
+          type: 'fixed' as const,
+          value: toDollars(applied.applied_money),
+          amount: toDollars(applied.applied_money)
+        }))
+      };
+    });
+
+    const payments = (order.tenders || []).map(tender => {
+      const amount = toDollars(tender.amount_money);
+      const tip = toDollars(tender.tip_money);
+      const preTipAmount = amount - tip;
+
+      return {
+        method: this.mapSquareTenderType(tender.type),
+        amount,
+        cardType: this.mapSquareCardBrand(tender.card_details?.card?.card_brand),
+        last4Digits: tender.card_details?.card?.last_4,
+        tip: tip > 0 ? {
+          amount: tip,
+          percentage: preTipAmount > 0 ? Math.min((tip / preTipAmount) * 100, 100) : 0,
+          method: (tender.type === 'CASH' ? 'cash' : 'card') as 'cash' | 'card'
+        } : undefined
+      };
+    });
+
+    const discounts = (order.discounts || [])
+      .filter(discount => discount.scope !== 'LINE_ITEM')
+      .map(discount => ({
+        id: discount.uid,
+        name: discount.name || 'Discount',
+        type: (discount.type?.includes('PERCENTAGE') ? 'percentage' : 'fixed') as 'percentage' | 'fixed',
+        value: discount.percentage ? parseFloat(discount.percentage) : toDollars(discount.amount_money),
+        amount: toDollars(discount.applied_money)
+      }));
+
+    const tax = toDollars(order.total_tax_money);
+    const tip = toDollars(order.total_tip_money);
+    // Square's total includes tips; our totalAmount (like Toast's check total) does not
+    const totalAmount = Math.max(0, toDollars(order.total_money) - tip);
+
+    const status = order.state === 'CANCELED' ? TransactionStatus.VOIDED :
+                   order.state === 'COMPLETED' ? (order.refunds?.length ? TransactionStatus.PARTIALLY_REFUNDED : TransactionStatus.COMPLETED) :
+                   TransactionStatus.PENDING;
+
+    const openedDate = new Date(order.created_at);
+
+    return {
+      restaurantId: restaurantId as any,
+      posTransactionId: order.id,
+      posSystemType: 'square',
+      orderType: this.mapSquareOrderType(order),
+      status,
+      items,
+      subtotal: Math.max(0, totalAmount - tax),
+      tax,
+      tip,
+      totalAmount,
+      discounts,
+      payments,
+      // Square orders don't carry the team member; payments do, but aren't fetched per order
+      employee: {
+        id: 'unassigned',
+        name: order.source?.name || 'System',
+        role: 'system'
+      },
+      timing: {
+        orderStartedAt: openedDate,
+        orderCompletedAt: order.closed_at ? new Date(order.closed_at) : undefined,
+        paymentProcessedAt: order.tenders?.[0]?.created_at ? new Date(order.tenders[0].created_at) : undefined
+      },
+      location: {
+        id: order.location_id,
+        tableNumber: order.ticket_name
+      },
+      analytics: {
+        isUpsellOpportunity: false,
+        orderAccuracy: order.state !== 'CANCELED',
+        serviceEfficiency: 'average' as const,
+        revenueCategory: 'medium' as const,
+        isRepeatCustomer: false,
+        isDuringPeakHours: false,
+        dayOfWeek: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][openedDate.getDay()],
+        hourOfDay: openedDate.getUTCHours(),
+        anomalies: []
+      },
+      integration: {
+        lastSyncedAt: new Date(),
+        syncVersion: 1,
+        webhookReceived: false,
+        rawPOSData: order
+      },
+      transactionDate: openedDate
+    };
+  }
+
+  private mapSquareTenderType(tenderType: string): PaymentMethod {
+    switch (tenderType) {
+      case 'CASH':
+        return PaymentMethod.CASH;
+      case 'CARD':
+        return PaymentMethod.CREDIT_CARD;
+      case 'SQUARE_GIFT_CARD':
+        return PaymentMethod.GIFT_CARD;
+      case 'WALLET':
+        return PaymentMethod.MOBILE_PAYMENT;
+      default:
+        return PaymentMethod.OTHER;
+    }
+  }
+
+  private mapSquareCardBrand(brand?: string): 'visa' | 'mastercard' | 'amex' | 'discover' | 'other' | undefined {
+    if (!brand) return undefined;
+
+    switch (brand) {
+      case 'VISA':
+        return 'visa';
+      case 'MASTERCARD':
+        return 'mastercard';
+      case 'AMERICAN_EXPRESS':
+        return 'amex';
+      case 'DISCOVER':
+        return 'discover';
+      default:
+        return 'other';
+    }
+  }
+
+  private mapSquareOrderType(order: ISquareOrder): OrderType {
+    const fulfillmentType = order.fulfillments?.[0]?.type;
+
+    switch (fulfillmentType) {
+      case 'PICKUP':
+        return OrderType.TAKEOUT;
+      case 'DELIVERY':
+      case 'SHIPMENT':
+        return OrderType.DELIVERY;
+      case 'DINE_IN':
+        return OrderType.DINE_IN;
+      default:
+        return order.source?.name?.toLowerCase().includes('online') ? OrderType.ONLINE : OrderType.DINE_IN;
+    }
+  }
+
+  /**
+   * Import orders into our database
+   */
+  async importTransactions(restaurantId: string, orders: ISquareOrder[]): Promise<number> {
+    const normalized: Partial<ITransaction>[] = [];
+
+    for (const order of orders) {
+      try {
+        normalized.push(this.normalizeTransaction(order, restaurantId));
+      } catch (error) {
+        console.error(`Failed to normalize Square order ${order.id}:`, error);
+      }
+    }
+
+    return bulkUpsertTransactions(restaurantId, normalized);
+  }
+
+  /**
+   * Fetch timecards (clock-in/out) from Square Labor API.
+   * Square calls these "shifts"; they map to our TimeEntry model.
+   */
+  async fetchTimeEntries(restaurantId: string, startDate: Date, endDate: Date): Promise<any[]> {
+    try {
+      const { locationId } = await this.getCredentials(restaurantId);
+      const allEntries: any[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const data = await this.request(restaurantId, {
+          method: 'POST',
+          url: '/v2/labor/shifts/search',
+          data: {
+            limit: 200,
+            cursor,
+            query: {
+              filter: {
+                location_ids: [locationId],
+                start: { start_at: startDate.toISOString(), end_at: endDate.toISOString() }
+              }
+            }
+          }
+        });
+
+        allEntries.push(...(data.shifts || []));
+        cursor = data.cursor;
+      } while (cursor);
+
+      return allEntries;
+    } catch (error: any) {
+      console.error('Failed to fetch time entries from Square:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import Square timecards into TimeEntry.
+   * The toast* GUID fields hold the POS's own IDs for non-Toast systems.
+   */
+  async importTimeEntries(restaurantId: string, squareTimecards: any[]): Promise<number> {
+    const TimeEntry = (await import('../models/TimeEntry')).default;
+
+    if (squareTimecards.length === 0) {
+      return 0;
+    }
+
+    console.log(`  📦 Batch importing ${squareTimecards.length} time entries...`);
+
+    const bulkOps = squareTimecards.map(entry => {
+      const clockIn = new Date(entry.start_at);
+      const clockOut = entry.end_at ? new Date(entry.end_at) : null;
+      const breakMinutes = (entry.breaks || []).reduce((sum: number, b: any) => {
+        if (!b.start_at || !b.end_at || b.is_paid) return sum;
+        return sum + (new Date(b.end_at).getTime() - new Date(b.start_at).getTime()) / 60000;
+      }, 0);
+      const workedHours = clockOut
+        ? Math.max(0, (clockOut.getTime() - clockIn.getTime()) / 3600000 - breakMinutes / 60)
+        : 0;
+      const hourlyWage = toDollars(entry.wage?.hourly_rate);
+
+      return {
+        updateOne: {
+          filter: {
+            restaurantId: restaurantId,
+            toastTimeEntryGuid: entry.id
+          },
+          update: {
+            $setOnInsert: {
+              restaurantId: restaurantId,
+              toastTimeEntryGuid: entry.id,
+              employeeId: null, // TODO: Map to Employee model
+              employeeToastGuid: entry.team_member_id || entry.employee_id,
+              jobId: null, // TODO: Map to Job model
+              jobToastGuid: entry.wage?.job_id,
+              clockInTime: clockIn,
+              clockOutTime: clockOut,
+              breakDuration: Math.round(breakMinutes),
+              // Square doesn't split overtime on timecards
+              regularHours: workedHours,
+              overtimeHours: 0,
+              doubleOvertimeHours: 0,
+              hourlyWage,
+              tipsEarned: toDollars(entry.declared_cash_tip_money),
+              businessDate: new Date(clockIn.toISOString().split('T')[0]),
+              createdDate: new Date(entry.created_at || entry.start_at),
+              modifiedDate: new Date(entry.updated_at || entry.start_at),
+              totalHours: workedHours,
+              totalPay: workedHours * hourlyWage
+            }
+          },
+          upsert: true
+        }
+      };
+    });
+
+    try {
+      const result = await TimeEntry.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Time entries import: ${result.upsertedCount} new`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Time entries import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Fetch published scheduled shifts from Square Labor API
+   */
+  async fetchShifts(restaurantId: string, startDate: Date, endDate: Date): Promise<any[]> {
+    try {
+      const { locationId } = await this.getCredentials(restaurantId);
+      const allShifts: any[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const data = await this.request(restaurantId, {
+          method: 'POST',
+          url: '/v2/labor/scheduled-shifts/search',
+          data: {
+            limit: 50,
+            cursor,
+            query: {
+              filter: {
+                location_ids: [locationId],
+                start: { start_at: startDate.toISOString(), end_at: endDate.toISOString() }
+              }
+            }
+          }
+        });
+
+        allShifts.push(...(data.scheduled_shifts || []));
+        cursor = data.cursor;
+      } while (cursor);
+
+      return allShifts;
+    } catch (error: any) {
+      console.error('Failed to fetch shifts from Square:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import Square scheduled shifts into Shift
+   */
+  async importShifts(restaurantId: string, squareShifts: any[]): Promise<number> {
+    const Shift = (await import('../models/Shift')).default;
+
+    const published = squareShifts.filter(shift => shift.published_shift_details);
+    if (published.length === 0) {
+      return 0;
+    }
+
+    console.log(`  📦 Batch importing ${published.length} shifts...`);
+
+    const bulkOps = published.map(shift => {
+      const details = shift.published_shift_details;
+      const start = new Date(details.start_at);
+
+      return {
+        updateOne: {
+          filter: {
+            restaurantId: restaurantId,
+            toastShiftGuid: shift.id
+          },
+          update: {
+            $setOnInsert: {
+              restaurantId: restaurantId,
+              toastShiftGuid: shift.id,
+              employeeId: null, // TODO: Map to Employee model
+              employeeToastGuid: details.team_member_id,
+              jobId: null, // TODO: Map to Job model
+              jobToastGuid: details.job_id,
+              scheduledStart: start,
+              scheduledEnd: new Date(details.end_at),
+              businessDate: new Date(start.toISOString().split('T')[0]),
+              actualTimeEntryId: null,
+              createdDate: new Date(shift.created_at || details.start_at),
+              modifiedDate: new Date(shift.updated_at || details.start_at)
+            }
+          },
+          upsert: true
+        }
+      };
+    });
+
+    try {
+      const result = await Shift.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Shifts import: ${result.upsertedCount} new`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Shifts import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Fetch job titles from Square Team API
+   */
+  async fetchJobs(restaurantId: string): Promise<any[]> {
+    try {
+      const allJobs: any[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const data = await this.request(restaurantId, {
+          method: 'GET',
+          url: '/v2/team-members/jobs',
+          params: { cursor }
+        });
+
+        allJobs.push(...(data.jobs || []));
+        cursor = data.cursor;
+      } while (cursor);
+
+      return allJobs;
+    } catch (error: any) {
+      console.error('Failed to fetch jobs from Square:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import Square jobs into Job
+   */
+  async importJobs(restaurantId: string, squareJobs: any[]): Promise<number> {
+    const Job = (await import('../models/Job')).default;
+
+    if (squareJobs.length === 0) {
+      return 0;
+    }
+
+    console.log(`  📦 Batch importing ${squareJobs.length} jobs...`);
+
+    const bulkOps = squareJobs.map(job => ({
+      updateOne: {
+        filter: {
+          restaurantId: restaurantId,
+          toastJobGuid: job.id
+        },
+        update: {
+          $set: {
+            title: job.title || 'Unknown',
+            defaultWage: 0, // Square keeps wages per team member, not per job
+            tipEligible: job.is_tip_eligible || false,
+            isActive: true,
+            createdDate: job.created_at ? new Date(job.created_at) : new Date(),
+            modifiedDate: job.updated_at ? new Date(job.updated_at) : new Date()
+          }
+        },
+        upsert: true
+      }
+    }));
+
+    try {
+      const result = await Job.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Jobs import: ${result.upsertedCount} new, ${result.modifiedCount} updated`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Jobs import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * List catalog objects of the given types (cursor paginated)
+   */
+  private async listCatalog(restaurantId: string, types: string): Promise<any[]> {
+    const objects: any[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const data = await this.request(restaurantId, {
+        method: 'GET',
+        url: '/v2/catalog/list',
+        params: { types, cursor }
+      });
+
+      objects.push(...(data.objects || []));
+      cursor = data.cursor;
+    } while (cursor);
+
+    return objects;
+  }
+
+  /**
+   * Square has no menus, so the catalog is exposed as a single menu
+   * with one group per category
+   */
+  async fetchMenus(restaurantId: string): Promise<any[]> {
+    try {
+      const { locationId } = await this.getCredentials(restaurantId);
+      const objects = await this.listCatalog(restaurantId, 'ITEM,CATEGORY');
+
+      const categories = objects.filter(o => o.type === 'CATEGORY' && !o.is_deleted);
+      const items = objects.filter(o => o.type === 'ITEM' && !o.is_deleted);
+
+      const groups = categories.map(category => ({
+        guid: category.id,
+        name: category.category_data?.name || 'Uncategorized',
+        items: items
+          .filter(item => this.getItemCategoryIds(item).includes(category.id))
+          .map(item => item.id)
+      }));
+
+      return [{
+        guid: `square-catalog-${locationId}`,
+        name: 'Square Catalog',
+        groups
+      }];
+    } catch (error: any) {
+      console.error('Failed to fetch menus from Square:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  private getItemCategoryIds(item: any): string[] {
+    const fromList = (item.item_data?.categories || []).map((c: any) => c.id);
+    return item.item_data?.category_id ? [...fromList, item.item_data.category_id] : fromList;
+  }
+
+  /**
+   * Import the synthesized catalog menu into Menu
+   */
+  async importMenus(restaurantId: string, menus: any[]): Promise<number> {
+    const Menu = (await import('../models/Menu')).default;
+
+    if (menus.length === 0) {
+      return 0;
+    }
+
+    const bulkOps = menus.map(menu => ({
+      updateOne: {
+        filter: {
+          restaurantId: restaurantId,
+          toastMenuGuid: menu.guid
+        },
+        update: {
+          $set: {
+            name: menu.name,
+            groups: (menu.groups || []).map((g: any) => ({
+              toastGroupGuid: g.guid,
+              name: g.name,
+              items: g.items || []
+            })),
+            isActive: true,
+            lastSyncedAt: new Date()
+          }
+        },
+        upsert: true
+      }
+    }));
+
+    try {
+      const result = await Menu.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Menus import: ${result.upsertedCount} new, ${result.modifiedCount} updated`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Menus import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Fetch catalog items with their category names resolved
+   */
+  async fetchMenuItems(restaurantId: string): Promise<any[]> {
+    try {
+      const objects = await this.listCatalog(restaurantId, 'ITEM,CATEGORY');
+      const categoryNames = new Map(
+        objects
+          .filter(o => o.type === 'CATEGORY')
+          .map(o => [o.id, o.category_data?.name])
+      );
+
+      return objects
+        .filter(o => o.type === 'ITEM')
+        .map(item => ({
+          ...item,
+          categoryName: this.getItemCategoryIds(item).map(id => categoryNames.get(id)).find(Boolean)
+        }));
+    } catch (error: any) {
+      console.error('Failed to fetch menu items from Square:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Import Square catalog items into MenuItem (price from first variation)
+   */
+  async importMenuItems(restaurantId: string, squareItems: any[]): Promise<number> {
+    const MenuItem = (await import('../models/MenuItem')).default;
+
+    if (squareItems.length === 0) {
+      return 0;
+    }
+
+    console.log(`  📦 Batch importing ${squareItems.length} menu items...`);
+
+    const bulkOps = squareItems.map(item => {
+      const variation = item.item_data?.variations?.[0]?.item_variation_data;
+      const price = toDollars(variation?.price_money);
+
+      return {
+        updateOne: {
+          filter: {
+            restaurantId: restaurantId,
+            toastItemGuid: item.id
+          },
+          update: {
+            $set: {
+              name: item.item_data?.name || 'Unknown Item',
+              description: item.item_data?.description,
+              sku: variation?.sku,
+              price,
+              category: item.categoryName || 'Uncategorized',
+              isActive: !item.is_deleted,
+              lastSyncedAt: new Date()
+            },
+            $addToSet: {
+              priceHistory: {
+                $each: [{
+                  price,
+                  effectiveDate: new Date()
+                }]
+              }
+            }
+          },
+          upsert: true
+        }
+      };
+    });
+
+    try {
+      const result = await MenuItem.bulkWrite(bulkOps, { ordered: false });
+      console.log(`  ✅ Menu items import: ${result.upsertedCount} new, ${result.modifiedCount} updated`);
+      return result.upsertedCount || 0;
+    } catch (error: any) {
+      console.error(`  ⚠️  Menu items import error:`, error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Full sync entry point used by the Mongo worker
+   */
+  async syncRestaurant(
+    restaurantId: string,
+    options?: POSSyncOptions,
+    progressCallback?: POSSyncProgressCallback
+  ): Promise<POSSyncResult> {
+    return runChunkedSync(this, restaurantId, options, progressCallback);
+  }
+}
+
+// Export singleton instance
+export const squareIntegration = new SquareIntegrationService();
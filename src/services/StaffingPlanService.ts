@@ -0,0 +1,539 @@
+/**
+ * Staffing Plan Service
+ *
+ * Turns the coming week's forecast into a headcount plan per job and hour,
+ * and checks it against the published schedule:
+ * 1. Daily revenue and its hourly split come from the stored forecast
+ *    (RevenueForecaster); the week is only forecast here if nothing is stored,
+ *    falling back to PredictionEngine's baseline (and the weekday's historical
+ *    hourly profile) on short histories
+ * 2. For each job, labor hours in a clock hour are regressed on that hour's
+ *    sales over the last 8 weeks of time entries
+ * 3. Recommended headcount is the fitted labor for the forecast sales, never
+ *    below the job's usual minimum coverage for that weekday and hour
+ * 4. Scheduled headcount comes from Shifts; a gap of a whole person or more
+ *    is flagged as over/understaffed
+ */
+
+import { Types } from 'mongoose';
+import { Transaction, TimeEntry, Job, Restaurant } from '../models';
+import Shift from '../models/Shift';
+import { IForecast } from '../models/Forecast';
+import { predictionEngine, DayPrediction } from './PredictionEngine';
+import { revenueForecaster } from './RevenueForecaster';
+import { spreadTimeEntry } from '../lib/analytics/laborAnalytics';
+import { linearRegression } from '../utils/statistics';
+import { toLocalDate, toLocalDateHour, localMidnightUtc, addDays } from '../utils/timezone';
+
+const HISTORY_DAYS = 56;
+const PLAN_DAYS = 7;
+// An hour counts as open on a weekday if it had sales on at least this share of that weekday's trading days
+const OPEN_HOUR_SHARE = 0.5;
+// Scheduled vs. recommended people before an hour is flagged
+const STAFFING_VARIANCE = 1;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type StaffingStatus = 'ok' | 'overstaffed' | 'understaffed';
+
+export interface StaffingHour {
+  hour: number; // Local hour 0-23
+  forecastRevenue: number;
+  recommended: number; // People
+  scheduled: number; // People (fractional when shifts start or end mid-hour)
+  variance: number; // Scheduled - recommended
+  status: StaffingStatus;
+}
+
+export interface JobStaffingPlan {
+  jobId: string;
+  title: string;
+  hours: StaffingHour[];
+  recommendedHours: number;
+  scheduledHours: number;
+}
+
+export interface StaffingFlag {
+  jobId: string;
+  title: string;
+  startHour: number;
+  endHour: number; // Exclusive
+  status: Exclude<StaffingStatus, 'ok'>;
+  peakVariance: number; // Largest |scheduled - recommended| in the run
+}
+
+export interface StaffingPlanDay {
+  date: string; // YYYY-MM-DD, restaurant local
+  dayOfWeek: string;
+  forecastRevenue: number;
+  confidence: number;
+  hours: number[]; // Hours shown in the plan (open or scheduled)
+  jobs: JobStaffingPlan[];
+  totals: {
+    recommendedLaborHours: number;
+    scheduledLaborHours: number;
+    projectedLaborCost: number; // Scheduled hours at each job's average wage
+    projectedLaborCostPercent: number; // Of forecast revenue
+  };
+  flags: StaffingFlag[];
+}
+
+export interface StaffingPlan {
+  restaurantId: string;
+  timezone: string;
+  generatedAt: Date;
+  historyDays: number;
+  days: StaffingPlanDay[];
+}
+
+interface JobModel {
+  jobId: string;
+  title: string;
+  averageWage: number;
+  intercept: number;
+  slope: number; // Labor hours per $ of sales in the hour
+  minimum: Map<string, number>; // `${dayOfWeek}-${hour}` -> people
+}
+
+function dayOfWeekOf(date: string): number {
+  return new Date(`${date}T12:00:00.000Z`).getUTCDay();
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export class StaffingPlanService {
+  /**
+   * Staffing plan for the next 7 local days (starting today)
+   */
+  async generatePlan(restaurantId: string): Promise<StaffingPlan> {
+    const restaurant = await Restaurant.findById(restaurantId).select('analyticsSettings.timezone');
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const today = toLocalDate(new Date(), timezone);
+    const historyStart = addDays(today, -HISTORY_DAYS);
+    const restaurantObjectId = new Types.ObjectId(restaurantId);
+
+    const [jobs, sales, timeEntries, shifts] = await Promise.all([
+      Job.find({ restaurantId: restaurantObjectId }).lean(),
+      this.loadHourlySales(restaurantId, historyStart, addDays(today, -1), timezone),
+      TimeEntry.find({
+        restaurantId: restaurantObjectId,
+        clockInTime: { $lt: localMidnightUtc(today, timezone) },
+        clockOutTime: { $gte: localMidnightUtc(historyStart, timezone) }
+      }).lean(),
+      Shift.find({
+        restaurantId: restaurantObjectId,
+        scheduledStart: { $lt: localMidnightUtc(addDays(today, PLAN_DAYS), timezone) },
+        scheduledEnd: { $gt: localMidnightUtc(today, timezone) }
+      }).lean()
+    ]);
+
+    if (timeEntries.length === 0) {
+      throw new Error(`Need time entries from the last ${HISTORY_DAYS} days to recommend staffing`);
+    }
+
+    // Time entries may only carry the Toast job GUID
+    const jobIdByGuid = new Map(jobs.map(job => [job.toastJobGuid, job._id.toString()]));
+    const jobTitles = new Map(jobs.map(job => [job._id.toString(), job.title]));
+    const defaultWages = new Map(jobs.map(job => [job._id.toString(), job.defaultWage]));
+
+    // Labor hours and cost per job per local date/hour
+    const labor = new Map<string, Map<string, { hours: number; cost: number }>>();
+    const historyWindowStart = localMidnightUtc(historyStart, timezone);
+    const historyWindowEnd = localMidnightUtc(today, timezone);
+
+    for (const entry of timeEntries) {
+      const jobId = entry.jobId?.toString() || (entry.jobToastGuid && jobIdByGuid.get(entry.jobToastGuid));
+      if (!jobId) continue;
+
+      let byHour = labor.get(jobId);
+      if (!byHour) {
+        byHour = new Map();
+        labor.set(jobId, byHour);
+      }
+      const jobLabor = byHour;
+
+      spreadTimeEntry(entry, historyWindowStart, historyWindowEnd, timezone, (date, hour, hours, cost) => {
+        const key = `${date} ${hour}`;
+        const cell = jobLabor.get(key) || { hours: 0, cost: 0 };
+        cell.hours += hours;
+        cell.cost += cost;
+        jobLabor.set(key, cell);
+      });
+    }
+
+    // Trading days per weekday and how often each hour had sales
+    const tradingDays: string[][] = Array.from({ length: 7 }, () => []);
+    const salesDates = new Set(Array.from(sales.keys()).map(key => key.split(' ')[0]));
+    salesDates.forEach(date => tradingDays[dayOfWeekOf(date)].push(date));
+
+    const openHours: number[][] = tradingDays.map((dates) => {
+      const hours: number[] = [];
+      for (let hour = 0; hour < 24; hour++) {
+        const withSales = dates.filter(date => (sales.get(`${date} ${hour}`) || 0) > 0).length;
+        if (dates.length > 0 && withSales / dates.length >= OPEN_HOUR_SHARE) {
+          hours.push(hour);
+        }
+      }
+      return hours;
+    });
+
+    const models = Array.from(labor.entries()).map(([jobId, byHour]) =>
+      this.fitJob(jobId, jobTitles.get(jobId) || 'Unknown', defaultWages.get(jobId) || 0, byHour, sales, tradingDays, openHours)
+    );
+
+    // Imported shifts may only carry the Toast job GUID; skip ones that don't map to a job
+    const scheduledShifts = shifts.flatMap(shift => {
+      const jobId = shift.jobId?.toString() ?? jobIdByGuid.get(shift.jobToastGuid);
+      return jobId ? [{ jobId, scheduledStart: shift.scheduledStart, scheduledEnd: shift.scheduledEnd }] : [];
+    });
+
+    // Jobs on the schedule without history still show their scheduled hours
+    scheduledShifts.forEach(({ jobId }) => {
+      if (!models.some(model => model.jobId === jobId)) {
+        models.push({
+          jobId,
+          title: jobTitles.get(jobId) || 'Unknown',
+          averageWage: defaultWages.get(jobId) || 0,
+          intercept: 0,
+          slope: 0,
+          minimum: new Map()
+        });
+      }
+    });
+
+    const scheduled = this.scheduledCoverage(scheduledShifts, today, timezone);
+
+    // Read the stored forecast; generating it on every page load would refit
+    // the model and replace the record forecasts are scored from
+    const planEnd = addDays(today, PLAN_DAYS - 1);
+    let forecasts = await revenueForecaster.getStoredForecasts(restaurantId, today, planEnd);
+    let baseline: DayPrediction[] = [];
+    if (forecasts.length === 0) {
+      const week = await predictionEngine.generateWeekForecast(restaurantId);
+      forecasts = await revenueForecaster.getStoredForecasts(restaurantId, today, planEnd);
+      baseline = week.dailyPredictions;
+    }
+    const hourlyProfiles = this.hourlyProfiles(today, forecasts, sales, tradingDays);
+
+    const days: StaffingPlanDay[] = [];
+    for (let i = 0; i < PLAN_DAYS; i++) {
+      const date = addDays(today, i);
+      const forecast = forecasts.find(f => f.date === date);
+      const prediction = baseline[i];
+      days.push(this.planDay(
+        date,
+        forecast ? forecast.revenue.predicted : prediction?.predictions.revenue.predicted || 0,
+        forecast ? predictionEngine.intervalConfidence(forecast.revenue) : prediction?.predictions.revenue.confidence || 0,
+        hourlyProfiles.get(date) || [],
+        openHours[dayOfWeekOf(date)],
+        models,
+        scheduled
+      ));
+    }
+
+    console.log(`👥 Staffing plan for restaurant ${restaurantId}: ${models.length} jobs, ${days.reduce((sum, d) => sum + d.flags.length, 0)} flags`);
+
+    return {
+      restaurantId,
+      timezone,
+      generatedAt: new Date(),
+      historyDays: salesDates.size,
+      days
+    };
+  }
+
+  /**
+   * Sales per local `${date} ${hour}` (same revenue basis as the forecaster)
+   */
+  private async loadHourlySales(
+    restaurantId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<Map<string, number>> {
+    const rows: Array<{ _id: { date: string; hour: number }; revenue: number }> = await Transaction.aggregate([
+      {
+        $match: {
+          restaurantId: new Types.ObjectId(restaurantId),
+          // Pad a day each side; the local-date filter below is exact
+          transactionDate: {
+            $gte: new Date(`${addDays(startDate, -1)}T00:00:00.000Z`),
+            $lt: new Date(`${addDays(endDate, 2)}T00:00:00.000Z`)
+          }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            date: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate', timezone } },
+            hour: { $hour: { date: '$transactionDate', timezone } }
+          },
+          revenue: { $sum: { $ifNull: ['$total', '$totalAmount'] } }
+        }
+      }
+    ]);
+
+    const sales = new Map<string, number>();
+    rows.forEach(row => {
+      if (row._id.date < startDate || row._id.date > endDate) return;
+      sales.set(`${row._id.date} ${row._id.hour}`, row.revenue);
+    });
+    return sales;
+  }
+
+  /**
+   * Labor hours ~ sales in the hour, plus the minimum coverage the job
+   * usually has in each weekday/hour
+   */
+  private fitJob(
+    jobId: string,
+    title: string,
+    defaultWage: number,
+    byHour: Map<string, { hours: number; cost: number }>,
+    sales: Map<string, number>,
+    tradingDays: string[][],
+    openHours: number[][]
+  ): JobModel {
+    const x: number[] = [];
+    const y: number[] = [];
+    let totalHours = 0;
+    let totalCost = 0;
+    let totalSales = 0;
+
+    sales.forEach((revenue, key) => {
+      if (revenue <= 0) return;
+      const hours = byHour.get(key)?.hours || 0;
+      x.push(revenue);
+      y.push(hours);
+      totalSales += revenue;
+    });
+    byHour.forEach(cell => {
+      totalHours += cell.hours;
+      totalCost += cell.cost;
+    });
+
+    // Fall back to a plain ratio when the fit is degenerate or says more
+    // sales need fewer people
+    const fit = linearRegression(x, y);
+    const slope = fit && fit.slope > 0 ? fit.slope : (totalSales > 0 ? y.reduce((a, b) => a + b, 0) / totalSales : 0);
+    const intercept = fit && fit.slope > 0 ? Math.max(0, fit.intercept) : 0;
+
+    const minimum = new Map<string, number>();
+    tradingDays.forEach((dates, dayOfWeek) => {
+      openHours[dayOfWeek].forEach(hour => {
+        const people = Math.floor(median(dates.map(date => byHour.get(`${date} ${hour}`)?.hours || 0)));
+        if (people > 0) {
+          minimum.set(`${dayOfWeek}-${hour}`, people);
+        }
+      });
+    });
+
+    return {
+      jobId,
+      title,
+      averageWage: totalHours > 0 ? totalCost / totalHours : defaultWage,
+      intercept,
+      slope,
+      minimum
+    };
+  }
+
+  /**
+   * Scheduled people per job per local `${date} ${hour}` over the plan window
+   */
+  private scheduledCoverage(
+    shifts: Array<{ jobId: string; scheduledStart: Date; scheduledEnd: Date }>,
+    today: string,
+    timezone: string
+  ): Map<string, Map<string, number>> {
+    const windowStart = localMidnightUtc(today, timezone).getTime();
+    const windowEnd = localMidnightUtc(addDays(today, PLAN_DAYS), timezone).getTime();
+    const coverage = new Map<string, Map<string, number>>();
+
+    shifts.forEach(shift => {
+      const jobId = shift.jobId;
+      let byHour = coverage.get(jobId);
+      if (!byHour) {
+        byHour = new Map();
+        coverage.set(jobId, byHour);
+      }
+
+      const end = Math.min(new Date(shift.scheduledEnd).getTime(), windowEnd);
+      for (let t = Math.max(new Date(shift.scheduledStart).getTime(), windowStart); t < end;) {
+        const segmentEnd = Math.min(end, Math.floor(t / HOUR_MS) * HOUR_MS + HOUR_MS);
+        const local = toLocalDateHour(new Date(t), timezone);
+        const key = `${local.date} ${local.hour}`;
+        byHour.set(key, (byHour.get(key) || 0) + (segmentEnd - t) / HOUR_MS);
+        t = segmentEnd;
+      }
+    });
+
+    return coverage;
+  }
+
+  /**
+   * Share of each day's revenue per hour: the stored forecast's hourly
+   * breakdown, or the weekday's historical profile when there is none
+   */
+  private hourlyProfiles(
+    today: string,
+    forecasts: IForecast[],
+    sales: Map<string, number>,
+    tradingDays: string[][]
+  ): Map<string, number[]> {
+    const historical = tradingDays.map(dates => {
+      const byHour = new Array(24).fill(0);
+      dates.forEach(date => {
+        for (let hour = 0; hour < 24; hour++) {
+          byHour[hour] += sales.get(`${date} ${hour}`) || 0;
+        }
+      });
+      const total = byHour.reduce((a, b) => a + b, 0);
+      return byHour.map(value => (total > 0 ? value / total : 0));
+    });
+
+    const profiles = new Map<string, number[]>();
+
+    for (let i = 0; i < PLAN_DAYS; i++) {
+      const date = addDays(today, i);
+      const forecast = forecasts.find(f => f.date === date);
+      const total = forecast ? forecast.hourly.reduce((sum, h) => sum + h.revenue.predicted, 0) : 0;
+
+      if (forecast && total > 0) {
+        const shares = new Array(24).fill(0);
+        forecast.hourly.forEach(h => {
+          shares[h.hour] = h.revenue.predicted / total;
+        });
+        profiles.set(date, shares);
+      } else {
+        profiles.set(date, historical[dayOfWeekOf(date)]);
+      }
+    }
+
+    return profiles;
+  }
+
+  private planDay(
+    date: string,
+    forecastRevenue: number,
+    confidence: number,
+    hourlyShares: number[],
+    openHours: number[],
+    models: JobModel[],
+    scheduled: Map<string, Map<string, number>>
+  ): StaffingPlanDay {
+    const dayOfWeek = dayOfWeekOf(date);
+
+    // Open hours plus anything someone is scheduled for
+    const hourSet = new Set(openHours);
+    scheduled.forEach(byHour => {
+      byHour.forEach((people, key) => {
+        const [keyDate, hour] = key.split(' ');
+        if (keyDate === date && people > 0) hourSet.add(Number(hour));
+      });
+    });
+    const hours = Array.from(hourSet).sort((a, b) => a - b);
+    const open = new Set(openHours);
+
+    const jobs: JobStaffingPlan[] = models.map(model => {
+      const jobSchedule = scheduled.get(model.jobId);
+
+      const jobHours: StaffingHour[] = hours.map(hour => {
+        const hourRevenue = forecastRevenue * (hourlyShares[hour] || 0);
+        const fitted = open.has(hour) ? model.intercept + model.slope * hourRevenue : 0;
+        const recommended = Math.max(model.minimum.get(`${dayOfWeek}-${hour}`) || 0, Math.round(fitted));
+        const people = round(jobSchedule?.get(`${date} ${hour}`) || 0, 2);
+        const variance = round(people - recommended, 2);
+
+        return {
+          hour,
+          forecastRevenue: round(hourRevenue, 2),
+          recommended,
+          scheduled: people,
+          variance,
+          status: variance >= STAFFING_VARIANCE ? 'overstaffed' : variance <= -STAFFING_VARIANCE ? 'understaffed' : 'ok'
+        };
+      });
+
+      return {
+        jobId: model.jobId,
+        title: model.title,
+        hours: jobHours,
+        recommendedHours: jobHours.reduce((sum, h) => sum + h.recommended, 0),
+        scheduledHours: round(jobHours.reduce((sum, h) => sum + h.scheduled, 0), 2)
+      };
+    }).filter(job => job.recommendedHours > 0 || job.scheduledHours > 0);
+
+    const projectedLaborCost = jobs.reduce((sum, job) => {
+      const wage = models.find(model => model.jobId === job.jobId)?.averageWage || 0;
+      return sum + job.scheduledHours * wage;
+    }, 0);
+
+    return {
+      date,
+      dayOfWeek: DAY_NAMES[dayOfWeek],
+      forecastRevenue: round(forecastRevenue, 2),
+      confidence,
+      hours,
+      jobs,
+      totals: {
+        recommendedLaborHours: jobs.reduce((sum, job) => sum + job.recommendedHours, 0),
+        scheduledLaborHours: round(jobs.reduce((sum, job) => sum + job.scheduledHours, 0), 2),
+        projectedLaborCost: round(projectedLaborCost, 2),
+        projectedLaborCostPercent: forecastRevenue > 0 ? round((projectedLaborCost / forecastRevenue) * 100, 1) : 0
+      },
+      flags: this.collectFlags(jobs)
+    };
+  }
+
+  /**
+   * Consecutive hours with the same over/under status, per job
+   */
+  private collectFlags(jobs: JobStaffingPlan[]): StaffingFlag[] {
+    const flags: StaffingFlag[] = [];
+
+    jobs.forEach(job => {
+      let current: StaffingFlag | null = null;
+
+      job.hours.forEach(h => {
+        if (h.status !== 'ok' && current && current.status === h.status && current.endHour === h.hour) {
+          current.endHour = h.hour + 1;
+          current.peakVariance = Math.max(current.peakVariance, Math.abs(h.variance));
+          return;
+        }
+
+        current = null;
+        if (h.status !== 'ok') {
+          current = {
+            jobId: job.jobId,
+            title: job.title,
+            startHour: h.hour,
+            endHour: h.hour + 1,
+            status: h.status,
+            peakVariance: Math.abs(h.variance)
+          };
+          flags.push(current);
+        }
+      });
+    });
+
+    return flags.sort((a, b) => a.startHour - b.startHour);
+  }
+}
+
+// Export singleton instance
+export const staffingPlanService = new StaffingPlanService();
@@ -1,5 +1,6 @@
 import Stripe from 'stripe';
 import { Restaurant, RestaurantStatus } from '../models';
+import { cohortLearningService } from './CohortLearningService';
 
 // Stripe configuration
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_mock_key', {
@@ -292,6 +293,10 @@ export class SubscriptionService {
 
       await restaurant.save();
 
+      if (immediately) {
+        await cohortLearningService.withdrawRestaurant(restaurantId);
+      }
+
       console.log(`✅ Subscription ${immediately ? 'canceled' : 'scheduled for cancellation'} for restaurant ${restaurant.name}`);
 
       return {
@@ -416,6 +421,9 @@ export class SubscriptionService {
     restaurant.status = RestaurantStatus.CHURNED;
     await restaurant.save();
 
+    // Cancelled restaurants' data leaves every cohort pattern
+    await cohortLearningService.withdrawRestaurant(restaurantId);
+
     console.log(`❌ Subscription deleted via webhook for restaurant ${restaurant.name}`);
   }
 
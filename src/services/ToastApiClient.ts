@@ -0,0 +1,274 @@
+/**
+ * Toast API Client
+ *
+ * The one axios instance every Toast API call goes through, so a manual sync,
+ * the crons and the workers can't overrun Toast's limits together:
+ * - Rate limiting: a token bucket per Toast restaurant (keyed on the
+ *   Toast-Restaurant-External-ID header), stored in MongoDB so every process
+ *   draws from the same bucket
+ * - Retries: exponential backoff with jitter, honoring Retry-After on 429s
+ * - Metrics: requests, throttle waits, 429s and retries per bucket
+ *
+ * Both policies are pluggable (constructor arguments) for scripts or tests
+ * that want a different limit.
+ */
+
+import axios, { AxiosError, AxiosHeaders, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import ApiRateLimit, { IApiRateLimitMetrics } from '../models/ApiRateLimit';
+
+export const TOAST_BASE_URL = process.env.TOAST_BASE_URL || process.env.TOAST_API_BASE_URL || 'https://ws-api.toasttab.com';
+
+// Toast allows 5 req/sec on the orders endpoints; bursts of up to 10
+const RATE_LIMIT_PER_SECOND = Number(process.env.TOAST_RATE_LIMIT_PER_SECOND) || 5;
+const RATE_LIMIT_BURST = Number(process.env.TOAST_RATE_LIMIT_BURST) || 10;
+
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Requests without a restaurant header (authentication) share one bucket
+const AUTH_BUCKET = 'auth';
+
+export interface IRateLimitPolicy {
+  /**
+   * Resolve once a request for this key may be sent.
+   * Returns how long the caller had to wait (ms).
+   */
+  acquire(key: string): Promise<number>;
+}
+
+export interface IRetryPolicy {
+  /**
+   * Delay before retry number `attempt` (1-based), or null to give up
+   */
+  getRetryDelay(error: AxiosError, attempt: number): number | null;
+}
+
+interface IToastRequestConfig extends InternalAxiosRequestConfig {
+  _retryCount?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Retry-After is either delta-seconds or an HTTP date
+ */
+function parseRetryAfter(header: unknown): number | null {
+  if (typeof header !== 'string' || header.trim() === '') {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Token bucket kept in the api_rate_limits collection.
+ * Refill and take happen in one pipeline update, so concurrent processes
+ * can't both spend the last token.
+ */
+export class MongoTokenBucket implements IRateLimitPolicy {
+  constructor(
+    private readonly capacity: number = RATE_LIMIT_BURST,
+    private readonly refillPerSecond: number = RATE_LIMIT_PER_SECOND
+  ) {}
+
+  async acquire(key: string): Promise<number> {
+    let waited = 0;
+
+    for (;;) {
+      const now = new Date();
+      const bucket = await ApiRateLimit.findOneAndUpdate(
+        { key },
+        [
+          {
+            $set: {
+              tokens: {
+                $min: [
+                  this.capacity,
+                  {
+                    $add: [
+                      { $ifNull: ['$tokens', this.capacity] },
+                      {
+                        $multiply: [
+                          { $divide: [{ $subtract: [now, { $ifNull: ['$refilledAt', now] }] }, 1000] },
+                          this.refillPerSecond
+                        ]
+                      }
+                    ]
+                  }
+                ]
+              },
+              refilledAt: now
+            }
+          },
+          { $set: { granted: { $gte: ['$tokens', 1] } } },
+          {
+            $set: {
+              tokens: { $cond: ['$granted', { $subtract: ['$tokens', 1] }, '$tokens'] },
+              'metrics.requests': {
+                $add: [{ $ifNull: ['$metrics.requests', 0] }, { $cond: ['$granted', 1, 0] }]
+              }
+            }
+          }
+        ],
+        { upsert: true, new: true }
+      ).lean<{ tokens: number; granted: boolean }>();
+
+      if (bucket?.granted) {
+        if (waited > 0) {
+          await ApiRateLimit.updateOne(
+            { key },
+            { $inc: { 'metrics.throttled': 1, 'metrics.throttleWaitMs': waited } }
+          );
+        }
+        return waited;
+      }
+
+      // Sleep until the next whole token has refilled
+      const deficit = 1 - (bucket?.tokens ?? 0);
+      const wait = Math.max(50, Math.ceil((deficit / this.refillPerSecond) * 1000));
+      waited += wait;
+      await sleep(wait);
+    }
+  }
+}
+
+/**
+ * Exponential backoff with jitter for network errors, 5xx and 429.
+ * A 429 with Retry-After waits exactly as long as Toast asks.
+ */
+export class ExponentialBackoffRetryPolicy implements IRetryPolicy {
+  constructor(
+    private readonly maxRetries: number = MAX_RETRIES,
+    private readonly baseDelayMs: number = BASE_RETRY_DELAY_MS,
+    private readonly maxDelayMs: number = MAX_RETRY_DELAY_MS
+  ) {}
+
+  getRetryDelay(error: AxiosError, attempt: number): number | null {
+    if (attempt > this.maxRetries) {
+      return null;
+    }
+
+    const status = error.response?.status;
+    const retryable =
+      error.code === 'ECONNRESET' ||
+      error.code === 'ETIMEDOUT' ||
+      error.code === 'ECONNABORTED' ||
+      status === 429 ||
+      (status !== undefined && status >= 500);
+
+    if (!retryable) {
+      return null;
+    }
+
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      if (retryAfter !== null) {
+        return Math.min(retryAfter, this.maxDelayMs);
+      }
+    }
+
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempt - 1));
+    return Math.round(backoff * (0.5 + Math.random() * 0.5));
+  }
+}
+
+export class ToastApiClient {
+  readonly http: AxiosInstance;
+
+  constructor(
+    private readonly rateLimit: IRateLimitPolicy = new MongoTokenBucket(),
+    private readonly retry: IRetryPolicy = new ExponentialBackoffRetryPolicy()
+  ) {
+    this.http = axios.create({
+      baseURL: TOAST_BASE_URL,
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NOION-Analytics/1.0'
+      }
+    });
+
+    this.http.interceptors.request.use(async (config) => {
+      const key = this.bucketKey(config);
+      const waited = await this.rateLimit.acquire(key);
+      if (waited > 0) {
+        console.log(`⏳ Toast rate limit: waited ${waited}ms for ${key}`);
+      }
+      return config;
+    });
+
+    this.http.interceptors.response.use(
+      (response) => response,
+      async (error: AxiosError) => {
+        const config = error.config as IToastRequestConfig | undefined;
+        if (!config) {
+          return Promise.reject(error);
+        }
+
+        const key = this.bucketKey(config);
+        const attempt = (config._retryCount || 0) + 1;
+        const delay = this.retry.getRetryDelay(error, attempt);
+
+        if (error.response?.status === 429) {
+          console.warn(`🚦 Toast returned 429 for ${key} (attempt ${attempt})`);
+          await this.recordMetrics(key, { rateLimited: 1 }, { lastRateLimitedAt: new Date() });
+        }
+
+        if (delay === null) {
+          return Promise.reject(error);
+        }
+
+        config._retryCount = attempt;
+        await this.recordMetrics(key, { retries: 1 });
+        await sleep(delay);
+
+        return this.http(config);
+      }
+    );
+  }
+
+  /**
+   * Throttling metrics for one Toast restaurant GUID (or all buckets)
+   */
+  async getMetrics(restaurantGuid?: string): Promise<Array<{ key: string; metrics: IApiRateLimitMetrics }>> {
+    const filter = restaurantGuid ? { key: `toast:${restaurantGuid}` } : { key: /^toast:/ };
+    const buckets = await ApiRateLimit.find(filter).select('key metrics').lean();
+    return buckets.map(bucket => ({ key: bucket.key, metrics: bucket.metrics }));
+  }
+
+  private bucketKey(config: InternalAxiosRequestConfig): string {
+    const restaurantGuid = AxiosHeaders.from(config.headers).get('Toast-Restaurant-External-ID');
+    return `toast:${restaurantGuid || AUTH_BUCKET}`;
+  }
+
+  private async recordMetrics(
+    key: string,
+    inc: Partial<Record<'rateLimited' | 'retries', number>>,
+    set: Partial<IApiRateLimitMetrics> = {}
+  ): Promise<void> {
+    try {
+      await ApiRateLimit.updateOne(
+        { key },
+        {
+          $inc: Object.fromEntries(Object.entries(inc).map(([name, value]) => [`metrics.${name}`, value])),
+          $set: Object.fromEntries(Object.entries(set).map(([name, value]) => [`metrics.${name}`, value]))
+        }
+      );
+    } catch (error: any) {
+      // Metrics must never fail a Toast call
+      console.error('Failed to record Toast API metrics:', error.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const toastApiClient = new ToastApiClient();
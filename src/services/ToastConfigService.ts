@@ -11,11 +11,11 @@
  * names for GUIDs and enable timezone-aware displays.
  */
 
-import axios, { AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
 import { Restaurant, ConfigMapping, ConfigMappingType } from '../models';
 import { EncryptionUtil } from '../utils/encryption';
-
-const TOAST_API_BASE_URL = process.env.TOAST_API_BASE_URL || 'https://ws-api.toasttab.com';
+import { toastApiClient } from './ToastApiClient';
+import { toastTokenManager } from './ToastTokenManager';
 
 // Toast configuration interfaces
 interface IToastRestaurantConfig {
@@ -60,13 +60,8 @@ export class ToastConfigService {
   private encryptionKey: string;
 
   constructor() {
-    this.client = axios.create({
-      baseURL: TOAST_API_BASE_URL,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      timeout: 30000, // 30 second timeout
-    });
+    // Shared, rate-limited Toast client (same limits as the sync workers)
+    this.client = toastApiClient.http;
 
     this.encryptionKey = process.env.ENCRYPTION_KEY || '';
     if (!this.encryptionKey) {
@@ -75,33 +70,11 @@ export class ToastConfigService {
   }
 
   /**
-   * Helper method to get fresh Toast access token
-   * Re-authenticates using stored encrypted credentials
+   * Helper method to get a valid Toast access token
+   * Cached and refreshed ahead of expiry by the token manager
    */
   private async getAccessToken(restaurantId: string): Promise<string> {
-    const restaurant = await Restaurant.findById(restaurantId);
-    if (!restaurant || !restaurant.posConfig.isConnected) {
-      throw new Error('Restaurant not connected to Toast');
-    }
-
-    // Re-authenticate using encrypted credentials
-    const { decryptToastCredentials } = await import('../utils/toastEncryption');
-    const credentials = decryptToastCredentials({
-      clientId: restaurant.posConfig.clientId,
-      encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-      locationId: restaurant.posConfig.locationId
-    });
-
-    const authResponse = await this.client.post(
-      '/authentication/v1/authentication/login',
-      {
-        clientId: credentials.clientId,
-        clientSecret: credentials.clientSecret,
-        userAccessType: 'TOAST_MACHINE_CLIENT'
-      }
-    );
-
-    return authResponse.data.token?.accessToken || authResponse.data.access_token;
+    return toastTokenManager.getAccessToken(restaurantId);
   }
 
   /**
@@ -1,14 +1,13 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AxiosInstance, AxiosResponse } from 'axios';
 import crypto from 'crypto';
 import { Restaurant, POSSystemType } from '../models';
 import { ITransaction, TransactionStatus, PaymentMethod, OrderType } from '../models/Transaction';
+import { IPOSAdapter, POSSyncOptions, POSSyncProgress, POSSyncProgressCallback, POSSyncResult } from './POSAdapter';
+import { toastApiClient } from './ToastApiClient';
+import { toastTokenManager } from './ToastTokenManager';
 
 // Toast API configuration
-const TOAST_BASE_URL = 'https://ws-api.toasttab.com';
 const TOAST_AUTH_URL = 'https://ws-api.toasttab.com/authentication/v1/authentication/login';
-const RATE_LIMIT_PER_HOUR = 1000;
-const RETRY_ATTEMPTS = 3;
-const RETRY_DELAY_MS = 1000;
 
 // Interface for Toast API credentials
 export interface IToastCredentials {
@@ -173,40 +172,6 @@ interface IToastTransaction {
   restaurantId: string;
 }
 
-// Rate limiting class
-class RateLimiter {
-  private requests: number[] = [];
-  private readonly maxRequests: number;
-  private readonly timeWindow: number;
-
-  constructor(maxRequests: number = RATE_LIMIT_PER_HOUR, timeWindow: number = 3600000) {
-    this.maxRequests = maxRequests;
-    this.timeWindow = timeWindow; // 1 hour in milliseconds
-  }
-
-  async checkLimit(): Promise<boolean> {
-    const now = Date.now();
-    
-    // Remove requests older than time window
-    this.requests = this.requests.filter(time => now - time < this.timeWindow);
-    
-    if (this.requests.length >= this.maxRequests) {
-      return false;
-    }
-    
-    this.requests.push(now);
-    return true;
-  }
-
-  getTimeUntilReset(): number {
-    if (this.requests.length === 0) return 0;
-    
-    const oldestRequest = Math.min(...this.requests);
-    const timeUntilReset = this.timeWindow - (Date.now() - oldestRequest);
-    return Math.max(0, timeUntilReset);
-  }
-}
-
 // Encryption utility for storing sensitive data
 class EncryptionUtil {
   private static readonly algorithm = 'aes-256-gcm';
@@ -267,66 +232,16 @@ class EncryptionUtil {
 }
 
 // Main Toast Integration Service
-export class ToastIntegrationService {
-  private rateLimiter: RateLimiter;
+export class ToastIntegrationService implements IPOSAdapter {
+  readonly posType = 'toast' as const;
   private client: AxiosInstance;
   private encryptionKey: string;
 
   constructor() {
-    this.rateLimiter = new RateLimiter();
     this.encryptionKey = process.env.ENCRYPTION_KEY || 'default-key-change-in-production';
-    
-    this.client = axios.create({
-      baseURL: TOAST_BASE_URL,
-      timeout: 30000,
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'NOION-Analytics/1.0'
-      }
-    });
-
-    // Add request interceptor for rate limiting
-    this.client.interceptors.request.use(async (config) => {
-      const canProceed = await this.rateLimiter.checkLimit();
-      if (!canProceed) {
-        const waitTime = this.rateLimiter.getTimeUntilReset();
-        throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 60000)} minutes.`);
-      }
-      return config;
-    });
 
-    // Add response interceptor for retry logic
-    this.client.interceptors.response.use(
-      (response) => response,
-      async (error) => {
-        const config = error.config;
-        
-        if (!config._retryCount) {
-          config._retryCount = 0;
-        }
-        
-        if (config._retryCount < RETRY_ATTEMPTS && this.shouldRetry(error)) {
-          config._retryCount++;
-          await this.delay(RETRY_DELAY_MS * config._retryCount);
-          return this.client(config);
-        }
-        
-        return Promise.reject(error);
-      }
-    );
-  }
-
-  private shouldRetry(error: any): boolean {
-    return (
-      error.code === 'ECONNRESET' ||
-      error.code === 'ETIMEDOUT' ||
-      (error.response && error.response.status >= 500) ||
-      (error.response && error.response.status === 429) // Rate limit
-    );
-  }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    // Shared client: Mongo-backed rate limit + retry/backoff across all processes
+    this.client = toastApiClient.http;
   }
 
   /**
@@ -415,8 +330,10 @@ export class ToastIntegrationService {
       restaurant.posConfig.isConnected = false;
       restaurant.posConfig.encryptedAccessToken = undefined;
       restaurant.posConfig.encryptedRefreshToken = undefined;
+      restaurant.posConfig.tokenExpiresAt = undefined;
       restaurant.posConfig.lastSyncAt = undefined;
       await restaurant.save();
+      await toastTokenManager.invalidate(restaurantId);
       return true;
     } catch (error) {
       console.error('Failed to disconnect restaurant from Toast:', error);
@@ -439,17 +356,8 @@ export class ToastIntegrationService {
         throw new Error('Restaurant not connected to Toast');
       }
 
-      // Re-authenticate to get fresh access token
-      // (Access tokens expire, so we always authenticate fresh using stored credentials)
-      const { decryptToastCredentials } = await import('../utils/toastEncryption');
-      const credentials = decryptToastCredentials({
-        clientId: restaurant.posConfig.clientId,
-        encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-        locationId: restaurant.posConfig.locationId
-      });
-
-      const authResponse = await this.authenticateRestaurant(credentials);
-      const accessToken = authResponse.token.accessToken;
+      // Cached token, refreshed ahead of expiry by the token manager
+      const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
       // Use /ordersBulk endpoint which supports up to 30-day ranges
       // Break into 30-day chunks if the date range is longer
@@ -535,6 +443,91 @@ export class ToastIntegrationService {
     }
   }
 
+  /**
+   * Fetch one /ordersBulk page (100 orders) of a window of at most 30 days.
+   * Used by the resumable initial sync, which imports and checkpoints page by page.
+   * Errors are thrown so the caller can retry from the same page.
+   */
+  async fetchOrdersPage(
+    restaurantId: string,
+    startDate: Date,
+    endDate: Date,
+    page: number
+  ): Promise<{ orders: IToastTransaction[]; hasMore: boolean }> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant || !restaurant.posConfig.isConnected) {
+      throw new Error('Restaurant not connected to Toast');
+    }
+
+    const accessToken = await toastTokenManager.getAccessToken(restaurantId);
+
+    const pageSize = 100;
+    const response = await this.client.get(
+      `/orders/v2/ordersBulk`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Toast-Restaurant-External-ID': restaurant.posConfig.locationId || restaurant.posConfig.managementGroupId
+        },
+        params: {
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          pageSize,
+          page
+        }
+      }
+    );
+
+    const orders: IToastTransaction[] = response.data || [];
+    return { orders, hasMore: orders.length === pageSize };
+  }
+
+  /**
+   * Fetch every order for one Toast business date (yyyyMMdd).
+   * Unlike fetchTransactions, errors are not swallowed per page: callers
+   * comparing totals need all of the day or nothing.
+   */
+  async fetchOrdersByBusinessDate(restaurantId: string, businessDate: string): Promise<IToastTransaction[]> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant || !restaurant.posConfig.isConnected) {
+      throw new Error('Restaurant not connected to Toast');
+    }
+
+    // Cached token, refreshed ahead of expiry by the token manager
+    const accessToken = await toastTokenManager.getAccessToken(restaurantId);
+
+    const orders: IToastTransaction[] = [];
+    let page = 1;
+    let hasMorePages = true;
+
+    while (hasMorePages) {
+      const response = await this.client.get(`/orders/v2/ordersBulk`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Toast-Restaurant-External-ID': restaurant.posConfig.locationId || restaurant.posConfig.managementGroupId
+        },
+        params: {
+          businessDate,
+          pageSize: 100,
+          page
+        }
+      });
+
+      const pageData = response.data || [];
+      orders.push(...pageData);
+
+      if (pageData.length === 100) {
+        page++;
+        // Small delay between pages (rate limit: 5 req/second)
+        await new Promise(resolve => setTimeout(resolve, 200));
+      } else {
+        hasMorePages = false;
+      }
+    }
+
+    return orders;
+  }
+
   /**
    * Normalize Toast transaction data to our schema
    */
@@ -832,7 +825,7 @@ export class ToastIntegrationService {
    * Import time entries into database using bulk operations
    */
   async importTimeEntries(restaurantId: string, toastTimeEntries: any[]): Promise<number> {
-    const TimeEntry = (await import('../models/TimeEntry')).default;
+    const { default: TimeEntry, calculateTimeEntryPay } = await import('../models/TimeEntry');
 
     if (toastTimeEntries.length === 0) {
       return 0;
@@ -866,7 +859,8 @@ export class ToastIntegrationService {
             createdDate: new Date(entry.createdDate || entry.inDate),
             modifiedDate: new Date(entry.modifiedDate || entry.inDate),
             totalHours: (entry.regularHours || 0) + (entry.overtimeHours || 0) + (entry.doubleOvertimeHours || 0),
-            totalPay: 0 // Will be calculated by pre-save hook
+            // bulkWrite skips the pre-save hook, so calculate pay here
+            totalPay: calculateTimeEntryPay(entry)
           }
         },
         upsert: true
@@ -1034,31 +1028,84 @@ export class ToastIntegrationService {
     }
   }
 
+  /**
+   * Full sync entry point used by the Mongo worker.
+   * Delegates to SmartToastSync (initial/resume/incremental), then refreshes
+   * the cached restaurant configuration (timezone, service areas, etc.)
+   */
+  async syncRestaurant(
+    restaurantId: string,
+    options?: POSSyncOptions,
+    progressCallback?: POSSyncProgressCallback
+  ): Promise<POSSyncResult> {
+    const { SmartToastSync } = await import('./SmartToastSync');
+    const { ToastConfigService } = await import('./ToastConfigService');
+
+    const smartSync = new SmartToastSync();
+    let lastProgress: Partial<POSSyncProgress> = {};
+
+    // Gap re-sync: orders only, sync checkpoint untouched. Connect and manual
+    // syncs also pass a range but need the full sync below
+    if (options?.reason === 'gap_fill' && options.startDate && options.endDate) {
+      const startDate = new Date(options.startDate);
+      const endDate = new Date(options.endDate);
+      const imported = await smartSync.executeRangeSync(restaurantId, startDate, endDate, progressCallback);
+
+      return {
+        ordersImported: imported,
+        ordersFailed: 0,
+        failedChunks: 0,
+        totalChunks: 1,
+        startDate,
+        endDate
+      };
+    }
+
+    await smartSync.smartSync(restaurantId, async (progress) => {
+      lastProgress = progress;
+      if (progressCallback) {
+        await progressCallback(progress);
+      }
+    }, options);
+
+    console.log(`🔧 Fetching restaurant configuration...`);
+    const configService = new ToastConfigService();
+    await configService.fetchAllConfig(restaurantId);
+    console.log(`✅ Configuration fetched and cached`);
+
+    await Restaurant.findByIdAndUpdate(restaurantId, {
+      'posConfig.isConnected': true,
+      'posConfig.lastSyncAt': new Date()
+    });
+
+    return {
+      ordersImported: lastProgress.totalImported || 0,
+      ordersFailed: 0,
+      failedChunks: 0,
+      totalChunks: lastProgress.totalChunks || 0,
+      startDate: lastProgress.chunkStartDate || new Date(),
+      endDate: lastProgress.chunkEndDate || new Date()
+    };
+  }
+
   /**
    * Handle webhook from Toast
+   * Kept for the Express WebhookHandler; the Next.js route calls ToastWebhookService directly
    */
   async handleWebhook(payload: any, signature: string, restaurantId: string): Promise<void> {
     try {
-      // Verify webhook signature
-      const restaurant = await Restaurant.findById(restaurantId);
+      const { toastWebhookService } = await import('./ToastWebhookService');
+
+      const restaurant = await Restaurant.findById(restaurantId).select('posConfig.webhookSecret');
       if (!restaurant?.posConfig.webhookSecret) {
         throw new Error('Webhook secret not configured');
       }
 
-      const expectedSignature = crypto
-        .createHmac('sha256', restaurant.posConfig.webhookSecret)
-        .update(JSON.stringify(payload))
-        .digest('hex');
-
-      if (signature !== expectedSignature) {
+      if (!toastWebhookService.verifySignature(JSON.stringify(payload), signature, restaurant.posConfig.webhookSecret)) {
         throw new Error('Invalid webhook signature');
       }
 
-      // Process webhook payload
-      if (payload.eventType === 'ORDER_CREATED' || payload.eventType === 'ORDER_UPDATED') {
-        await this.importTransactions(restaurantId, [payload.data]);
-      }
-
+      await toastWebhookService.processEvent(restaurantId, payload);
     } catch (error) {
       console.error('Webhook processing failed:', error);
       throw error;
@@ -1138,16 +1185,8 @@ export class ToastIntegrationService {
         throw new Error('Restaurant not connected to Toast');
       }
 
-      // Re-authenticate to get fresh access token
-      const { decryptToastCredentials } = await import('../utils/toastEncryption');
-      const credentials = decryptToastCredentials({
-        clientId: restaurant.posConfig.clientId,
-        encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-        locationId: restaurant.posConfig.locationId
-      });
-
-      const authResponse = await this.authenticateRestaurant(credentials);
-      const accessToken = authResponse.token.accessToken;
+      // Cached token, refreshed ahead of expiry by the token manager
+      const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
       // Toast Labor API uses modifiedStartDate/modifiedEndDate for time entries
       // Can query up to 30 days at a time
@@ -1182,15 +1221,8 @@ export class ToastIntegrationService {
         throw new Error('Restaurant not connected to Toast');
       }
 
-      const { decryptToastCredentials } = await import('../utils/toastEncryption');
-      const credentials = decryptToastCredentials({
-        clientId: restaurant.posConfig.clientId,
-        encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-        locationId: restaurant.posConfig.locationId
-      });
-
-      const authResponse = await this.authenticateRestaurant(credentials);
-      const accessToken = authResponse.token.accessToken;
+      // Cached token, refreshed ahead of expiry by the token manager
+      const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
       const response = await this.client.get(
         `/labor/v1/jobs`,
@@ -1223,15 +1255,8 @@ export class ToastIntegrationService {
         throw new Error('Restaurant not connected to Toast');
       }
 
-      const { decryptToastCredentials } = await import('../utils/toastEncryption');
-      const credentials = decryptToastCredentials({
-        clientId: restaurant.posConfig.clientId,
-        encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-        locationId: restaurant.posConfig.locationId
-      });
-
-      const authResponse = await this.authenticateRestaurant(credentials);
-      const accessToken = authResponse.token.accessToken;
+      // Cached token, refreshed ahead of expiry by the token manager
+      const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
       // Shifts are queried by business date, need to iterate through date range
       const allShifts: any[] = [];
@@ -1286,15 +1311,8 @@ export class ToastIntegrationService {
         throw new Error('Restaurant not connected to Toast');
       }
 
-      const { decryptToastCredentials } = await import('../utils/toastEncryption');
-      const credentials = decryptToastCredentials({
-        clientId: restaurant.posConfig.clientId,
-        encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-        locationId: restaurant.posConfig.locationId
-      });
-
-      const authResponse = await this.authenticateRestaurant(credentials);
-      const accessToken = authResponse.token.accessToken;
+      // Cached token, refreshed ahead of expiry by the token manager
+      const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
       const response = await this.client.get(
         `/menus/v2/menus`,
@@ -1313,6 +1331,56 @@ export class ToastIntegrationService {
     }
   }
 
+  /**
+   * Fetch a single order by GUID (webhooks that only carry the order GUID)
+   */
+  async fetchOrder(restaurantId: string, orderGuid: string): Promise<IToastTransaction | null> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant || !restaurant.posConfig.isConnected) {
+      throw new Error('Restaurant not connected to Toast');
+    }
+
+    // Cached token, refreshed ahead of expiry by the token manager
+    const accessToken = await toastTokenManager.getAccessToken(restaurantId);
+
+    const response = await this.client.get(
+      `/orders/v2/orders/${orderGuid}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Toast-Restaurant-External-ID': restaurant.posConfig.locationId
+        }
+      }
+    );
+
+    return response.data || null;
+  }
+
+  /**
+   * Fetch a single employee by GUID from Toast Labor API
+   */
+  async fetchEmployee(restaurantId: string, employeeGuid: string): Promise<any | null> {
+    const restaurant = await Restaurant.findById(restaurantId);
+    if (!restaurant || !restaurant.posConfig.isConnected) {
+      throw new Error('Restaurant not connected to Toast');
+    }
+
+    // Cached token, refreshed ahead of expiry by the token manager
+    const accessToken = await toastTokenManager.getAccessToken(restaurantId);
+
+    const response = await this.client.get(
+      `/labor/v1/employees/${employeeGuid}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Toast-Restaurant-External-ID': restaurant.posConfig.locationId
+        }
+      }
+    );
+
+    return response.data || null;
+  }
+
   /**
    * Fetch menu items from Toast Menus API
    */
@@ -1323,15 +1391,8 @@ export class ToastIntegrationService {
         throw new Error('Restaurant not connected to Toast');
       }
 
-      const { decryptToastCredentials } = await import('../utils/toastEncryption');
-      const credentials = decryptToastCredentials({
-        clientId: restaurant.posConfig.clientId,
-        encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-        locationId: restaurant.posConfig.locationId
-      });
-
-      const authResponse = await this.authenticateRestaurant(credentials);
-      const accessToken = authResponse.token.accessToken;
+      // Cached token, refreshed ahead of expiry by the token manager
+      const accessToken = await toastTokenManager.getAccessToken(restaurantId);
 
       // Menu items can be paginated, so we need to fetch all pages
       const allItems: any[] = [];
@@ -0,0 +1,275 @@
+import { Types } from 'mongoose';
+import { DailySales, SalesReport } from '../models';
+import { ISalesReport, ISalesReportBreakdown } from '../models/SalesReport';
+import { IReportFile, extractZipEntries, parseCSV } from '../utils/reportFiles';
+
+/**
+ * Toast Report Import Service
+ *
+ * Imports Toast's "Sales Summary" export (SalesSummary_<start>_<end>.zip,
+ * or the individual CSVs inside it) as an offline data source:
+ * - Period totals and breakdowns → SalesReport
+ * - "Sales by day.csv" rows → DailySales
+ *
+ * The export only contains aggregates, so no Transaction records are created.
+ */
+
+type Row = Record<string, string>;
+
+export interface IReportImportResult {
+  report: ISalesReport;
+  daysImported: number;
+}
+
+// Rows Toast appends to breakdown tables
+const TOTAL_ROW_NAMES = new Set(['total', 'subtotal']);
+
+function num(value?: string): number {
+  if (!value) return 0;
+  const parsed = parseFloat(value.replace(/[$,%\s]/g, ''));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+// yyyyMMdd or yyyy-MM-dd → UTC midnight
+function parseBusinessDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (!match) return null;
+  return new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00.000Z`);
+}
+
+function fileKey(name: string): string {
+  return (name.split('/').pop() || name).replace(/\.csv$/i, '').trim().toLowerCase();
+}
+
+export class ToastReportImportService {
+
+  /**
+   * Import one upload (a ZIP export and/or loose CSV files) for a restaurant.
+   * Re-importing the same period replaces the previous import.
+   */
+  async importReport(
+    restaurantId: string,
+    uploads: IReportFile[],
+    options: { fileName?: string; importedBy?: string } = {}
+  ): Promise<IReportImportResult> {
+    const csvFiles = new Map<string, Row[]>();
+    const filesSkipped: string[] = [];
+
+    for (const upload of this.expandUploads(uploads)) {
+      if (!/\.csv$/i.test(upload.name)) {
+        filesSkipped.push(upload.name);
+        continue;
+      }
+      csvFiles.set(fileKey(upload.name), parseCSV(upload.data.toString('utf8')));
+    }
+
+    if (!csvFiles.has('sales by day') && !csvFiles.has('net sales summary')) {
+      throw new Error('No Toast sales summary found (expected "Sales by day.csv" or "Net sales summary.csv")');
+    }
+
+    const fileName = options.fileName || uploads[0]?.name || 'upload';
+    const dailyRows = this.parseSalesByDay(csvFiles.get('sales by day') || []);
+    const period = this.resolvePeriod(fileName, dailyRows);
+
+    console.log(`📥 Importing Toast report ${fileName} for restaurant ${restaurantId} (${period.start.toISOString().split('T')[0]} → ${period.end.toISOString().split('T')[0]})`);
+
+    const netSummary = csvFiles.get('net sales summary')?.[0] || {};
+    const revenueSummary = csvFiles.get('revenue summary')?.[0] || {};
+    const tipSummary = csvFiles.get('tip summary')?.[0] || {};
+    const voidSummary = csvFiles.get('void summary')?.[0] || {};
+
+    const summary = {
+      grossSales: num(netSummary['Gross sales']),
+      discounts: Math.abs(num(netSummary['Sales discounts'])),
+      refunds: Math.abs(num(netSummary['Sales refunds'])),
+      netSales: num(netSummary['Net sales']) || dailyRows.reduce((sum, d) => sum + d.netSales, 0),
+      tax: num(revenueSummary['Tax amount']),
+      tips: num(revenueSummary['Tips']) || num(tipSummary['Total tips']),
+      gratuity: num(revenueSummary['Gratuity']),
+      voidAmount: num(voidSummary['Void amount']),
+      voidOrderCount: num(voidSummary['Void order count']),
+      totalOrders: dailyRows.reduce((sum, d) => sum + d.totalOrders, 0),
+      totalGuests: dailyRows.reduce((sum, d) => sum + d.totalGuests, 0)
+    };
+
+    const reportData = {
+      restaurantId: new Types.ObjectId(restaurantId),
+      source: 'toast_sales_summary' as const,
+      fileName,
+      periodStart: period.start,
+      periodEnd: period.end,
+      summary,
+      payments: this.parseBreakdown(csvFiles.get('payments summary'), 'Payment type', {
+        subType: 'Payment sub type', count: 'Count', netSales: 'Amount', tips: 'Tips', tax: 'Tax amount'
+      }),
+      diningOptions: this.parseBreakdown(csvFiles.get('dining options summary'), 'Dining option', {
+        count: 'Orders', netSales: 'Net sales', grossSales: 'Gross sales', discountAmount: 'Discount amount', tax: 'Tax amount'
+      }),
+      revenueCenters: this.parseBreakdown(csvFiles.get('revenue center summary'), 'Revenue center', {
+        count: 'Items', netSales: 'Net sales', grossSales: 'Gross sales', discountAmount: 'Discount amount', refundAmount: 'Refund amount', tax: 'Tax amount'
+      }),
+      salesCategories: this.parseBreakdown(csvFiles.get('sales category summary'), 'Sales category', {
+        count: 'Items', netSales: 'Net sales', grossSales: 'Gross sales', discountAmount: 'Discount amount', refundAmount: 'Refund amount', tax: 'Tax amount'
+      }),
+      dayparts: this.parseBreakdown(csvFiles.get('service daypart summary'), 'Service / day part', {
+        count: 'Orders', netSales: 'Net sales', grossSales: 'Gross sales', discountAmount: 'Discount amount', refundAmount: 'Refund amount', tax: 'Tax amount'
+      }),
+      checkDiscounts: this.parseBreakdown(csvFiles.get('check discounts'), 'Discount', {
+        count: 'Orders', discountAmount: 'Amount'
+      }),
+      itemDiscounts: this.parseBreakdown(csvFiles.get('menu item discounts'), 'Discount', {
+        count: 'Orders', discountAmount: 'Amount'
+      }),
+      hourOfDay: (csvFiles.get('time of day (totals)') || [])
+        .filter(row => row['Hour of day'] !== undefined && !isNaN(parseInt(row['Hour of day'])))
+        .map(row => ({
+          hour: parseInt(row['Hour of day']),
+          netSales: num(row['Net sales']),
+          orders: num(row['Total orders']),
+          guests: num(row['Total guests'])
+        }))
+        .sort((a, b) => a.hour - b.hour),
+      filesParsed: Array.from(csvFiles.keys()),
+      filesSkipped,
+      importedBy: options.importedBy
+    };
+
+    const report = await SalesReport.findOneAndUpdate(
+      {
+        restaurantId: reportData.restaurantId,
+        source: reportData.source,
+        periodStart: reportData.periodStart,
+        periodEnd: reportData.periodEnd
+      },
+      { $set: reportData },
+      { upsert: true, new: true }
+    );
+
+    const daysImported = await this.importDailySales(restaurantId, report._id, dailyRows);
+
+    console.log(`  ✅ Report import complete: ${csvFiles.size} files parsed, ${daysImported} days of sales`);
+
+    return { report, daysImported };
+  }
+
+  /**
+   * Unpack ZIP uploads; pass CSVs through as-is
+   */
+  private expandUploads(uploads: IReportFile[]): IReportFile[] {
+    return uploads.flatMap(upload =>
+      /\.zip$/i.test(upload.name) ? extractZipEntries(upload.data) : [upload]
+    );
+  }
+
+  /**
+   * Report period comes from the export name (SalesSummary_2025-09-03_2025-10-02.zip),
+   * falling back to the first and last day in "Sales by day.csv"
+   */
+  private resolvePeriod(
+    fileName: string,
+    dailyRows: Array<{ businessDate: Date }>
+  ): { start: Date; end: Date } {
+    const match = fileName.match(/(\d{4}-\d{2}-\d{2})_(\d{4}-\d{2}-\d{2})/);
+    if (match) {
+      return { start: parseBusinessDate(match[1])!, end: parseBusinessDate(match[2])! };
+    }
+
+    if (dailyRows.length === 0) {
+      throw new Error('Could not determine the report period: rename the file SalesSummary_<start>_<end>.zip or include "Sales by day.csv"');
+    }
+
+    const times = dailyRows.map(d => d.businessDate.getTime());
+    return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) };
+  }
+
+  private parseSalesByDay(rows: Row[]): Array<{
+    businessDate: Date;
+    netSales: number;
+    totalOrders: number;
+    totalGuests: number;
+  }> {
+    return rows.flatMap(row => {
+      const businessDate = parseBusinessDate(row['yyyyMMdd'] || '');
+      if (!businessDate) return [];
+
+      return [{
+        businessDate,
+        netSales: num(row['Net sales']),
+        totalOrders: num(row['Total orders']),
+        totalGuests: num(row['Total guests'])
+      }];
+    });
+  }
+
+  /**
+   * Map a breakdown CSV to ISalesReportBreakdown rows, dropping Toast's total rows
+   */
+  private parseBreakdown(
+    rows: Row[] | undefined,
+    nameColumn: string,
+    columns: Partial<Record<Exclude<keyof ISalesReportBreakdown, 'name'>, string>>
+  ): ISalesReportBreakdown[] {
+    return (rows || [])
+      .filter(row => row[nameColumn] && !TOTAL_ROW_NAMES.has(row[nameColumn].toLowerCase()))
+      .map(row => ({
+        name: row[nameColumn],
+        subType: columns.subType ? row[columns.subType] || undefined : undefined,
+        count: columns.count ? num(row[columns.count]) : undefined,
+        netSales: columns.netSales ? num(row[columns.netSales]) : 0,
+        grossSales: columns.grossSales ? num(row[columns.grossSales]) : undefined,
+        discountAmount: columns.discountAmount ? Math.abs(num(row[columns.discountAmount])) : undefined,
+        refundAmount: columns.refundAmount ? num(row[columns.refundAmount]) : undefined,
+        tax: columns.tax ? num(row[columns.tax]) : undefined,
+        tips: columns.tips ? num(row[columns.tips]) : undefined
+      }));
+  }
+
+  /**
+   * Upsert one DailySales document per business date (re-imports overwrite)
+   */
+  private async importDailySales(
+    restaurantId: string,
+    salesReportId: Types.ObjectId,
+    dailyRows: Array<{ businessDate: Date; netSales: number; totalOrders: number; totalGuests: number }>
+  ): Promise<number> {
+    if (dailyRows.length === 0) {
+      return 0;
+    }
+
+    const bulkOps = dailyRows.map(day => ({
+      updateOne: {
+        filter: {
+          restaurantId: restaurantId,
+          businessDate: day.businessDate,
+          source: 'toast_report'
+        },
+        update: {
+          $set: {
+            salesReportId,
+            netSales: day.netSales,
+            totalOrders: day.totalOrders,
+            totalGuests: day.totalGuests
+          }
+        },
+        upsert: true
+      }
+    }));
+
+    await DailySales.bulkWrite(bulkOps as any[], { ordered: false });
+    return dailyRows.length;
+  }
+
+  /**
+   * Imported reports overlapping a date range, newest first
+   */
+  async getReportsForPeriod(restaurantId: string, startDate: Date, endDate: Date): Promise<ISalesReport[]> {
+    return SalesReport.find({
+      restaurantId,
+      periodStart: { $lte: endDate },
+      periodEnd: { $gte: startDate }
+    }).sort({ periodEnd: -1 });
+  }
+}
+
+// Export singleton instance
+export const toastReportImport = new ToastReportImportService();
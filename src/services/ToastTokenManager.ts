@@ -0,0 +1,200 @@
+/**
+ * Toast Token Manager
+ *
+ * One place that owns Toast access tokens, instead of every caller logging in
+ * again on each request:
+ * - Caches decrypted tokens in memory with their expiry, and persists them
+ *   encrypted on posConfig so other processes (routes, workers) reuse them
+ * - Refreshes ahead of expiry: in the background once a token is close to
+ *   expiring, synchronously once it's inside the hard margin
+ * - Serializes concurrent refreshes per restaurant (one login in flight)
+ * - On revoked credentials (401/403 from login), sets posConfig.isActive=false
+ *   and emails the owner once
+ *
+ * Toast machine clients have no refresh token; "refresh" is a new login with
+ * the stored client credentials.
+ */
+
+import Restaurant from '../models/Restaurant';
+import { decryptToastCredentials, encryptField, decryptField } from '../utils/toastEncryption';
+import { toastApiClient } from './ToastApiClient';
+
+// Refresh in the background when a token has less than this left...
+const SOFT_REFRESH_MS = 30 * 60 * 1000;
+// ...and block on a refresh below this
+const HARD_REFRESH_MS = 5 * 60 * 1000;
+// Toast tokens are typically valid for a day; assume less if expiresIn is missing
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+export const TOAST_CREDENTIALS_REVOKED = 'TOAST_CREDENTIALS_REVOKED';
+
+interface ICachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+export class ToastTokenManager {
+  private cache = new Map<string, ICachedToken>();
+  private refreshing = new Map<string, Promise<string>>();
+
+  /**
+   * Valid access token for a restaurant, refreshing if needed
+   */
+  async getAccessToken(restaurantId: string): Promise<string> {
+    let cached: ICachedToken | undefined = this.cache.get(restaurantId);
+
+    if (!cached) {
+      cached = await this.loadPersistedToken(restaurantId);
+      if (cached) {
+        this.cache.set(restaurantId, cached);
+      }
+    }
+
+    const remaining = cached ? cached.expiresAt - Date.now() : 0;
+
+    if (cached && remaining > HARD_REFRESH_MS) {
+      if (remaining < SOFT_REFRESH_MS) {
+        // Still usable - refresh without making this caller wait
+        this.refresh(restaurantId).catch(error => {
+          console.error(`⚠️  Background Toast token refresh failed for ${restaurantId}:`, error.message);
+        });
+      }
+      return cached.accessToken;
+    }
+
+    return this.refresh(restaurantId);
+  }
+
+  /**
+   * Drop a token the API rejected so the next call logs in again
+   */
+  async invalidate(restaurantId: string): Promise<void> {
+    this.cache.delete(restaurantId);
+    await Restaurant.findByIdAndUpdate(restaurantId, {
+      $unset: { 'posConfig.encryptedAccessToken': 1, 'posConfig.tokenExpiresAt': 1 }
+    });
+  }
+
+  /**
+   * Log in again; concurrent callers for the same restaurant share one login
+   */
+  private refresh(restaurantId: string): Promise<string> {
+    const inFlight = this.refreshing.get(restaurantId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const promise = this.login(restaurantId).finally(() => {
+      this.refreshing.delete(restaurantId);
+    });
+    this.refreshing.set(restaurantId, promise);
+    return promise;
+  }
+
+  private async login(restaurantId: string): Promise<string> {
+    const restaurant = await Restaurant.findById(restaurantId).select('posConfig');
+    if (!restaurant || !restaurant.posConfig.isConnected) {
+      throw new Error('Restaurant not connected to Toast');
+    }
+
+    const credentials = decryptToastCredentials({
+      clientId: restaurant.posConfig.clientId,
+      encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
+      locationId: restaurant.posConfig.locationId
+    });
+
+    let data: any;
+    try {
+      const response = await toastApiClient.http.post('/authentication/v1/authentication/login', {
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+        userAccessType: 'TOAST_MACHINE_CLIENT'
+      });
+      data = response.data;
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        await this.handleRevokedCredentials(restaurantId, `Toast rejected the stored credentials (HTTP ${status})`);
+        const revoked = new Error('Toast credentials have been revoked');
+        (revoked as any).code = TOAST_CREDENTIALS_REVOKED;
+        throw revoked;
+      }
+      throw new Error(`Toast authentication failed: ${error.message}`);
+    }
+
+    const accessToken: string | undefined = data?.token?.accessToken || data?.access_token;
+    if (!accessToken) {
+      throw new Error('Authentication failed: No token received');
+    }
+
+    const expiresIn = Number(data?.token?.expiresIn) || DEFAULT_TOKEN_TTL_SECONDS;
+    const token: ICachedToken = { accessToken, expiresAt: Date.now() + expiresIn * 1000 };
+    this.cache.set(restaurantId, token);
+
+    await Restaurant.findByIdAndUpdate(restaurantId, {
+      'posConfig.encryptedAccessToken': encryptField(accessToken),
+      'posConfig.tokenExpiresAt': new Date(token.expiresAt)
+    });
+
+    console.log(`🔑 Refreshed Toast token for restaurant ${restaurantId} (valid ${Math.round(expiresIn / 60)} min)`);
+    return accessToken;
+  }
+
+  /**
+   * Token another process already stored, if it is still valid
+   */
+  private async loadPersistedToken(restaurantId: string): Promise<ICachedToken | undefined> {
+    const restaurant = await Restaurant.findById(restaurantId)
+      .select('posConfig.encryptedAccessToken posConfig.tokenExpiresAt');
+    const { encryptedAccessToken, tokenExpiresAt } = restaurant?.posConfig || {};
+
+    if (!encryptedAccessToken || !tokenExpiresAt) {
+      return undefined;
+    }
+
+    try {
+      return { accessToken: decryptField(encryptedAccessToken), expiresAt: new Date(tokenExpiresAt).getTime() };
+    } catch {
+      // Written under another key or in the old plaintext format - just log in again
+      return undefined;
+    }
+  }
+
+  /**
+   * Deactivate the connection and tell the owner - only on the first detection
+   */
+  private async handleRevokedCredentials(restaurantId: string, reason: string): Promise<void> {
+    this.cache.delete(restaurantId);
+
+    const restaurant = await Restaurant.findOneAndUpdate(
+      { _id: restaurantId, 'posConfig.isActive': { $ne: false } },
+      {
+        $set: { 'posConfig.isActive': false },
+        $unset: { 'posConfig.encryptedAccessToken': 1, 'posConfig.tokenExpiresAt': 1 }
+      },
+      { new: true }
+    );
+
+    if (!restaurant) {
+      // Already deactivated (and emailed) by an earlier call
+      return;
+    }
+
+    console.warn(`🚫 Toast credentials revoked for restaurant ${restaurantId}: ${reason}`);
+
+    try {
+      const { EmailService } = await import('./EmailService');
+      await new EmailService().sendPOSCredentialsRevokedEmail(
+        restaurant.owner.email,
+        restaurant.name,
+        'Toast',
+        reason
+      );
+    } catch (error: any) {
+      console.error('Failed to send credentials revoked email:', error.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const toastTokenManager = new ToastTokenManager();
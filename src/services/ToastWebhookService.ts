@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Restaurant, Transaction } from '../models';
+import WebhookEvent from '../models/WebhookEvent';
+import { UserRole } from '../models/Restaurant';
+import { TransactionStatus } from '../models/Transaction';
+import { toastIntegration } from './ToastIntegration';
+
+// A 'processing' event older than this belongs to a handler that died; redeliveries may re-claim it
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+/**
+ * Toast Webhook Service
+ *
+ * Real-time ingestion for Toast webhooks so today's numbers don't wait for
+ * the next sync:
+ * - Signature check against the restaurant's posConfig.webhookSecret
+ * - Redelivery de-duplication via the WebhookEvent collection
+ * - Orders upserted through normalizeTransaction, deletes marked voided
+ * - Menu events refresh menus/items, employee events upsert the team entry
+ *
+ * Accepts both Toast's envelope ({ guid, eventType: 'order_updated', details })
+ * and the legacy shape used by WebhookHandler ({ eventType, resourceId, data }).
+ */
+
+export interface IToastWebhookResult {
+  eventId: string;
+  eventType: string;
+  duplicate: boolean;
+  action: 'order_upserted' | 'order_voided' | 'order_stale' | 'menu_refreshed' | 'employee_upserted' | 'ignored';
+}
+
+interface IParsedEvent {
+  eventId: string;
+  eventType: string;
+  resourceId?: string;
+  resource?: any;
+}
+
+export class ToastWebhookService {
+
+  /**
+   * HMAC-SHA256 of the raw body; Toast sends it base64, older integrations hex
+   */
+  verifySignature(rawBody: string, signature: string | null | undefined, secret: string): boolean {
+    if (!signature) {
+      return false;
+    }
+
+    const digest = crypto.createHmac('sha256', secret).update(rawBody).digest();
+    const candidates = [digest.toString('hex'), digest.toString('base64')];
+
+    return candidates.some(expected => {
+      const a = Buffer.from(expected);
+      const b = Buffer.from(signature.trim());
+      return a.length === b.length && crypto.timingSafeEqual(a, b);
+    });
+  }
+
+  /**
+   * Find the Toast restaurant a webhook belongs to by its Toast restaurant GUID
+   */
+  async findRestaurantByGuid(restaurantGuid: string) {
+    return Restaurant.findOne({
+      'posConfig.type': 'toast',
+      'posConfig.locationId': restaurantGuid
+    }).select('posConfig.webhookSecret posConfig.isConnected');
+  }
+
+  /**
+   * Toast restaurant GUID carried in the payload, if any
+   */
+  getRestaurantGuid(payload: any): string | undefined {
+    return payload?.details?.restaurantGuid || payload?.restaurantGuid;
+  }
+
+  /**
+   * Process a verified webhook payload exactly once per event ID.
+   * A failed event is left as 'failed' so Toast's redelivery can retry it.
+   */
+  async processEvent(restaurantId: string, payload: any): Promise<IToastWebhookResult> {
+    const event = this.parseEvent(restaurantId, payload);
+
+    const claimed = await this.claimEvent(restaurantId, event);
+    if (!claimed) {
+      console.log(`🔁 Duplicate Toast webhook ${event.eventType} (${event.eventId}) ignored`);
+      return { eventId: event.eventId, eventType: event.eventType, duplicate: true, action: 'ignored' };
+    }
+
+    try {
+      let action: IToastWebhookResult['action'] = 'ignored';
+
+      if (event.eventType.startsWith('ORDER') || event.eventType.startsWith('PAYMENT')) {
+        action = await this.handleOrderEvent(restaurantId, event);
+      } else if (event.eventType.startsWith('MENU')) {
+        action = await this.handleMenuEvent(restaurantId);
+      } else if (event.eventType.startsWith('EMPLOYEE')) {
+        action = await this.handleEmployeeEvent(restaurantId, event);
+      } else {
+        console.log(`Unhandled Toast webhook event: ${event.eventType}`);
+      }
+
+      await WebhookEvent.updateOne(
+        { source: 'toast', eventId: event.eventId },
+        { $set: { status: 'processed', processedAt: new Date() }, $unset: { error: 1 } }
+      );
+
+      console.log(`⚡ Toast webhook ${event.eventType} for restaurant ${restaurantId}: ${action}`);
+      return { eventId: event.eventId, eventType: event.eventType, duplicate: false, action };
+    } catch (error: any) {
+      await WebhookEvent.updateOne(
+        { source: 'toast', eventId: event.eventId },
+        { $set: { status: 'failed', error: error.message } }
+      );
+      throw error;
+    }
+  }
+
+  private parseEvent(restaurantId: string, payload: any): IParsedEvent {
+    const eventType = String(payload?.eventType || 'UNKNOWN').toUpperCase();
+    const details = payload?.details || {};
+    const resource = details.order || details.employee || details.menu || payload?.data;
+    const resourceId = resource?.guid || details.guid || payload?.resourceId;
+
+    // Toast gives every delivery of an event the same GUID; fall back to a body hash
+    const eventId = payload?.guid || payload?.eventGuid || crypto
+      .createHash('sha256')
+      .update(`${restaurantId}:${JSON.stringify(payload)}`)
+      .digest('hex');
+
+    return { eventId, eventType, resourceId, resource };
+  }
+
+  /**
+   * Insert the event record; if it already exists only a failed one, or one
+   * stuck in 'processing' past the stale timeout, may be re-claimed
+   */
+  private async claimEvent(restaurantId: string, event: IParsedEvent): Promise<boolean> {
+    try {
+      await WebhookEvent.create({
+        source: 'toast',
+        eventId: event.eventId,
+        eventType: event.eventType,
+        restaurantId: new mongoose.Types.ObjectId(restaurantId),
+        resourceId: event.resourceId,
+        status: 'processing',
+        receivedAt: new Date()
+      });
+      return true;
+    } catch (error: any) {
+      if (error.code !== 11000) {
+        throw error;
+      }
+
+      const retried = await WebhookEvent.findOneAndUpdate(
+        {
+          source: 'toast',
+          eventId: event.eventId,
+          $or: [
+            { status: 'failed' },
+            { status: 'processing', receivedAt: { $lt: new Date(Date.now() - STALE_PROCESSING_MS) } }
+          ]
+        },
+        { $set: { status: 'processing', receivedAt: new Date() } }
+      );
+      return !!retried;
+    }
+  }
+
+  private async handleOrderEvent(restaurantId: string, event: IParsedEvent): Promise<IToastWebhookResult['action']> {
+    const orderGuid = event.resourceId;
+    if (!orderGuid) {
+      throw new Error('Order webhook without an order GUID');
+    }
+
+    if (event.eventType === 'ORDER_DELETED' || event.resource?.deleted) {
+      await Transaction.updateOne(
+        { restaurantId, posTransactionId: orderGuid },
+        {
+          $set: {
+            status: TransactionStatus.VOIDED,
+            'integration.lastSyncedAt': new Date(),
+            'integration.webhookReceived': true
+          }
+        }
+      );
+      return 'order_voided';
+    }
+
+    // Payment events and slim order events only carry the GUID
+    let order = event.resource;
+    if (!order?.checks?.length) {
+      order = await toastIntegration.fetchOrder(restaurantId, orderGuid);
+    }
+    if (!order?.checks?.length) {
+      return 'ignored';
+    }
+
+    // Webhooks can arrive out of order - never overwrite a newer version
+    const existing = await Transaction.findOne({ restaurantId, posTransactionId: order.guid })
+      .select('integration.rawPOSData.modifiedDate')
+      .lean<{ integration?: { rawPOSData?: { modifiedDate?: string } } }>();
+    const storedModified = existing?.integration?.rawPOSData?.modifiedDate;
+    if (storedModified && order.modifiedDate && new Date(storedModified) > new Date(order.modifiedDate)) {
+      return 'order_stale';
+    }
+
+    const normalized = toastIntegration.normalizeTransaction(order, restaurantId);
+    normalized.integration = { ...normalized.integration!, webhookReceived: true };
+
+    await Transaction.updateOne(
+      { restaurantId, posTransactionId: order.guid },
+      { $set: normalized },
+      { upsert: true }
+    );
+
+    return 'order_upserted';
+  }
+
+  private async handleMenuEvent(restaurantId: string): Promise<IToastWebhookResult['action']> {
+    const menus = await toastIntegration.fetchMenus(restaurantId);
+    if (menus.length > 0) {
+      await toastIntegration.importMenus(restaurantId, menus);
+    }
+
+    const menuItems = await toastIntegration.fetchMenuItems(restaurantId);
+    if (menuItems.length > 0) {
+      await toastIntegration.importMenuItems(restaurantId, menuItems);
+    }
+
+    return 'menu_refreshed';
+  }
+
+  private async handleEmployeeEvent(restaurantId: string, event: IParsedEvent): Promise<IToastWebhookResult['action']> {
+    const employeeGuid = event.resourceId;
+    if (!employeeGuid) {
+      throw new Error('Employee webhook without an employee GUID');
+    }
+
+    let toastEmployee = event.resource;
+    if (!toastEmployee?.firstName && !toastEmployee?.lastName) {
+      toastEmployee = await toastIntegration.fetchEmployee(restaurantId, employeeGuid);
+    }
+    if (!toastEmployee) {
+      return 'ignored';
+    }
+
+    const restaurant = await Restaurant.findById(restaurantId).select('team');
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const employees: any[] = restaurant.team?.employees || [];
+    const existing = employees.find((emp: any) => emp.toastEmployeeId === employeeGuid);
+
+    // Same mapping as /api/pos/toast/import-staff
+    const jobTitle = toastEmployee.jobTitle?.toLowerCase() || '';
+    const role = jobTitle.includes('manager') || jobTitle.includes('supervisor') ? UserRole.MANAGER : UserRole.EMPLOYEE;
+    const toastData = {
+      externalId: toastEmployee.externalId,
+      chosenName: toastEmployee.chosenName,
+      jobTitle: toastEmployee.jobTitle,
+      wage: toastEmployee.wage,
+      createdDate: toastEmployee.createdDate,
+      modifiedDate: toastEmployee.modifiedDate
+    };
+    const isActive = !toastEmployee.deleted && !toastEmployee.disabled;
+
+    if (existing) {
+      // Keep our own role and gamification state; refresh what Toast owns
+      existing.firstName = toastEmployee.firstName;
+      existing.lastName = toastEmployee.lastName;
+      existing.email = toastEmployee.email || existing.email;
+      existing.phone = toastEmployee.phoneNumber || existing.phone;
+      existing.isActive = isActive;
+      existing.toastData = toastData;
+    } else {
+      employees.push({
+        userId: toastEmployee.email || `${employeeGuid}@toast.imported`,
+        toastEmployeeId: employeeGuid,
+        email: toastEmployee.email || null,
+        firstName: toastEmployee.firstName,
+        lastName: toastEmployee.lastName,
+        role,
+        phone: toastEmployee.phoneNumber || null,
+        isActive,
+        points: 0,
+        level: 1,
+        streak: 0,
+        badges: [],
+        toastData,
+        importedAt: new Date(),
+        importedFrom: 'toast'
+      });
+    }
+
+    await Restaurant.updateOne(
+      { _id: restaurantId },
+      { $set: { 'team.employees': employees } }
+    );
+
+    return 'employee_upserted';
+  }
+}
+
+// Export singleton instance
+export const toastWebhookService = new ToastWebhookService();
@@ -0,0 +1,298 @@
+/**
+ * Weather History Service
+ *
+ * Read-through store for per-day weather at a location:
+ * - Past days come from the Open-Meteo archive (via WeatherService); days the
+ *   archive hasn't published yet are filled from the forecast model and
+ *   replaced with observations on a later read
+ * - Upcoming days come from the forecast and are refreshed after FORECAST_TTL_MS
+ * - Everything is persisted in weather_history, so a location's history is
+ *   fetched once and shared by every restaurant within ~11 km
+ *
+ * The provider is pluggable: WEATHER_PROVIDER=fixture reads JSON files from
+ * WEATHER_FIXTURES_DIR instead of calling Open-Meteo (local dev, tests).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import WeatherHistory, { IWeatherHistory, WeatherHistorySource } from '../models/WeatherHistory';
+import Restaurant from '../models/Restaurant';
+import { weatherService, WeatherData, WeatherDay } from './ExternalDataService';
+import { toLocalDate, addDays } from '../utils/timezone';
+
+// Locations are rounded to this many decimal places (0.1° ≈ 11 km)
+const LOCATION_PRECISION = 1;
+// Forecast records for upcoming days are re-fetched after this
+const FORECAST_TTL_MS = 6 * 60 * 60 * 1000;
+// Largest range requested from the provider in one call
+const MAX_FETCH_DAYS = 366;
+// Default backfill depth for a restaurant
+const DEFAULT_BACKFILL_DAYS = 365;
+
+export interface IWeatherHistoryProvider {
+  readonly source: WeatherHistorySource;
+
+  /**
+   * Observed weather; may omit days not yet available
+   */
+  fetchHistory(lat: number, lon: number, startDate: string, endDate: string, timezone: string): Promise<WeatherDay[]>;
+
+  /**
+   * Forecast weather for upcoming (or very recent) days
+   */
+  fetchForecast(lat: number, lon: number, startDate: string, endDate: string, timezone: string): Promise<WeatherDay[]>;
+}
+
+/**
+ * Open-Meteo archive + forecast APIs (free, no key)
+ */
+export class OpenMeteoWeatherProvider implements IWeatherHistoryProvider {
+  readonly source: WeatherHistorySource = 'archive';
+
+  fetchHistory(lat: number, lon: number, startDate: string, endDate: string, timezone: string): Promise<WeatherDay[]> {
+    return weatherService.getHistoricalWeatherRange(lat, lon, startDate, endDate, timezone);
+  }
+
+  fetchForecast(lat: number, lon: number, startDate: string, endDate: string, timezone: string): Promise<WeatherDay[]> {
+    return weatherService.getWeatherForecastRange(lat, lon, startDate, endDate, timezone);
+  }
+}
+
+/**
+ * Reads <dir>/<lat>_<lon>.json (rounded location, e.g. 38.6_-121.5.json),
+ * an array of WeatherDay objects. Missing files mean no data.
+ */
+export class FixtureWeatherProvider implements IWeatherHistoryProvider {
+  readonly source: WeatherHistorySource = 'fixture';
+
+  constructor(
+    private readonly dir: string = process.env.WEATHER_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'weather')
+  ) {}
+
+  async fetchHistory(lat: number, lon: number, startDate: string, endDate: string): Promise<WeatherDay[]> {
+    const days = await this.load(lat, lon);
+    return days.filter(day => day.date >= startDate && day.date <= endDate);
+  }
+
+  fetchForecast(lat: number, lon: number, startDate: string, endDate: string): Promise<WeatherDay[]> {
+    return this.fetchHistory(lat, lon, startDate, endDate);
+  }
+
+  private async load(lat: number, lon: number): Promise<WeatherDay[]> {
+    const { latitude, longitude } = roundLocation(lat, lon);
+    const file = path.join(this.dir, `${latitude}_${longitude}.json`);
+
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to read weather fixture ${file}:`, error.message);
+      }
+      return [];
+    }
+  }
+}
+
+function roundLocation(lat: number, lon: number): { latitude: number; longitude: number; locationKey: string } {
+  const latitude = Number(lat.toFixed(LOCATION_PRECISION));
+  const longitude = Number(lon.toFixed(LOCATION_PRECISION));
+  return { latitude, longitude, locationKey: `${latitude},${longitude}` };
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000));
+}
+
+export class WeatherHistoryService {
+  constructor(
+    private readonly provider: IWeatherHistoryProvider = process.env.WEATHER_PROVIDER === 'fixture'
+      ? new FixtureWeatherProvider()
+      : new OpenMeteoWeatherProvider()
+  ) {}
+
+  /**
+   * Weather per local date (YYYY-MM-DD) for an inclusive date range,
+   * fetching and storing whatever isn't stored (or is stale) first.
+   * Dates with no data available are absent from the map.
+   */
+  async getDailyWeather(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<Map<string, WeatherData>> {
+    const { latitude, longitude, locationKey } = roundLocation(lat, lon);
+
+    let stored = await this.findStored(locationKey, startDate, endDate);
+    const toFetch = this.findDatesToFetch(stored, startDate, endDate, timezone);
+
+    if (toFetch.past.length > 0 || toFetch.upcoming.length > 0) {
+      try {
+        await this.fetchAndStore(latitude, longitude, locationKey, toFetch, timezone);
+      } catch (error: any) {
+        // Serve what's stored; the gaps are retried on the next read
+        console.error(`⚠️  Weather backfill failed for ${locationKey}:`, error.message);
+      }
+      stored = await this.findStored(locationKey, startDate, endDate);
+    }
+
+    const weather = new Map<string, WeatherData>();
+    stored.forEach((record, date) => {
+      weather.set(date, weatherService.toWeatherData(record));
+    });
+    return weather;
+  }
+
+  /**
+   * Backfill a restaurant's location for the last `days` days
+   */
+  async backfillRestaurant(restaurantId: string, days: number = DEFAULT_BACKFILL_DAYS): Promise<number> {
+    const restaurant = await Restaurant.findById(restaurantId).select('location analyticsSettings.timezone');
+    const lat = restaurant?.location?.latitude;
+    const lon = restaurant?.location?.longitude;
+
+    if (!lat || !lon) {
+      return 0;
+    }
+
+    const timezone = restaurant.analyticsSettings?.timezone || 'America/New_York';
+    const yesterday = addDays(toLocalDate(new Date(), timezone), -1);
+    const weather = await this.getDailyWeather(lat, lon, addDays(yesterday, -(days - 1)), yesterday, timezone);
+
+    console.log(`🌦️  Weather history for restaurant ${restaurantId}: ${weather.size}/${days} days stored`);
+    return weather.size;
+  }
+
+  private async findStored(locationKey: string, startDate: string, endDate: string): Promise<Map<string, IWeatherHistory>> {
+    const records = await WeatherHistory.find({
+      locationKey,
+      date: { $gte: startDate, $lte: endDate }
+    }).lean<IWeatherHistory[]>();
+
+    return new Map(records.map(record => [record.date, record]));
+  }
+
+  /**
+   * Missing dates, past dates still holding forecast values, and stale forecasts
+   */
+  private findDatesToFetch(
+    stored: Map<string, IWeatherHistory>,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): { past: string[]; upcoming: string[] } {
+    const today = toLocalDate(new Date(), timezone);
+    const past: string[] = [];
+    const upcoming: string[] = [];
+
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const record = stored.get(date);
+
+      if (date < today) {
+        if (!record || record.source === 'forecast') {
+          past.push(date);
+        }
+      } else if (!record || Date.now() - new Date(record.fetchedAt).getTime() > FORECAST_TTL_MS) {
+        upcoming.push(date);
+      }
+    }
+
+    return { past, upcoming };
+  }
+
+  private async fetchAndStore(
+    latitude: number,
+    longitude: number,
+    locationKey: string,
+    toFetch: { past: string[]; upcoming: string[] },
+    timezone: string
+  ): Promise<void> {
+    const days: Array<{ day: WeatherDay; source: WeatherHistorySource }> = [];
+
+    if (toFetch.past.length > 0) {
+      const observed = new Set<string>();
+
+      for (const [start, end] of this.chunkRange(toFetch.past[0], toFetch.past[toFetch.past.length - 1])) {
+        const history = await this.provider.fetchHistory(latitude, longitude, start, end, timezone);
+        history.forEach(day => {
+          observed.add(day.date);
+          days.push({ day, source: this.provider.source });
+        });
+      }
+
+      // The last few days aren't in the archive yet - hold forecast values until they are
+      const unpublished = toFetch.past.filter(date => !observed.has(date));
+      if (unpublished.length > 0) {
+        const recent = await this.provider.fetchForecast(
+          latitude, longitude, unpublished[0], unpublished[unpublished.length - 1], timezone
+        );
+        recent
+          .filter(day => unpublished.includes(day.date))
+          .forEach(day => days.push({ day, source: this.forecastSource() }));
+      }
+    }
+
+    if (toFetch.upcoming.length > 0) {
+      const forecast = await this.provider.fetchForecast(
+        latitude, longitude, toFetch.upcoming[0], toFetch.upcoming[toFetch.upcoming.length - 1], timezone
+      );
+      forecast.forEach(day => days.push({ day, source: this.forecastSource() }));
+    }
+
+    if (days.length === 0) {
+      return;
+    }
+
+    const fetchedAt = new Date();
+    await WeatherHistory.bulkWrite(
+      days.map(({ day, source }) => ({
+        updateOne: {
+          filter: { locationKey, date: day.date },
+          update: {
+            $set: {
+              latitude,
+              longitude,
+              timezone,
+              source,
+              temperatureMax: day.temperatureMax,
+              temperatureMin: day.temperatureMin,
+              temperatureMean: day.temperatureMean,
+              precipitation: day.precipitation,
+              rain: day.rain,
+              snowfall: day.snowfall,
+              weatherCode: day.weatherCode,
+              hourly: day.hourly,
+              fetchedAt
+            }
+          },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    );
+
+    console.log(`🌦️  Stored ${days.length} days of weather for ${locationKey}`);
+  }
+
+  // Fixture data never turns into observations, so it keeps its own source
+  private forecastSource(): WeatherHistorySource {
+    return this.provider.source === 'fixture' ? 'fixture' : 'forecast';
+  }
+
+  private chunkRange(startDate: string, endDate: string): Array<[string, string]> {
+    const chunks: Array<[string, string]> = [];
+    let start = startDate;
+
+    while (start <= endDate) {
+      const end = daysBetween(start, endDate) >= MAX_FETCH_DAYS ? addDays(start, MAX_FETCH_DAYS - 1) : endDate;
+      chunks.push([start, end]);
+      start = addDays(end, 1);
+    }
+
+    return chunks;
+  }
+}
+
+// Export singleton instance
+export const weatherHistoryService = new WeatherHistoryService();
@@ -0,0 +1,64 @@
+import { CloverIntegrationService } from '../CloverIntegration';
+import { runChunkedSync } from '../POSAdapter';
+
+jest.mock('../POSAdapter', () => ({
+  ...jest.requireActual('../POSAdapter'),
+  runChunkedSync: jest.fn()
+}));
+
+const RESTAURANT_ID = '64b000000000000000000001';
+
+const employees = [
+  { id: 'EMP1', roles: { elements: [{ id: 'ROLE_SERVER' }] } },
+  { id: 'EMP2', roles: { elements: [{ id: 'ROLE_COOK' }] } }
+];
+
+describe('CloverIntegrationService.syncRestaurant', () => {
+  let clover: CloverIntegrationService;
+  let fetchAll: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    clover = new CloverIntegrationService();
+    fetchAll = jest.spyOn(clover as any, 'fetchAll').mockImplementation(async (_id: unknown, resource: unknown) => (
+      resource === 'employees' ? employees : [{ id: 'SHIFT1', employee: { id: 'EMP2' } }]
+    ));
+    jest.spyOn(clover, 'importEmployees').mockResolvedValue(0);
+
+    // Two chunks, each fetching its own time entries
+    (runChunkedSync as jest.Mock).mockImplementation(async (adapter: CloverIntegrationService, restaurantId: string) => {
+      const chunks = [];
+      for (let i = 0; i < 2; i++) {
+        chunks.push(await adapter.fetchTimeEntries(restaurantId, new Date(), new Date()));
+      }
+      return { chunks };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fetches employees once and reuses their roles for every time entry chunk', async () => {
+    const result: any = await clover.syncRestaurant(RESTAURANT_ID);
+
+    const employeeCalls = fetchAll.mock.calls.filter(([, resource]) => resource === 'employees');
+    expect(employeeCalls).toHaveLength(1);
+    expect(result.chunks).toEqual([
+      [{ id: 'SHIFT1', employee: { id: 'EMP2' }, roleId: 'ROLE_COOK' }],
+      [{ id: 'SHIFT1', employee: { id: 'EMP2' }, roleId: 'ROLE_COOK' }]
+    ]);
+  });
+
+  it('fetches employees for a standalone time entry fetch', async () => {
+    await clover.syncRestaurant(RESTAURANT_ID);
+    fetchAll.mockClear();
+
+    const entries = await clover.fetchTimeEntries(RESTAURANT_ID, new Date(), new Date());
+
+    expect(fetchAll.mock.calls.filter(([, resource]) => resource === 'employees')).toHaveLength(1);
+    expect(entries[0].roleId).toBe('ROLE_COOK');
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  broaderCohorts,
+  cohortsFor,
+  isCohortPublishable,
+  roundSampleSize,
+  Cohort,
+  MIN_COHORT_RESTAURANTS
+} from '../CohortLearningService';
+
+const GLOBAL: Cohort = { scope: 'global', region: null, cuisineType: null };
+const GLOBAL_PIZZA: Cohort = { scope: 'global', region: null, cuisineType: 'pizza' };
+const WEST: Cohort = { scope: 'regional', region: 'west', cuisineType: null };
+const WEST_PIZZA: Cohort = { scope: 'regional', region: 'west', cuisineType: 'pizza' };
+
+function restaurants(count: number, region: string, cuisineType: string) {
+  return Array.from({ length: count }, () => ({ region, cuisineType }));
+}
+
+describe('cohortsFor', () => {
+  it('places a restaurant in global, cuisine, region and region + cuisine cohorts', () => {
+    expect(cohortsFor('west', 'pizza')).toEqual([GLOBAL, GLOBAL_PIZZA, WEST, WEST_PIZZA]);
+  });
+
+  it('leaves restaurants with an unknown region out of regional cohorts', () => {
+    expect(cohortsFor('unknown', 'pizza')).toEqual([GLOBAL, GLOBAL_PIZZA]);
+  });
+});
+
+describe('broaderCohorts', () => {
+  it('lists every cohort containing a nested one', () => {
+    expect(broaderCohorts(GLOBAL)).toEqual([]);
+    expect(broaderCohorts(WEST)).toEqual([GLOBAL]);
+    expect(broaderCohorts(WEST_PIZZA)).toEqual([GLOBAL, GLOBAL_PIZZA, WEST]);
+  });
+});
+
+describe('isCohortPublishable', () => {
+  it('requires the minimum number of restaurants', () => {
+    expect(isCohortPublishable(GLOBAL, restaurants(MIN_COHORT_RESTAURANTS - 1, 'west', 'pizza'))).toBe(false);
+    expect(isCohortPublishable(GLOBAL, restaurants(MIN_COHORT_RESTAURANTS, 'west', 'pizza'))).toBe(true);
+  });
+
+  it('publishes a nested cohort identical to its broader cohorts', () => {
+    expect(isCohortPublishable(WEST_PIZZA, restaurants(6, 'west', 'pizza'))).toBe(true);
+  });
+
+  it('suppresses a nested cohort within a few restaurants of a broader one', () => {
+    for (let others = 1; others < MIN_COHORT_RESTAURANTS; others++) {
+      const contributions = [...restaurants(6, 'west', 'pizza'), ...restaurants(others, 'east', 'pizza')];
+
+      // Global pizza minus west pizza would expose the east restaurants
+      expect(isCohortPublishable(WEST_PIZZA, contributions)).toBe(false);
+      expect(isCohortPublishable(GLOBAL_PIZZA, contributions)).toBe(true);
+    }
+  });
+
+  it('publishes a nested cohort once the difference reaches the minimum', () => {
+    const contributions = [
+      ...restaurants(6, 'west', 'pizza'),
+      ...restaurants(MIN_COHORT_RESTAURANTS, 'east', 'pizza'),
+      ...restaurants(MIN_COHORT_RESTAURANTS, 'west', 'sushi')
+    ];
+
+    expect(isCohortPublishable(WEST_PIZZA, contributions)).toBe(true);
+    expect(isCohortPublishable(WEST, contributions)).toBe(true);
+  });
+});
+
+describe('roundSampleSize', () => {
+  it('rounds to the publishing granularity, never below it', () => {
+    expect(roundSampleSize(3)).toBe(50);
+    expect(roundSampleSize(74)).toBe(50);
+    expect(roundSampleSize(75)).toBe(100);
+    expect(roundSampleSize(1234)).toBe(1250);
+  });
+});
@@ -0,0 +1,133 @@
+import { InsightGeneratorService } from '../InsightGenerator';
+import { FakeLLMProvider, ILLMProvider, LLMRequest } from '../LLMProvider';
+
+const restaurant = {
+  name: 'Test Bistro',
+  type: 'casual_dining',
+  location: { city: 'Sacramento', state: 'CA' },
+  subscription: { tier: 'pro' },
+  status: 'active'
+};
+
+const analysisResult = {
+  revenueLeakage: { total: 1200, opportunities: [] },
+  employeePerformance: { topPerformers: [], underPerformers: [], averageMetrics: {} },
+  customerExperience: { satisfactionScore: 80, waitTimeIssues: false, serviceQuality: 'good' },
+  operationalEfficiency: { peakHourUtilization: 70, staffOptimization: [], processImprovements: [] }
+};
+
+const validResponse = JSON.stringify({
+  summary: 'Lunch upsells are the biggest opportunity.',
+  keyFindings: [{
+    category: 'upselling_opportunities',
+    title: 'Low dessert attach rate',
+    description: 'Only 4% of lunch checks include dessert.',
+    financialImpact: { amount: 900, timeframe: 'monthly' },
+    confidenceScore: 80,
+    priority: 'high'
+  }],
+  recommendations: [{
+    title: 'Offer a dessert pairing',
+    description: 'Train servers to suggest a dessert with each entree.',
+    category: 'upselling_opportunities',
+    priority: 'high',
+    difficulty: 'easy',
+    timeRequired: '1 week',
+    cost: 100,
+    roi: { expectedReturn: 900, timeframe: '30 days', probability: 70 },
+    steps: ['Pick two desserts to feature', 'Brief servers at pre-shift'],
+    successMetrics: ['Dessert attach rate']
+  }]
+});
+
+function generateAIInsights(llm: ILLMProvider) {
+  // Exercised directly so the tests need no database
+  return (new InsightGeneratorService(llm) as any).generateAIInsights(restaurant, analysisResult, 'weekly_summary');
+}
+
+describe('InsightGeneratorService AI insights', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('parses a valid answer wrapped in a code fence', async () => {
+    const llm = new FakeLLMProvider(['```json\n' + validResponse + '\n```']);
+
+    const insights = await generateAIInsights(llm);
+
+    expect(insights).toMatchObject({ provider: 'fake', model: 'fake-llm', attempts: 1 });
+    expect(insights.summary).toBe('Lunch upsells are the biggest opportunity.');
+    expect(insights.keyFindings[0]).toMatchObject({
+      category: 'upselling_opportunities',
+      impact: { value: 900, timeframe: 'monthly' }
+    });
+    expect(insights.recommendations[0].steps.map((step: any) => step.description))
+      .toEqual(['Pick two desserts to feature', 'Brief servers at pre-shift']);
+  });
+
+  it('retries invalid JSON with the parse error and uses the corrected answer', async () => {
+    const llm = new FakeLLMProvider(['{"summary": "truncated', validResponse]);
+
+    const insights = await generateAIInsights(llm);
+
+    expect(insights.attempts).toBe(2);
+    expect(insights.provider).toBe('fake');
+    expect(llm.requests).toHaveLength(2);
+
+    const retryMessages = llm.requests[1].messages;
+    expect(retryMessages).toHaveLength(3);
+    expect(retryMessages[1]).toEqual({ role: 'assistant', content: '{"summary": "truncated' });
+    expect(retryMessages[2].content).toContain('response contains no JSON object');
+  });
+
+  it('sends schema violations back to the model', async () => {
+    const missingRecommendations = JSON.stringify({ ...JSON.parse(validResponse), recommendations: [] });
+    const llm = new FakeLLMProvider([missingRecommendations, validResponse]);
+
+    const insights = await generateAIInsights(llm);
+
+    expect(insights.attempts).toBe(2);
+    expect(llm.requests[1].messages[2].content).toContain('$.recommendations: expected at least 1 items');
+  });
+
+  it('falls back to rule-based insights when every answer is malformed', async () => {
+    const llm = new FakeLLMProvider(['not json', '{"summary": ""}']);
+
+    const insights = await generateAIInsights(llm);
+
+    expect(llm.requests).toHaveLength(2);
+    expect(insights).toMatchObject({ provider: 'fallback', model: 'rule-based', attempts: 2 });
+    expect(insights.tokensUsed).toBeGreaterThan(0);
+    expect(insights.keyFindings[0].title).toBe('Revenue Leakage Identified');
+  });
+
+  it('raises the token limit when an answer is cut off', async () => {
+    const requests: LLMRequest[] = [];
+    const llm: ILLMProvider = {
+      name: 'fake',
+      model: 'fake-llm',
+      async complete(request) {
+        requests.push(request);
+        const text = requests.length === 1 ? validResponse.slice(0, 200) : validResponse;
+        return {
+          text,
+          model: 'fake-llm',
+          inputTokens: 10,
+          outputTokens: 10,
+          stopReason: requests.length === 1 ? 'max_tokens' : 'end_turn'
+        };
+      }
+    };
+
+    const insights = await generateAIInsights(llm);
+
+    expect(insights.attempts).toBe(2);
+    expect(requests[1].maxTokens).toBe(requests[0].maxTokens * 2);
+    expect(requests[1].messages[2].content).toContain('cut off at the token limit');
+  });
+});
@@ -0,0 +1,73 @@
+import Insight, { IRecommendation, InsightCategory, InsightPriority, InsightType } from '../../models/Insight';
+import { insightVersioningService } from '../InsightVersioningService';
+
+jest.mock('../../models/Insight', () => ({
+  ...jest.requireActual('../../models/Insight'),
+  __esModule: true,
+  default: { find: jest.fn() }
+}));
+
+const RESTAURANT_ID = '64b000000000000000000001';
+
+function recommendation(id: string, title: string, status: IRecommendation['status']): IRecommendation {
+  return {
+    id,
+    title,
+    description: title,
+    category: InsightCategory.UPSELLING_OPPORTUNITIES,
+    priority: InsightPriority.HIGH,
+    implementation: {
+      difficulty: 'easy',
+      timeRequired: '1 week',
+      cost: 0,
+      roi: { timeframe: '30 days', expectedReturn: 500, probability: 70 }
+    },
+    steps: [],
+    metrics: { kpis: [], trackingMethod: 'POS system monitoring', expectedImprovement: 'Monitor for 30 days' },
+    status,
+    ...(status === 'dismissed' ? { dismissedAt: new Date('2026-09-01'), dismissalReason: 'Not for us' } : {})
+  } as IRecommendation;
+}
+
+// Versions newest first, as the service queries them
+function mockVersions(...versions: IRecommendation[][]) {
+  (Insight.find as jest.Mock).mockReturnValue({
+    sort: () => ({ select: () => Promise.resolve(versions.map(recommendations => ({ recommendations }))) })
+  });
+}
+
+describe('InsightVersioningService.carryForwardRecommendations', () => {
+  it('keeps a dismissal when the recommendation skipped a version', async () => {
+    mockVersions(
+      [recommendation('rec_v2_0', 'Train staff on wine pairings', 'suggested')],
+      [recommendation('rec_v1_0', 'Offer dessert pairings with entrees', 'dismissed')]
+    );
+
+    const [carried, other] = await insightVersioningService.carryForwardRecommendations(
+      RESTAURANT_ID,
+      InsightType.WEEKLY_SUMMARY,
+      [
+        recommendation('rec_v3_0', 'Offer dessert pairings with every entree', 'suggested'),
+        recommendation('rec_v3_1', 'Train staff on wine pairings', 'suggested')
+      ]
+    );
+
+    expect(carried).toMatchObject({ id: 'rec_v1_0', status: 'dismissed', dismissalReason: 'Not for us' });
+    expect(other).toMatchObject({ id: 'rec_v3_1', status: 'suggested' });
+  });
+
+  it('uses the latest decision when a recommendation was carried through several versions', async () => {
+    mockVersions(
+      [recommendation('rec_v1_0', 'Offer dessert pairings with entrees', 'completed')],
+      [recommendation('rec_v1_0', 'Offer dessert pairings with entrees', 'in_progress')]
+    );
+
+    const [carried] = await insightVersioningService.carryForwardRecommendations(
+      RESTAURANT_ID,
+      InsightType.WEEKLY_SUMMARY,
+      [recommendation('rec_v3_0', 'Offer dessert pairings with entrees', 'suggested')]
+    );
+
+    expect(carried).toMatchObject({ id: 'rec_v1_0', status: 'completed' });
+  });
+});
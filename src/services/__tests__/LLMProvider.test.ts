@@ -0,0 +1,35 @@
+import { FakeLLMProvider } from '../LLMProvider';
+import { validateJsonSchema } from '../../utils/jsonSchema';
+
+describe('FakeLLMProvider', () => {
+  it('returns scripted answers in order and records each request', async () => {
+    const provider = new FakeLLMProvider(['first', 'second']);
+    const request = { messages: [{ role: 'user' as const, content: 'hello' }], maxTokens: 100 };
+
+    expect((await provider.complete(request)).text).toBe('first');
+    expect((await provider.complete(request)).text).toBe('second');
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('answers from the response schema once the script runs out', async () => {
+    const schema = {
+      type: 'object' as const,
+      required: ['summary', 'score'],
+      properties: {
+        summary: { type: 'string' as const, minLength: 1 },
+        score: { type: 'number' as const, minimum: 1 }
+      }
+    };
+    const provider = new FakeLLMProvider();
+
+    const response = await provider.complete({
+      messages: [{ role: 'user', content: 'hello' }],
+      maxTokens: 100,
+      responseSchema: schema
+    });
+
+    expect(validateJsonSchema(JSON.parse(response.text), schema)).toEqual([]);
+    expect(response).toMatchObject({ model: 'fake-llm', stopReason: 'end_turn' });
+    expect(response.outputTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,80 @@
+import Restaurant from '../../models/Restaurant';
+import { IPOSAdapter, runChunkedSync } from '../POSAdapter';
+
+jest.mock('../../models/Restaurant', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn().mockResolvedValue({ posConfig: { initialSyncComplete: true } }),
+    findByIdAndUpdate: jest.fn().mockResolvedValue(null)
+  }
+}));
+
+const RESTAURANT_ID = '64b000000000000000000001';
+const range = { startDate: new Date('2026-06-01T00:00:00Z'), endDate: new Date('2026-06-30T00:00:00Z') };
+
+function fakeAdapter(): IPOSAdapter {
+  return {
+    posType: 'clover',
+    testConnection: jest.fn().mockResolvedValue(true),
+    fetchTransactions: jest.fn().mockResolvedValue([{ id: 'order-1' }]),
+    normalizeTransaction: jest.fn(),
+    importTransactions: jest.fn().mockResolvedValue(1),
+    fetchTimeEntries: jest.fn().mockResolvedValue([]),
+    importTimeEntries: jest.fn().mockResolvedValue(0),
+    fetchShifts: jest.fn().mockResolvedValue([]),
+    importShifts: jest.fn().mockResolvedValue(0),
+    fetchJobs: jest.fn().mockResolvedValue([]),
+    importJobs: jest.fn().mockResolvedValue(0),
+    fetchMenus: jest.fn().mockResolvedValue([]),
+    importMenus: jest.fn().mockResolvedValue(0),
+    fetchMenuItems: jest.fn().mockResolvedValue([]),
+    importMenuItems: jest.fn().mockResolvedValue(0),
+    syncRestaurant: jest.fn()
+  };
+}
+
+describe('runChunkedSync', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves lastSyncAt forward after a connect or manual sync with a date range', async () => {
+    await runChunkedSync(fakeAdapter(), RESTAURANT_ID, range);
+
+    expect(Restaurant.findByIdAndUpdate).toHaveBeenCalledWith(RESTAURANT_ID, {
+      'posConfig.isConnected': true,
+      'posConfig.lastSyncAt': range.endDate,
+      'posConfig.initialSyncComplete': true
+    });
+  });
+
+  it('leaves lastSyncAt alone after a gap re-sync', async () => {
+    await runChunkedSync(fakeAdapter(), RESTAURANT_ID, { ...range, reason: 'gap_fill' });
+
+    expect(Restaurant.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('keeps the checkpoint on a failed chunk so a resumed sync retries it', async () => {
+    const adapter = fakeAdapter();
+    (adapter.fetchTransactions as jest.Mock)
+      .mockResolvedValueOnce([{ id: 'order-1' }])
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce([{ id: 'order-2' }]);
+    const onCheckpoint = jest.fn().mockResolvedValue(undefined);
+
+    const result = await runChunkedSync(adapter, RESTAURANT_ID, {
+      startDate: new Date('2026-04-01T00:00:00Z'),
+      endDate: new Date('2026-06-30T00:00:00Z'),
+      onCheckpoint
+    });
+
+    expect(result).toMatchObject({ totalChunks: 3, failedChunks: 1 });
+    expect(onCheckpoint.mock.calls.map(([checkpoint]) => checkpoint.windowIndex)).toEqual([1, 1, 1]);
+  });
+});
@@ -0,0 +1,61 @@
+import { Restaurant } from '../../models';
+import { SmartToastSync } from '../SmartToastSync';
+import { ToastIntegration } from '../ToastIntegration';
+
+jest.mock('../SmartToastSync', () => ({
+  SmartToastSync: jest.fn().mockImplementation(() => ({
+    smartSync: jest.fn().mockResolvedValue(undefined),
+    executeRangeSync: jest.fn().mockResolvedValue(12)
+  }))
+}));
+
+jest.mock('../ToastConfigService', () => ({
+  ToastConfigService: jest.fn().mockImplementation(() => ({
+    fetchAllConfig: jest.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+jest.mock('../../models', () => ({
+  ...jest.requireActual('../../models'),
+  Restaurant: { findByIdAndUpdate: jest.fn().mockResolvedValue(null) }
+}));
+
+const RESTAURANT_ID = '64b000000000000000000001';
+const range = { startDate: new Date('2026-06-01T00:00:00Z'), endDate: new Date('2026-06-30T00:00:00Z') };
+
+function lastSmartSync() {
+  const results = (SmartToastSync as unknown as jest.Mock).mock.results;
+  return results[results.length - 1].value;
+}
+
+describe('ToastIntegration.syncRestaurant', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs the full sync for connect and manual jobs that pass a date range', async () => {
+    await new ToastIntegration().syncRestaurant(RESTAURANT_ID, range);
+
+    const smartSync = lastSmartSync();
+    expect(smartSync.smartSync).toHaveBeenCalled();
+    expect(smartSync.executeRangeSync).not.toHaveBeenCalled();
+    expect(Restaurant.findByIdAndUpdate).toHaveBeenCalledWith(RESTAURANT_ID, expect.objectContaining({
+      'posConfig.isConnected': true
+    }));
+  });
+
+  it('only re-imports orders for a gap re-sync', async () => {
+    const result = await new ToastIntegration().syncRestaurant(RESTAURANT_ID, { ...range, reason: 'gap_fill' });
+
+    const smartSync = lastSmartSync();
+    expect(smartSync.executeRangeSync).toHaveBeenCalledWith(RESTAURANT_ID, range.startDate, range.endDate, undefined);
+    expect(smartSync.smartSync).not.toHaveBeenCalled();
+    expect(Restaurant.findByIdAndUpdate).not.toHaveBeenCalled();
+    expect(result.ordersImported).toBe(12);
+  });
+});
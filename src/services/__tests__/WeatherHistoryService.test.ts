@@ -0,0 +1,25 @@
+import path from 'path';
+import { FixtureWeatherProvider } from '../WeatherHistoryService';
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', '..', 'fixtures', 'weather');
+
+describe('FixtureWeatherProvider', () => {
+  const provider = new FixtureWeatherProvider(FIXTURES_DIR);
+
+  it('reads the fixture for the rounded location and filters to the date range', async () => {
+    const days = await provider.fetchHistory(38.5816, -121.4944, '2026-07-02', '2026-07-04');
+
+    expect(days.map(day => day.date)).toEqual(['2026-07-02', '2026-07-03', '2026-07-04']);
+    expect(days[2]).toMatchObject({ temperatureMax: 68, precipitation: 0.48 });
+  });
+
+  it('serves forecasts from the same fixture', async () => {
+    const days = await provider.fetchForecast(38.6, -121.5, '2026-07-07', '2026-07-10');
+
+    expect(days.map(day => day.date)).toEqual(['2026-07-07']);
+  });
+
+  it('returns no data for a location without a fixture', async () => {
+    await expect(provider.fetchHistory(40.7, -74.0, '2026-07-01', '2026-07-07')).resolves.toEqual([]);
+  });
+});
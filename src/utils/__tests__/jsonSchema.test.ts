@@ -0,0 +1,71 @@
+import { JsonSchema, sampleFromJsonSchema, validateJsonSchema } from '../jsonSchema';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['title', 'priority', 'steps'],
+  properties: {
+    title: { type: 'string', minLength: 5 },
+    priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    steps: {
+      type: 'array',
+      minItems: 2,
+      maxItems: 3,
+      items: { type: 'integer', minimum: 1 },
+    },
+    urgent: { type: 'boolean' },
+  },
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a conforming value', () => {
+    const value = { title: 'Trim lunch staff', priority: 'high', confidence: 0.8, steps: [1, 2], urgent: true };
+
+    expect(validateJsonSchema(value, schema)).toEqual([]);
+  });
+
+  it('reports each violation with its JSON path', () => {
+    const value = { title: 'Hi', priority: 'urgent', confidence: 1.5, steps: [0, 2.5], urgent: 'yes' };
+
+    expect(validateJsonSchema(value, schema)).toEqual([
+      '$.title: expected at least 5 characters',
+      '$.priority: must be one of high, medium, low',
+      '$.confidence: must be <= 1',
+      '$.steps[0]: must be >= 1',
+      '$.steps[1]: expected integer',
+      '$.urgent: expected boolean',
+    ]);
+  });
+
+  it('treats null as missing for required properties', () => {
+    expect(validateJsonSchema({ title: null, priority: 'low', steps: [1, 2] }, schema)).toEqual(['$.title: required']);
+  });
+
+  it('checks array bounds and container types', () => {
+    expect(validateJsonSchema({ title: 'Valid title', priority: 'low', steps: [1, 2, 3, 4] }, schema))
+      .toEqual(['$.steps: expected at most 3 items']);
+    expect(validateJsonSchema([], schema)).toEqual(['$: expected object']);
+    expect(validateJsonSchema({ title: 'Valid title', priority: 'low', steps: 'one' }, schema))
+      .toEqual(['$.steps: expected array']);
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(validateJsonSchema(NaN, { type: 'number' })).toEqual(['$: expected number']);
+  });
+});
+
+describe('sampleFromJsonSchema', () => {
+  it('produces a value that validates against its schema', () => {
+    const sample = sampleFromJsonSchema(schema);
+
+    expect(validateJsonSchema(sample, schema)).toEqual([]);
+    expect(sample).toMatchObject({ priority: 'high', confidence: 0, steps: [1, 1], urgent: false });
+  });
+
+  it('pads strings to the minimum length', () => {
+    const sample = sampleFromJsonSchema({ type: 'string', minLength: 20 }, 'note') as string;
+
+    expect(sample.startsWith('Sample note')).toBe(true);
+    expect(sample).toHaveLength(20);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  benjaminiHochberg,
+  normalPValue,
+  studentTPValue,
+  welchTTest,
+} from '../statistics';
+
+describe('studentTPValue', () => {
+  it('matches two-tailed t-table values', () => {
+    expect(studentTPValue(2.228, 10)).toBeCloseTo(0.05, 3);
+    expect(studentTPValue(2.015, 5)).toBeCloseTo(0.1, 3);
+    expect(studentTPValue(3.169, 10)).toBeCloseTo(0.01, 3);
+  });
+
+  it('is symmetric in t and equals 1 at zero', () => {
+    expect(studentTPValue(-2.228, 10)).toBeCloseTo(studentTPValue(2.228, 10), 10);
+    expect(studentTPValue(0, 10)).toBeCloseTo(1, 10);
+  });
+
+  it('approaches the normal distribution for large df', () => {
+    expect(studentTPValue(1.96, 100000)).toBeCloseTo(normalPValue(1.96), 3);
+    expect(normalPValue(1.96)).toBeCloseTo(0.05, 3);
+  });
+});
+
+describe('welchTTest', () => {
+  it('computes t and Welch–Satterthwaite df for unequal variances', () => {
+    const result = welchTTest([1, 2, 3, 4, 5], [2, 4, 6, 8, 10]);
+
+    expect(result).not.toBeNull();
+    expect(result!.statistic).toBeCloseTo(-1.8974, 4);
+    expect(result!.df).toBeCloseTo(5.882, 3);
+    expect(result!.pValue).toBeCloseTo(studentTPValue(-1.8974, 5.882), 4);
+  });
+
+  it('returns null for samples too small or without variance', () => {
+    expect(welchTTest([1], [2, 3])).toBeNull();
+    expect(welchTTest([4, 4, 4], [4, 4, 4])).toBeNull();
+  });
+});
+
+describe('benjaminiHochberg', () => {
+  it('adjusts p-values step-up and keeps the input order', () => {
+    const adjusted = benjaminiHochberg([0.01, 0.04, 0.03, 0.005]);
+
+    expect(adjusted[0]).toBeCloseTo(0.02, 10);
+    expect(adjusted[1]).toBeCloseTo(0.04, 10);
+    expect(adjusted[2]).toBeCloseTo(0.04, 10);
+    expect(adjusted[3]).toBeCloseTo(0.02, 10);
+  });
+
+  it('never adjusts above 1 and handles an empty family', () => {
+    expect(benjaminiHochberg([0.9, 0.8])).toEqual([0.9, 0.9]);
+    expect(benjaminiHochberg([0.6, 0.7, 0.99]).every(q => q <= 1)).toBe(true);
+    expect(benjaminiHochberg([])).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { encryptField, decryptField } from './toastEncryption';
+
+/**
+ * Clover POS Credential Encryption Utilities
+ * Same AES-256-GCM field format as the Toast credentials
+ */
+
+/**
+ * Encrypt Clover credentials (merchant OAuth access token)
+ */
+export function encryptCloverCredentials(credentials: {
+  accessToken: string;
+  merchantId: string;
+}) {
+  return {
+    accessToken: encryptField(credentials.accessToken),
+    merchantId: credentials.merchantId // Merchant ID doesn't need encryption (not sensitive)
+  };
+}
+
+/**
+ * Decrypt Clover credentials
+ */
+export function decryptCloverCredentials(encryptedData: {
+  encryptedAccessToken?: string;
+  locationId?: string;
+}): {
+  accessToken: string;
+  merchantId: string;
+} {
+  const missing: string[] = [];
+  if (!encryptedData.encryptedAccessToken) missing.push('encryptedAccessToken');
+  if (!encryptedData.locationId) missing.push('locationId');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required Clover credentials: ${missing.join(', ')}`);
+  }
+
+  return {
+    accessToken: decryptField(encryptedData.encryptedAccessToken!),
+    merchantId: encryptedData.locationId!
+  };
+}
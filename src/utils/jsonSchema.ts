@@ -0,0 +1,128 @@
+/**
+ * Minimal JSON Schema support
+ *
+ * Covers the subset we use to describe and check structured LLM output:
+ * type, properties, required, items, enum, minimum/maximum,
+ * minItems/maxItems and minLength.
+ */
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+}
+
+/**
+ * Validate a value against a schema. Returns one message per violation
+ * (empty when valid), each prefixed with the JSON path.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key}: required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected array`];
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: expected at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path}: expected at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+      }
+      break;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path}: expected string`];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path}: expected at least ${schema.minLength} characters`);
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !isFinite(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [`${path}: expected ${schema.type}`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return [`${path}: expected boolean`];
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Smallest value that satisfies a schema (first enum value, minimums,
+ * minItems entries). Deterministic - used by offline stand-ins for services
+ * that return schema-shaped JSON.
+ */
+export function sampleFromJsonSchema(schema: JsonSchema, name: string = 'value'): unknown {
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, propertySchema]) => [key, sampleFromJsonSchema(propertySchema, key)])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(1, schema.minItems || 0) }, () =>
+        sampleFromJsonSchema(schema.items || { type: 'string' }, name)
+      );
+    case 'string':
+      return `Sample ${name}`.padEnd(schema.minLength || 0, '.');
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+  }
+}
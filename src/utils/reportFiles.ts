@@ -0,0 +1,131 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Helpers for reading POS report exports (ZIP archives of CSV files)
+ */
+
+export interface IReportFile {
+  name: string;
+  data: Buffer;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Extract the files in a ZIP archive (stored or deflated entries only).
+ * Directories and macOS resource forks are skipped.
+ */
+export function extractZipEntries(archive: Buffer): IReportFile[] {
+  // End of central directory record sits in the last 22 bytes + up to 64KB of comment
+  let eocdOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 65557); i--) {
+    if (archive.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocdOffset = i;
+      break;
+    }
+  }
+
+  if (eocdOffset === -1) {
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = archive.readUInt16LE(eocdOffset + 10);
+  let offset = archive.readUInt32LE(eocdOffset + 16);
+  const files: IReportFile[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) {
+      continue;
+    }
+
+    if (archive.readUInt32LE(localHeaderOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid ZIP archive: corrupt entry ${name}`);
+    }
+
+    const dataStart = localHeaderOffset + 30 +
+      archive.readUInt16LE(localHeaderOffset + 26) +
+      archive.readUInt16LE(localHeaderOffset + 28);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.push({ name, data: Buffer.from(raw) });
+    } else if (method === 8) {
+      files.push({ name, data: inflateRawSync(raw) });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parse CSV text into objects keyed by the header row.
+ * Handles quoted fields, escaped quotes, CRLF line endings and a UTF-8 BOM.
+ */
+export function parseCSV(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...dataRows] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map(key => key.trim());
+  return dataRows.map(cells =>
+    Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? '').trim()]))
+  );
+}
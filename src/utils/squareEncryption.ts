@@ -0,0 +1,48 @@
+import { encryptField, decryptField } from './toastEncryption';
+
+/**
+ * Square POS Credential Encryption Utilities
+ * Same AES-256-GCM field format as the Toast credentials
+ */
+
+/**
+ * Encrypt Square credentials (OAuth or personal access token)
+ */
+export function encryptSquareCredentials(credentials: {
+  accessToken: string;
+  refreshToken?: string;
+  locationId: string;
+}) {
+  return {
+    accessToken: encryptField(credentials.accessToken),
+    refreshToken: credentials.refreshToken ? encryptField(credentials.refreshToken) : undefined,
+    locationId: credentials.locationId // Location ID doesn't need encryption (not sensitive)
+  };
+}
+
+/**
+ * Decrypt Square credentials
+ */
+export function decryptSquareCredentials(encryptedData: {
+  encryptedAccessToken?: string;
+  encryptedRefreshToken?: string;
+  locationId?: string;
+}): {
+  accessToken: string;
+  refreshToken?: string;
+  locationId: string;
+} {
+  const missing: string[] = [];
+  if (!encryptedData.encryptedAccessToken) missing.push('encryptedAccessToken');
+  if (!encryptedData.locationId) missing.push('locationId');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required Square credentials: ${missing.join(', ')}`);
+  }
+
+  return {
+    accessToken: decryptField(encryptedData.encryptedAccessToken!),
+    refreshToken: encryptedData.encryptedRefreshToken ? decryptField(encryptedData.encryptedRefreshToken) : undefined,
+    locationId: encryptedData.locationId!
+  };
+}
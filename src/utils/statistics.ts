@@ -0,0 +1,365 @@
+/**
+ * Statistical helpers for significance testing.
+ * Pure functions - no dependencies, deterministic (bootstrap uses a seeded RNG
+ * so re-running an analysis on the same data gives the same intervals).
+ */
+
+export interface ITestResult {
+  statistic: number; // t or z
+  df: number; // Degrees of freedom (Infinity for z-tests)
+  pValue: number; // Two-tailed
+}
+
+export interface IInterval {
+  lower: number;
+  upper: number;
+  level: number; // e.g. 0.95
+}
+
+const BOOTSTRAP_ITERATIONS = 1000;
+const BOOTSTRAP_SEED = 0x5eed;
+
+// Lanczos approximation (g=7, n=9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+  9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  x -= 1;
+  let a = LANCZOS[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) {
+    a += LANCZOS[i] / (x + i);
+  }
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const MAX_ITERATIONS = 300;
+  const EPSILON = 3e-14;
+  const TINY = 1e-300;
+
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // The continued fraction converges fastest on this side of the mean
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(a, b, x)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/**
+ * Two-tailed p-value of a t statistic with df degrees of freedom
+ */
+export function studentTPValue(t: number, df: number): number {
+  if (!isFinite(t)) return 0;
+  if (df <= 0) return 1;
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Two-tailed p-value of a standard normal z statistic
+ */
+export function normalPValue(z: number): number {
+  // erfc via Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7)
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return Math.min(1, poly * Math.exp(-x * x));
+}
+
+/**
+ * Significance of a Pearson correlation r over n pairs (t-test, df = n - 2)
+ */
+export function pearsonTest(r: number, n: number): ITestResult {
+  const df = n - 2;
+  if (Math.abs(r) >= 1) {
+    return { statistic: Math.sign(r) * Infinity, df, pValue: 0 };
+  }
+  const t = r * Math.sqrt(df / (1 - r * r));
+  return { statistic: t, df, pValue: studentTPValue(t, df) };
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (values.length - 1);
+}
+
+/**
+ * Welch's unequal-variance t-test of mean(a) vs mean(b).
+ * Null when either group has fewer than 2 values or both have no variance.
+ */
+export function welchTTest(a: number[], b: number[]): ITestResult | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const va = variance(a) / a.length;
+  const vb = variance(b) / b.length;
+  const se = Math.sqrt(va + vb);
+  if (se === 0) return null;
+
+  const t = (mean(a) - mean(b)) / se;
+  // Welch–Satterthwaite
+  const df = ((va + vb) * (va + vb)) /
+    ((va * va) / (a.length - 1) + (vb * vb) / (b.length - 1));
+
+  return { statistic: t, df, pValue: studentTPValue(t, df) };
+}
+
+/**
+ * Effect-size r from a t statistic (point-biserial correlation)
+ */
+export function tToCorrelation(t: number, df: number): number {
+  if (!isFinite(t)) return Math.sign(t);
+  return t / Math.sqrt(t * t + df);
+}
+
+/**
+ * Two-proportion z-test: successes x1 of n1 vs x2 of n2
+ */
+export function twoProportionZTest(x1: number, n1: number, x2: number, n2: number): ITestResult | null {
+  if (n1 === 0 || n2 === 0) return null;
+
+  const pooled = (x1 + x2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return null;
+
+  const z = (x1 / n1 - x2 / n2) / se;
+  return { statistic: z, df: Infinity, pValue: normalPValue(z) };
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Percentile bootstrap interval for a statistic of one or more independent
+ * samples (each group is resampled with replacement on its own)
+ */
+export function bootstrapInterval(
+  groups: number[][],
+  statistic: (resampled: number[][]) => number,
+  options: { iterations?: number; level?: number; seed?: number } = {}
+): IInterval | null {
+  const iterations = options.iterations ?? BOOTSTRAP_ITERATIONS;
+  const level = options.level ?? 0.95;
+  const random = createSeededRandom(options.seed ?? BOOTSTRAP_SEED);
+
+  if (groups.some(group => group.length === 0)) return null;
+
+  const estimates: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const resampled = groups.map(group =>
+      group.map(() => group[Math.floor(random() * group.length)])
+    );
+    const value = statistic(resampled);
+    if (isFinite(value)) {
+      estimates.push(value);
+    }
+  }
+
+  if (estimates.length < iterations / 2) return null;
+
+  estimates.sort((x, y) => x - y);
+  const tail = (1 - level) / 2;
+  const at = (q: number) => estimates[Math.min(estimates.length - 1, Math.max(0, Math.floor(q * estimates.length)))];
+
+  return { lower: at(tail), upper: at(1 - tail), level };
+}
+
+/**
+ * Percentage change of mean(treatment) over mean(control)
+ */
+export function percentChange(treatment: number[], control: number[]): number {
+  return ((mean(treatment) - mean(control)) / mean(control)) * 100;
+}
+
+/**
+ * Bootstrap interval on percentChange(treatment, control)
+ */
+export function bootstrapPercentChange(treatment: number[], control: number[], level: number = 0.95): IInterval | null {
+  return bootstrapInterval([treatment, control], ([t, c]) => percentChange(t, c), { level });
+}
+
+/**
+ * Benjamini–Hochberg adjusted p-values (q-values), in input order.
+ * Rejecting q <= alpha controls the false discovery rate at alpha.
+ */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  // Step-up: running minimum from the largest p-value down
+  let running = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, i } = order[rank - 1];
+    running = Math.min(running, (p * m) / rank);
+    adjusted[i] = running;
+  }
+
+  return adjusted;
+}
+
+/**
+ * 95% interval on the % lift of proportion x1/n1 over x2/n2
+ * (log risk-ratio interval; closed-form where bootstrapping unit-level
+ * proportions would be wasteful)
+ */
+export function percentLiftInterval(x1: number, n1: number, x2: number, n2: number): IInterval | null {
+  if (x1 === 0 || x2 === 0 || n1 === 0 || n2 === 0) return null;
+
+  const logRatio = Math.log((x1 / n1) / (x2 / n2));
+  const se = Math.sqrt(1 / x1 - 1 / n1 + 1 / x2 - 1 / n2);
+  const z = 1.959964;
+
+  return {
+    lower: (Math.exp(logRatio - z * se) - 1) * 100,
+    upper: (Math.exp(logRatio + z * se) - 1) * 100,
+    level: 0.95
+  };
+}
+
+export interface ILinearFit {
+  intercept: number;
+  slope: number;
+  slopeStdError: number;
+  residualStdError: number;
+}
+
+/**
+ * Ordinary least squares fit of y = intercept + slope * x.
+ * Null with fewer than 3 points or no spread in x.
+ */
+export function linearRegression(x: number[], y: number[]): ILinearFit | null {
+  const n = x.length;
+  if (n < 3 || y.length !== n) return null;
+
+  const mx = mean(x);
+  const my = mean(y);
+  const sxx = x.reduce((sum, v) => sum + (v - mx) * (v - mx), 0);
+  if (sxx === 0) return null;
+
+  const sxy = x.reduce((sum, v, i) => sum + (v - mx) * (y[i] - my), 0);
+  const slope = sxy / sxx;
+  const intercept = my - slope * mx;
+
+  const sse = x.reduce((sum, v, i) => {
+    const residual = y[i] - (intercept + slope * v);
+    return sum + residual * residual;
+  }, 0);
+  const residualStdError = Math.sqrt(sse / (n - 2));
+
+  return { intercept, slope, slopeStdError: residualStdError / Math.sqrt(sxx), residualStdError };
+}
+
+/**
+ * Least squares coefficients for y ≈ X·β (rows of X are observations;
+ * include a column of 1s for an intercept). A small ridge penalty keeps
+ * near-collinear regressors from blowing up. Null if the system is singular.
+ */
+export function leastSquares(X: number[][], y: number[], ridge: number = 1e-6): number[] | null {
+  const p = X[0]?.length || 0;
+  if (p === 0 || X.length < p) return null;
+
+  // Normal equations (XᵀX + λI)β = Xᵀy, augmented for elimination
+  const a: number[][] = Array.from({ length: p }, (_, i) => {
+    const row = Array.from({ length: p }, (_, j) =>
+      X.reduce((sum, r) => sum + r[i] * r[j], 0) + (i === j ? ridge : 0)
+    );
+    row.push(X.reduce((sum, r, k) => sum + r[i] * y[k], 0));
+    return row;
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < p; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < p; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < p; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= p; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const beta = new Array<number>(p).fill(0);
+  for (let row = p - 1; row >= 0; row--) {
+    let sum = a[row][p];
+    for (let k = row + 1; k < p; k++) {
+      sum -= a[row][k] * beta[k];
+    }
+    beta[row] = sum / a[row][row];
+  }
+
+  return beta;
+}
@@ -0,0 +1,58 @@
+/**
+ * Timezone helpers for restaurant-local calendar dates.
+ * Dates are YYYY-MM-DD strings in the restaurant's IANA timezone.
+ */
+
+// YYYY-MM-DD of an instant in a timezone (en-CA formats that way)
+export function toLocalDate(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+// UTC instant of local midnight for a YYYY-MM-DD date in a timezone
+export function localMidnightUtc(localDate: string, timezone: string): Date {
+  const [year, month, day] = localDate.split('-').map(Number);
+  let guess = Date.UTC(year, month - 1, day);
+
+  // Two passes settle DST transitions
+  for (let i = 0; i < 2; i++) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).formatToParts(new Date(guess));
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asLocal = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+    guess -= asLocal - Date.UTC(year, month - 1, day);
+  }
+
+  return new Date(guess);
+}
+
+export function addDays(localDate: string, days: number): string {
+  const date = new Date(`${localDate}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// Local YYYY-MM-DD and hour (0-23) of an instant in a timezone
+export function toLocalDateHour(date: Date, timezone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, hour: Number(get('hour')) };
+}
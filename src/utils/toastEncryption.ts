@@ -18,7 +18,7 @@ function getEncryptionKey(): Buffer {
 /**
  * Encrypt a single field using AES-256-GCM
  */
-function encryptField(text: string): string {
+export function encryptField(text: string): string {
   const key = getEncryptionKey();
   const iv = crypto.randomBytes(16);
   const cipher = crypto.createCipheriv(algorithm, key, iv);
@@ -35,7 +35,7 @@ function encryptField(text: string): string {
 /**
  * Decrypt a single field using AES-256-GCM
  */
-function decryptField(encryptedData: string): string {
+export function decryptField(encryptedData: string): string {
   const key = getEncryptionKey();
   const parts = encryptedData.split(':');
 
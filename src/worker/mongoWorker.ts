@@ -16,15 +16,20 @@ import {
   updateJobProgress,
   completeJob,
   failJob,
+  saveJobCheckpoint,
+  releaseJob,
+  recoverStaleJobs,
 } from '../lib/mongoQueue';
 import Restaurant from '../models/Restaurant';
-import { SmartToastSync } from '../services/SmartToastSync';
-import { ToastConfigService } from '../services/ToastConfigService';
-import { decryptToastCredentials } from '../utils/toastEncryption';
+import { getPOSAdapter } from '../services/POSAdapter';
+import { autoSyncScheduler } from '../services/AutoSyncScheduler';
 
 const POLL_INTERVAL = 5000; // Poll every 5 seconds
 const MAX_RETRIES = 3;
 
+// Job currently being processed, released back to the queue on shutdown
+let currentJobId: string | null = null;
+
 /**
  * Process a sync job
  */
@@ -33,6 +38,9 @@ async function processSyncJob() {
     // Connect to MongoDB
     await connectDB();
 
+    // Jobs orphaned by a crashed worker go back to pending first
+    await recoverStaleJobs();
+
     // Get next pending job
     const job = await getNextJob();
 
@@ -41,7 +49,13 @@ async function processSyncJob() {
       return false;
     }
 
-    console.log(`🔄 Processing sync job ${job.jobId} for restaurant ${job.restaurantId}`);
+    currentJobId = job.jobId;
+
+    if (job.checkpoint?.rangeStart) {
+      console.log(`🔄 Resuming sync job ${job.jobId} for restaurant ${job.restaurantId} at window ${job.checkpoint.windowIndex + 1}/${job.checkpoint.totalWindows}`);
+    } else {
+      console.log(`🔄 Processing sync job ${job.jobId} for restaurant ${job.restaurantId}`);
+    }
 
     const startTime = Date.now();
 
@@ -52,72 +66,48 @@ async function processSyncJob() {
         throw new Error(`Restaurant not found: ${job.restaurantId}`);
       }
 
-      // Get credentials from restaurant config
-      if (!restaurant.posConfig?.clientId || !restaurant.posConfig?.encryptedClientSecret || !restaurant.posConfig?.locationId) {
-        throw new Error('Toast credentials not configured');
-      }
-
-      const credentials = decryptToastCredentials({
-        clientId: restaurant.posConfig.clientId,
-        encryptedClientSecret: restaurant.posConfig.encryptedClientSecret,
-        locationId: restaurant.posConfig.locationId
+      // Dispatch to the adapter for this job's POS type
+      const adapter = await getPOSAdapter(job.posType);
+
+      // Plain copies - the adapter shouldn't hold on to mongoose subdocuments
+      const { options, checkpoint } = job.toObject();
+
+      const result = await adapter.syncRestaurant(
+        String(job.restaurantId),
+        {
+          ...options,
+          checkpoint: checkpoint?.rangeStart ? checkpoint : undefined,
+          onCheckpoint: (checkpoint) => saveJobCheckpoint(job.jobId, checkpoint)
+        },
+        async (progress) => {
+          console.log(`📊 Progress: ${progress.currentChunk}/${progress.totalChunks} (${progress.percentComplete?.toFixed(1)}%)`);
+
+          await updateJobProgress(job.jobId, {
+            currentPage: progress.currentChunk,
+            totalPages: progress.totalChunks,
+            ordersProcessed: progress.totalImported,
+            estimatedTotal: progress.transactionsImported,
+            percentComplete: progress.percentComplete
+          });
+        }
+      );
+
+      console.log(`✅ ${job.posType} sync completed for restaurant ${job.restaurantId}`);
+      console.log(`📊 Imported ${result.ordersImported} orders in ${result.totalChunks} chunks`);
+
+      const duration = Date.now() - startTime;
+
+      // Complete the job
+      await completeJob(job.jobId, {
+        ordersImported: result.ordersImported,
+        ordersFailed: result.ordersFailed,
+        totalPages: result.totalChunks,
+        duration,
+        startDate: result.startDate,
+        endDate: result.endDate
       });
 
-      // Process based on POS type
-      if (job.posType === 'toast') {
-        const smartSync = new SmartToastSync();
-
-        let lastProgress: any = {};
-
-        // Run the sync with progress callback
-        await smartSync.smartSync(
-          String(job.restaurantId),
-          async (progress) => {
-            console.log(`📊 Progress: ${progress.currentChunk}/${progress.totalChunks} (${progress.percentComplete?.toFixed(1)}%)`);
-
-            lastProgress = progress;
-
-            await updateJobProgress(job.jobId, {
-              currentPage: progress.currentChunk,
-              totalPages: progress.totalChunks,
-              ordersProcessed: progress.totalImported,
-              estimatedTotal: progress.transactionsImported,
-              percentComplete: progress.percentComplete
-            });
-          }
-        );
-
-        console.log(`✅ Toast sync completed for restaurant ${job.restaurantId}`);
-        console.log(`📊 Imported ${lastProgress.totalImported || 0} orders in ${lastProgress.totalChunks || 0} chunks`);
-
-        // Fetch restaurant configuration (timezone, service areas, etc.)
-        console.log(`🔧 Fetching restaurant configuration...`);
-        const configService = new ToastConfigService();
-        await configService.fetchAllConfig(String(job.restaurantId));
-        console.log(`✅ Configuration fetched and cached`);
-
-        // Mark restaurant as connected and update last sync time
-        restaurant.posConfig.isConnected = true;
-        restaurant.posConfig.lastSyncAt = new Date();
-        await restaurant.save();
-
-        const duration = Date.now() - startTime;
-
-        // Complete the job
-        await completeJob(job.jobId, {
-          ordersImported: lastProgress.totalImported || 0,
-          ordersFailed: 0,
-          totalPages: lastProgress.totalChunks || 0,
-          duration,
-          startDate: lastProgress.chunkStartDate || new Date(),
-          endDate: lastProgress.chunkEndDate || new Date()
-        });
-
-        console.log(`✅ Job ${job.jobId} completed in ${duration}ms`);
-
-      } else {
-        throw new Error(`${job.posType} integration not yet implemented`);
-      }
+      console.log(`✅ Job ${job.jobId} completed in ${duration}ms`);
 
       return true;
 
@@ -128,6 +118,8 @@ async function processSyncJob() {
       await failJob(job.jobId, error instanceof Error ? error : new Error(String(error)));
 
       return true;
+    } finally {
+      currentJobId = null;
     }
 
   } catch (error) {
@@ -149,12 +141,27 @@ async function startWorker() {
     if (isShuttingDown) return;
     isShuttingDown = true;
     console.log('\n👋 Shutting down worker...');
+    autoSyncScheduler.stop();
+
+    // Hand the in-flight job back so the next worker resumes from its checkpoint
+    if (currentJobId) {
+      try {
+        await releaseJob(currentJobId);
+      } catch (error) {
+        console.error('Failed to release job on shutdown:', error);
+      }
+    }
+
     process.exit(0);
   };
 
   process.on('SIGTERM', shutdown);
   process.on('SIGINT', shutdown);
 
+  // Enqueue hourly/daily syncs per posConfig.syncInterval
+  await connectDB();
+  autoSyncScheduler.start();
+
   // Main worker loop
   while (!isShuttingDown) {
     try {